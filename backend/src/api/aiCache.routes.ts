@@ -0,0 +1,14 @@
+// src/api/aiCache.routes.ts
+import { Router } from 'express';
+import { getAiCacheStatsController, clearAiCacheController, deleteAiCacheEntryController } from '../controllers/aiCache.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// Cache compartilhado das descrições e treinamentos de idade (apenas administradores)
+router.get('/ai-cache', authMiddleware, adminMiddleware, getAiCacheStatsController);
+router.delete('/ai-cache', authMiddleware, adminMiddleware, clearAiCacheController);
+router.delete('/ai-cache/:entryId', authMiddleware, adminMiddleware, deleteAiCacheEntryController);
+
+export default router;
@@ -0,0 +1,16 @@
+// src/api/brandTones.routes.ts
+import { Router } from 'express';
+import { getBrandTonesController, saveBrandToneController, deleteBrandToneController } from '../controllers/brandTones.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// Tom de voz das marcas, usado nos textos de e-commerce (qualquer usuário)
+router.get('/brand-tones', authMiddleware, getBrandTonesController);
+
+// Gestão dos tons de voz (apenas administradores)
+router.put('/brand-tones', authMiddleware, adminMiddleware, saveBrandToneController);
+router.delete('/brand-tones/:toneId', authMiddleware, adminMiddleware, deleteBrandToneController);
+
+export default router;
@@ -0,0 +1,17 @@
+// src/api/budgets.routes.ts
+import { Router } from 'express';
+import { getBudgetsController, getBudgetStatusController, setBudgetController, deleteBudgetController } from '../controllers/budgets.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// Situação do orçamento do usuário logado (qualquer usuário)
+router.get('/budgets/status', authMiddleware, getBudgetStatusController);
+
+// Gestão dos orçamentos mensais (apenas administradores)
+router.get('/budgets', authMiddleware, adminMiddleware, getBudgetsController);
+router.put('/budgets/:scope/:targetId', authMiddleware, adminMiddleware, setBudgetController);
+router.delete('/budgets/:scope/:targetId', authMiddleware, adminMiddleware, deleteBudgetController);
+
+export default router;
\ No newline at end of file
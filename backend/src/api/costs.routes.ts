@@ -1,6 +1,6 @@
 // src/api/costs.routes.ts
 import { Router } from 'express';
-import { getCostsController } from '../controllers/costs.controller';
+import { getCostsController, importCostsController, rejectCostsController } from '../controllers/costs.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -8,4 +8,10 @@ const router = Router();
 // Esta linha define a rota e a protege.
 router.get('/costs', authMiddleware, getCostsController);
 
+// Importação única dos registros de custo antigos (IndexedDB)
+router.post('/costs/import', authMiddleware, importCostsController);
+
+// Candidatos de geração descartados pelo usuário
+router.post('/costs/rejections', authMiddleware, rejectCostsController);
+
 export default router;
\ No newline at end of file
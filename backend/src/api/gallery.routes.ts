@@ -1,7 +1,8 @@
 // src/api/gallery.routes.ts
 import { Router } from 'express';
-import { getGalleryItemsController, createFolderController, uploadImageController, getPathController, getAllFilesController, findOrCreateTrashFolderController, deleteItemsController, renameItemController, moveItemsController } from '../controllers/gallery.controller';
+import { getGalleryItemsController, createFolderController, uploadImageController, getPathController, getLineageController, getAllFilesController, findOrCreateTrashFolderController, deleteItemsController, restoreItemsController, purgeTrashController, renameItemController, moveItemsController } from '../controllers/gallery.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
 import { upload } from '../middleware/upload.middleware';
 
 const router = Router();
@@ -28,15 +29,24 @@ router.post('/gallery/upload',
 // Obter o caminho de uma pasta
 router.get('/gallery/path', getPathController);
 
+// Obter a linhagem de uma imagem (cadeia até a foto de origem)
+router.get('/gallery/item/:itemId/lineage', getLineageController);
+
 // Obter todos os arquivos da galeria
 router.get('/gallery/all-files', getAllFilesController);
 
 // Encontrar ou criar a pasta da lixeira
 router.post('/gallery/trash-folder', findOrCreateTrashFolderController);
 
-// Deletar itens
+// Deletar itens (move para a lixeira ou apaga definitivamente se já estiverem nela)
 router.delete('/gallery/items', deleteItemsController);
 
+// Restaurar itens da lixeira
+router.put('/gallery/restore', restoreItemsController);
+
+// Esvaziar a lixeira manualmente (itens além do prazo de retenção)
+router.post('/gallery/trash/purge', adminMiddleware, purgeTrashController);
+
 // Renomear um item
 router.put('/gallery/item/:itemId/rename', renameItemController);
 
@@ -1,17 +1,48 @@
 // src/api/gemini.routes.ts
 import { Router } from 'express';
-import { generateContentController, describeClothingController } from '../controllers/gemini.controller';
+import {
+    generateContentController, describeClothingController, generateCopyController, enhanceImageController, editImageController,
+    poseVariationController, expandImageController, trainAgeController, generateModelImageController,
+    findDifferencesController, applyCorrectionController,
+} from '../controllers/gemini.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { budgetMiddleware } from '../middleware/budget.middleware';
 
 const router = Router();
 
-// Todas as rotas do gemini são protegidas
-router.use(authMiddleware);
+// Todas as rotas do gemini são protegidas e respeitam o orçamento mensal.
+// Os middlewares ficam em cada rota: um router.use aqui valeria para todos os routers montados em /api depois deste.
+const billable = [authMiddleware, budgetMiddleware];
 
 // Rota principal para geração de conteúdo
-router.post('/gemini/generate', generateContentController);
+router.post('/gemini/generate', ...billable, generateContentController);
 
 // Rota para descrição de roupas
-router.post('/gemini/describe', describeClothingController);
+router.post('/gemini/describe', ...billable, describeClothingController);
 
-export default router;
\ No newline at end of file
+// Textos de e-commerce a partir da descrição estruturada
+router.post('/gemini/copy', ...billable, generateCopyController);
+
+// Aprimorar e aumentar a resolução de uma imagem
+router.post('/gemini/enhance', ...billable, enhanceImageController);
+
+// Editar uma região da imagem (retoque por máscara ou hotspot)
+router.post('/gemini/edit', ...billable, editImageController);
+
+// Gerar uma variação de pose
+router.post('/gemini/pose', ...billable, poseVariationController);
+
+// Expandir a imagem (outpainting)
+router.post('/gemini/expand', ...billable, expandImageController);
+
+// Treinar o agente de idade
+router.post('/gemini/train-age', ...billable, trainAgeController);
+
+// Gerar a foto do modelo vestindo a roupa
+router.post('/gemini/model', ...billable, generateModelImageController);
+
+// Controle de qualidade: encontrar diferenças e aplicar correção
+router.post('/gemini/differences', ...billable, findDifferencesController);
+router.post('/gemini/correction', ...billable, applyCorrectionController);
+
+export default router;
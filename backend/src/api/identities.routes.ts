@@ -0,0 +1,22 @@
+// src/api/identities.routes.ts
+import { Router } from 'express';
+import { getIdentitiesController, createIdentityController, updateIdentityController, deleteIdentityController } from '../controllers/identities.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { upload } from '../middleware/upload.middleware';
+import { MAX_IDENTITY_IMAGES } from '../services/identity.service';
+
+const router = Router();
+
+// Fotos de rosto e de corpo enviadas junto com os dados da identidade
+const identityUpload = upload.fields([
+    { name: 'faces', maxCount: MAX_IDENTITY_IMAGES },
+    { name: 'bodies', maxCount: MAX_IDENTITY_IMAGES },
+]);
+
+// Identidades de modelo ("casting") compartilhadas pela equipe
+router.get('/identities', authMiddleware, getIdentitiesController);
+router.post('/identities', authMiddleware, identityUpload, createIdentityController);
+router.put('/identities/:identityId', authMiddleware, identityUpload, updateIdentityController);
+router.delete('/identities/:identityId', authMiddleware, deleteIdentityController);
+
+export default router;
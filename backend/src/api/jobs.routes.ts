@@ -0,0 +1,28 @@
+// src/api/jobs.routes.ts
+import { Router } from 'express';
+import {
+    createJobController, uploadJobReferencesController, uploadJobItemFilesController, startJobController,
+    getJobsController, getJobController, cancelJobController, streamJobEventsController,
+} from '../controllers/jobs.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { budgetMiddleware } from '../middleware/budget.middleware';
+import { upload } from '../middleware/upload.middleware';
+import { REFERENCE_ROLES } from '../services/batch.service';
+
+const router = Router();
+
+// Lotes processados no servidor: cria o rascunho, envia os arquivos e inicia
+router.post('/jobs', authMiddleware, createJobController);
+router.post('/jobs/:jobId/references', authMiddleware, upload.fields(REFERENCE_ROLES.map(name => ({ name, maxCount: 1 }))), uploadJobReferencesController);
+router.post('/jobs/:jobId/items/:itemId/files', authMiddleware, upload.array('files'), uploadJobItemFilesController);
+router.post('/jobs/:jobId/start', authMiddleware, budgetMiddleware, startJobController);
+
+// Consulta e cancelamento
+router.get('/jobs', authMiddleware, getJobsController);
+router.get('/jobs/:jobId', authMiddleware, getJobController);
+router.post('/jobs/:jobId/cancel', authMiddleware, cancelJobController);
+
+// Progresso em tempo real (Server-Sent Events)
+router.get('/jobs/:jobId/events', authMiddleware, streamJobEventsController);
+
+export default router;
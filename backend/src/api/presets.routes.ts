@@ -0,0 +1,27 @@
+// src/api/presets.routes.ts
+import { Router } from 'express';
+import {
+    getPresetsController, createPresetController, savePresetVersionController, updatePresetController,
+    getPresetVersionsController, restorePresetVersionController, deletePresetController,
+} from '../controllers/presets.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { upload } from '../middleware/upload.middleware';
+import { REFERENCE_ROLES } from '../services/batch.service';
+
+const router = Router();
+
+// Uma imagem de referência por papel, junto com os ajustes do preset
+const referencesUpload = upload.fields(REFERENCE_ROLES.map(name => ({ name, maxCount: 1 })));
+
+// Presets de lote: do usuário (privados) ou compartilhados com a equipe
+router.get('/presets', authMiddleware, getPresetsController);
+router.post('/presets', authMiddleware, referencesUpload, createPresetController);
+router.put('/presets/:presetId', authMiddleware, referencesUpload, savePresetVersionController);
+router.patch('/presets/:presetId', authMiddleware, updatePresetController);
+router.delete('/presets/:presetId', authMiddleware, deletePresetController);
+
+// Histórico de versões
+router.get('/presets/:presetId/versions', authMiddleware, getPresetVersionsController);
+router.post('/presets/:presetId/versions/:version/restore', authMiddleware, restorePresetVersionController);
+
+export default router;
@@ -0,0 +1,15 @@
+// src/api/products.routes.ts
+import { Router } from 'express';
+import { getProductsController, getProductController, recordProductController, updateProductController } from '../controllers/products.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { upload } from '../middleware/upload.middleware';
+
+const router = Router();
+
+// Catálogo de produtos (SKU + marca) com as fotos de entrada, a descrição e as imagens geradas
+router.get('/products', authMiddleware, getProductsController);
+router.get('/products/:productId', authMiddleware, getProductController);
+router.post('/products', authMiddleware, upload.fields([{ name: 'inputs', maxCount: 20 }]), recordProductController);
+router.patch('/products/:productId', authMiddleware, updateProductController);
+
+export default router;
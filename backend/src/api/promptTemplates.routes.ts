@@ -0,0 +1,18 @@
+// src/api/promptTemplates.routes.ts
+import { Router } from 'express';
+import {
+  activatePromptTemplateVersionController,
+  getPromptTemplatesController,
+  savePromptTemplateVersionController,
+} from '../controllers/promptTemplates.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// Templates de prompt da IA: edição, histórico e rollback (apenas administradores)
+router.get('/prompt-templates', authMiddleware, adminMiddleware, getPromptTemplatesController);
+router.put('/prompt-templates/:key', authMiddleware, adminMiddleware, savePromptTemplateVersionController);
+router.post('/prompt-templates/:key/activate', authMiddleware, adminMiddleware, activatePromptTemplateVersionController);
+
+export default router;
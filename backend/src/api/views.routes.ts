@@ -0,0 +1,17 @@
+// src/api/views.routes.ts
+import { Router } from 'express';
+import { getViewsController, createViewController, updateViewController, deleteViewController } from '../controllers/views.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// Catálogo de vistas de saída do lote (qualquer usuário)
+router.get('/views', authMiddleware, getViewsController);
+
+// Gestão do catálogo (apenas administradores)
+router.post('/views', authMiddleware, adminMiddleware, createViewController);
+router.put('/views/:viewId', authMiddleware, adminMiddleware, updateViewController);
+router.delete('/views/:viewId', authMiddleware, adminMiddleware, deleteViewController);
+
+export default router;
@@ -0,0 +1,15 @@
+// src/api/vocabularies.routes.ts
+import { Router } from 'express';
+import { getVocabulariesController, saveVocabularyController } from '../controllers/vocabularies.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// Vocabulários de atributos da descrição das peças (qualquer usuário)
+router.get('/vocabularies', authMiddleware, getVocabulariesController);
+
+// Gestão dos termos e sinônimos (apenas administradores)
+router.put('/vocabularies/:vocabularyId', authMiddleware, adminMiddleware, saveVocabularyController);
+
+export default router;
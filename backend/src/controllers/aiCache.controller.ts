@@ -0,0 +1,41 @@
+// src/controllers/aiCache.controller.ts
+import { Request, Response } from 'express';
+import { getAiCacheStats, invalidateAiCache, isAiCacheKind } from '../services/aiCache.service';
+
+// Entradas e acertos do cache de IA por tipo (admin)
+export const getAiCacheStatsController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await getAiCacheStats());
+  } catch (error) {
+    console.error("Erro ao buscar o cache de IA:", error);
+    res.status(500).json({ message: 'Erro ao buscar o cache de IA.' });
+  }
+};
+
+// Limpa o cache de IA inteiro, ou só um tipo com ?kind=describe|training (admin)
+export const clearAiCacheController = async (req: Request, res: Response) => {
+  try {
+    const { kind } = req.query;
+    if (kind !== undefined && !isAiCacheKind(kind)) {
+      return res.status(400).json({ message: "kind deve ser 'describe' ou 'training'." });
+    }
+    const removed = await invalidateAiCache({ kind });
+    res.status(200).json({ removed });
+  } catch (error) {
+    console.error("Erro ao limpar o cache de IA:", error);
+    res.status(500).json({ message: 'Erro ao limpar o cache de IA.' });
+  }
+};
+
+// Remove uma entrada do cache de IA pela chave (admin)
+export const deleteAiCacheEntryController = async (req: Request, res: Response) => {
+  try {
+    if ((await invalidateAiCache({ key: req.params.entryId })) === 0) {
+      return res.status(404).json({ message: 'Entrada de cache não encontrada.' });
+    }
+    res.status(200).json({ removed: 1 });
+  } catch (error) {
+    console.error("Erro ao remover entrada do cache de IA:", error);
+    res.status(500).json({ message: 'Erro ao remover entrada do cache de IA.' });
+  }
+};
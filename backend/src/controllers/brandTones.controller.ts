@@ -0,0 +1,56 @@
+// src/controllers/brandTones.controller.ts
+import { Request, Response } from 'express';
+import { BrandToneFields, isCopyLanguage, listBrandTones, saveBrandTone, deleteBrandTone } from '../services/brandTone.service';
+
+const TEXT_FIELDS = ['voice', 'audience', 'preferredTerms', 'avoidTerms'] as const;
+
+// Lista o tom de voz de todas as marcas (qualquer usuário)
+export const getBrandTonesController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await listBrandTones());
+  } catch (error) {
+    console.error("Erro ao buscar tons de voz:", error);
+    res.status(500).json({ message: 'Erro ao buscar tons de voz.' });
+  }
+};
+
+// Cria ou substitui o tom de voz de uma marca (admin)
+export const saveBrandToneController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { brand, languages } = req.body;
+    if (typeof brand !== 'string' || !brand.trim()) {
+      return res.status(400).json({ message: 'brand é obrigatório.' });
+    }
+    if (!Array.isArray(languages) || languages.length === 0 || !languages.every(isCopyLanguage)) {
+      return res.status(400).json({ message: "languages deve ter ao menos um entre 'pt-BR', 'en' e 'es'." });
+    }
+
+    const fields: BrandToneFields = { brand: brand.trim(), languages, voice: '', audience: '', preferredTerms: '', avoidTerms: '' };
+    for (const field of TEXT_FIELDS) {
+      const value = req.body[field];
+      if (value !== undefined && typeof value !== 'string') {
+        return res.status(400).json({ message: `${field} deve ser um texto.` });
+      }
+      fields[field] = (value || '').trim();
+    }
+
+    res.status(200).json(await saveBrandTone(fields, uid));
+  } catch (error) {
+    console.error("Erro ao salvar tom de voz:", error);
+    res.status(500).json({ message: 'Erro ao salvar tom de voz.' });
+  }
+};
+
+// Remove o tom de voz de uma marca (admin)
+export const deleteBrandToneController = async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteBrandTone(req.params.toneId))) {
+      return res.status(404).json({ message: 'Tom de voz não encontrado.' });
+    }
+    res.status(200).json({ message: 'Tom de voz removido com sucesso.' });
+  } catch (error) {
+    console.error("Erro ao remover tom de voz:", error);
+    res.status(500).json({ message: 'Erro ao remover tom de voz.' });
+  }
+};
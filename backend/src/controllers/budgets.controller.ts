@@ -0,0 +1,70 @@
+// src/controllers/budgets.controller.ts
+import { Request, Response } from 'express';
+import {
+  DEFAULT_SOFT_THRESHOLD, isBudgetScope, listBudgetStatuses, getApplicableBudgetStatuses, setBudget, deleteBudget,
+} from '../services/budget.service';
+
+// Lista todos os orçamentos e o gasto do mês (admin)
+export const getBudgetsController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await listBudgetStatuses());
+  } catch (error) {
+    console.error("Erro ao buscar orçamentos:", error);
+    res.status(500).json({ message: 'Erro ao buscar orçamentos.' });
+  }
+};
+
+// Situação dos orçamentos do usuário logado (e do projeto informado, se houver)
+export const getBudgetStatusController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { projectId } = req.query;
+
+    res.status(200).json(await getApplicableBudgetStatuses(uid, projectId as string | undefined));
+  } catch (error) {
+    console.error("Erro ao buscar situação do orçamento:", error);
+    res.status(500).json({ message: 'Erro ao buscar situação do orçamento.' });
+  }
+};
+
+// Cria ou atualiza o orçamento mensal de um usuário ou projeto (admin)
+export const setBudgetController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { scope, targetId } = req.params;
+    const { monthlyLimit, softThreshold = DEFAULT_SOFT_THRESHOLD } = req.body;
+
+    if (!isBudgetScope(scope)) {
+      return res.status(400).json({ message: "scope deve ser 'user' ou 'project'." });
+    }
+    if (typeof monthlyLimit !== 'number' || monthlyLimit < 0) {
+      return res.status(400).json({ message: 'monthlyLimit deve ser um número maior ou igual a zero.' });
+    }
+    if (typeof softThreshold !== 'number' || softThreshold <= 0 || softThreshold > 1) {
+      return res.status(400).json({ message: 'softThreshold deve estar entre 0 e 1.' });
+    }
+
+    const status = await setBudget({ scope, targetId, monthlyLimit, softThreshold }, uid);
+    console.log(`Orçamento de ${scope} ${targetId} definido para US$ ${monthlyLimit} por ${uid}`);
+    res.status(200).json(status);
+  } catch (error) {
+    console.error("Erro ao salvar orçamento:", error);
+    res.status(500).json({ message: 'Erro ao salvar orçamento.' });
+  }
+};
+
+// Remove o orçamento (o usuário ou projeto volta a não ter limite) (admin)
+export const deleteBudgetController = async (req: Request, res: Response) => {
+  try {
+    const { scope, targetId } = req.params;
+    if (!isBudgetScope(scope)) {
+      return res.status(400).json({ message: "scope deve ser 'user' ou 'project'." });
+    }
+
+    await deleteBudget(scope, targetId);
+    res.status(200).json({ message: 'Orçamento removido com sucesso.' });
+  } catch (error) {
+    console.error("Erro ao remover orçamento:", error);
+    res.status(500).json({ message: 'Erro ao remover orçamento.' });
+  }
+};
@@ -1,16 +1,40 @@
 // src/controllers/costs.controller.ts
 import { Request, Response } from 'express';
 import { db } from '../services/firebase';
-import { Query, DocumentData } from 'firebase-admin/firestore';
+import { COSTS_COLLECTION, markCostsRejected } from '../services/cost.service';
+import { Query, DocumentData, Timestamp } from 'firebase-admin/firestore';
+
+// Limite de escritas por lote do Firestore
+const BATCH_LIMIT = 500;
+
+// Marca, por usuário, que a importação única dos custos locais já foi feita
+const COST_IMPORTS_COLLECTION = 'cost_imports';
+
+// Código gRPC do Firestore para documento já existente
+const ALREADY_EXISTS = 6;
+
+// Registro importado válido: custo finito e não negativo, datado no passado
+const isValidImportedLog = (log: any, uid: string, role: string, now: number) =>
+  log && log.id !== undefined && log.userId
+  && typeof log.cost === 'number' && Number.isFinite(log.cost) && log.cost >= 0
+  && typeof log.timestamp === 'number' && Number.isFinite(log.timestamp) && log.timestamp > 0 && log.timestamp <= now
+  && (role === 'admin' || log.userId === uid);
 
 export const getCostsController = async (req: Request, res: Response) => {
   try {
-    const { uid } = (req as any).user; // Usuário logado
-    const { projectId } = req.query; // Filtro opcional
+    const { uid, role } = (req as any).user; // Usuário logado
+    const { projectId, userId } = req.query; // Filtros opcionais
 
-    console.log(`Buscando custos para o usuário ${uid}`);
+    // Admins veem os custos de todos (ou de um usuário específico); os demais, apenas os próprios
+    const targetUid = role === 'admin' ? (userId as string | undefined) : uid;
 
-    let query: Query<DocumentData> = db.collection('costs').where('uid', '==', uid);
+    console.log(`Buscando custos para ${targetUid ? `o usuário ${targetUid}` : 'todos os usuários'}`);
+
+    let query: Query<DocumentData> = db.collection(COSTS_COLLECTION);
+
+    if (targetUid) {
+      query = query.where('uid', '==', targetUid);
+    }
 
     if (projectId) {
       console.log(`Filtrando por projeto: ${projectId}`);
@@ -23,10 +47,16 @@ export const getCostsController = async (req: Request, res: Response) => {
       return res.status(200).json([]);
     }
 
-    const costs = snapshot.docs.map((doc: DocumentData) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const costs = snapshot.docs.map((doc: DocumentData) => {
+      const { uid: ownerUid, createdAt, ...data } = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        userId: ownerUid,
+        // O serverTimestamp pode ainda não estar resolvido logo após a escrita
+        timestamp: createdAt instanceof Timestamp ? createdAt.toMillis() : Date.now(),
+      };
+    });
 
     res.status(200).json(costs);
 
@@ -34,4 +64,88 @@ export const getCostsController = async (req: Request, res: Response) => {
     console.error("Erro ao buscar custos:", error);
     res.status(500).json({ message: 'Erro ao buscar custos.' });
   }
-};
\ No newline at end of file
+};
+
+// Grava os registros importados em lotes, com a data original de cada um
+const writeImportedLogs = async (validLogs: any[]) => {
+  for (let start = 0; start < validLogs.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    for (const log of validLogs.slice(start, start + BATCH_LIMIT)) {
+      // O id é determinístico para que uma importação repetida não duplique registros
+      const ref = db.collection(COSTS_COLLECTION).doc(`import_${log.userId}_${log.id}`);
+      batch.set(ref, {
+        uid: log.userId,
+        projectId: log.projectId || 'root',
+        imageName: log.imageName || '',
+        operation: log.operation,
+        model: null,
+        cost: log.cost,
+        details: log.details || null,
+        source: 'import',
+        createdAt: Timestamp.fromMillis(log.timestamp),
+      });
+    }
+    await batch.commit();
+  }
+};
+
+// Importa (uma única vez) os registros de custo que estavam no IndexedDB do navegador
+export const importCostsController = async (req: Request, res: Response) => {
+  try {
+    const { uid, role } = (req as any).user;
+    const { logs } = req.body;
+
+    if (!Array.isArray(logs)) {
+      return res.status(400).json({ message: 'logs deve ser uma lista.' });
+    }
+
+    // Usuários comuns só podem importar os próprios registros
+    const now = Date.now();
+    const validLogs = logs.filter((log: any) => isValidImportedLog(log, uid, role, now));
+
+    // A importação é única por usuário; create() falha se a marca já existir
+    const markerRef = db.collection(COST_IMPORTS_COLLECTION).doc(uid);
+    try {
+      await markerRef.create({ importedAt: Timestamp.fromMillis(now), count: validLogs.length });
+    } catch (error: any) {
+      if (error?.code === ALREADY_EXISTS) {
+        return res.status(409).json({ message: 'Os custos locais deste usuário já foram importados.' });
+      }
+      throw error;
+    }
+
+    try {
+      await writeImportedLogs(validLogs);
+    } catch (error) {
+      // Sem a gravação dos registros, a importação pode ser tentada de novo
+      await markerRef.delete().catch(() => undefined);
+      throw error;
+    }
+
+    console.log(`${validLogs.length} registros de custo importados por ${uid}.`);
+    res.status(200).json({ imported: validLogs.length, skipped: logs.length - validLogs.length });
+
+  } catch (error) {
+    console.error("Erro ao importar custos:", error);
+    res.status(500).json({ message: 'Erro ao importar custos.' });
+  }
+};
+
+// Marca os custos de candidatos descartados (geração com vários candidatos por vista)
+export const rejectCostsController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { costIds } = req.body;
+
+    if (!Array.isArray(costIds) || !costIds.every(id => typeof id === 'string' && id) || costIds.length > BATCH_LIMIT) {
+      return res.status(400).json({ message: `costIds deve ser uma lista de até ${BATCH_LIMIT} IDs.` });
+    }
+
+    const updated = await markCostsRejected(uid, costIds);
+    res.status(200).json({ updated });
+
+  } catch (error) {
+    console.error("Erro ao marcar custos descartados:", error);
+    res.status(500).json({ message: 'Erro ao marcar custos descartados.' });
+  }
+};
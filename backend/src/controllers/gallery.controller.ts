@@ -3,9 +3,8 @@ import { Request, Response } from 'express';
 import { db, storage } from '../services/firebase';
 import { FieldValue, DocumentData } from 'firebase-admin/firestore';
 import { v4 as uuidv4 } from 'uuid';
-
-// Helper para gerar URL pública de um arquivo no Cloud Storage
-const getPublicUrl = (bucketName: string, fileName: string) => `https://storage.googleapis.com/${bucketName}/${fileName}`;
+import { saveToStorage } from '../services/gallery.service';
+import { findOrCreateTrashFolder, getTrashRetentionDays, softDeleteItem, restoreItem, detachFromDeletedFolder, hardDeleteItem, purgeExpiredTrash } from '../services/trash.service';
 
 // Lista itens de uma pasta
 export const getGalleryItemsController = async (req: Request, res: Response) => {
@@ -93,30 +92,69 @@ export const createFolderController = async (req: Request, res: Response) => {
     }
 };
 
+// Converte o campo 'metadata' do formulário (JSON) em objeto
+const parseMetadata = (raw: unknown): Record<string, string> | null => {
+    if (!raw) return null;
+    if (typeof raw === 'object') return raw as Record<string, string>;
+    try {
+        const parsed = JSON.parse(String(raw));
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+        console.warn("Metadados inválidos recebidos no upload. Ignorando.");
+        return null;
+    }
+};
+
+// Versões de template de prompt usadas para gerar a imagem (lista JSON de ids)
+const parsePromptVersions = (raw: unknown): string[] => {
+    if (!raw) return [];
+    try {
+        const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        return Array.isArray(parsed) ? parsed.filter((version): version is string => typeof version === 'string') : [];
+    } catch {
+        console.warn("Versões de prompt inválidas recebidas no upload. Ignorando.");
+        return [];
+    }
+};
+
 // Lida com o upload de uma imagem
 export const uploadImageController = async (req: Request, res: Response) => {
     try {
         const { uid } = (req as any).user;
-        const { parentId, name } = req.body;
+        const { parentId, name, parentImageId, operation, prompt } = req.body;
 
         if (!req.files || !('image' in req.files)) {
             return res.status(400).json({ message: 'Nenhum arquivo de imagem enviado.' });
         }
 
-        const imageFile = (req.files as any).image[0];
-        const bucket = storage.bucket(); // Usa o bucket padrão configurado
+        const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+        const imageFile = files.image[0];
+        const originalFile = files.originalImage?.[0];
+
+        // A imagem de origem precisa pertencer ao mesmo usuário
+        if (parentImageId) {
+            const parentImage = await getGalleryItemById(parentImageId);
+            if (!parentImage || parentImage.uid !== uid) {
+                return res.status(400).json({ message: 'parentImageId inválido.' });
+            }
+        }
 
-        // Define o caminho do arquivo no Storage
+        // Define o caminho do arquivo no Storage e faz o upload
         const fileName = `${uid}/${uuidv4()}-${imageFile.originalname.replace(/\s/g, '_')}`;
-        const file = bucket.file(fileName);
+        const url = await saveToStorage(fileName, imageFile.buffer, imageFile.mimetype);
+
+        // Guarda a foto original (antes da edição) para comparação
+        let originalFields = {};
+        if (originalFile) {
+            const originalFileName = `${uid}/originals/${uuidv4()}-${originalFile.originalname.replace(/\s/g, '_')}`;
+            originalFields = {
+                originalUrl: await saveToStorage(originalFileName, originalFile.buffer, originalFile.mimetype),
+                originalStoragePath: originalFileName,
+            };
+        }
 
-        // Faz o upload do buffer da imagem
-        await file.save(imageFile.buffer, {
-            metadata: {
-                contentType: imageFile.mimetype,
-            },
-        });
-        await file.makePublic();
+        const metadata = parseMetadata(req.body.metadata);
+        const promptVersions = parsePromptVersions(req.body.promptVersions);
 
         // Cria o registro no Firestore
         const newImage = {
@@ -124,8 +162,15 @@ export const uploadImageController = async (req: Request, res: Response) => {
             name: name || imageFile.originalname,
             parentId: parentId || 'root', // Default to 'root' if no parentId is provided
             type: 'file',
-            url: getPublicUrl(bucket.name, fileName),
+            url,
             storagePath: fileName,
+            ...originalFields,
+            ...(metadata ? { metadata } : {}),
+            // Linhagem: de qual imagem esta foi gerada, com qual operação e prompt
+            parentImageId: parentImageId || null,
+            operation: operation || null,
+            prompt: prompt || null,
+            ...(promptVersions.length ? { promptVersions } : {}),
             createdAt: FieldValue.serverTimestamp(),
         };
 
@@ -187,6 +232,36 @@ export const getPathController = async (req: Request, res: Response) => {
     }
 };
 
+// Obtém a linhagem de uma imagem (da imagem atual até a foto de origem)
+export const getLineageController = async (req: Request, res: Response) => {
+    try {
+        const { uid } = (req as any).user;
+        const { itemId } = req.params;
+
+        const lineage: DocumentData[] = [];
+        const visited = new Set<string>();
+        let currentId: string | null = itemId;
+
+        while (currentId && !visited.has(currentId)) {
+            visited.add(currentId);
+            const item = await getGalleryItemById(currentId);
+            if (!item || item.uid !== uid) break;
+            lineage.push(item);
+            currentId = item.parentImageId || null;
+        }
+
+        if (lineage.length === 0) {
+            return res.status(404).json({ message: 'Item não encontrado ou não autorizado.' });
+        }
+
+        res.status(200).json(lineage);
+
+    } catch (error) {
+        console.error("Erro ao obter a linhagem da imagem:", error);
+        res.status(500).json({ message: 'Erro ao obter a linhagem da imagem.' });
+    }
+};
+
 // Obtém todos os arquivos da galeria para um usuário específico.
 export const getAllFilesController = async (req: Request, res: Response) => {
     try {
@@ -212,7 +287,10 @@ export const getAllFilesController = async (req: Request, res: Response) => {
 
         const snapshot = await query.orderBy('createdAt', 'desc').get();
 
-        const files = snapshot.docs.map((doc: DocumentData) => ({ id: doc.id, ...doc.data() }));
+        // Arquivos na lixeira não entram nos filtros da galeria
+        const files = snapshot.docs
+            .map((doc: DocumentData) => ({ id: doc.id, ...doc.data() }))
+            .filter((file: DocumentData) => !file.deletedAt);
 
         res.status(200).json(files);
 
@@ -226,38 +304,12 @@ export const getAllFilesController = async (req: Request, res: Response) => {
 export const findOrCreateTrashFolderController = async (req: Request, res: Response) => {
     try {
         const { uid } = (req as any).user;
-        const trashFolderName = 'Lixeira';
+        const { created, folder } = await findOrCreateTrashFolder(uid);
 
-        // Verifica se a pasta Lixeira já existe para este usuário
-        const query = db.collection('gallery')
-            .where('uid', '==', uid)
-            .where('name', '==', trashFolderName)
-            .where('type', '==', 'folder')
-            .limit(1);
-
-        const snapshot = await query.get();
-
-        if (!snapshot.empty) {
-            // Pasta encontrada, retorna-a
-            const existingFolder = snapshot.docs[0];
-            return res.status(200).json({ id: existingFolder.id, ...existingFolder.data() });
-        }
-
-        // Pasta não encontrada, cria uma nova
-        const newFolder = {
-            uid,
-            name: trashFolderName,
-            parentId: 'root', // Lixeira fica sempre na raiz
-            type: 'folder',
-            createdAt: FieldValue.serverTimestamp(),
-        };
-
-        const docRef = await db.collection('gallery').add(newFolder);
-
-        res.status(201).json({ 
-            id: docRef.id,
-            ...newFolder
-         });
+        res.status(created ? 201 : 200).json({
+            ...folder,
+            retentionDays: getTrashRetentionDays(),
+        });
 
     } catch (error) {
         console.error("Erro ao encontrar ou criar a pasta da lixeira:", error);
@@ -309,11 +361,33 @@ export const moveItemsController = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'IDs dos itens e pasta de destino são obrigatórios.' });
         }
 
+        const { folder: trashFolder } = await findOrCreateTrashFolder(uid);
+
+        // Arrastar para a lixeira equivale a apagar
+        if (destinationFolderId === trashFolder.id) {
+            for (const itemId of itemIds) {
+                await softDeleteItem(itemId, uid, trashFolder.id);
+            }
+            return res.status(200).json({ message: 'Itens movidos para a lixeira.' });
+        }
+
         const batch = db.batch();
-        itemIds.forEach((itemId: string) => {
+        for (const itemId of itemIds as string[]) {
             const itemRef = db.collection('gallery').doc(itemId);
+            const itemDoc = await itemRef.get();
+            if (!itemDoc.exists || itemDoc.data()?.uid !== uid) continue;
+
+            if (itemDoc.data()?.deletedAt) {
+                // Tirar da lixeira manualmente também restaura o item; um item apagado junto com a pasta
+                // perde as marcas de apagado, senão ficaria oculto na pasta de destino e fora da limpeza da lixeira
+                if (itemDoc.data()?.deletedWithId) {
+                    await detachFromDeletedFolder(itemId, uid);
+                } else {
+                    await restoreItem(itemId, uid);
+                }
+            }
             batch.update(itemRef, { parentId: destinationFolderId });
-        });
+        }
 
         await batch.commit();
 
@@ -325,48 +399,8 @@ export const moveItemsController = async (req: Request, res: Response) => {
     }
 };
 
-// Deleta uma pasta e todo o seu conteúdo recursivamente
-const deleteFolderRecursive = async (folderId: string, uid: string) => {
-    const batch = db.batch();
-    const bucket = storage.bucket();
-
-    // Encontra sub-pastas
-    const subFoldersSnapshot = await db.collection('gallery')
-        .where('uid', '==', uid)
-        .where('parentId', '==', folderId)
-        .where('type', '==', 'folder')
-        .get();
-
-    for (const doc of subFoldersSnapshot.docs) {
-        await deleteFolderRecursive(doc.id, uid);
-    }
-
-    // Encontra e deleta arquivos na pasta atual
-    const filesSnapshot = await db.collection('gallery')
-        .where('uid', '==', uid)
-        .where('parentId', '==', folderId)
-        .where('type', 'in', ['file', 'image'])
-        .get();
-
-    for (const doc of filesSnapshot.docs) {
-        const fileData = doc.data();
-        if (fileData.storagePath) {
-            // Deleta do Storage
-            await bucket.file(fileData.storagePath).delete().catch(err => console.error(`Falha ao deletar arquivo do storage: ${fileData.storagePath}`, err));
-        }
-        // Deleta do Firestore
-        batch.delete(doc.ref);
-    }
-
-    // Deleta a pasta atual do Firestore
-    const folderRef = db.collection('gallery').doc(folderId);
-    batch.delete(folderRef);
-
-    await batch.commit();
-};
-
-
-// Deleta itens (arquivos ou pastas)
+// Deleta itens (arquivos ou pastas).
+// Itens fora da lixeira são movidos para ela; itens que já estão na lixeira são apagados definitivamente.
 export const deleteItemsController = async (req: Request, res: Response) => {
     try {
         const { uid } = (req as any).user;
@@ -376,28 +410,20 @@ export const deleteItemsController = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Array de IDs de itens é obrigatório.' });
         }
 
-        const bucket = storage.bucket();
+        const { folder: trashFolder } = await findOrCreateTrashFolder(uid);
 
         for (const itemId of itemIds) {
-            const itemRef = db.collection('gallery').doc(itemId);
-            const itemDoc = await itemRef.get();
+            const itemDoc = await db.collection('gallery').doc(itemId).get();
 
-            if (!itemDoc.exists || itemDoc.data()?.uid !== uid) {
+            if (!itemDoc.exists || itemDoc.data()?.uid !== uid || itemId === trashFolder.id) {
                 console.warn(`Item ${itemId} não encontrado ou não autorizado para o usuário ${uid}. Pulando.`);
                 continue; // Pula para o próximo item
             }
 
-            const itemData = itemDoc.data();
-
-            if (itemData?.type === 'folder') {
-                // Se for uma pasta, deleta recursivamente
-                await deleteFolderRecursive(itemId, uid);
-            } else if (itemData?.type === 'file' || itemData?.type === 'image') {
-                // Se for um arquivo, deleta do Storage e do Firestore
-                if (itemData.storagePath) {
-                    await bucket.file(itemData.storagePath).delete().catch(err => console.error(`Falha ao deletar arquivo do storage: ${itemData.storagePath}`, err));
-                }
-                await itemRef.delete();
+            if (itemDoc.data()?.deletedAt) {
+                await hardDeleteItem(itemId, uid);
+            } else {
+                await softDeleteItem(itemId, uid, trashFolder.id);
             }
         }
 
@@ -407,4 +433,42 @@ export const deleteItemsController = async (req: Request, res: Response) => {
         console.error("Erro ao deletar itens:", error);
         res.status(500).json({ message: 'Erro ao deletar itens.' });
     }
-};
\ No newline at end of file
+};
+
+// Restaura itens da lixeira para a pasta de origem
+export const restoreItemsController = async (req: Request, res: Response) => {
+    try {
+        const { uid } = (req as any).user;
+        const { itemIds } = req.body;
+
+        if (!itemIds || !Array.isArray(itemIds)) {
+            return res.status(400).json({ message: 'Array de IDs de itens é obrigatório.' });
+        }
+
+        let restored = 0;
+        for (const itemId of itemIds) {
+            if (await restoreItem(itemId, uid)) {
+                restored++;
+            } else {
+                console.warn(`Item ${itemId} não está na lixeira ou não pertence ao usuário ${uid}. Pulando.`);
+            }
+        }
+
+        res.status(200).json({ message: 'Itens restaurados com sucesso.', restored });
+
+    } catch (error) {
+        console.error("Erro ao restaurar itens:", error);
+        res.status(500).json({ message: 'Erro ao restaurar itens.' });
+    }
+};
+
+// Esvazia a lixeira de todos os usuários (itens além do prazo de retenção)
+export const purgeTrashController = async (req: Request, res: Response) => {
+    try {
+        const purged = await purgeExpiredTrash();
+        res.status(200).json({ message: 'Lixeira esvaziada com sucesso.', purged });
+    } catch (error) {
+        console.error("Erro ao esvaziar a lixeira:", error);
+        res.status(500).json({ message: 'Erro ao esvaziar a lixeira.' });
+    }
+};
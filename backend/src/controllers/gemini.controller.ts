@@ -1,66 +1,57 @@
 // src/controllers/gemini.controller.ts
 import { Request, Response } from 'express';
-import { VertexAI, HarmCategory, HarmBlockThreshold } from '@google-cloud/vertexai';
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
-import { GoogleAuth } from 'google-auth-library';
-
-// Variável para cachear as credenciais da conta de serviço
-let serviceAccountCredentials: any | null = null;
+import { AiError } from '../services/ai';
+import {
+    CostContext, DescribeImage, InlineImage, isDescribeRole, enhanceImage, editImage, generatePoseVariation, expandImage,
+    trainAgeCharacteristics, generateContent, describeClothing, generateProductCopy, generateModelImage, findClothingDifferences, applyClothingCorrection,
+} from '../services/gemini.service';
+import { getBrandTone, isCopyLanguage } from '../services/brandTone.service';
+import { listVocabularies } from '../services/vocabulary.service';
+import { getIdentity, loadIdentityImages } from '../services/identity.service';
+import { resolveViewDefinition } from '../services/view.service';
 
 /**
- * Busca as credenciais da conta de serviço no Google Cloud Secret Manager.
- * Implementa um cache simples para evitar chamadas repetidas.
+ * Baixa uma imagem por URL e a converte para o formato inline aceito pelo provedor de IA.
  */
-async function getServiceAccountCredentials(): Promise<any> {
-  if (serviceAccountCredentials) {
-    return serviceAccountCredentials;
-  }
-
-  const secretName = process.env.GEMINI_SECRET_NAME || 'projects/estudioweb-ebc00/secrets/vitrine-web-api-key/versions/latest';
-
-  try {
-    console.log(`Buscando segredo: ${secretName}`);
-    const secretClient = new SecretManagerServiceClient();
-    const [version] = await secretClient.accessSecretVersion({ name: secretName }, { timeout: 120000 });
-    const secretString = version.payload?.data?.toString();
-
-    if (!secretString) {
-      throw new Error('Credenciais da conta de serviço não encontradas no Secret Manager.');
-    }
-
-    serviceAccountCredentials = JSON.parse(secretString);
-    console.log("Credenciais da conta de serviço carregadas com sucesso.");
-    return serviceAccountCredentials;
-
-  } catch (error) {
-    console.error("Falha ao buscar as credenciais da conta de serviço:", error);
-    throw new Error('Não foi possível carregar as credenciais da conta de serviço.');
-  }
-}
-
-/**
- * Converte uma URL de imagem para o formato de dados que o Gemini entende.
- */
-async function urlToGenerativePart(url: string, mimeType: string) {
+async function urlToInlineImage(url: string, mimeType: string): Promise<InlineImage> {
     const response = await fetch(url);
+    if (!response.ok) throw new Error(`Falha ao baixar a imagem (${response.status}).`);
     const buffer = await response.arrayBuffer();
-    return {
-        inlineData: {
-            data: Buffer.from(buffer).toString("base64"),
-            mimeType
-        },
-    };
+    return { data: Buffer.from(buffer).toString("base64"), mimeType };
 }
 
-// Helper para converter base64 para Generative Part
-function base64ToGenerativePart(base64Data: string, mimeType: string) {
+// Verifica se o corpo da requisição trouxe uma imagem válida
+const isInlineImage = (value: any): value is InlineImage =>
+    !!value && typeof value.data === 'string' && typeof value.mimeType === 'string';
+
+// Identifica quem paga a chamada e a que projeto/imagem ela pertence (para o livro de custos).
+// O projeto vem já validado e resolvido pelo budgetMiddleware, nunca direto do corpo da requisição.
+const getCostContext = (req: Request, defaultImageName: string): CostContext => {
+    const { imageName, details, brand } = req.body;
+    const projectId = (req as any).projectId;
     return {
-        inlineData: {
-            data: base64Data,
-            mimeType
-        }
+        uid: (req as any).user.uid,
+        projectId: typeof projectId === 'string' && projectId ? projectId : 'root',
+        imageName: typeof imageName === 'string' && imageName ? imageName : defaultImageName,
+        details: typeof details === 'string' && details ? details : undefined,
+        brand: typeof brand === 'string' && brand.trim() ? brand.trim() : undefined,
     };
-}
+};
+
+// Resposta padrão de erro para as rotas do Gemini (com a categoria quando o erro é tipado)
+const sendGeminiError = (res: Response, error: unknown, logMessage: string) => {
+    console.error(logMessage, error);
+    let errorMessage = 'Detalhes do erro desconhecidos.';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    } else if (typeof error === 'string') {
+        errorMessage = error;
+    }
+    if (error instanceof AiError) {
+        return res.status(error.httpStatus).json({ message: 'Erro ao se comunicar com a API do Gemini.', error: errorMessage, category: error.category });
+    }
+    res.status(500).json({ message: 'Erro ao se comunicar com a API do Gemini.', error: errorMessage });
+};
 
 export const generateContentController = async (req: Request, res: Response) => {
     try {
@@ -70,118 +61,228 @@ export const generateContentController = async (req: Request, res: Response) =>
             return res.status(400).json({ message: 'imageUrl, mimeType, e prompt são obrigatórios.' });
         }
 
-        const credentials = await getServiceAccountCredentials();
+        const image = await urlToInlineImage(imageUrl, mimeType);
+        const { text } = await generateContent(getCostContext(req, 'Conteúdo gerado'), image, prompt);
+
+        res.status(200).json({ text });
 
-        const vertex_ai = new VertexAI({
-            project: credentials.project_id,
-            location: 'us-central1', // You might need to adjust this location
-            googleAuthOptions: {
-                credentials,
-                scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao gerar conteúdo com Gemini:");
+    }
+};
+
+// Máximo de fotos por descrição (frente, costas, detalhes e total look)
+const MAX_DESCRIBE_IMAGES = 6;
+
+/**
+ * Descreve a peça a partir das fotos com papel (images: [{ role, data, mimeType }]).
+ * O formato antigo, com uma única foto (imageData + mimeType), é tratado como a frente.
+ */
+export const describeClothingController = async (req: Request, res: Response) => {
+    try {
+        const { images, imageData, mimeType } = req.body;
+
+        let describeImages: DescribeImage[];
+        if (Array.isArray(images)) {
+            if (images.length === 0 || images.length > MAX_DESCRIBE_IMAGES) {
+                return res.status(400).json({ message: `Envie de 1 a ${MAX_DESCRIBE_IMAGES} fotos em images.` });
             }
-        });
+            if (!images.every(entry => isInlineImage(entry) && isDescribeRole((entry as any).role))) {
+                return res.status(400).json({ message: "Cada foto precisa de data, mimeType e role ('front', 'back', 'detail' ou 'totalLook')." });
+            }
+            describeImages = images.map(({ role, data, mimeType: type }: any) => ({ role, image: { data, mimeType: type } }));
+        } else if (imageData && mimeType) {
+            describeImages = [{ role: 'front', image: { data: imageData, mimeType } }];
+        } else {
+            return res.status(400).json({ message: 'images (ou imageData e mimeType) é obrigatório.' });
+        }
 
-        const model = vertex_ai.getGenerativeModel({ model: 'gemini-pro-vision' });
+        const vocabularies = await listVocabularies();
+        const { description, fields } = await describeClothing(getCostContext(req, 'Descrição de roupa'), describeImages, vocabularies);
+        res.status(200).json({ description, fields });
 
-        const imagePart = await urlToGenerativePart(imageUrl, mimeType);
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao descrever roupa com Gemini:");
+    }
+};
 
-        const result = await model.generateContent({
-            contents: [
-                { role: 'user', parts: [{ text: prompt }, imagePart] }
-            ]
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+
+// Gera os textos de e-commerce (título, descrições, tópicos e SEO) com o tom de voz da marca
+export const generateCopyController = async (req: Request, res: Response) => {
+    try {
+        const { description, metadata, brand, languages } = req.body;
+
+        if (!isStringRecord(description) || Object.keys(description).length === 0) {
+            return res.status(400).json({ message: 'description é obrigatório.' });
+        }
+        if (metadata !== undefined && !isStringRecord(metadata)) {
+            return res.status(400).json({ message: 'metadata deve ser um objeto de textos.' });
+        }
+        if (languages !== undefined && (!Array.isArray(languages) || !languages.every(isCopyLanguage))) {
+            return res.status(400).json({ message: "languages deve conter apenas 'pt-BR', 'en' ou 'es'." });
+        }
+
+        const tone = typeof brand === 'string' ? await getBrandTone(brand) : null;
+        const requested = languages?.length ? languages : tone?.languages.length ? tone.languages : ['pt-BR'];
+        const { copy } = await generateProductCopy(getCostContext(req, 'Textos de e-commerce'), {
+            description,
+            metadata,
+            languages: requested,
+            tone: tone || (typeof brand === 'string' && brand.trim() ? { brand: brand.trim(), voice: '', audience: '', preferredTerms: '', avoidTerms: '' } : null),
         });
-        const response = result.response;
-        if (!response.candidates?.length) {
-            return res.status(500).json({ message: 'Nenhum candidato encontrado na resposta da API.' });
+        res.status(200).json(copy);
+
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao gerar textos de e-commerce com Gemini:");
+    }
+};
+
+// Aprimora e aumenta a resolução de uma imagem
+export const enhanceImageController = async (req: Request, res: Response) => {
+    try {
+        const { image } = req.body;
+        if (!isInlineImage(image)) {
+            return res.status(400).json({ message: 'image é obrigatório.' });
         }
-        const text = response.candidates[0].content.parts[0].text;
 
-        res.status(200).json({ text });
+        res.status(200).json(await enhanceImage(getCostContext(req, 'Imagem aprimorada'), image));
 
     } catch (error: unknown) {
-        console.error("Erro ao gerar conteúdo com Gemini:", error);
-        let errorMessage = 'Detalhes do erro desconhecidos.';
-        if (error instanceof Error) {
-            errorMessage = error.message;
-        } else if (typeof error === 'string') {
-            errorMessage = error;
+        sendGeminiError(res, error, "Erro ao aprimorar imagem com Gemini:");
+    }
+};
+
+// Edita uma região da imagem (por máscara ou hotspot)
+export const editImageController = async (req: Request, res: Response) => {
+    try {
+        const { image, prompt, mask, hotspot, imageWidth, imageHeight } = req.body;
+        if (!isInlineImage(image) || !prompt) {
+            return res.status(400).json({ message: 'image e prompt são obrigatórios.' });
+        }
+        if (!isInlineImage(mask) && !hotspot) {
+            return res.status(400).json({ message: 'É necessário fornecer um hotspot ou uma máscara para a edição.' });
         }
-        res.status(500).json({ message: 'Erro ao se comunicar com a API do Gemini.', error: errorMessage });
+
+        res.status(200).json(await editImage(getCostContext(req, 'Imagem editada'), {
+            image,
+            prompt,
+            mask: isInlineImage(mask) ? mask : null,
+            hotspot,
+            imageWidth,
+            imageHeight,
+        }));
+
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao editar imagem com Gemini:");
     }
 };
 
-export const describeClothingController = async (req: Request, res: Response) => {
+// Gera uma variação de pose
+export const poseVariationController = async (req: Request, res: Response) => {
     try {
-        const { imageData, mimeType } = req.body;
-        const { uid } = (req as any).user; // User ID from auth middleware
+        const { image } = req.body;
+        if (!isInlineImage(image)) {
+            return res.status(400).json({ message: 'image é obrigatório.' });
+        }
+
+        res.status(200).json(await generatePoseVariation(getCostContext(req, 'Variação de pose'), image));
 
-        if (!imageData || !mimeType) {
-            return res.status(400).json({ message: 'imageData e mimeType são obrigatórios.' });
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao gerar variação de pose com Gemini:");
+    }
+};
+
+// Expande a imagem preenchendo as áreas da máscara
+export const expandImageController = async (req: Request, res: Response) => {
+    try {
+        const { baseImage, maskImage } = req.body;
+        if (!isInlineImage(baseImage) || !isInlineImage(maskImage)) {
+            return res.status(400).json({ message: 'baseImage e maskImage são obrigatórios.' });
         }
 
-        const credentials = await getServiceAccountCredentials();
+        res.status(200).json(await expandImage(getCostContext(req, 'Imagem expandida'), baseImage, maskImage));
 
-        const vertex_ai = new VertexAI({
-            project: credentials.project_id,
-            location: 'us-central1', // You might need to adjust this location
-            googleAuthOptions: {
-                credentials,
-                scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-            }
-        });
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao expandir imagem com Gemini:");
+    }
+};
 
-        const model = vertex_ai.getGenerativeModel({ model: 'gemini-2.5-flash' }); // Using Flash for faster response
-
-        const imagePart = base64ToGenerativePart(imageData, mimeType);
-
-        const prompt = `Analise detalhadamente as imagens da peça de roupa fornecida, focando em todos os aspectos relevantes para uma descrição completa de e-commerce. Extraia as informações em formato JSON estruturado com as seguintes chaves: "Tipo de Peça", "Cores Principais", "Estampa/Padrão", "Tipo de Tecido", "Caimento", "Detalhes de Bolsos", "Tipo de Fechamento", "Decote", "Comprimento da Manga", "Detalhes Adicionais", "Transparência", "Ocasião Recomendada".
-- "Cores Principais": Liste todas as cores visíveis na peça, separadas por vírgula.
-- "Estampa/Padrão": Descreva o padrão de forma detalhada (ex: 'Listras finas verticais', 'Estampa floral com fundo escuro', 'Xadrez vichy'). Se não houver, indique 'Liso'.
-- "Tipo de Tecido": Identifique a textura e o material aparente (ex: 'Jeans com lavagem clara', 'Malha canelada de algodão', 'Seda sintética com brilho acetinado').
-- "Caimento": Descreva como a peça veste no corpo (ex: 'Justo ao corpo (slim fit)', 'Modelagem reta e solta', 'Oversized').
-- "Detalhes de Bolsos": Descreva a quantidade, tipo e localização dos bolsos (ex: 'Dois bolsos frontais tipo faca', 'Um bolso no peito com lapela', 'Nenhum bolso visível').
-- "Tipo de Fechamento": Descreva o método de fechamento da peça (ex: 'Fechamento frontal por botões', 'Zíper lateral invisível', 'Sem fechamento, peça de vestir').
-- "Detalhes Adicionais": Liste quaisquer outros detalhes relevantes como 'Babados na barra', 'Gola com nervuras', 'Bordado de logo no peito', 'Aplicações de lantejoulas'.
-- "Transparência": Avalie a transparência do tecido (ex: 'Nenhuma transparência', 'Levemente transparente', 'Totalmente transparente').
-- "Ocasião Recomendada": Sugira ocasiões de uso apropriadas (ex: 'Casual, dia a dia', 'Festa, eventos noturnos', 'Formal, ambiente de trabalho').`;
-
-        console.log("Chamando Gemini API para descrever roupa com:", { imagePart, prompt });
-        const result = await model.generateContent({
-            contents: [
-                { role: 'user', parts: [imagePart, { text: prompt }] }
-            ],
-            generationConfig: {
-                responseMimeType: 'application/json',
-            },
-            safetySettings: [
-                { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            ],
-        });
+// Treina o agente de idade (descrição das características físicas)
+export const trainAgeController = async (req: Request, res: Response) => {
+    try {
+        const { age } = req.body;
+        if (!age) {
+            return res.status(400).json({ message: 'age é obrigatório.' });
+        }
+
+        res.status(200).json(await trainAgeCharacteristics(getCostContext(req, 'AI Agent Training'), age));
 
-        if (!result.response.candidates?.length) {
-            return res.status(500).json({ message: 'Nenhum candidato encontrado na resposta da API.' });
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao treinar agente de idade com Gemini:");
+    }
+};
+
+// Gera a foto do modelo vestindo a roupa
+export const generateModelImageController = async (req: Request, res: Response) => {
+    try {
+        const params = req.body;
+        if (!Array.isArray(params.clothingImages) || !params.clothingImages.every(isInlineImage) || !params.age || !params.gender) {
+            return res.status(400).json({ message: 'clothingImages, age e gender são obrigatórios.' });
         }
-        const responseText = result.response.candidates[0].content.parts[0].text;
-        console.log("Resposta bruta da API do Gemini:", responseText);
 
-        if (typeof responseText !== 'string') {
-            throw new Error("A resposta da API Gemini não continha texto válido.");
+        // Identidade de modelo travada: as fotos do "casting" vão em todas as gerações
+        let identityImages: Awaited<ReturnType<typeof loadIdentityImages>> | undefined;
+        if (params.identityId) {
+            const identity = typeof params.identityId === 'string' ? await getIdentity(params.identityId) : null;
+            if (!identity) {
+                return res.status(400).json({ message: 'Identidade de modelo não encontrada.' });
+            }
+            identityImages = await loadIdentityImages(identity);
         }
-        const parsedResponse = JSON.parse(responseText);
 
-        res.status(200).json(parsedResponse);
+        // O enquadramento, a proporção e o foco nas costas vêm do catálogo de vistas
+        const view = typeof params.photoFraming === 'string' && params.photoFraming ? await resolveViewDefinition(params.photoFraming) : undefined;
+
+        res.status(200).json(await generateModelImage(getCostContext(req, 'Modelo gerado'), {
+            ...params,
+            identityFaces: identityImages?.faces,
+            identityBodies: identityImages?.bodies,
+            view,
+        }));
 
     } catch (error: unknown) {
-        console.error("Erro ao descrever roupa com Gemini:", error);
-        let errorMessage = 'Detalhes do erro desconhecidos.';
-        if (error instanceof Error) {
-            errorMessage = error.message;
-        } else if (typeof error === 'string') {
-            errorMessage = error;
+        sendGeminiError(res, error, "Erro ao gerar modelo com Gemini:");
+    }
+};
+
+// Encontra diferenças entre a peça original e a imagem gerada
+export const findDifferencesController = async (req: Request, res: Response) => {
+    try {
+        const { originalClothing, generatedImage, originalDescription } = req.body;
+        if (!isInlineImage(originalClothing) || !isInlineImage(generatedImage)) {
+            return res.status(400).json({ message: 'originalClothing e generatedImage são obrigatórios.' });
         }
-        res.status(500).json({ message: 'Erro ao se comunicar com a API do Gemini.', error: errorMessage });
+
+        res.status(200).json(await findClothingDifferences(getCostContext(req, 'Controle de qualidade'), originalClothing, generatedImage, originalDescription || ''));
+
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao comparar roupas com Gemini:");
+    }
+};
+
+// Aplica o plano de correção na imagem gerada
+export const applyCorrectionController = async (req: Request, res: Response) => {
+    try {
+        const { originalClothing, generatedImage, correctionPlan } = req.body;
+        if (!isInlineImage(originalClothing) || !isInlineImage(generatedImage) || !correctionPlan) {
+            return res.status(400).json({ message: 'originalClothing, generatedImage e correctionPlan são obrigatórios.' });
+        }
+
+        res.status(200).json(await applyClothingCorrection(getCostContext(req, 'Controle de qualidade'), originalClothing, generatedImage, correctionPlan));
+
+    } catch (error: unknown) {
+        sendGeminiError(res, error, "Erro ao aplicar correção com Gemini:");
     }
-};
\ No newline at end of file
+};
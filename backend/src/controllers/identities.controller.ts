@@ -0,0 +1,117 @@
+// src/controllers/identities.controller.ts
+import { Request, Response } from 'express';
+import {
+  MAX_IDENTITY_IMAGES, IdentityFields, IdentityUpload, ModelIdentity, isGender,
+  listIdentities, getIdentity, createIdentity, updateIdentity, deleteIdentity,
+} from '../services/identity.service';
+
+type UploadedFiles = { [fieldname: string]: Express.Multer.File[] } | undefined;
+
+const toUploads = (files: Express.Multer.File[] | undefined): IdentityUpload[] =>
+  (files || []).map(file => ({ buffer: file.buffer, mimeType: file.mimetype, originalName: file.originalname }));
+
+// O multer entrega os campos de texto como strings
+const readFields = (body: Record<string, unknown>): Partial<IdentityFields> => {
+  const fields: Partial<IdentityFields> = {};
+  if (typeof body.name === 'string') fields.name = body.name.trim();
+  if (isGender(body.gender)) fields.gender = body.gender;
+  if (typeof body.age === 'string') fields.age = body.age.trim();
+  if (typeof body.brand === 'string') fields.brand = body.brand.trim();
+  return fields;
+};
+
+// Só quem criou a identidade ou um administrador pode alterá-la
+const canManage = (req: Request, identity: ModelIdentity) => {
+  const { uid, role } = (req as any).user;
+  return identity.createdBy === uid || role === 'admin';
+};
+
+// Lista o "casting" da equipe (qualquer usuário)
+export const getIdentitiesController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await listIdentities());
+  } catch (error) {
+    console.error("Erro ao buscar identidades de modelo:", error);
+    res.status(500).json({ message: 'Erro ao buscar identidades de modelo.' });
+  }
+};
+
+// Cria uma identidade com as fotos de rosto e de corpo
+export const createIdentityController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const fields = readFields(req.body);
+    const files = req.files as UploadedFiles;
+    const faces = toUploads(files?.faces);
+    const bodies = toUploads(files?.bodies);
+
+    if (!fields.name || !fields.gender) {
+      return res.status(400).json({ message: 'name e gender são obrigatórios.' });
+    }
+    if (faces.length === 0) {
+      return res.status(400).json({ message: 'Envie ao menos uma foto de rosto.' });
+    }
+
+    const identity = await createIdentity(uid, { name: fields.name, gender: fields.gender, age: fields.age || '', brand: fields.brand || '' }, faces, bodies);
+    console.log(`Identidade de modelo ${identity.id} (${identity.name}) criada por ${uid}`);
+    res.status(201).json(identity);
+  } catch (error) {
+    console.error("Erro ao criar identidade de modelo:", error);
+    res.status(500).json({ message: 'Erro ao criar identidade de modelo.' });
+  }
+};
+
+// Atualiza os dados e as fotos de uma identidade
+export const updateIdentityController = async (req: Request, res: Response) => {
+  try {
+    const identity = await getIdentity(req.params.identityId);
+    if (!identity) {
+      return res.status(404).json({ message: 'Identidade de modelo não encontrada.' });
+    }
+    if (!canManage(req, identity)) {
+      return res.status(403).json({ message: 'Apenas quem criou a identidade ou um administrador pode alterá-la.' });
+    }
+
+    const fields = readFields(req.body);
+    if (fields.name === '') {
+      return res.status(400).json({ message: 'name não pode ficar vazio.' });
+    }
+    const files = req.files as UploadedFiles;
+    const removedPaths: string[] = req.body.removedPaths ? JSON.parse(req.body.removedPaths) : [];
+    const faces = toUploads(files?.faces);
+    const bodies = toUploads(files?.bodies);
+
+    const remainingFaces = identity.faceImages.filter(image => !removedPaths.includes(image.storagePath)).length + faces.length;
+    const remainingBodies = identity.bodyImages.filter(image => !removedPaths.includes(image.storagePath)).length + bodies.length;
+    if (remainingFaces === 0) {
+      return res.status(400).json({ message: 'A identidade precisa de ao menos uma foto de rosto.' });
+    }
+    if (remainingFaces > MAX_IDENTITY_IMAGES || remainingBodies > MAX_IDENTITY_IMAGES) {
+      return res.status(400).json({ message: `Máximo de ${MAX_IDENTITY_IMAGES} fotos de rosto e ${MAX_IDENTITY_IMAGES} de corpo.` });
+    }
+
+    res.status(200).json(await updateIdentity(identity, fields, faces, bodies, removedPaths));
+  } catch (error) {
+    console.error("Erro ao atualizar identidade de modelo:", error);
+    res.status(500).json({ message: 'Erro ao atualizar identidade de modelo.' });
+  }
+};
+
+// Remove a identidade e as suas fotos
+export const deleteIdentityController = async (req: Request, res: Response) => {
+  try {
+    const identity = await getIdentity(req.params.identityId);
+    if (!identity) {
+      return res.status(404).json({ message: 'Identidade de modelo não encontrada.' });
+    }
+    if (!canManage(req, identity)) {
+      return res.status(403).json({ message: 'Apenas quem criou a identidade ou um administrador pode removê-la.' });
+    }
+
+    await deleteIdentity(identity);
+    res.status(200).json({ message: 'Identidade removida com sucesso.' });
+  } catch (error) {
+    console.error("Erro ao remover identidade de modelo:", error);
+    res.status(500).json({ message: 'Erro ao remover identidade de modelo.' });
+  }
+};
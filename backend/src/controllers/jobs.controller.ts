@@ -0,0 +1,212 @@
+// src/controllers/jobs.controller.ts
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from '../services/firebase';
+import { BatchItemPlan, REFERENCE_ROLES, ReferenceRole, StoredFile } from '../services/batch.service';
+import {
+    BatchJob, createJob, getJob, getJobItem, getJobItems, listJobs, addJobReferences, addJobItemFiles, startJob, cancelJob, subscribeToJob,
+} from '../services/jobs.service';
+
+// Intervalo do comentário de keep-alive do SSE (evita que proxies fechem a conexão ociosa)
+const SSE_HEARTBEAT_MS = 25000;
+
+// Busca o lote garantindo que ele pertence ao usuário logado
+const getOwnedJob = async (req: Request, res: Response): Promise<BatchJob | null> => {
+    const { uid } = (req as any).user;
+    const job = await getJob(req.params.jobId);
+    if (!job || job.uid !== uid) {
+        res.status(404).json({ message: 'Lote não encontrado.' });
+        return null;
+    }
+    return job;
+};
+
+// Guarda um arquivo de entrada do lote no Storage (sem torná-lo público)
+const saveJobInput = async (path: string, file: Express.Multer.File): Promise<StoredFile> => {
+    const storagePath = `${path}/${uuidv4()}-${file.originalname.replace(/\s/g, '_')}`;
+    await storage.bucket().file(storagePath).save(file.buffer, { metadata: { contentType: file.mimetype } });
+    return { name: file.originalname, mimeType: file.mimetype, storagePath };
+};
+
+const isItemPlan = (value: any): value is BatchItemPlan =>
+    !!value
+    && typeof value.clientItemId === 'string'
+    && typeof value.baseName === 'string' && !!value.baseName
+    && (value.gender === 'male' || value.gender === 'female')
+    && typeof value.age === 'string'
+    && typeof value.scenePrompt === 'string'
+    && Array.isArray(value.views);
+
+// Cria um lote (rascunho) com os parâmetros de cada item
+export const createJobController = async (req: Request, res: Response) => {
+    try {
+        const { uid } = (req as any).user;
+        const { items } = req.body;
+
+        if (!Array.isArray(items) || items.length === 0) {
+            return res.status(400).json({ message: 'items deve ser uma lista não vazia.' });
+        }
+        if (!items.every(isItemPlan)) {
+            return res.status(400).json({ message: 'Um ou mais itens estão incompletos (baseName, gender, age, scenePrompt e views são obrigatórios).' });
+        }
+
+        const plans: BatchItemPlan[] = items.map(item => ({
+            ...item,
+            brand: typeof item.brand === 'string' ? item.brand : '',
+            targetDimensions: item.targetDimensions || { width: '', height: '' },
+        }));
+
+        res.status(201).json(await createJob(uid, plans));
+    } catch (error) {
+        console.error("Erro ao criar lote:", error);
+        res.status(500).json({ message: 'Erro ao criar lote.' });
+    }
+};
+
+// Recebe as imagens de referência do lote (modelo, cenário, caimento, peça complementar)
+export const uploadJobReferencesController = async (req: Request, res: Response) => {
+    try {
+        const job = await getOwnedJob(req, res);
+        if (!job) return;
+        if (job.status !== 'draft') {
+            return res.status(409).json({ message: 'O lote já foi iniciado.' });
+        }
+
+        const files = (req.files || {}) as { [fieldname: string]: Express.Multer.File[] };
+        const references: Partial<Record<ReferenceRole, StoredFile>> = {};
+        for (const role of REFERENCE_ROLES) {
+            const file = files[role]?.[0];
+            if (file) references[role] = await saveJobInput(`${job.uid}/jobs/${job.id}/references`, file);
+        }
+
+        await addJobReferences(job.id, references);
+        res.status(200).json({ references: Object.keys(references) });
+    } catch (error) {
+        console.error("Erro ao enviar referências do lote:", error);
+        res.status(500).json({ message: 'Erro ao enviar referências do lote.' });
+    }
+};
+
+// Recebe as fotos de um item do lote
+export const uploadJobItemFilesController = async (req: Request, res: Response) => {
+    try {
+        const job = await getOwnedJob(req, res);
+        if (!job) return;
+        if (job.status !== 'draft') {
+            return res.status(409).json({ message: 'O lote já foi iniciado.' });
+        }
+
+        const item = await getJobItem(job.id, req.params.itemId);
+        if (!item) {
+            return res.status(404).json({ message: 'Item não encontrado.' });
+        }
+
+        const uploaded = (req.files || []) as Express.Multer.File[];
+        if (uploaded.length === 0) {
+            return res.status(400).json({ message: 'Nenhum arquivo enviado.' });
+        }
+
+        const files = await Promise.all(uploaded.map(file => saveJobInput(`${job.uid}/jobs/${job.id}/${item.id}`, file)));
+        await addJobItemFiles(job.id, item.id, files);
+        res.status(200).json({ files: files.length });
+    } catch (error) {
+        console.error("Erro ao enviar arquivos do item:", error);
+        res.status(500).json({ message: 'Erro ao enviar arquivos do item.' });
+    }
+};
+
+// Coloca o lote na fila do servidor
+export const startJobController = async (req: Request, res: Response) => {
+    try {
+        const job = await getOwnedJob(req, res);
+        if (!job) return;
+        if (job.status !== 'draft') {
+            return res.status(409).json({ message: 'O lote já foi iniciado.' });
+        }
+
+        // Duas requisições simultâneas passam pela checagem acima: só a que vencer a transação inicia o lote
+        const started = await startJob(job.id);
+        if (!started) {
+            return res.status(409).json({ message: 'O lote já foi iniciado.' });
+        }
+        res.status(200).json(started);
+    } catch (error) {
+        console.error("Erro ao iniciar lote:", error);
+        res.status(500).json({ message: 'Erro ao iniciar lote.' });
+    }
+};
+
+// Lista os lotes recentes do usuário
+export const getJobsController = async (req: Request, res: Response) => {
+    try {
+        const { uid } = (req as any).user;
+        res.status(200).json(await listJobs(uid));
+    } catch (error) {
+        console.error("Erro ao buscar lotes:", error);
+        res.status(500).json({ message: 'Erro ao buscar lotes.' });
+    }
+};
+
+// Detalhes do lote e a situação de cada item
+export const getJobController = async (req: Request, res: Response) => {
+    try {
+        const job = await getOwnedJob(req, res);
+        if (!job) return;
+        res.status(200).json({ ...job, items: await getJobItems(job.id) });
+    } catch (error) {
+        console.error("Erro ao buscar lote:", error);
+        res.status(500).json({ message: 'Erro ao buscar lote.' });
+    }
+};
+
+export const cancelJobController = async (req: Request, res: Response) => {
+    try {
+        const job = await getOwnedJob(req, res);
+        if (!job) return;
+        if (job.status === 'done' || job.status === 'cancelled') {
+            return res.status(409).json({ message: 'O lote já terminou.' });
+        }
+
+        res.status(200).json(await cancelJob(job.id));
+    } catch (error) {
+        console.error("Erro ao cancelar lote:", error);
+        res.status(500).json({ message: 'Erro ao cancelar lote.' });
+    }
+};
+
+/**
+ * Acompanha o lote por Server-Sent Events.
+ * O primeiro evento ('snapshot') traz o lote e todos os itens; depois chegam eventos 'item' e 'job'
+ * a cada mudança de progresso, com as mesmas mensagens do processamento no navegador.
+ */
+export const streamJobEventsController = async (req: Request, res: Response) => {
+    try {
+        const job = await getOwnedJob(req, res);
+        if (!job) return;
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+
+        const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+        // Inscreve antes de ler o estado atual para não perder eventos entre as duas coisas
+        const unsubscribe = subscribeToJob(job.id, event => send(event.type, event.type === 'item' ? event.item : event.job));
+        const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+
+        send('snapshot', { ...job, items: await getJobItems(job.id) });
+    } catch (error) {
+        console.error("Erro ao acompanhar lote:", error);
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Erro ao acompanhar lote.' });
+        } else {
+            res.end();
+        }
+    }
+};
@@ -0,0 +1,179 @@
+// src/controllers/presets.controller.ts
+import { Request, Response } from 'express';
+import { REFERENCE_ROLES, ReferenceRole } from '../services/batch.service';
+import {
+  BatchPreset, ReferenceUpload, isPresetVisibility, canReadPreset,
+  listPresets, getPreset, createPreset, savePresetVersion, listPresetVersions, restorePresetVersion, updatePresetFields, deletePreset,
+} from '../services/preset.service';
+
+// As imagens de referência chegam em um campo por papel (mesmos nomes do envio de lotes)
+const readReferenceUploads = (req: Request): Partial<Record<ReferenceRole, ReferenceUpload>> => {
+  const files = (req.files || {}) as { [fieldname: string]: Express.Multer.File[] };
+  const uploads: Partial<Record<ReferenceRole, ReferenceUpload>> = {};
+  for (const role of REFERENCE_ROLES) {
+    const file = files[role]?.[0];
+    if (file) uploads[role] = { buffer: file.buffer, mimeType: file.mimetype, originalName: file.originalname };
+  }
+  return uploads;
+};
+
+// O multer entrega os campos como strings: settings vem em JSON
+const parseSettings = (value: unknown): Record<string, unknown> | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Busca o preset garantindo que o usuário pode vê-lo
+const getReadablePreset = async (req: Request, res: Response): Promise<BatchPreset | null> => {
+  const { uid } = (req as any).user;
+  const preset = await getPreset(req.params.presetId);
+  if (!preset || !canReadPreset(preset, uid)) {
+    res.status(404).json({ message: 'Preset não encontrado.' });
+    return null;
+  }
+  return preset;
+};
+
+// Visibilidade, marca e remoção ficam com o dono do preset (ou um administrador)
+const isOwnerOrAdmin = (req: Request, preset: BatchPreset) => {
+  const { uid, role } = (req as any).user;
+  return preset.ownerId === uid || role === 'admin';
+};
+
+// Lista os presets do usuário e os da equipe
+export const getPresetsController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    res.status(200).json(await listPresets(uid));
+  } catch (error) {
+    console.error("Erro ao buscar presets:", error);
+    res.status(500).json({ message: 'Erro ao buscar presets.' });
+  }
+};
+
+// Cria um preset (versão 1) com os ajustes e as imagens de referência
+export const createPresetController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { name, brand = '', visibility = 'private' } = req.body;
+    const settings = parseSettings(req.body.settings);
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ message: 'name é obrigatório.' });
+    }
+    if (!isPresetVisibility(visibility)) {
+      return res.status(400).json({ message: "visibility deve ser 'private' ou 'team'." });
+    }
+    if (!settings) {
+      return res.status(400).json({ message: 'settings deve ser um objeto JSON.' });
+    }
+
+    const preset = await createPreset(uid, { name: name.trim(), brand: String(brand).trim(), visibility }, settings, readReferenceUploads(req));
+    res.status(201).json(preset);
+  } catch (error) {
+    console.error("Erro ao criar preset:", error);
+    res.status(500).json({ message: 'Erro ao criar preset.' });
+  }
+};
+
+// Salva os ajustes atuais como uma nova versão (dono ou, em presets da equipe, qualquer usuário)
+export const savePresetVersionController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const preset = await getReadablePreset(req, res);
+    if (!preset) return;
+
+    const settings = parseSettings(req.body.settings);
+    if (!settings) {
+      return res.status(400).json({ message: 'settings deve ser um objeto JSON.' });
+    }
+    const name = typeof req.body.name === 'string' && req.body.name.trim() ? req.body.name.trim() : undefined;
+
+    res.status(200).json(await savePresetVersion(preset.id, uid, name ? { name } : {}, settings, readReferenceUploads(req)));
+  } catch (error) {
+    console.error("Erro ao salvar versão do preset:", error);
+    res.status(500).json({ message: 'Erro ao salvar versão do preset.' });
+  }
+};
+
+// Altera a visibilidade ou a marca do preset (dono ou admin)
+export const updatePresetController = async (req: Request, res: Response) => {
+  try {
+    const preset = await getReadablePreset(req, res);
+    if (!preset) return;
+    if (!isOwnerOrAdmin(req, preset)) {
+      return res.status(403).json({ message: 'Apenas o dono do preset pode alterá-lo.' });
+    }
+
+    const { visibility, brand } = req.body;
+    if (visibility !== undefined && !isPresetVisibility(visibility)) {
+      return res.status(400).json({ message: "visibility deve ser 'private' ou 'team'." });
+    }
+
+    res.status(200).json(await updatePresetFields(preset.id, {
+      ...(visibility !== undefined ? { visibility } : {}),
+      ...(typeof brand === 'string' ? { brand: brand.trim() } : {}),
+    }));
+  } catch (error) {
+    console.error("Erro ao atualizar preset:", error);
+    res.status(500).json({ message: 'Erro ao atualizar preset.' });
+  }
+};
+
+// Histórico de versões do preset
+export const getPresetVersionsController = async (req: Request, res: Response) => {
+  try {
+    const preset = await getReadablePreset(req, res);
+    if (!preset) return;
+
+    res.status(200).json(await listPresetVersions(preset.id));
+  } catch (error) {
+    console.error("Erro ao buscar versões do preset:", error);
+    res.status(500).json({ message: 'Erro ao buscar versões do preset.' });
+  }
+};
+
+// Restaura uma versão antiga (ela vira a versão mais recente)
+export const restorePresetVersionController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const preset = await getReadablePreset(req, res);
+    if (!preset) return;
+
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ message: 'Versão inválida.' });
+    }
+
+    const restored = await restorePresetVersion(preset.id, uid, version);
+    if (!restored) {
+      return res.status(404).json({ message: 'Versão não encontrada.' });
+    }
+    res.status(200).json(restored);
+  } catch (error) {
+    console.error("Erro ao restaurar versão do preset:", error);
+    res.status(500).json({ message: 'Erro ao restaurar versão do preset.' });
+  }
+};
+
+// Remove o preset com todo o histórico e as referências (dono ou admin)
+export const deletePresetController = async (req: Request, res: Response) => {
+  try {
+    const preset = await getReadablePreset(req, res);
+    if (!preset) return;
+    if (!isOwnerOrAdmin(req, preset)) {
+      return res.status(403).json({ message: 'Apenas o dono do preset pode removê-lo.' });
+    }
+
+    await deletePreset(preset.id);
+    res.status(200).json({ message: 'Preset removido com sucesso.' });
+  } catch (error) {
+    console.error("Erro ao remover preset:", error);
+    res.status(500).json({ message: 'Erro ao remover preset.' });
+  }
+};
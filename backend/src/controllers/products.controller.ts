@@ -0,0 +1,145 @@
+// src/controllers/products.controller.ts
+import { Request, Response } from 'express';
+import { Product, ProductFields, ProductRecord, listProducts, getProduct, recordProduct, updateProduct } from '../services/product.service';
+import { areGalleryItemsOwnedBy } from '../services/gallery.service';
+
+type UploadedFiles = { [fieldname: string]: Express.Multer.File[] } | undefined;
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+
+type RecordOutput = NonNullable<ProductRecord['outputs']>[number];
+
+const isRecordOutput = (value: any): value is RecordOutput =>
+  !!value && typeof value === 'object' && ['view', 'name', 'url', 'galleryId'].every(field => typeof value[field] === 'string' && value[field]);
+
+// Como na galeria, cada usuário só vê e altera os próprios produtos; administradores veem todos
+const canAccessProduct = (product: Product, user: { uid: string; role?: string }) =>
+  product.createdBy === user.uid || user.role === 'admin';
+
+// Lista e busca os produtos do catálogo, uma página por vez
+export const getProductsController = async (req: Request, res: Response) => {
+  try {
+    const { uid, role } = (req as any).user;
+    const { search, brand, collection, userId, pageSize, startAfter } = req.query;
+    res.status(200).json(await listProducts({
+      // Admins veem os produtos de todos (ou de um usuário específico); os demais, apenas os próprios
+      ownerUid: role === 'admin' ? (typeof userId === 'string' && userId ? userId : undefined) : uid,
+      search: typeof search === 'string' ? search : undefined,
+      brand: typeof brand === 'string' && brand ? brand : undefined,
+      collection: typeof collection === 'string' && collection ? collection : undefined,
+      pageSize: typeof pageSize === 'string' && Number(pageSize) > 0 ? Math.floor(Number(pageSize)) : undefined,
+      startAfter: typeof startAfter === 'string' && startAfter ? startAfter : undefined,
+    }));
+  } catch (error) {
+    console.error("Erro ao buscar produtos:", error);
+    res.status(500).json({ message: 'Erro ao buscar produtos.' });
+  }
+};
+
+export const getProductController = async (req: Request, res: Response) => {
+  try {
+    const product = await getProduct(req.params.productId);
+    if (!product || !canAccessProduct(product, (req as any).user)) {
+      return res.status(404).json({ message: 'Produto não encontrado.' });
+    }
+    res.status(200).json(product);
+  } catch (error) {
+    console.error("Erro ao buscar produto:", error);
+    res.status(500).json({ message: 'Erro ao buscar produto.' });
+  }
+};
+
+/**
+ * Registra um item processado no lote do navegador: os dados vêm como JSON no campo "product"
+ * e as fotos de entrada no campo "inputs".
+ */
+export const recordProductController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    let body: any;
+    try {
+      body = JSON.parse(req.body.product);
+    } catch {
+      return res.status(400).json({ message: 'product deve ser um JSON válido.' });
+    }
+    if (typeof body?.sku !== 'string' || !body.sku.trim() || typeof body.brand !== 'string') {
+      return res.status(400).json({ message: 'sku e brand são obrigatórios.' });
+    }
+    if ((body.color !== undefined && typeof body.color !== 'string') || (body.collection !== undefined && typeof body.collection !== 'string')) {
+      return res.status(400).json({ message: 'color e collection devem ser textos.' });
+    }
+    if (body.description !== undefined && body.description !== null && !isStringRecord(body.description)) {
+      return res.status(400).json({ message: 'description deve ser um objeto de textos.' });
+    }
+    if (body.metadata !== undefined && !isStringRecord(body.metadata)) {
+      return res.status(400).json({ message: 'metadata deve ser um objeto de textos.' });
+    }
+    if (body.outputs !== undefined && (!Array.isArray(body.outputs) || !body.outputs.every(isRecordOutput))) {
+      return res.status(400).json({ message: 'outputs deve ser uma lista com view, name, url e galleryId.' });
+    }
+
+    // Só guarda os campos conhecidos de cada imagem gerada, e apenas de itens da galeria do próprio usuário
+    const outputs: RecordOutput[] = (body.outputs || []).map(({ view, name, url, galleryId }: RecordOutput) => ({ view, name, url, galleryId }));
+    if (!(await areGalleryItemsOwnedBy(uid, outputs.map(output => output.galleryId)))) {
+      return res.status(403).json({ message: 'Imagem gerada não encontrada na sua galeria.' });
+    }
+
+    const record: ProductRecord = {
+      sku: body.sku,
+      brand: body.brand,
+      ...(body.color ? { color: body.color } : {}),
+      ...(body.collection ? { collection: body.collection } : {}),
+      ...(body.description ? { description: body.description } : {}),
+      ...(body.metadata ? { metadata: body.metadata } : {}),
+      outputs,
+    };
+
+    const files = (req.files as UploadedFiles)?.inputs || [];
+    const uploads = files.map(file => ({ buffer: file.buffer, mimeType: file.mimetype, originalName: file.originalname }));
+    res.status(200).json(await recordProduct(uid, record, uploads));
+  } catch (error) {
+    console.error("Erro ao registrar produto:", error);
+    res.status(500).json({ message: 'Erro ao registrar produto.' });
+  }
+};
+
+// Altera a coleção, as cores, a descrição ou os dados da planilha de um produto
+export const updateProductController = async (req: Request, res: Response) => {
+  try {
+    const { collection, colors, description, metadata } = req.body;
+    const fields: ProductFields = {};
+    if (collection !== undefined) {
+      if (typeof collection !== 'string') return res.status(400).json({ message: 'collection deve ser um texto.' });
+      fields.collection = collection.trim();
+    }
+    if (colors !== undefined) {
+      if (!Array.isArray(colors) || !colors.every(color => typeof color === 'string')) {
+        return res.status(400).json({ message: 'colors deve ser uma lista de textos.' });
+      }
+      fields.colors = colors.map((color: string) => color.trim()).filter(Boolean);
+    }
+    if (description !== undefined) {
+      if (description !== null && !isStringRecord(description)) return res.status(400).json({ message: 'description deve ser um objeto de textos.' });
+      fields.description = description;
+    }
+    if (metadata !== undefined) {
+      if (!isStringRecord(metadata)) return res.status(400).json({ message: 'metadata deve ser um objeto de textos.' });
+      fields.metadata = metadata;
+    }
+
+    const current = await getProduct(req.params.productId);
+    if (!current || !canAccessProduct(current, (req as any).user)) {
+      return res.status(404).json({ message: 'Produto não encontrado.' });
+    }
+
+    const product = await updateProduct(req.params.productId, fields);
+    if (!product) {
+      return res.status(404).json({ message: 'Produto não encontrado.' });
+    }
+    res.status(200).json(product);
+  } catch (error) {
+    console.error("Erro ao atualizar produto:", error);
+    res.status(500).json({ message: 'Erro ao atualizar produto.' });
+  }
+};
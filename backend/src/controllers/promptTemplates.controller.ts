@@ -0,0 +1,73 @@
+// src/controllers/promptTemplates.controller.ts
+import { Request, Response } from 'express';
+import {
+  activatePromptTemplateVersion,
+  findUnknownVariables,
+  isPromptTemplateKey,
+  listPromptTemplates,
+  savePromptTemplateVersion,
+} from '../services/promptTemplate.service';
+
+// Marca opcional do corpo: vazia ou ausente indica o escopo global
+const getBrand = (value: unknown): string | null => typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Lista os templates de prompt com histórico e personalizações por marca (admin)
+export const getPromptTemplatesController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await listPromptTemplates());
+  } catch (error) {
+    console.error("Erro ao buscar templates de prompt:", error);
+    res.status(500).json({ message: 'Erro ao buscar templates de prompt.' });
+  }
+};
+
+// Grava uma nova versão de um template e a torna ativa (admin)
+export const savePromptTemplateVersionController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { key } = req.params;
+    const { brand, text, note } = req.body;
+    if (!isPromptTemplateKey(key)) {
+      return res.status(404).json({ message: 'Template de prompt não encontrado.' });
+    }
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ message: 'O texto do prompt é obrigatório.' });
+    }
+    if (note !== undefined && typeof note !== 'string') {
+      return res.status(400).json({ message: 'note deve ser um texto.' });
+    }
+
+    const unknown = findUnknownVariables(key, text);
+    if (unknown.length > 0) {
+      return res.status(400).json({ message: `Variáveis desconhecidas neste prompt: ${unknown.map(name => `{{${name}}}`).join(', ')}.` });
+    }
+
+    res.status(200).json(await savePromptTemplateVersion(key, getBrand(brand), text.trim(), (note || '').trim(), uid));
+  } catch (error) {
+    console.error("Erro ao salvar template de prompt:", error);
+    res.status(500).json({ message: 'Erro ao salvar template de prompt.' });
+  }
+};
+
+// Ativa uma versão anterior de um template (rollback); a versão 0 volta ao padrão (admin)
+export const activatePromptTemplateVersionController = async (req: Request, res: Response) => {
+  try {
+    const { key } = req.params;
+    const { brand, version } = req.body;
+    if (!isPromptTemplateKey(key)) {
+      return res.status(404).json({ message: 'Template de prompt não encontrado.' });
+    }
+    if (!Number.isInteger(version) || version < 0) {
+      return res.status(400).json({ message: 'version deve ser um número inteiro não negativo.' });
+    }
+
+    const scope = await activatePromptTemplateVersion(key, getBrand(brand), version);
+    if (!scope) {
+      return res.status(404).json({ message: 'Versão do prompt não encontrada.' });
+    }
+    res.status(200).json(scope);
+  } catch (error) {
+    console.error("Erro ao ativar versão do prompt:", error);
+    res.status(500).json({ message: 'Erro ao ativar versão do prompt.' });
+  }
+};
@@ -0,0 +1,115 @@
+// src/controllers/views.controller.ts
+import { Request, Response } from 'express';
+import {
+  ViewDefinitionFields, isAspectRatio, isViewPostProcess, listViewDefinitions, createViewDefinition, updateViewDefinition, deleteViewDefinition,
+} from '../services/view.service';
+
+/**
+ * Lê e valida os campos enviados. No modo parcial (edição) só os campos presentes são devolvidos.
+ * Retorna a mensagem de erro quando algum campo é inválido.
+ */
+const readViewFields = (body: any, partial: boolean): Partial<ViewDefinitionFields> | string => {
+  const fields: Partial<ViewDefinitionFields> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return 'name é obrigatório.';
+    fields.name = body.name.trim();
+  }
+  if (body.framingPrompt !== undefined || !partial) {
+    if (typeof body.framingPrompt !== 'string' || !body.framingPrompt.trim()) return 'framingPrompt é obrigatório.';
+    fields.framingPrompt = body.framingPrompt.trim();
+  }
+  if (body.aspectRatio !== undefined || !partial) {
+    if (!isAspectRatio(body.aspectRatio)) return "aspectRatio deve estar no formato 'largura:altura' (ex.: '3:4').";
+    fields.aspectRatio = body.aspectRatio;
+  }
+  if (body.postProcess !== undefined || !partial) {
+    if (!isViewPostProcess(body.postProcess)) return "postProcess deve ser 'expand', 'crop' ou 'pad'.";
+    fields.postProcess = body.postProcess;
+  }
+  if (body.outputSuffix !== undefined || !partial) {
+    if (typeof body.outputSuffix !== 'string' || !/^[\w-]+$/.test(body.outputSuffix)) return 'outputSuffix deve ter apenas letras, números, _ e -.';
+    fields.outputSuffix = body.outputSuffix;
+  }
+  if (body.needsBackPhoto !== undefined) fields.needsBackPhoto = !!body.needsBackPhoto;
+  else if (!partial) fields.needsBackPhoto = false;
+  if (body.order !== undefined) {
+    if (typeof body.order !== 'number') return 'order deve ser um número.';
+    fields.order = body.order;
+  }
+  return fields;
+};
+
+// Lista o catálogo de vistas de saída (qualquer usuário)
+export const getViewsController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await listViewDefinitions());
+  } catch (error) {
+    console.error("Erro ao buscar vistas:", error);
+    res.status(500).json({ message: 'Erro ao buscar vistas.' });
+  }
+};
+
+// Cadastra uma nova vista no fim do catálogo (admin)
+export const createViewController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const fields = readViewFields(req.body, false);
+    if (typeof fields === 'string') {
+      return res.status(400).json({ message: fields });
+    }
+
+    const views = await listViewDefinitions();
+    if (views.some(view => view.name.toLowerCase() === fields.name!.toLowerCase())) {
+      return res.status(409).json({ message: `Já existe uma vista chamada "${fields.name}".` });
+    }
+
+    const view = await createViewDefinition({ order: views.length, ...fields } as ViewDefinitionFields, uid);
+    console.log(`Vista "${view.name}" criada por ${uid}`);
+    res.status(201).json(view);
+  } catch (error) {
+    console.error("Erro ao criar vista:", error);
+    res.status(500).json({ message: 'Erro ao criar vista.' });
+  }
+};
+
+// Altera uma vista do catálogo (admin)
+export const updateViewController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { viewId } = req.params;
+    const fields = readViewFields(req.body, true);
+    if (typeof fields === 'string') {
+      return res.status(400).json({ message: fields });
+    }
+
+    if (fields.name) {
+      const views = await listViewDefinitions();
+      if (views.some(view => view.id !== viewId && view.name.toLowerCase() === fields.name!.toLowerCase())) {
+        return res.status(409).json({ message: `Já existe uma vista chamada "${fields.name}".` });
+      }
+    }
+
+    const view = await updateViewDefinition(viewId, fields, uid);
+    if (!view) {
+      return res.status(404).json({ message: 'Vista não encontrada.' });
+    }
+    res.status(200).json(view);
+  } catch (error) {
+    console.error("Erro ao atualizar vista:", error);
+    res.status(500).json({ message: 'Erro ao atualizar vista.' });
+  }
+};
+
+// Remove uma vista do catálogo (admin)
+export const deleteViewController = async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteViewDefinition(req.params.viewId))) {
+      return res.status(404).json({ message: 'Vista não encontrada.' });
+    }
+    res.status(200).json({ message: 'Vista removida com sucesso.' });
+  } catch (error) {
+    console.error("Erro ao remover vista:", error);
+    res.status(500).json({ message: 'Erro ao remover vista.' });
+  }
+};
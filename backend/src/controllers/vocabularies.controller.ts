@@ -0,0 +1,61 @@
+// src/controllers/vocabularies.controller.ts
+import { Request, Response } from 'express';
+import { VocabularyTerm, isVocabularyId, listVocabularies, normalizeTermText, saveVocabularyTerms } from '../services/vocabulary.service';
+
+const HEX_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Lista os vocabulários de atributos usados na descrição das peças (qualquer usuário)
+export const getVocabulariesController = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await listVocabularies());
+  } catch (error) {
+    console.error("Erro ao buscar vocabulários:", error);
+    res.status(500).json({ message: 'Erro ao buscar vocabulários.' });
+  }
+};
+
+// Substitui os termos de um vocabulário (admin)
+export const saveVocabularyController = async (req: Request, res: Response) => {
+  try {
+    const { uid } = (req as any).user;
+    const { vocabularyId } = req.params;
+    const { terms } = req.body;
+    if (!isVocabularyId(vocabularyId)) {
+      return res.status(404).json({ message: 'Vocabulário não encontrado.' });
+    }
+    if (!Array.isArray(terms) || terms.length === 0) {
+      return res.status(400).json({ message: 'terms deve ter ao menos um termo.' });
+    }
+
+    const cleaned: VocabularyTerm[] = [];
+    const seen = new Set<string>();
+    for (const term of terms) {
+      if (typeof term?.value !== 'string' || !term.value.trim()) {
+        return res.status(400).json({ message: 'Todo termo precisa de um valor.' });
+      }
+      if (term.synonyms !== undefined && (!Array.isArray(term.synonyms) || !term.synonyms.every((s: unknown) => typeof s === 'string'))) {
+        return res.status(400).json({ message: `Os sinônimos de "${term.value}" devem ser uma lista de textos.` });
+      }
+      if (term.hex !== undefined && term.hex !== '' && (typeof term.hex !== 'string' || !HEX_PATTERN.test(term.hex))) {
+        return res.status(400).json({ message: `A cor de "${term.value}" deve estar no formato #RRGGBB.` });
+      }
+
+      // Um mesmo texto não pode apontar para dois termos
+      const synonyms: string[] = (term.synonyms || []).map((s: string) => s.trim()).filter(Boolean);
+      for (const text of [term.value, ...synonyms]) {
+        const key = normalizeTermText(text);
+        if (seen.has(key)) {
+          return res.status(400).json({ message: `"${text}" aparece mais de uma vez no vocabulário.` });
+        }
+        seen.add(key);
+      }
+
+      cleaned.push({ value: term.value.trim(), synonyms, ...(vocabularyId === 'color' && term.hex ? { hex: term.hex.toUpperCase() } : {}) });
+    }
+
+    res.status(200).json(await saveVocabularyTerms(vocabularyId, cleaned, uid));
+  } catch (error) {
+    console.error("Erro ao salvar vocabulário:", error);
+    res.status(500).json({ message: 'Erro ao salvar vocabulário.' });
+  }
+};
@@ -4,9 +4,21 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import authRoutes from './api/auth.routes';
 import costRoutes from './api/costs.routes';
+import budgetRoutes from './api/budgets.routes';
 import userRoutes from './api/users.routes';
 import galleryRoutes from './api/gallery.routes';
 import geminiRoutes from './api/gemini.routes';
+import jobRoutes from './api/jobs.routes';
+import identityRoutes from './api/identities.routes';
+import presetRoutes from './api/presets.routes';
+import viewRoutes from './api/views.routes';
+import productRoutes from './api/products.routes';
+import brandToneRoutes from './api/brandTones.routes';
+import vocabularyRoutes from './api/vocabularies.routes';
+import aiCacheRoutes from './api/aiCache.routes';
+import promptTemplateRoutes from './api/promptTemplates.routes';
+import { startTrashPurgeJob } from './services/trash.service';
+import { startBatchJobRunner } from './services/jobs.service';
 
 dotenv.config();
 
@@ -29,11 +41,25 @@ app.get('/api/health', (req, res) => {
 // Adicionando nossas rotas da API
 app.use('/api', authRoutes);
 app.use('/api', costRoutes);
+app.use('/api', budgetRoutes);
 app.use('/api', userRoutes);
 app.use('/api', galleryRoutes);
 app.use('/api', geminiRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', identityRoutes);
+app.use('/api', presetRoutes);
+app.use('/api', viewRoutes);
+app.use('/api', productRoutes);
+app.use('/api', brandToneRoutes);
+app.use('/api', vocabularyRoutes);
+app.use('/api', aiCacheRoutes);
+app.use('/api', promptTemplateRoutes);
 
 
 app.listen(port, () => {
   console.log(`Servidor Pixshop rodando em http://localhost:${port}`);
+  // Limpeza periódica da lixeira
+  startTrashPurgeJob();
+  // Retoma os lotes que estavam em andamento
+  startBatchJobRunner();
 });
\ No newline at end of file
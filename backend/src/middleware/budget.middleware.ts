@@ -0,0 +1,33 @@
+// src/middleware/budget.middleware.ts
+import { Request, Response, NextFunction } from 'express';
+import { getExceededBudget, describeExceededBudget } from '../services/budget.service';
+import { resolveProjectFolder } from '../services/gallery.service';
+
+// Recusa novas gerações quando o orçamento mensal do usuário ou do projeto já foi esgotado.
+// O projeto informado pelo cliente é validado e resolvido para a pasta de primeiro nível,
+// e fica em req.projectId para o registro de custos.
+export const budgetMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  const { uid } = (req as any).user;
+  const requestedProjectId = typeof req.body?.projectId === 'string' && req.body.projectId ? req.body.projectId : 'root';
+
+  try {
+    const projectId = await resolveProjectFolder(uid, requestedProjectId);
+    if (!projectId) {
+      return res.status(403).json({ message: 'Projeto não encontrado ou não autorizado.' });
+    }
+    (req as any).projectId = projectId;
+
+    const exceeded = await getExceededBudget(uid, projectId);
+
+    if (exceeded) {
+      return res.status(402).json({
+        message: describeExceededBudget(exceeded),
+        budget: exceeded,
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Erro ao verificar orçamento:", error);
+    res.status(500).json({ message: 'Erro ao verificar orçamento.' });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+// src/services/ai/config.ts
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Configuração dos provedores de IA, lida das variáveis de ambiente.
+// É uma função para respeitar o dotenv, que é carregado depois dos imports.
+export const getAiConfig = () => ({
+    // 'vertex' (padrão) ou 'mock' para testes offline sem custo
+    provider: (process.env.AI_PROVIDER || 'vertex').toLowerCase(),
+    imageModel: process.env.AI_IMAGE_MODEL || 'gemini-2.5-flash-image-preview',
+    textModel: process.env.AI_TEXT_MODEL || 'gemini-2.5-flash',
+    location: process.env.AI_LOCATION || 'us-central1',
+    // Novas tentativas em limite de uso (429) e falhas temporárias (5xx)
+    retryMaxAttempts: positiveNumber(process.env.AI_RETRY_MAX_ATTEMPTS, 4),
+    retryBaseDelayMs: positiveNumber(process.env.AI_RETRY_BASE_DELAY_MS, 1000),
+    retryMaxDelayMs: positiveNumber(process.env.AI_RETRY_MAX_DELAY_MS, 30000),
+    secretName: process.env.GEMINI_SECRET_NAME || 'projects/estudioweb-ebc00/secrets/vitrine-web-api-key/versions/latest',
+});
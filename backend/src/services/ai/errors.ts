@@ -0,0 +1,106 @@
+// src/services/ai/errors.ts
+
+// Categorias de falha das chamadas de IA, exibidas na interface e no relatório do lote
+export type AiErrorCategory = 'quota' | 'safety' | 'no_image' | 'network';
+
+/**
+ * Erro tipado de uma chamada de IA.
+ * - retryable: se vale a pena tentar de novo (limite de uso e falhas temporárias do servidor)
+ * - httpStatus: status devolvido ao cliente pelas rotas do Gemini
+ */
+export abstract class AiError extends Error {
+    abstract readonly category: AiErrorCategory;
+    abstract readonly retryable: boolean;
+    abstract readonly httpStatus: number;
+
+    constructor(message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// Limite de requisições ou cota esgotada (429 / RESOURCE_EXHAUSTED)
+export class QuotaError extends AiError {
+    readonly category = 'quota';
+    readonly retryable = true;
+    readonly httpStatus = 429;
+}
+
+// Solicitação ou resposta bloqueada pelos filtros de segurança
+export class SafetyBlockError extends AiError {
+    readonly category = 'safety';
+    readonly retryable = false;
+    readonly httpStatus = 422;
+}
+
+// O modelo respondeu, mas sem a imagem pedida
+export class NoImageReturnedError extends AiError {
+    readonly category = 'no_image';
+    readonly retryable = false;
+    readonly httpStatus = 502;
+}
+
+// Falha de rede ou erro 5xx da API
+export class NetworkError extends AiError {
+    readonly category = 'network';
+    readonly retryable = true;
+    readonly httpStatus = 503;
+}
+
+// Motivos de término que indicam bloqueio de segurança (e não um erro do modelo)
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+export const isSafetyFinishReason = (finishReason: string) => SAFETY_FINISH_REASONS.includes(finishReason);
+
+// Status gRPC que valem nova tentativa, pelo nome ou pelo código numérico
+const RETRYABLE_GRPC_STATUSES: Record<number, string> = { 4: 'DEADLINE_EXCEEDED', 8: 'RESOURCE_EXHAUSTED', 14: 'UNAVAILABLE' };
+
+// Códigos de erro de rede do Node (no próprio erro ou na causa, como no "fetch failed")
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+const isHttpStatus = (value: unknown): value is number => typeof value === 'number' && value >= 100 && value < 600;
+
+/**
+ * Status HTTP a partir dos campos estruturados dos SDKs (status, response.status, code e a causa do ClientError da Vertex).
+ * Os erros 5xx da Vertex só trazem o status na mensagem, no formato fixo "got status: 503 ...".
+ */
+const getHttpStatus = (error: any): number | undefined => {
+    const candidates = [error?.status, error?.response?.status, error?.code, error?.cause?.code, error?.cause?.status];
+    const status = candidates.find(isHttpStatus);
+    if (status !== undefined) return status;
+    const match = String(error?.message || '').match(/got status: (\d{3}) /);
+    return match ? Number(match[1]) : undefined;
+};
+
+// Status gRPC (RESOURCE_EXHAUSTED, UNAVAILABLE, DEADLINE_EXCEEDED) dos campos do erro ou, como último recurso, da mensagem
+const getGrpcStatus = (error: any): string | undefined => {
+    for (const value of [error?.status, error?.cause?.status, error?.code, error?.cause?.code]) {
+        if (typeof value === 'string' && Object.values(RETRYABLE_GRPC_STATUSES).includes(value)) return value;
+        if (typeof value === 'number' && RETRYABLE_GRPC_STATUSES[value]) return RETRYABLE_GRPC_STATUSES[value];
+    }
+    // Sem a flag "i": só os nomes exatos dos status, não palavras comuns da mensagem
+    return String(error?.message || '').match(/\b(RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED)\b/)?.[1];
+};
+
+const isNetworkFailure = (error: any) =>
+    [error?.code, error?.cause?.code].some(code => typeof code === 'string' && NETWORK_ERROR_CODES.includes(code));
+
+/**
+ * Converte o erro bruto do SDK em um erro tipado.
+ * Erros já tipados são devolvidos como estão; erros que não se encaixam em nenhuma categoria também.
+ */
+export const classifyAiError = (error: unknown): unknown => {
+    if (error instanceof AiError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const httpStatus = getHttpStatus(error);
+    const grpcStatus = getGrpcStatus(error);
+
+    if (httpStatus === 429 || grpcStatus === 'RESOURCE_EXHAUSTED') {
+        return new QuotaError(`Limite de uso da API de IA atingido. ${message}`, error);
+    }
+    if ((httpStatus !== undefined && httpStatus >= 500) || grpcStatus === 'UNAVAILABLE' || grpcStatus === 'DEADLINE_EXCEEDED' || isNetworkFailure(error)) {
+        return new NetworkError(`Falha de comunicação com a API de IA. ${message}`, error);
+    }
+    return error;
+};
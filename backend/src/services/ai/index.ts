@@ -0,0 +1,23 @@
+// src/services/ai/index.ts
+import { getAiConfig } from './config';
+import { ImageGenerationProvider } from './provider';
+import { MockProvider } from './mock.provider';
+import { VertexProvider } from './vertex.provider';
+
+export * from './provider';
+export * from './errors';
+export { withRetry, isRetryableError, getBackoffDelayMs } from './retry';
+export { getAiConfig } from './config';
+export { getServiceAccountCredentials } from './vertex.provider';
+
+let provider: ImageGenerationProvider | null = null;
+
+// Retorna o provedor configurado em AI_PROVIDER (instância única por processo)
+export const getImageProvider = (): ImageGenerationProvider => {
+    if (!provider) {
+        const { provider: name } = getAiConfig();
+        provider = name === 'mock' ? new MockProvider() : new VertexProvider();
+        console.log(`Provedor de IA em uso: ${provider.name}`);
+    }
+    return provider;
+};
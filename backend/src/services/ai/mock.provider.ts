@@ -0,0 +1,154 @@
+// src/services/ai/mock.provider.ts
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { AiPart, DescribeOptions, ImageGenerationProvider, ImageResult, ResponseSchema, TextResult, countImages, countTextChars, isImagePart } from './provider';
+
+const MOCK_MODEL = 'mock';
+const DEFAULT_SIZE = 1024;
+
+// Descrição fixa devolvida quando a chamada pede JSON sem schema (ex.: descrição de roupa)
+const MOCK_DESCRIPTION: Record<string, string> = {
+    "Tipo de Peça": "Camiseta",
+    "Cores Principais": "Branco",
+    "Estampa/Padrão": "Liso",
+    "Tipo de Tecido": "Malha de algodão",
+    "Caimento": "Modelagem reta",
+    "Detalhes de Bolsos": "Nenhum bolso visível",
+    "Tipo de Fechamento": "Sem fechamento, peça de vestir",
+    "Decote": "Gola redonda",
+    "Comprimento da Manga": "Manga curta",
+    "Detalhes Adicionais": "Nenhum",
+    "Transparência": "Nenhuma transparência",
+    "Ocasião Recomendada": "Casual, dia a dia",
+};
+
+// Hash estável do conteúdo da requisição: mesma entrada, mesma saída
+const hashParts = (parts: AiPart[], salt: string) => {
+    const hash = createHash('sha256').update(salt);
+    for (const part of parts) {
+        hash.update(isImagePart(part) ? part.inlineData.data : part.text);
+    }
+    return hash.digest();
+};
+
+// Lê largura e altura do cabeçalho IHDR de um PNG
+const readPngSize = (base64: string): { width: number; height: number } | null => {
+    const header = Buffer.from(base64.slice(0, 64), 'base64');
+    if (header.length < 24 || header.toString('ascii', 1, 4) !== 'PNG') return null;
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (buffer: Buffer) => {
+    let crc = 0xffffffff;
+    for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData));
+    return Buffer.concat([length, typeAndData, crc]);
+};
+
+// Gera um PNG com listras diagonais em duas cores derivadas do hash
+const createPlaceholderPng = (width: number, height: number, seed: Buffer) => {
+    const colorA = [seed[0], seed[1], seed[2]];
+    const colorB = [255 - seed[0], 255 - seed[1], 255 - seed[2]];
+    const stripe = Math.max(8, Math.round(Math.min(width, height) / 16));
+
+    const raw = Buffer.alloc((width * 3 + 1) * height);
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * (width * 3 + 1);
+        raw[rowStart] = 0; // Filtro "None"
+        for (let x = 0; x < width; x++) {
+            const color = Math.floor((x + y) / stripe) % 2 === 0 ? colorA : colorB;
+            raw.set(color, rowStart + 1 + x * 3);
+        }
+    }
+
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(width, 0);
+    ihdr.writeUInt32BE(height, 4);
+    ihdr[8] = 8; // bits por canal
+    ihdr[9] = 2; // RGB
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', ihdr),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+};
+
+// Monta um valor determinístico que obedece ao schema pedido
+const valueFromSchema = (schema: ResponseSchema, key = 'valor'): unknown => {
+    switch (schema.type) {
+        case 'OBJECT':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, child]) => [name, valueFromSchema(child, name)]));
+        case 'ARRAY':
+            return schema.items ? [valueFromSchema(schema.items, key)] : [];
+        case 'INTEGER':
+        case 'NUMBER':
+            return 0;
+        case 'BOOLEAN':
+            return false;
+        default:
+            return schema.enum?.[0] ?? `mock: ${key}`;
+    }
+};
+
+// Provedor falso para QA e CI: não chama nenhuma API e sempre devolve o mesmo resultado para a mesma entrada
+export class MockProvider implements ImageGenerationProvider {
+    readonly name = 'mock';
+
+    private image(parts: AiPart[], context: string): ImageResult {
+        const firstImage = parts.find(isImagePart);
+        const size = (firstImage && readPngSize(firstImage.inlineData.data)) || { width: DEFAULT_SIZE, height: DEFAULT_SIZE };
+        const png = createPlaceholderPng(size.width, size.height, hashParts(parts, context));
+
+        return {
+            image: `data:image/png;base64,${png.toString('base64')}`,
+            model: MOCK_MODEL,
+            usage: { inputImages: countImages(parts), outputImages: 1, inputChars: countTextChars(parts), outputChars: 0 },
+        };
+    }
+
+    private text(parts: AiPart[], text: string): TextResult {
+        return {
+            text,
+            model: MOCK_MODEL,
+            usage: { inputImages: countImages(parts), outputImages: 0, inputChars: countTextChars(parts), outputChars: text.length },
+        };
+    }
+
+    async generate(parts: AiPart[], context: string) {
+        return this.image(parts, context);
+    }
+
+    async edit(parts: AiPart[], context: string) {
+        return this.image(parts, context);
+    }
+
+    async describe(parts: AiPart[], options: DescribeOptions = {}) {
+        if (options.responseSchema) {
+            return this.text(parts, JSON.stringify(valueFromSchema(options.responseSchema)));
+        }
+        if (options.json) {
+            return this.text(parts, JSON.stringify(MOCK_DESCRIPTION));
+        }
+        const digest = hashParts(parts, 'describe').toString('hex').slice(0, 8);
+        return this.text(parts, `Descrição simulada (${digest}).`);
+    }
+
+    async compare(parts: AiPart[], responseSchema: ResponseSchema) {
+        return this.text(parts, JSON.stringify(valueFromSchema(responseSchema)));
+    }
+}
@@ -0,0 +1,74 @@
+// src/services/ai/provider.ts
+
+// Imagem em base64 (sem o prefixo data:)
+export interface InlineImage {
+    data: string;
+    mimeType: string;
+}
+
+// Parte de uma requisição multimodal: texto ou imagem
+export type AiPart = { text: string } | { inlineData: InlineImage };
+
+// Schema de resposta JSON (mesmo formato aceito pela API do Gemini)
+export interface ResponseSchema {
+    type: 'OBJECT' | 'ARRAY' | 'STRING' | 'INTEGER' | 'NUMBER' | 'BOOLEAN';
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, ResponseSchema>;
+    items?: ResponseSchema;
+    required?: string[];
+}
+
+// Contagem de entradas/saídas usada para o cálculo de custo
+export interface OperationUsage {
+    inputImages: number;
+    outputImages: number;
+    inputChars: number;
+    outputChars: number;
+}
+
+// Contagem de tokens informada pela API (usageMetadata)
+export interface TokenUsage {
+    promptTokenCount: number;
+    candidatesTokenCount: number;
+    totalTokenCount: number;
+}
+
+export interface ImageResult {
+    image: string; // data URL
+    model: string;
+    usage: OperationUsage;
+    tokens?: TokenUsage;
+}
+
+export interface TextResult {
+    text: string;
+    model: string;
+    usage: OperationUsage;
+    tokens?: TokenUsage;
+}
+
+export interface DescribeOptions {
+    json?: boolean;
+    responseSchema?: ResponseSchema;
+}
+
+/**
+ * Contrato comum dos provedores de IA.
+ * - generate: cria uma imagem nova a partir de referências (modelo, aprimoramento, pose)
+ * - edit: altera uma imagem existente (retoque, expansão, correção)
+ * - describe: extrai texto ou JSON de imagens/prompts
+ * - compare: compara imagens e devolve uma análise em JSON
+ */
+export interface ImageGenerationProvider {
+    readonly name: string;
+    generate(parts: AiPart[], context: string): Promise<ImageResult>;
+    edit(parts: AiPart[], context: string): Promise<ImageResult>;
+    describe(parts: AiPart[], options?: DescribeOptions): Promise<TextResult>;
+    compare(parts: AiPart[], responseSchema: ResponseSchema): Promise<TextResult>;
+}
+
+export const isImagePart = (part: AiPart): part is { inlineData: InlineImage } => 'inlineData' in part;
+
+export const countTextChars = (parts: AiPart[]) => parts.reduce((sum, part) => sum + ('text' in part ? part.text.length : 0), 0);
+export const countImages = (parts: AiPart[]) => parts.filter(isImagePart).length;
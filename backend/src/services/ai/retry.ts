@@ -0,0 +1,35 @@
+// src/services/ai/retry.ts
+import { getAiConfig } from './config';
+import { AiError, classifyAiError } from './errors';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Espera antes da tentativa seguinte: backoff exponencial com jitter total
+ * (um valor aleatório entre zero e o teto da tentativa), limitado a maxDelayMs.
+ */
+export const getBackoffDelayMs = (attempt: number, baseDelayMs = getAiConfig().retryBaseDelayMs, maxDelayMs = getAiConfig().retryMaxDelayMs) =>
+    Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+
+export const isRetryableError = (error: unknown) => error instanceof AiError && error.retryable;
+
+/**
+ * Executa uma chamada de IA com a política de novas tentativas compartilhada:
+ * repete só limite de uso (429) e falhas temporárias (5xx/rede); bloqueios de segurança falham na hora.
+ * O erro final já sai classificado (QuotaError, NetworkError...).
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, label: string): Promise<T> => {
+    const { retryMaxAttempts } = getAiConfig();
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (rawError) {
+            const error = classifyAiError(rawError);
+            if (!isRetryableError(error) || attempt >= retryMaxAttempts) throw error;
+
+            const delay = getBackoffDelayMs(attempt);
+            console.warn(`Falha temporária em ${label} (tentativa ${attempt}/${retryMaxAttempts}): ${(error as Error).message}. Nova tentativa em ${delay} ms.`);
+            await sleep(delay);
+        }
+    }
+};
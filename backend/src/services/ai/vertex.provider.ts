@@ -0,0 +1,193 @@
+// src/services/ai/vertex.provider.ts
+import { VertexAI, HarmCategory, HarmBlockThreshold, GenerateContentResponse, GenerationConfig, Part, ResponseSchema as VertexResponseSchema } from '@google-cloud/vertexai';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import { getAiConfig } from './config';
+import { NoImageReturnedError, SafetyBlockError, isSafetyFinishReason } from './errors';
+import { withRetry } from './retry';
+import { AiPart, DescribeOptions, ImageGenerationProvider, ImageResult, ResponseSchema, TextResult, TokenUsage, countImages, countTextChars } from './provider';
+
+const safetySettings = [
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+// O SDK do Vertex ainda não tipa 'responseModalities', mas repassa o campo para a API
+type ImageGenerationConfig = GenerationConfig & { responseModalities?: string[] };
+
+// Variável para cachear as credenciais da conta de serviço
+let serviceAccountCredentials: any | null = null;
+
+/**
+ * Busca as credenciais da conta de serviço no Google Cloud Secret Manager.
+ * Implementa um cache simples para evitar chamadas repetidas.
+ */
+export async function getServiceAccountCredentials(): Promise<any> {
+  if (serviceAccountCredentials) {
+    return serviceAccountCredentials;
+  }
+
+  const secretName = getAiConfig().secretName;
+
+  try {
+    console.log(`Buscando segredo: ${secretName}`);
+    const secretClient = new SecretManagerServiceClient();
+    const [version] = await secretClient.accessSecretVersion({ name: secretName }, { timeout: 120000 });
+    const secretString = version.payload?.data?.toString();
+
+    if (!secretString) {
+      throw new Error('Credenciais da conta de serviço não encontradas no Secret Manager.');
+    }
+
+    serviceAccountCredentials = JSON.parse(secretString);
+    console.log("Credenciais da conta de serviço carregadas com sucesso.");
+    return serviceAccountCredentials;
+
+  } catch (error) {
+    console.error("Falha ao buscar as credenciais da conta de serviço:", error);
+    throw new Error('Não foi possível carregar as credenciais da conta de serviço.');
+  }
+}
+
+const getTokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+    return {
+        promptTokenCount: metadata.promptTokenCount || 0,
+        candidatesTokenCount: metadata.candidatesTokenCount || 0,
+        totalTokenCount: metadata.totalTokenCount || 0,
+    };
+};
+
+const getResponseText = (response: GenerateContentResponse) =>
+    response.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('').trim() || '';
+
+// Extrai a imagem da resposta ou lança um erro explicando por que ela não veio
+const handleImageResponse = (response: GenerateContentResponse, context: string): string => {
+    // 1. Verifica se a solicitação foi bloqueada
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        throw new SafetyBlockError(`A solicitação para ${context} foi bloqueada. Motivo: ${blockReason}. ${blockReasonMessage || ''}`);
+    }
+
+    // 2. Procura a parte com a imagem
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    if (imagePart?.inlineData) {
+        const { mimeType, data } = imagePart.inlineData;
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    // 3. Sem imagem: verifica o motivo
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const message = `A tarefa de ${context} parou inesperadamente. Motivo: ${finishReason}.`;
+        throw isSafetyFinishReason(finishReason)
+            ? new SafetyBlockError(`${message} A solicitação foi barrada pelos filtros de segurança.`)
+            : new NoImageReturnedError(message);
+    }
+
+    const textFeedback = getResponseText(response);
+    throw new NoImageReturnedError(`O modelo de IA não retornou uma imagem para a tarefa de ${context}. ` +
+        (textFeedback
+            ? `O modelo respondeu com texto: "${textFeedback}"`
+            : "Isso pode acontecer devido a filtros de segurança ou se a solicitação for muito complexa. Por favor, tente reformular seu comando para ser mais direto."));
+};
+
+// Provedor Vertex AI (Gemini). O cliente é criado uma única vez e reaproveitado.
+export class VertexProvider implements ImageGenerationProvider {
+    readonly name = 'vertex';
+    private clientPromise: Promise<VertexAI> | null = null;
+
+    private getClient(): Promise<VertexAI> {
+        if (!this.clientPromise) {
+            this.clientPromise = getServiceAccountCredentials().then(credentials => new VertexAI({
+                project: credentials.project_id,
+                location: getAiConfig().location,
+                googleAuthOptions: {
+                    credentials,
+                    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+                },
+            }));
+            // Se falhar, permite nova tentativa na próxima chamada
+            this.clientPromise.catch(() => { this.clientPromise = null; });
+        }
+        return this.clientPromise;
+    }
+
+    private async run(model: string, parts: AiPart[], generationConfig?: GenerationConfig) {
+        const client = await this.getClient();
+        const generativeModel = client.getGenerativeModel({ model, safetySettings });
+        const result = await withRetry(() => generativeModel.generateContent({
+            contents: [{ role: 'user', parts: parts as Part[] }],
+            generationConfig,
+        }), model);
+        return result.response;
+    }
+
+    private async runImage(parts: AiPart[], context: string): Promise<ImageResult> {
+        const model = getAiConfig().imageModel;
+        const generationConfig: ImageGenerationConfig = { responseModalities: ['IMAGE', 'TEXT'] };
+        const response = await this.run(model, parts, generationConfig);
+
+        return {
+            image: handleImageResponse(response, context),
+            model,
+            usage: {
+                inputImages: countImages(parts),
+                outputImages: 1,
+                inputChars: countTextChars(parts),
+                outputChars: 0,
+            },
+            tokens: getTokenUsage(response),
+        };
+    }
+
+    private async runText(parts: AiPart[], generationConfig?: GenerationConfig): Promise<TextResult> {
+        const model = getAiConfig().textModel;
+        const response = await this.run(model, parts, generationConfig);
+
+        if (response.promptFeedback?.blockReason) {
+            throw new SafetyBlockError(`A solicitação foi bloqueada. Motivo: ${response.promptFeedback.blockReason}.`);
+        }
+        if (!response.candidates?.length) {
+            throw new Error('Nenhum candidato encontrado na resposta da API.');
+        }
+
+        const text = getResponseText(response);
+        return {
+            text,
+            model,
+            usage: {
+                inputImages: countImages(parts),
+                outputImages: 0,
+                inputChars: countTextChars(parts),
+                outputChars: text.length,
+            },
+            tokens: getTokenUsage(response),
+        };
+    }
+
+    generate(parts: AiPart[], context: string) {
+        return this.runImage(parts, context);
+    }
+
+    edit(parts: AiPart[], context: string) {
+        return this.runImage(parts, context);
+    }
+
+    describe(parts: AiPart[], options: DescribeOptions = {}) {
+        const json = options.json || !!options.responseSchema;
+        return this.runText(parts, json ? {
+            responseMimeType: 'application/json',
+            responseSchema: options.responseSchema as VertexResponseSchema | undefined,
+        } : undefined);
+    }
+
+    compare(parts: AiPart[], responseSchema: ResponseSchema) {
+        return this.runText(parts, {
+            responseMimeType: 'application/json',
+            responseSchema: responseSchema as VertexResponseSchema,
+        });
+    }
+}
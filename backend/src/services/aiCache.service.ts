@@ -0,0 +1,123 @@
+// src/services/aiCache.service.ts
+import { createHash } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './firebase';
+
+export const AI_CACHE_COLLECTION = 'ai_cache';
+
+// Chamadas de IA cujo resultado só depende da entrada e pode ser reaproveitado entre usuários
+export type AiCacheKind = 'describe' | 'training';
+
+export const AI_CACHE_KINDS: AiCacheKind[] = ['describe', 'training'];
+
+export const isAiCacheKind = (value: unknown): value is AiCacheKind => AI_CACHE_KINDS.includes(value as AiCacheKind);
+
+// Validade de uma entrada do cache (AI_CACHE_TTL_DAYS, padrão 30 dias)
+const getTtlMs = () => {
+    const days = Number(process.env.AI_CACHE_TTL_DAYS);
+    return (Number.isFinite(days) && days > 0 ? days : 30) * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Chave de cache endereçada por conteúdo: hash SHA-256 do tipo, da versão do prompt e das entradas
+ * (bytes das imagens e textos), na ordem recebida. A mesma entrada gera a mesma chave para qualquer usuário.
+ */
+export const buildAiCacheKey = (kind: AiCacheKind, promptVersion: string, inputs: (string | Buffer)[]) => {
+    const hash = createHash('sha256').update(`${kind}\n${promptVersion}\n`);
+    inputs.forEach(input => {
+        const bytes = typeof input === 'string' ? Buffer.from(input, 'utf8') : input;
+        // O tamanho antes de cada entrada evita que entradas diferentes concatenem para os mesmos bytes
+        hash.update(`${bytes.length}:`).update(bytes);
+    });
+    return `${kind}-${hash.digest('hex')}`;
+};
+
+// Resultado guardado e quanto ele custou quando foi gerado (a economia de cada acerto)
+export interface AiCacheEntry<T> {
+    value: T;
+    model: string;
+    cost: number;
+}
+
+/**
+ * Busca um resultado no cache. Entradas vencidas são apagadas e contam como ausência.
+ * Uma falha de leitura não impede a chamada: o erro é registrado no log e a chamada segue para a IA.
+ */
+export const getAiCacheEntry = async <T>(key: string): Promise<AiCacheEntry<T> | null> => {
+    try {
+        const ref = db.collection(AI_CACHE_COLLECTION).doc(key);
+        const doc = await ref.get();
+        if (!doc.exists) return null;
+
+        const data = doc.data()!;
+        if (data.expiresAt instanceof Timestamp && data.expiresAt.toMillis() < Date.now()) {
+            await ref.delete();
+            return null;
+        }
+
+        await ref.update({ hits: FieldValue.increment(1), lastHitAt: FieldValue.serverTimestamp() });
+        return { value: data.value as T, model: data.model, cost: data.cost || 0 };
+    } catch (error) {
+        console.error(`Falha ao ler o cache de IA (${key}):`, error);
+        return null;
+    }
+};
+
+// Guarda um resultado no cache; uma falha aqui não desfaz a operação, só é registrada no log
+export const setAiCacheEntry = async <T>(key: string, kind: AiCacheKind, entry: AiCacheEntry<T>, uid: string) => {
+    try {
+        await db.collection(AI_CACHE_COLLECTION).doc(key).set({
+            kind,
+            value: entry.value,
+            model: entry.model,
+            cost: entry.cost,
+            hits: 0,
+            createdBy: uid,
+            createdAt: FieldValue.serverTimestamp(),
+            expiresAt: Timestamp.fromMillis(Date.now() + getTtlMs()),
+        });
+    } catch (error) {
+        console.error(`Falha ao gravar o cache de IA (${key}):`, error);
+    }
+};
+
+// Quantidade de entradas e de acertos por tipo (painel de administração)
+export interface AiCacheStats {
+    kind: AiCacheKind;
+    entries: number;
+    hits: number;
+}
+
+export const getAiCacheStats = async (): Promise<AiCacheStats[]> => {
+    const snapshot = await db.collection(AI_CACHE_COLLECTION).select('kind', 'hits').get();
+    return AI_CACHE_KINDS.map(kind => {
+        const docs = snapshot.docs.filter(doc => doc.get('kind') === kind);
+        return { kind, entries: docs.length, hits: docs.reduce((sum, doc) => sum + (doc.get('hits') || 0), 0) };
+    });
+};
+
+/**
+ * Invalida o cache manualmente: uma entrada pela chave, todas de um tipo, ou tudo.
+ * @returns Quantas entradas foram apagadas.
+ */
+export const invalidateAiCache = async (filter: { key?: string; kind?: AiCacheKind }): Promise<number> => {
+    if (filter.key) {
+        const ref = db.collection(AI_CACHE_COLLECTION).doc(filter.key);
+        if (!(await ref.get()).exists) return 0;
+        await ref.delete();
+        return 1;
+    }
+
+    const query = filter.kind
+        ? db.collection(AI_CACHE_COLLECTION).where('kind', '==', filter.kind)
+        : db.collection(AI_CACHE_COLLECTION);
+    const snapshot = await query.select().get();
+
+    // Limite de escritas por lote do Firestore
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+        const batch = db.batch();
+        snapshot.docs.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+    }
+    return snapshot.size;
+};
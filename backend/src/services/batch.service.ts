@@ -0,0 +1,290 @@
+// src/services/batch.service.ts
+import { FieldValue } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db, storage } from './firebase';
+import { CostContext, InlineImage, enhanceImage, expandImage, generateModelImage, trainAgeCharacteristics } from './gemini.service';
+import { GALLERY_COLLECTION, findOrCreateFolder, saveToStorage } from './gallery.service';
+import { bufferToInlineImage, createExpandCanvas, dataUrlToBuffer, resizeAndCrop, resizeAndPad, toPng } from './image.service';
+import { BudgetExceededError, getExceededBudget } from './budget.service';
+import { getIdentity, loadIdentityImages } from './identity.service';
+import { ViewDefinition, resolveViewDefinition } from './view.service';
+import { recordProduct } from './product.service';
+
+// Imagens de referência enviadas uma vez para o lote inteiro
+export const REFERENCE_ROLES = [
+    'maleReferenceModel',
+    'femaleReferenceModel',
+    'referenceScene',
+    'referenceFit',
+    'maleReferenceBottom',
+    'femaleReferenceBottom',
+] as const;
+export type ReferenceRole = typeof REFERENCE_ROLES[number];
+
+// Arquivo de entrada guardado no Storage (privado) até o item ser processado
+export interface StoredFile {
+    name: string;
+    mimeType: string;
+    storagePath: string;
+}
+
+/**
+ * Parâmetros de um item, já resolvidos pelo cliente a partir dos ajustes do item,
+ * da planilha e das configurações globais (mesma prioridade do processamento no navegador).
+ */
+export interface BatchItemPlan {
+    clientItemId: string;
+    baseName: string;
+    sku?: string; // SKU sem a cor, quando a regra de agrupamento separa as cores em itens
+    color?: string;
+    collection?: string;
+    structuredDescription?: Record<string, string>; // JSON do describeClothing, guardado no produto
+    gender: 'male' | 'female';
+    age: string;
+    brand: string;
+    scenePrompt: string;
+    negativePrompt?: string;
+    modelNotes?: string;
+    clothingDescription?: string;
+    referenceBottomDescription?: string;
+    trainedCharacteristics?: string;
+    identityId?: string; // Identidade de modelo travada para o item (escolhida no lote ou pela marca)
+    views: string[]; // Vistas geradas para itens de arrastar e soltar
+    manualViews?: { viewName: string; fileName: string }[]; // Vistas definidas manualmente (frente, costas, total look)
+    targetDimensions: { width: string; height: string };
+    metadata?: Record<string, string>;
+}
+
+export interface BatchItemResult {
+    parentId: string;
+    resultIds: string[];
+    resultUrls: string[];
+    resultViews: string[]; // Vista de cada resultado, na mesma ordem (usada no manifesto do lote)
+    resultNames: string[];
+}
+
+// Foto de costas pelo sufixo do arquivo (SKU_costas.jpg, SKU_back_2.png)
+const isBackPhoto = (fileName: string) => /_(costas|back)(_\d{1,2})?$/i.test(fileName.replace(/\.[^/.]+$/, '').trim());
+
+export type ProgressReporter = (status: string, percentage: number) => Promise<void>;
+
+// Treinamentos de idade já feitos por este processo (compartilhados entre lotes)
+const ageCharacteristicsCache = new Map<string, Promise<string>>();
+
+const getAgeCharacteristics = (context: CostContext, age: string): Promise<string> => {
+    if (!age.trim()) return Promise.resolve("Características de idade não especificadas.");
+    let cached = ageCharacteristicsCache.get(age);
+    if (!cached) {
+        cached = trainAgeCharacteristics({ ...context, imageName: 'AI Agent Training', projectId: 'root', details: `Treinamento: ${age}` }, age)
+            .then(result => result.text);
+        // Um treinamento com falha não deve ficar em cache
+        cached.catch(() => ageCharacteristicsCache.delete(age));
+        ageCharacteristicsCache.set(age, cached);
+    }
+    return cached;
+};
+
+export const downloadStoredFile = async (file: StoredFile): Promise<Buffer> => {
+    const [buffer] = await storage.bucket().file(file.storagePath).download();
+    return buffer;
+};
+
+// Salva um resultado na galeria, no mesmo formato do upload feito pelo cliente
+const saveResultToGallery = async (uid: string, parentId: string, name: string, image: Buffer, original: StoredFile | undefined, metadata: Record<string, string>, lineage: { operation: string; prompt: string; promptVersions: string[] }) => {
+    const fileName = `${uid}/${uuidv4()}-${name}`;
+    const url = await saveToStorage(fileName, image, 'image/png');
+
+    let originalFields = {};
+    if (original) {
+        const originalFileName = `${uid}/originals/${uuidv4()}-original-${name}`;
+        originalFields = {
+            originalUrl: await saveToStorage(originalFileName, await downloadStoredFile(original), original.mimeType),
+            originalStoragePath: originalFileName,
+        };
+    }
+
+    const docRef = await db.collection(GALLERY_COLLECTION).add({
+        uid,
+        name,
+        parentId,
+        type: 'file',
+        url,
+        storagePath: fileName,
+        ...originalFields,
+        metadata,
+        parentImageId: null,
+        operation: lineage.operation,
+        prompt: lineage.prompt,
+        promptVersions: lineage.promptVersions,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    return { id: docRef.id, url };
+};
+
+/**
+ * Processa um item do lote no servidor: aprimora as fotos, gera cada vista com o modelo,
+ * ajusta as dimensões finais (conforme o pós-processamento de cada vista) e salva os resultados na pasta da marca.
+ * Espelha o processItem do BatchProcessor, inclusive as mensagens de progresso.
+ */
+export const processBatchItem = async (
+    uid: string,
+    item: BatchItemPlan,
+    files: StoredFile[],
+    references: Partial<Record<ReferenceRole, InlineImage>>,
+    report: ProgressReporter,
+): Promise<BatchItemResult> => {
+    let parentId = 'root';
+    const trimmedBrand = item.brand.trim();
+    if (trimmedBrand) {
+        const folder = await findOrCreateFolder(uid, trimmedBrand, 'root');
+        parentId = folder.id;
+    }
+
+    const exceeded = await getExceededBudget(uid, parentId);
+    if (exceeded) {
+        throw new BudgetExceededError(exceeded);
+    }
+
+    const context: CostContext = { uid, projectId: parentId, imageName: item.baseName, ...(trimmedBrand ? { brand: trimmedBrand } : {}) };
+
+    await report('Verificando treinamento de IA...', 1);
+    const ageCharacteristics = item.trainedCharacteristics || await getAgeCharacteristics(context, item.age);
+
+    await report('Aprimorando imagens...', 2);
+    const originals = await Promise.all(files.map(downloadStoredFile));
+    // Versões de template de prompt usadas em cada etapa, gravadas com cada imagem gerada
+    const enhanceVersions = new Set<string>();
+    const enhancedImages: InlineImage[] = await Promise.all(files.map(async (file, index) => {
+        const original = bufferToInlineImage(originals[index], file.mimeType);
+        const { image, promptVersions } = await enhanceImage(context, original);
+        promptVersions.forEach(version => enhanceVersions.add(version));
+        return bufferToInlineImage(dataUrlToBuffer(image), 'image/png');
+    }));
+
+    const referenceModel = item.gender === 'male' ? references.maleReferenceModel : references.femaleReferenceModel;
+    const identity = item.identityId ? await getIdentity(item.identityId) : null;
+    if (item.identityId && !identity) {
+        throw new Error('Identidade de modelo não encontrada.');
+    }
+    const identityImages = identity ? await loadIdentityImages(identity) : undefined;
+    const referenceBottom = item.gender === 'male' ? references.maleReferenceBottom : references.femaleReferenceBottom;
+
+    // Cada vista a gerar e as fotos da roupa usadas nela
+    const isManualEntry = !!item.manualViews?.length;
+    const backImages = enhancedImages.filter((_, index) => isBackPhoto(files[index].name));
+    const viewsToProcess: { viewName: string; clothingImages: InlineImage[] }[] = isManualEntry
+        ? item.manualViews!.flatMap(({ viewName, fileName }) => {
+            const index = files.findIndex(file => file.name === fileName);
+            return index >= 0 ? [{ viewName, clothingImages: [enhancedImages[index]] }] : [];
+        })
+        : item.views.map(viewName => ({ viewName, clothingImages: enhancedImages }));
+    const definitions = new Map<string, ViewDefinition>();
+    for (const { viewName } of viewsToProcess) {
+        if (!definitions.has(viewName)) definitions.set(viewName, await resolveViewDefinition(viewName));
+    }
+
+    if (!isManualEntry && item.views.length === 0) {
+        throw new Error("Nenhuma vista de geração foi selecionada para itens de arrastar e soltar. Marque ao menos uma opção em 'Saída e Estilo'.");
+    }
+
+    const results: { viewName: string; image: Buffer; promptVersions: string[] }[] = [];
+    let dynamicReferenceModel: InlineImage | null = null;
+
+    for (let i = 0; i < viewsToProcess.length; i++) {
+        const { viewName, clothingImages } = viewsToProcess[i];
+        const progressPercentage = 20 + (i / viewsToProcess.length) * 60;
+        await report(isManualEntry ? `Gerando vista manual: ${viewName}` : `Gerando vista: ${viewName} (${i + 1}/${viewsToProcess.length})`, progressPercentage);
+
+        if (clothingImages.length === 0) {
+            console.warn(`Nenhuma imagem de roupa encontrada para o item ${item.baseName}. Pulando.`);
+            continue;
+        }
+
+        // Vistas de costas usam só as fotos de costas do item, quando houver
+        const view = definitions.get(viewName)!;
+        const { image, promptVersions } = await generateModelImage(context, {
+            clothingImages: !isManualEntry && view.needsBackPhoto && backImages.length > 0 ? backImages : clothingImages,
+            age: item.age,
+            gender: item.gender,
+            scenePrompt: item.scenePrompt,
+            clothingDescription: item.clothingDescription,
+            // Com identidade travada, a referência estática do lote não é usada
+            referenceModel: dynamicReferenceModel || (identity ? null : referenceModel),
+            identityFaces: identityImages?.faces,
+            identityBodies: identityImages?.bodies,
+            referenceScene: references.referenceScene,
+            fitReference: references.referenceFit,
+            modelNotes: item.modelNotes,
+            negativePrompt: item.negativePrompt,
+            referenceBottom,
+            referenceBottomDescription: item.referenceBottomDescription,
+            trainedCharacteristics: ageCharacteristics,
+            photoFraming: viewName,
+            view,
+        });
+
+        const buffer = dataUrlToBuffer(image);
+        results.push({ viewName, image: buffer, promptVersions: [...enhanceVersions, ...promptVersions] });
+
+        // A primeira vista gerada vira a referência de modelo das seguintes
+        if (!dynamicReferenceModel) {
+            dynamicReferenceModel = bufferToInlineImage(buffer, 'image/png');
+        }
+    }
+
+    const finalWidth = parseInt(item.targetDimensions.width, 10);
+    const finalHeight = parseInt(item.targetDimensions.height, 10);
+
+    await report('Finalizando e redimensionando...', 85);
+    const finalImages = await Promise.all(results.map(async ({ viewName, image, promptVersions }) => {
+        if (!(finalWidth > 0 && finalHeight > 0)) return { image: await toPng(image), promptVersions };
+
+        const { postProcess } = definitions.get(viewName)!;
+        // Vistas com expansão são completadas com IA até a proporção final e depois recortadas no tamanho exato
+        if (postProcess === 'expand') {
+            const { baseImage, maskImage } = await createExpandCanvas(image, finalWidth, finalHeight);
+            const expanded = await expandImage({ ...context, details: `Expand to ${finalWidth}x${finalHeight}` }, baseImage, maskImage);
+            return {
+                image: await resizeAndCrop(dataUrlToBuffer(expanded.image), finalWidth, finalHeight),
+                promptVersions: [...promptVersions, ...expanded.promptVersions],
+            };
+        }
+        return {
+            image: await (postProcess === 'pad' ? resizeAndPad(image, finalWidth, finalHeight) : resizeAndCrop(image, finalWidth, finalHeight)),
+            promptVersions,
+        };
+    }));
+
+    const metadataWithBrand = { ...(item.metadata || {}), marca: trimmedBrand };
+    const saved: { id: string; url: string; name: string }[] = [];
+    for (let i = 0; i < finalImages.length; i++) {
+        const viewName = results[i].viewName;
+        const resultName = `${item.baseName}-${definitions.get(viewName)!.outputSuffix}-${i}.png`;
+        const result = await saveResultToGallery(uid, parentId, resultName, finalImages[i].image, files[0], metadataWithBrand, {
+            operation: `batch:${viewName}`,
+            prompt: item.scenePrompt,
+            promptVersions: finalImages[i].promptVersions,
+        });
+        saved.push({ ...result, name: resultName });
+    }
+
+    // Liga o item ao catálogo de produtos; uma falha aqui não perde os resultados já salvos
+    await recordProduct(uid, {
+        sku: item.sku || item.baseName,
+        brand: trimmedBrand,
+        color: item.color,
+        collection: item.collection,
+        description: item.structuredDescription,
+        metadata: item.metadata,
+        outputs: saved.map((result, index) => ({ view: results[index].viewName, name: result.name, url: result.url, galleryId: result.id })),
+    }, files.map((file, index) => ({ buffer: originals[index], mimeType: file.mimeType, originalName: file.name })))
+        .catch(err => console.error(`Falha ao registrar o produto ${item.baseName}:`, err));
+
+    return {
+        parentId,
+        resultIds: saved.map(result => result.id),
+        resultUrls: saved.map(result => result.url),
+        resultViews: results.map(result => result.viewName),
+        resultNames: saved.map(result => result.name),
+    };
+};
@@ -0,0 +1,71 @@
+// src/services/brandTone.service.ts
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './firebase';
+
+export const BRAND_TONES_COLLECTION = 'brand_tones';
+
+// Idiomas em que os textos de e-commerce podem ser gerados
+export type CopyLanguage = 'pt-BR' | 'en' | 'es';
+
+export const COPY_LANGUAGES: CopyLanguage[] = ['pt-BR', 'en', 'es'];
+
+export const isCopyLanguage = (value: unknown): value is CopyLanguage => COPY_LANGUAGES.includes(value as CopyLanguage);
+
+/**
+ * Tom de voz de uma marca, usado ao gerar os textos da loja (título, descrições, SEO).
+ * Há no máximo um por marca; o id do documento é a marca normalizada.
+ */
+export interface BrandTone {
+    id: string;
+    brand: string;
+    voice: string; // Ex.: 'Descontraído, próximo, com humor leve'
+    audience: string; // Público-alvo
+    preferredTerms: string; // Palavras e expressões que a marca usa
+    avoidTerms: string; // Palavras e expressões proibidas
+    languages: CopyLanguage[]; // Idiomas gerados por padrão para a marca
+    updatedAt?: string;
+}
+
+export type BrandToneFields = Omit<BrandTone, 'id' | 'updatedAt'>;
+
+export const getBrandToneId = (brand: string) => brand.trim().toLowerCase().replace(/[\s/]+/g, '-');
+
+const docToTone = (doc: FirebaseFirestore.DocumentSnapshot): BrandTone => {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        brand: data.brand,
+        voice: data.voice || '',
+        audience: data.audience || '',
+        preferredTerms: data.preferredTerms || '',
+        avoidTerms: data.avoidTerms || '',
+        languages: (data.languages || []).filter(isCopyLanguage),
+        updatedAt: data.updatedAt?.toDate().toISOString(),
+    };
+};
+
+export const listBrandTones = async (): Promise<BrandTone[]> => {
+    const snapshot = await db.collection(BRAND_TONES_COLLECTION).orderBy('brand').get();
+    return snapshot.docs.map(docToTone);
+};
+
+// Tom de voz da marca, ou null quando a marca não tem um cadastrado
+export const getBrandTone = async (brand: string): Promise<BrandTone | null> => {
+    if (!brand.trim()) return null;
+    const doc = await db.collection(BRAND_TONES_COLLECTION).doc(getBrandToneId(brand)).get();
+    return doc.exists ? docToTone(doc) : null;
+};
+
+// Cria ou substitui o tom de voz da marca
+export const saveBrandTone = async (fields: BrandToneFields, uid: string): Promise<BrandTone> => {
+    const ref = db.collection(BRAND_TONES_COLLECTION).doc(getBrandToneId(fields.brand));
+    await ref.set({ ...fields, updatedBy: uid, updatedAt: FieldValue.serverTimestamp() });
+    return docToTone(await ref.get());
+};
+
+export const deleteBrandTone = async (toneId: string): Promise<boolean> => {
+    const ref = db.collection(BRAND_TONES_COLLECTION).doc(toneId);
+    if (!(await ref.get()).exists) return false;
+    await ref.delete();
+    return true;
+};
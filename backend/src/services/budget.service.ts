@@ -0,0 +1,118 @@
+// src/services/budget.service.ts
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './firebase';
+import { COSTS_COLLECTION } from './cost.service';
+
+export const BUDGETS_COLLECTION = 'budgets';
+
+// Percentual do limite a partir do qual o usuário passa a ver o aviso
+export const DEFAULT_SOFT_THRESHOLD = 0.8;
+
+export type BudgetScope = 'user' | 'project';
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface Budget {
+    scope: BudgetScope;
+    targetId: string; // uid do usuário ou id da pasta do projeto
+    monthlyLimit: number; // USD
+    softThreshold: number; // fração do limite (0 a 1)
+}
+
+export interface BudgetStatus extends Budget {
+    spent: number;
+    remaining: number;
+    state: BudgetState;
+}
+
+export const isBudgetScope = (value: unknown): value is BudgetScope => value === 'user' || value === 'project';
+
+const budgetDocId = (scope: BudgetScope, targetId: string) => `${scope}_${targetId}`;
+
+// Início do mês corrente (UTC): os orçamentos são renovados todo mês
+const getMonthStart = () => {
+    const now = new Date();
+    return Timestamp.fromDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+};
+
+// Soma o que já foi gasto no mês corrente por um usuário ou projeto
+export const getMonthlySpend = async (scope: BudgetScope, targetId: string): Promise<number> => {
+    const field = scope === 'user' ? 'uid' : 'projectId';
+    const snapshot = await db.collection(COSTS_COLLECTION)
+        .where(field, '==', targetId)
+        .where('createdAt', '>=', getMonthStart())
+        .get();
+
+    // Registros importados do navegador são histórico anterior ao livro de custos e não entram no limite
+    return snapshot.docs.reduce((sum, doc) => doc.get('source') === 'import' ? sum : sum + (doc.get('cost') || 0), 0);
+};
+
+const toStatus = async (budget: Budget): Promise<BudgetStatus> => {
+    const spent = await getMonthlySpend(budget.scope, budget.targetId);
+    const remaining = Math.max(budget.monthlyLimit - spent, 0);
+    let state: BudgetState = 'ok';
+    if (spent >= budget.monthlyLimit) {
+        state = 'exceeded';
+    } else if (spent >= budget.monthlyLimit * budget.softThreshold) {
+        state = 'warning';
+    }
+    return { ...budget, spent, remaining, state };
+};
+
+const docToBudget = (data: FirebaseFirestore.DocumentData): Budget => ({
+    scope: data.scope,
+    targetId: data.targetId,
+    monthlyLimit: data.monthlyLimit,
+    softThreshold: data.softThreshold ?? DEFAULT_SOFT_THRESHOLD,
+});
+
+export const getBudget = async (scope: BudgetScope, targetId: string): Promise<Budget | null> => {
+    const doc = await db.collection(BUDGETS_COLLECTION).doc(budgetDocId(scope, targetId)).get();
+    return doc.exists ? docToBudget(doc.data()!) : null;
+};
+
+// Lista todos os orçamentos cadastrados com o gasto do mês
+export const listBudgetStatuses = async (): Promise<BudgetStatus[]> => {
+    const snapshot = await db.collection(BUDGETS_COLLECTION).get();
+    return Promise.all(snapshot.docs.map(doc => toStatus(docToBudget(doc.data()))));
+};
+
+// Situação dos orçamentos que se aplicam a uma chamada: o do usuário e o do projeto (se houver)
+export const getApplicableBudgetStatuses = async (uid: string, projectId?: string): Promise<BudgetStatus[]> => {
+    const budgets = await Promise.all([
+        getBudget('user', uid),
+        projectId && projectId !== 'root' ? getBudget('project', projectId) : Promise.resolve(null),
+    ]);
+    return Promise.all(budgets.filter((budget): budget is Budget => !!budget).map(toStatus));
+};
+
+// Primeiro orçamento esgotado entre os que se aplicam (ou null se ainda há saldo)
+export const getExceededBudget = async (uid: string, projectId?: string): Promise<BudgetStatus | null> => {
+    const statuses = await getApplicableBudgetStatuses(uid, projectId);
+    return statuses.find(status => status.state === 'exceeded') || null;
+};
+
+export const describeExceededBudget = (budget: BudgetStatus) => {
+    const target = budget.scope === 'user' ? 'do usuário' : 'do projeto';
+    return `Orçamento mensal ${target} esgotado (US$ ${budget.spent.toFixed(2)} de US$ ${budget.monthlyLimit.toFixed(2)}). Fale com um administrador.`;
+};
+
+// Orçamento esgotado durante um lote: não adianta tentar de novo até um administrador agir
+export class BudgetExceededError extends Error {
+    constructor(readonly budget: BudgetStatus) {
+        super(describeExceededBudget(budget));
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export const setBudget = async (budget: Budget, updatedBy: string) => {
+    await db.collection(BUDGETS_COLLECTION).doc(budgetDocId(budget.scope, budget.targetId)).set({
+        ...budget,
+        updatedBy,
+        updatedAt: FieldValue.serverTimestamp(),
+    });
+    return toStatus(budget);
+};
+
+export const deleteBudget = async (scope: BudgetScope, targetId: string) => {
+    await db.collection(BUDGETS_COLLECTION).doc(budgetDocId(scope, targetId)).delete();
+};
@@ -0,0 +1,144 @@
+// src/services/cost.service.ts
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './firebase';
+import { OperationUsage, TokenUsage } from './ai';
+
+export const COSTS_COLLECTION = 'costs';
+
+export type CostOperation =
+    | 'retouch' | 'model' | 'expand' | 'describe' | 'enhance' | 'training' | 'correction' | 'findDifferences' | 'pose' | 'copy';
+
+// Quem gerou o custo e a que projeto/imagem ele pertence
+export interface CostContext {
+    uid: string;
+    projectId: string;
+    imageName: string;
+    details?: string;
+    brand?: string; // Marca do trabalho, para usar as personalizações de prompt dela
+}
+
+// Resultado de uma chamada ao provedor, com as contagens usadas no cálculo
+export interface BillableResult {
+    model: string;
+    usage: OperationUsage;
+    tokens?: TokenUsage;
+}
+
+// Preços em USD por 1M de tokens (https://cloud.google.com/vertex-ai/generative-ai/pricing)
+const TOKEN_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+    'gemini-2.5-flash-image-preview': { input: 0.30, output: 30.00 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+    'mock': { input: 0, output: 0 },
+};
+
+// Estimativa usada quando a API não devolve usageMetadata ou o modelo não está na tabela
+const PRICE_PER_INPUT_CHAR = 0.35 / 1_000_000;
+const PRICE_PER_OUTPUT_CHAR = 0.70 / 1_000_000;
+const PRICE_PER_INPUT_IMAGE = 0.000125;
+const PRICE_PER_OUTPUT_IMAGE = 0.020;
+
+// Calcula o custo (USD) de uma chamada, preferindo a contagem real de tokens
+export const calculateCost = ({ model, usage, tokens }: BillableResult): number => {
+    const pricing = TOKEN_PRICING[model];
+    if (pricing && (tokens || model === 'mock')) {
+        const input = tokens?.promptTokenCount || 0;
+        const output = tokens?.candidatesTokenCount || 0;
+        return (input * pricing.input + output * pricing.output) / 1_000_000;
+    }
+
+    return usage.inputChars * PRICE_PER_INPUT_CHAR
+        + usage.outputChars * PRICE_PER_OUTPUT_CHAR
+        + usage.inputImages * PRICE_PER_INPUT_IMAGE
+        + usage.outputImages * PRICE_PER_OUTPUT_IMAGE;
+};
+
+// Resumo padrão das contagens, usado quando o chamador não informa detalhes
+const describeUsage = ({ usage, tokens }: BillableResult) => {
+    const counts = `${usage.inputImages} img in, ${usage.outputImages} img out`;
+    return tokens
+        ? `${counts}, ${tokens.promptTokenCount} tokens in, ${tokens.candidatesTokenCount} tokens out`
+        : `${counts}, ${usage.inputChars} chars in, ${usage.outputChars} chars out`;
+};
+
+/**
+ * Registra no livro de custos (coleção 'costs') uma chamada de IA, com as versões dos prompts usados.
+ * Uma falha aqui não desfaz a operação: o erro é apenas registrado no log (e o costId volta nulo).
+ */
+export const recordCost = async (context: CostContext, operation: CostOperation, result: BillableResult, promptVersions: string[] = []): Promise<{ cost: number; costId: string | null }> => {
+    const cost = calculateCost(result);
+    try {
+        const docRef = await db.collection(COSTS_COLLECTION).add({
+            uid: context.uid,
+            projectId: context.projectId,
+            imageName: context.imageName,
+            operation,
+            model: result.model,
+            inputImages: result.usage.inputImages,
+            outputImages: result.usage.outputImages,
+            inputChars: result.usage.inputChars,
+            outputChars: result.usage.outputChars,
+            promptTokenCount: result.tokens?.promptTokenCount ?? null,
+            candidatesTokenCount: result.tokens?.candidatesTokenCount ?? null,
+            totalTokenCount: result.tokens?.totalTokenCount ?? null,
+            cost,
+            details: (context.details || describeUsage(result)).substring(0, 150),
+            promptVersions,
+            source: 'api',
+            createdAt: FieldValue.serverTimestamp(),
+        });
+        return { cost, costId: docRef.id };
+    } catch (error) {
+        console.error(`Falha ao registrar custo de ${operation} para o usuário ${context.uid}:`, error);
+    }
+    return { cost, costId: null };
+};
+
+/**
+ * Registra um acerto do cache de IA: custo zero e, em savedCost, quanto a chamada teria custado.
+ * Como no recordCost, uma falha aqui é apenas registrada no log.
+ */
+export const recordCacheHit = async (context: CostContext, operation: CostOperation, hit: { model: string; savedCost: number }): Promise<string | null> => {
+    try {
+        const docRef = await db.collection(COSTS_COLLECTION).add({
+            uid: context.uid,
+            projectId: context.projectId,
+            imageName: context.imageName,
+            operation,
+            model: hit.model,
+            inputImages: 0,
+            outputImages: 0,
+            inputChars: 0,
+            outputChars: 0,
+            promptTokenCount: null,
+            candidatesTokenCount: null,
+            totalTokenCount: null,
+            cost: 0,
+            savedCost: hit.savedCost,
+            details: `Cache: ${context.details || 'resultado reaproveitado'}`.substring(0, 150),
+            source: 'cache',
+            createdAt: FieldValue.serverTimestamp(),
+        });
+        return docRef.id;
+    } catch (error) {
+        console.error(`Falha ao registrar acerto de cache de ${operation} para o usuário ${context.uid}:`, error);
+    }
+    return null;
+};
+
+/**
+ * Marca como descartados os registros de custo de candidatos que o usuário não escolheu.
+ * O custo continua contando; a marcação só mostra quanto foi gasto com gerações rejeitadas.
+ * @returns Quantos registros do usuário foram marcados.
+ */
+export const markCostsRejected = async (uid: string, costIds: string[]): Promise<number> => {
+    const refs = costIds.map(id => db.collection(COSTS_COLLECTION).doc(id));
+    const snapshots = refs.length > 0 ? await db.getAll(...refs) : [];
+    const owned = snapshots.filter(snapshot => snapshot.exists && snapshot.data()?.uid === uid);
+
+    const batch = db.batch();
+    owned.forEach(snapshot => batch.update(snapshot.ref, { rejected: true, rejectedAt: FieldValue.serverTimestamp() }));
+    await batch.commit();
+    return owned.length;
+};
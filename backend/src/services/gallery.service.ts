@@ -0,0 +1,77 @@
+// src/services/gallery.service.ts
+import { db, storage } from './firebase';
+import { FieldValue } from 'firebase-admin/firestore';
+
+export const GALLERY_COLLECTION = 'gallery';
+
+// Helper para gerar URL pública de um arquivo no Cloud Storage
+export const getPublicUrl = (bucketName: string, fileName: string) => `https://storage.googleapis.com/${bucketName}/${fileName}`;
+
+// Salva um conteúdo no Storage e o torna público
+export const saveToStorage = async (fileName: string, buffer: Buffer, contentType: string) => {
+    const bucket = storage.bucket(); // Usa o bucket padrão configurado
+    const storageFile = bucket.file(fileName);
+    await storageFile.save(buffer, {
+        metadata: {
+            contentType,
+        },
+    });
+    await storageFile.makePublic();
+    return getPublicUrl(bucket.name, fileName);
+};
+
+// Encontra a pasta pelo nome dentro de outra pasta ou a cria (mesma regra do cliente para as pastas de marca)
+export const findOrCreateFolder = async (uid: string, name: string, parentId: string) => {
+    const snapshot = await db.collection(GALLERY_COLLECTION)
+        .where('uid', '==', uid)
+        .where('parentId', '==', parentId)
+        .where('type', '==', 'folder')
+        .where('name', '==', name)
+        .limit(1)
+        .get();
+
+    if (!snapshot.empty) {
+        return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() };
+    }
+
+    const newFolder = {
+        uid,
+        name,
+        parentId,
+        type: 'folder',
+        createdAt: FieldValue.serverTimestamp(),
+    };
+    const docRef = await db.collection(GALLERY_COLLECTION).add(newFolder);
+    return { id: docRef.id, ...newFolder };
+};
+
+/**
+ * Resolve a pasta informada pelo cliente para a pasta de projeto (a de primeiro nível, logo abaixo da raiz).
+ * Devolve null quando alguma pasta do caminho não existe, não é uma pasta ou não pertence ao usuário.
+ */
+export const resolveProjectFolder = async (uid: string, folderId: string): Promise<string | null> => {
+    const visited = new Set<string>();
+    let currentId = folderId;
+
+    while (currentId !== 'root') {
+        if (visited.has(currentId)) return null; // Ciclo de pastas: não confia no caminho
+        visited.add(currentId);
+
+        const doc = await db.collection(GALLERY_COLLECTION).doc(currentId).get();
+        const data = doc.data();
+        if (!data || data.uid !== uid || data.type !== 'folder') return null;
+
+        const parentId = typeof data.parentId === 'string' && data.parentId ? data.parentId : 'root';
+        if (parentId === 'root') return currentId;
+        currentId = parentId;
+    }
+    return 'root';
+};
+
+// Confere se todos os itens existem na galeria e pertencem ao usuário
+export const areGalleryItemsOwnedBy = async (uid: string, itemIds: string[]) => {
+    const uniqueIds = Array.from(new Set(itemIds));
+    if (uniqueIds.length === 0) return true;
+    const docs = await db.getAll(...uniqueIds.map(id => db.collection(GALLERY_COLLECTION).doc(id)));
+    return docs.every(doc => doc.exists && doc.data()?.uid === uid);
+};
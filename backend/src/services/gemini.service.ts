@@ -0,0 +1,503 @@
+// src/services/gemini.service.ts
+import { getImageProvider, AiPart, ImageResult, InlineImage, ResponseSchema, TextResult } from './ai';
+import { CostContext, CostOperation, recordCacheHit, recordCost } from './cost.service';
+import { AiCacheKind, buildAiCacheKey, getAiCacheEntry, setAiCacheEntry } from './aiCache.service';
+import { ViewDefinition } from './view.service';
+import { BrandTone, CopyLanguage } from './brandTone.service';
+import { Vocabulary, normalizeTermText, normalizeToVocabulary } from './vocabulary.service';
+import { resolvePrompt } from './promptTemplate.service';
+
+export type { InlineImage, OperationUsage } from './ai';
+export type { CostContext } from './cost.service';
+
+// Helper para converter base64 para Generative Part
+const toPart = (image: InlineImage): AiPart => ({
+    inlineData: {
+        data: image.data,
+        mimeType: image.mimeType,
+    },
+});
+
+// Registra o custo da chamada (e as versões dos prompts usados) e devolve o resultado com o valor cobrado
+const billed = async <T extends ImageResult | TextResult>(context: CostContext, operation: CostOperation, result: T, promptVersions: string[] = []) => {
+    const { cost, costId } = await recordCost(context, operation, result, promptVersions);
+    return { ...result, cost, costId, promptVersions };
+};
+
+/**
+ * Reaproveita o resultado do cache de IA compartilhado ou faz a chamada e guarda o resultado.
+ * Um acerto entra no livro de custos com custo zero e a economia em savedCost.
+ */
+const withAiCache = async <V>(
+    context: CostContext,
+    operation: CostOperation,
+    kind: AiCacheKind,
+    key: string,
+    call: () => Promise<{ value: V; model: string; cost: number; costId: string | null }>,
+) => {
+    const hit = await getAiCacheEntry<V>(key);
+    if (hit) {
+        const costId = await recordCacheHit(context, operation, { model: hit.model, savedCost: hit.cost });
+        return { value: hit.value, model: hit.model, cost: 0, costId, cached: true };
+    }
+
+    const result = await call();
+    await setAiCacheEntry(key, kind, { value: result.value, model: result.model, cost: result.cost }, context.uid);
+    return { ...result, cached: false };
+};
+
+// Converte a resposta em JSON, removendo cercas de código se houver
+const parseJsonResponse = (text: string, context: string) => {
+    try {
+        return JSON.parse(text.replace(/```json|```/g, '').trim());
+    } catch (error) {
+        console.error(`Falha ao interpretar JSON de ${context}:`, error, { text });
+        throw new Error(`A IA retornou uma resposta em formato inválido para ${context}.`);
+    }
+};
+
+// Aprimora e aumenta a resolução de uma imagem
+export const enhanceImage = async (context: CostContext, image: InlineImage) => {
+    const prompt = await resolvePrompt('enhance', context.brand);
+    return billed(context, 'enhance', await getImageProvider().generate([toPart(image), { text: prompt.text }], 'enhance'), [prompt.versionId]);
+};
+
+// Aplica uma edição localizada (por máscara ou por ponto clicado)
+export const editImage = async (context: CostContext, params: {
+    image: InlineImage;
+    prompt: string;
+    mask?: InlineImage | null;
+    hotspot?: { x: number; y: number } | null;
+    imageWidth?: number;
+    imageHeight?: number;
+}, operation: CostOperation = 'retouch', instructionVersions: string[] = []) => {
+    const parts: AiPart[] = [toPart(params.image)];
+
+    let prompt;
+    if (params.mask) {
+        parts.push({ text: 'A imagem a seguir é uma máscara. A área em vermelho indica a região a ser editada.' });
+        parts.push(toPart(params.mask));
+        prompt = await resolvePrompt('editMask', context.brand, { instruction: params.prompt });
+    } else if (params.hotspot) {
+        const { x, y } = params.hotspot;
+        prompt = await resolvePrompt('editHotspot', context.brand, {
+            width: String(params.imageWidth), height: String(params.imageHeight), x: String(x), y: String(y), instruction: params.prompt,
+        });
+    } else {
+        throw new Error("É necessário fornecer um hotspot ou uma máscara para a edição.");
+    }
+    parts.push({ text: prompt.text });
+
+    return billed(context, operation, await getImageProvider().edit(parts, operation), [...instructionVersions, prompt.versionId]);
+};
+
+// Gera o mesmo modelo e roupa em outra pose
+export const generatePoseVariation = async (context: CostContext, image: InlineImage) => {
+    const prompt = await resolvePrompt('poseVariation', context.brand);
+    return billed(context, 'pose', await getImageProvider().generate([toPart(image), { text: prompt.text }], 'pose variation'), [prompt.versionId]);
+};
+
+// Preenche as áreas mascaradas (outpainting) de uma imagem já posicionada na tela final
+export const expandImage = async (context: CostContext, baseImage: InlineImage, maskImage: InlineImage) => {
+    const instruction = await resolvePrompt('outpainting', context.brand);
+    return editImage(context, { image: baseImage, mask: maskImage, prompt: instruction.text }, 'expand', [instruction.versionId]);
+};
+
+// Responde a um prompt livre sobre uma imagem (texto simples)
+export const generateContent = async (context: CostContext, image: InlineImage, prompt: string) =>
+    billed(context, 'describe', await getImageProvider().describe([{ text: prompt }, toPart(image)]));
+
+// Descreve as características físicas típicas de uma faixa etária (cacheado por idade e versão do prompt, para todos os usuários)
+export const trainAgeCharacteristics = async (context: CostContext, age: string) => {
+    const prompt = await resolvePrompt('ageTraining', context.brand, { age });
+    const key = buildAiCacheKey('training', prompt.versionId, [age.trim().toLowerCase()]);
+    const { value, model, cost, costId, cached } = await withAiCache(context, 'training', 'training', key, async () => {
+        const { text, model, cost, costId } = await billed(context, 'training', await getImageProvider().describe([{ text: prompt.text }]), [prompt.versionId]);
+        return { value: text, model, cost, costId };
+    });
+    return { text: value, model, cost, costId, cached, promptVersions: [prompt.versionId] };
+};
+
+// Descreve brevemente o caimento da roupa de uma imagem de referência
+const describeFitAndStyle = async (context: CostContext, fitReference: InlineImage) => {
+    const prompt = await resolvePrompt('fitAnalysis', context.brand);
+    return billed({ ...context, details: 'Análise de caimento' }, 'model', await getImageProvider().describe([toPart(fitReference), { text: prompt.text }]), [prompt.versionId]);
+};
+
+// Papel de cada foto enviada para a descrição da peça
+export type DescribeRole = 'front' | 'back' | 'detail' | 'totalLook';
+
+export const DESCRIBE_ROLES: DescribeRole[] = ['front', 'back', 'detail', 'totalLook'];
+
+export const isDescribeRole = (value: unknown): value is DescribeRole => DESCRIBE_ROLES.includes(value as DescribeRole);
+
+const describeRoleLabels: Record<DescribeRole, string> = {
+    front: 'Frente da peça',
+    back: 'Costas da peça',
+    detail: 'Detalhe (close-up)',
+    totalLook: 'Total look (peça vestida, corpo inteiro)',
+};
+
+export interface DescribeImage {
+    role: DescribeRole;
+    image: InlineImage;
+}
+
+// Atributos extraídos da peça, na ordem em que aparecem na descrição
+export const CLOTHING_ATTRIBUTES = [
+    'Tipo de Peça', 'Cores Principais', 'Estampa/Padrão', 'Tipo de Tecido', 'Caimento', 'Detalhes de Bolsos',
+    'Tipo de Fechamento', 'Decote', 'Comprimento da Manga', 'Detalhes Adicionais', 'Transparência', 'Ocasião Recomendada',
+];
+
+// Valor usado quando a IA não consegue (ou não devolve) um termo do vocabulário
+export const UNIDENTIFIED_VALUE = 'Não identificado';
+
+// Quão segura a IA está de um atributo (0 a 1) e em qual foto ele foi observado
+export interface AttributeEvidence {
+    confidence: number;
+    source: DescribeRole;
+}
+
+// Schema do valor de um atributo: enum do vocabulário (lista quando aceita vários), ou texto livre sem vocabulário
+const attributeValueSchema = (vocabulary: Vocabulary | undefined): ResponseSchema => {
+    if (!vocabulary) return { type: 'STRING' };
+    const values = [...vocabulary.terms.map(term => term.value), UNIDENTIFIED_VALUE];
+    return vocabulary.multiple
+        ? { type: 'ARRAY', items: { type: 'STRING', enum: values } }
+        : { type: 'STRING', enum: values };
+};
+
+/**
+ * Extrai a descrição estruturada de uma peça de roupa a partir de todas as fotos dela (frente, costas, detalhes, total look).
+ * As evidências das fotos são combinadas; cada atributo volta com a confiança e a vista de onde veio.
+ * Os atributos com vocabulário só aceitam os termos cadastrados; os valores são normalizados para o termo canônico
+ * e o que não corresponder a nenhum termo vira 'Não identificado' com confiança 0. Só "Detalhes Adicionais" é texto livre.
+ * O resultado fica no cache de IA, endereçado pelos bytes das fotos, pelos papéis e pelos vocabulários.
+ */
+export const describeClothing = async (context: CostContext, images: DescribeImage[], vocabularies: Vocabulary[]) => {
+    if (images.length === 0) throw new Error("É necessário enviar ao menos uma foto da peça.");
+
+    const vocabularyByAttribute = new Map(vocabularies.map(vocabulary => [vocabulary.attribute, vocabulary]));
+    const allowedValues = vocabularies.map(vocabulary =>
+        `- "${vocabulary.attribute}"${vocabulary.multiple ? ' (um ou mais)' : ''}: ${vocabulary.terms.map(term => term.value).join(' | ')}.`
+    ).join('\n');
+
+    const prompt = await resolvePrompt('describe', context.brand, {
+        attributes: CLOTHING_ATTRIBUTES.map(attribute => `"${attribute}"`).join(', '),
+        allowedValues,
+        unidentified: UNIDENTIFIED_VALUE,
+    });
+
+    const roles = Array.from(new Set(images.map(({ role }) => role)));
+    const attributeSchema = (attribute: string): ResponseSchema => ({
+        type: 'OBJECT',
+        properties: {
+            value: attributeValueSchema(vocabularyByAttribute.get(attribute)),
+            confidence: { type: 'NUMBER', description: 'De 0 a 1.' },
+            source: { type: 'STRING', enum: roles },
+        },
+        required: ['value', 'confidence', 'source'],
+    });
+    const responseSchema: ResponseSchema = {
+        type: 'OBJECT',
+        properties: Object.fromEntries(CLOTHING_ATTRIBUTES.map(attribute => [attribute, attributeSchema(attribute)])),
+        required: CLOTHING_ATTRIBUTES,
+    };
+
+    const parts: AiPart[] = images.flatMap(({ role, image }) => [{ text: `Foto: ${describeRoleLabels[role]}` }, toPart(image)]);
+    parts.push({ text: prompt.text });
+
+    // Mesmas fotos (com os mesmos papéis), mesmos vocabulários e mesma versão do prompt dão a mesma descrição
+    const key = buildAiCacheKey('describe', prompt.versionId, [
+        JSON.stringify(vocabularies.map(({ attribute, multiple, terms }) => ({ attribute, multiple, terms }))),
+        ...images.flatMap(({ role, image }) => [role, Buffer.from(image.data, 'base64')]),
+    ]);
+
+    const { value, model, cost, cached } = await withAiCache(context, 'describe', 'describe', key, async () => {
+        const { text, model, cost, costId } = await billed(context, 'describe', await getImageProvider().describe(parts, { responseSchema }), [prompt.versionId]);
+        const parsed = parseJsonResponse(text, 'describe') as Record<string, { value?: unknown; confidence?: unknown; source?: unknown }>;
+
+        // Só os atributos conhecidos entram na descrição, sempre na ordem de CLOTHING_ATTRIBUTES
+        const description: Record<string, string> = {};
+        const fields: Record<string, AttributeEvidence> = {};
+        CLOTHING_ATTRIBUTES.forEach(attribute => {
+            const entry = parsed[attribute];
+            const vocabulary = vocabularyByAttribute.get(attribute);
+            if (!entry || typeof entry !== 'object' || entry.value === undefined || entry.value === null) {
+                if (!vocabulary) return;
+                description[attribute] = UNIDENTIFIED_VALUE;
+                fields[attribute] = { confidence: 0, source: roles[0] };
+                return;
+            }
+
+            const confidence = Number(entry.confidence);
+            const evidence: AttributeEvidence = {
+                confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+                source: isDescribeRole(entry.source) && roles.includes(entry.source) ? entry.source : roles[0],
+            };
+
+            if (!vocabulary) {
+                description[attribute] = String(entry.value).trim();
+                fields[attribute] = evidence;
+                return;
+            }
+
+            // Texto único: tenta o valor inteiro antes de separar por vírgula (ex.: 'Casual, dia a dia')
+            const rawText = String(entry.value);
+            const rawValues = Array.isArray(entry.value)
+                ? entry.value.map(String)
+                : normalizeToVocabulary(vocabulary, rawText) ? [rawText] : rawText.split(',');
+            const values = Array.from(new Set(rawValues
+                .map(raw => normalizeToVocabulary(vocabulary, raw))
+                .filter((value): value is string => !!value)));
+            const unmatched = rawValues.filter(raw => raw.trim() && normalizeTermText(raw) !== normalizeTermText(UNIDENTIFIED_VALUE) && !normalizeToVocabulary(vocabulary, raw));
+            if (unmatched.length > 0) console.warn(`Valores fora do vocabulário "${vocabulary.id}" descartados:`, unmatched);
+
+            const accepted = vocabulary.multiple ? values : values.slice(0, 1);
+            description[attribute] = accepted.length > 0 ? accepted.join(', ') : UNIDENTIFIED_VALUE;
+            fields[attribute] = accepted.length > 0 ? evidence : { ...evidence, confidence: 0 };
+        });
+        return { value: { description, fields }, model, cost, costId };
+    });
+    return { ...value, model, cost, cached, promptVersions: [prompt.versionId] };
+};
+
+// Textos da loja para um idioma
+export interface ProductCopy {
+    title: string;
+    shortDescription: string;
+    longDescription: string;
+    bullets: string[];
+    metaDescription: string; // SEO, até 160 caracteres
+    keywords: string[];
+}
+
+export type ProductCopySet = Partial<Record<CopyLanguage, ProductCopy>>;
+
+const copyLanguageNames: Record<CopyLanguage, string> = {
+    'pt-BR': 'português do Brasil',
+    en: 'inglês',
+    es: 'espanhol',
+};
+
+// Gera os textos de e-commerce da peça a partir da descrição estruturada e da linha da planilha
+export const generateProductCopy = async (context: CostContext, params: {
+    description: Record<string, string>;
+    metadata?: Record<string, string>;
+    languages: CopyLanguage[];
+    tone?: Pick<BrandTone, 'brand' | 'voice' | 'audience' | 'preferredTerms' | 'avoidTerms'> | null;
+}) => {
+    const { description, metadata, languages, tone } = params;
+    const toneLines = tone ? [
+        `- Marca: ${tone.brand}`,
+        tone.voice && `- Tom de voz: ${tone.voice}`,
+        tone.audience && `- Público-alvo: ${tone.audience}`,
+        tone.preferredTerms && `- Use, quando fizer sentido: ${tone.preferredTerms}`,
+        tone.avoidTerms && `- Nunca use: ${tone.avoidTerms}`,
+    ].filter(Boolean).join('\n') : '- Tom de voz: claro, objetivo e convidativo, adequado a uma loja de moda.';
+
+    const prompt = await resolvePrompt('copy', context.brand || tone?.brand, {
+        attributes: Object.entries(description).map(([key, value]) => `- ${key}: ${value}`).join('\n'),
+        sheetData: metadata ? Object.entries(metadata).map(([key, value]) => `- ${key}: ${value}`).join('\n') : '',
+        toneGuidelines: toneLines,
+        languages: languages.map(language => `${language}: ${copyLanguageNames[language]}`).join(', '),
+    });
+
+    const responseSchema: ResponseSchema = {
+        type: 'ARRAY',
+        items: {
+            type: 'OBJECT',
+            properties: {
+                language: { type: 'STRING', enum: languages },
+                title: { type: 'STRING' },
+                shortDescription: { type: 'STRING' },
+                longDescription: { type: 'STRING' },
+                bullets: { type: 'ARRAY', items: { type: 'STRING' } },
+                metaDescription: { type: 'STRING' },
+                keywords: { type: 'ARRAY', items: { type: 'STRING' } },
+            },
+            required: ['language', 'title', 'shortDescription', 'longDescription', 'bullets', 'metaDescription', 'keywords'],
+        },
+    };
+
+    const { text, model, usage, cost } = await billed(context, 'copy', await getImageProvider().describe([{ text: prompt.text }], { responseSchema }), [prompt.versionId]);
+    const parsed = parseJsonResponse(text, 'copy');
+    const copy: ProductCopySet = {};
+    (Array.isArray(parsed) ? parsed : []).forEach((entry: ProductCopy & { language: CopyLanguage }) => {
+        if (!languages.includes(entry.language)) return;
+        const { language, ...fields } = entry;
+        copy[language] = fields;
+    });
+    return { copy, model, usage, cost, promptVersions: [prompt.versionId] };
+};
+
+export interface GenerateModelImageParams {
+    clothingImages: InlineImage[];
+    age: string;
+    gender: 'male' | 'female';
+    scenePrompt: string;
+    clothingDescription?: string;
+    referenceModel?: InlineImage | null;
+    identityFaces?: InlineImage[]; // Identidade de modelo travada: mesmo rosto em todas as fotos
+    identityBodies?: InlineImage[];
+    referenceScene?: InlineImage | null;
+    fitReference?: InlineImage | null;
+    modelNotes?: string;
+    negativePrompt?: string;
+    referenceBottom?: InlineImage | null;
+    referenceBottomDescription?: string;
+    trainedCharacteristics: string;
+    photoFraming?: string;
+    view?: Pick<ViewDefinition, 'framingPrompt' | 'aspectRatio' | 'needsBackPhoto'>; // Definição da vista no catálogo (resolvida pelo photoFraming)
+}
+
+// Marca no texto do prompt onde entra um bloco de imagens (trocada pelas partes do bloco)
+const imageBlockMarker = (name: string) => `@@image:${name}@@`;
+
+/**
+ * Monta as partes a partir do prompt renderizado: cada linha vira uma parte de texto e cada marca de bloco
+ * vira as imagens do bloco, com os rótulos, no ponto em que aparece. Blocos ausentes do texto vão antes dele.
+ */
+const interleaveImageBlocks = (text: string, blocks: Record<string, AiPart[]>): AiPart[] => {
+    const missing = Object.keys(blocks).filter(name => !text.includes(imageBlockMarker(name)));
+    const parts: AiPart[] = missing.flatMap(name => blocks[name]);
+    text.split(/(@@image:\w+@@)/).forEach(segment => {
+        const block = segment.match(/^@@image:(\w+)@@$/);
+        if (block) {
+            parts.push(...(blocks[block[1]] || []));
+            return;
+        }
+        segment.split('\n').filter(line => line.trim()).forEach(line => parts.push({ text: line }));
+    });
+    return parts;
+};
+
+// Gera a foto de um modelo vestindo a roupa fornecida: as imagens rotuladas entram nos pontos marcados no template de geração
+export const generateModelImage = async (context: CostContext, params: GenerateModelImageParams) => {
+    // Blocos de imagem com os rótulos; o template define em que ponto do prompt cada um entra
+    const blocks: Record<string, AiPart[]> = {};
+
+    const clothingImages = params.clothingImages || [];
+    if (clothingImages.length > 1) {
+        blocks.clothingImages = [
+            { text: `- Roupa Principal (Múltiplas Vistas): As imagens a seguir mostram a mesma peça de roupa de diferentes ângulos para referência. Use todas para entender a peça completamente.` },
+            ...clothingImages.flatMap((image, index) => [{ text: `- Vista da Roupa ${index + 1}:` }, toPart(image)]),
+        ];
+    } else if (clothingImages.length === 1) {
+        blocks.clothingImages = [{ text: `- Roupa Principal:` }, toPart(clothingImages[0])];
+    }
+
+    if (params.referenceBottom) {
+        blocks.referenceBottomImage = [{ text: `- Peça Complementar:` }, toPart(params.referenceBottom)];
+    }
+
+    const identityFaces = params.identityFaces || [];
+    const identityBodies = params.identityBodies || [];
+    const hasIdentity = identityFaces.length > 0 || identityBodies.length > 0;
+    if (hasIdentity) {
+        blocks.identityImages = [
+            ...identityFaces.flatMap((image, index) => [{ text: `- Rosto do Modelo ${index + 1}:` }, toPart(image)]),
+            ...identityBodies.flatMap((image, index) => [{ text: `- Corpo do Modelo ${index + 1}:` }, toPart(image)]),
+        ];
+    }
+
+    if (params.referenceModel) {
+        blocks.referenceModelImage = [
+            { text: hasIdentity
+                ? `- Foto Anterior do Mesmo Modelo (mantenha a continuidade de pose, iluminação e aparência):`
+                : `- Modelo de Referência (use como forte inspiração para o rosto e tipo físico):` },
+            toPart(params.referenceModel),
+        ];
+    }
+
+    if (params.referenceScene) {
+        blocks.referenceSceneImage = [{ text: `- Cenário de Referência (replique este ambiente e iluminação):` }, toPart(params.referenceScene)];
+    }
+
+    const fit = params.fitReference ? await describeFitAndStyle(context, params.fitReference) : null;
+
+    const view = params.view;
+    const aspectRatio = view?.aspectRatio || '1:1';
+    const prompt = await resolvePrompt('modelGeneration', context.brand, {
+        framing: view?.framingPrompt || params.photoFraming,
+        backFocus: view?.needsBackPhoto ? 'sim' : '',
+        aspectRatio: `${aspectRatio}${aspectRatio === '1:1' ? ' (quadrada)' : ''}`,
+        clothingDescription: params.clothingDescription,
+        referenceBottomDescription: params.referenceBottom ? params.referenceBottomDescription : '',
+        fitDescription: fit?.text,
+        age: params.age,
+        gender: params.age !== 'newborn' && params.age !== 'baby' ? params.gender : '',
+        trainedCharacteristics: params.trainedCharacteristics,
+        modelNotes: params.modelNotes,
+        negativePrompt: params.negativePrompt,
+        sceneDescription: params.referenceScene ? '' : params.scenePrompt,
+        ...Object.fromEntries(Object.keys(blocks).map(name => [name, imageBlockMarker(name)])),
+    });
+    const parts = interleaveImageBlocks(prompt.text, blocks);
+
+    const result = await billed(context, 'model', await getImageProvider().generate(parts, 'model'), [prompt.versionId]);
+
+    // A análise de caimento conta como parte da mesma operação
+    return {
+        ...result,
+        cost: result.cost + (fit?.cost || 0),
+        promptVersions: [...(fit?.promptVersions || []), ...result.promptVersions],
+    };
+};
+
+// Compara a peça original com a imagem gerada e monta um plano de correção
+export const findClothingDifferences = async (context: CostContext, originalClothing: InlineImage, generatedImage: InlineImage, originalDescription: string) => {
+    const prompt = await resolvePrompt('qualityCheck', context.brand);
+
+    const responseSchema: ResponseSchema = {
+        type: 'OBJECT',
+        properties: {
+            plan: { type: 'STRING', description: "O plano de correção passo a passo." },
+            points: {
+                type: 'ARRAY',
+                items: {
+                    type: 'OBJECT',
+                    properties: {
+                        x: { type: 'INTEGER', description: "Coordenada X na imagem gerada." },
+                        y: { type: 'INTEGER', description: "Coordenada Y na imagem gerada." },
+                        description: { type: 'STRING', description: "Descrição curta da discrepância no ponto." },
+                    },
+                    required: ["x", "y", "description"],
+                },
+            },
+        },
+        required: ["plan", "points"],
+    };
+
+    const { text, model, usage, cost } = await billed(context, 'findDifferences', await getImageProvider().compare([
+        { text: 'Peça Original:' },
+        toPart(originalClothing),
+        { text: 'Imagem Gerada:' },
+        toPart(generatedImage),
+        { text: `Descrição Original:\n${originalDescription}` },
+        { text: prompt.text },
+    ], responseSchema), [prompt.versionId]);
+
+    const parsed = parseJsonResponse(text, 'findDifferences');
+    return {
+        plan: (parsed.plan || '') as string,
+        points: (parsed.points || []) as { x: number; y: number; description: string }[],
+        model,
+        usage,
+        cost,
+        promptVersions: [prompt.versionId],
+    };
+};
+
+// Corrige a roupa da imagem gerada seguindo o plano de correção
+export const applyClothingCorrection = async (context: CostContext, originalClothing: InlineImage, generatedImage: InlineImage, correctionPlan: string) => {
+    const prompt = await resolvePrompt('correction', context.brand, { correctionPlan });
+
+    return billed(context, 'correction', await getImageProvider().edit([
+        { text: 'Imagem a ser corrigida (Imagem Gerada):' },
+        toPart(generatedImage),
+        { text: 'Imagem de referência (Peça Original):' },
+        toPart(originalClothing),
+        { text: prompt.text },
+    ], 'correction'), [prompt.versionId]);
+};
@@ -0,0 +1,150 @@
+// src/services/identity.service.ts
+import { FieldValue } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db, storage } from './firebase';
+import { InlineImage } from './gemini.service';
+import { saveToStorage } from './gallery.service';
+import { bufferToInlineImage } from './image.service';
+
+export const IDENTITIES_COLLECTION = 'model_identities';
+
+// Limite de fotos por tipo: cada foto vai em todas as gerações do modelo
+export const MAX_IDENTITY_IMAGES = 4;
+
+export type IdentityImageKind = 'face' | 'body';
+
+export interface IdentityImage {
+    url: string;
+    storagePath: string;
+    mimeType: string;
+}
+
+/**
+ * "Casting" compartilhado pela equipe: o mesmo rosto e tipo físico usados em todos os itens
+ * de um lote (ou de uma marca), para que a coleção inteira tenha o mesmo modelo.
+ */
+export interface ModelIdentity {
+    id: string;
+    name: string;
+    gender: 'male' | 'female';
+    age: string;
+    brand: string; // Marca em que a identidade é usada por padrão ('' = nenhuma)
+    faceImages: IdentityImage[];
+    bodyImages: IdentityImage[];
+    createdBy: string;
+    createdAt?: string;
+}
+
+export interface IdentityFields {
+    name: string;
+    gender: 'male' | 'female';
+    age: string;
+    brand: string;
+}
+
+export interface IdentityUpload {
+    buffer: Buffer;
+    mimeType: string;
+    originalName: string;
+}
+
+export const isGender = (value: unknown): value is 'male' | 'female' => value === 'male' || value === 'female';
+
+const docToIdentity = (doc: FirebaseFirestore.DocumentSnapshot): ModelIdentity => {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        name: data.name,
+        gender: data.gender,
+        age: data.age || '',
+        brand: data.brand || '',
+        faceImages: data.faceImages || [],
+        bodyImages: data.bodyImages || [],
+        createdBy: data.createdBy,
+        createdAt: data.createdAt?.toDate().toISOString(),
+    };
+};
+
+const saveIdentityImages = (identityId: string, kind: IdentityImageKind, uploads: IdentityUpload[]) =>
+    Promise.all(uploads.map(async upload => {
+        const storagePath = `identities/${identityId}/${kind}-${uuidv4()}-${upload.originalName.replace(/\s/g, '_')}`;
+        const url = await saveToStorage(storagePath, upload.buffer, upload.mimeType);
+        return { url, storagePath, mimeType: upload.mimeType };
+    }));
+
+const deleteIdentityImages = (images: IdentityImage[]) =>
+    Promise.all(images.map(image =>
+        storage.bucket().file(image.storagePath).delete().catch(err => console.error(`Falha ao deletar arquivo do storage: ${image.storagePath}`, err))));
+
+// Lista todas as identidades (compartilhadas entre todos os usuários), em ordem alfabética
+export const listIdentities = async (): Promise<ModelIdentity[]> => {
+    const snapshot = await db.collection(IDENTITIES_COLLECTION).orderBy('name').get();
+    return snapshot.docs.map(docToIdentity);
+};
+
+export const getIdentity = async (identityId: string): Promise<ModelIdentity | null> => {
+    const doc = await db.collection(IDENTITIES_COLLECTION).doc(identityId).get();
+    return doc.exists ? docToIdentity(doc) : null;
+};
+
+export const createIdentity = async (uid: string, fields: IdentityFields, faces: IdentityUpload[], bodies: IdentityUpload[]): Promise<ModelIdentity> => {
+    const ref = db.collection(IDENTITIES_COLLECTION).doc();
+    const [faceImages, bodyImages] = await Promise.all([
+        saveIdentityImages(ref.id, 'face', faces),
+        saveIdentityImages(ref.id, 'body', bodies),
+    ]);
+
+    await ref.set({
+        ...fields,
+        faceImages,
+        bodyImages,
+        createdBy: uid,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    return docToIdentity(await ref.get());
+};
+
+/**
+ * Atualiza os dados de uma identidade. As fotos enviadas são acrescentadas às existentes
+ * e as indicadas em removedPaths são apagadas do Storage.
+ */
+export const updateIdentity = async (
+    identity: ModelIdentity,
+    fields: Partial<IdentityFields>,
+    faces: IdentityUpload[],
+    bodies: IdentityUpload[],
+    removedPaths: string[],
+): Promise<ModelIdentity> => {
+    const removed = new Set(removedPaths);
+    const [newFaces, newBodies] = await Promise.all([
+        saveIdentityImages(identity.id, 'face', faces),
+        saveIdentityImages(identity.id, 'body', bodies),
+    ]);
+
+    const ref = db.collection(IDENTITIES_COLLECTION).doc(identity.id);
+    await ref.update({
+        ...fields,
+        faceImages: [...identity.faceImages.filter(image => !removed.has(image.storagePath)), ...newFaces],
+        bodyImages: [...identity.bodyImages.filter(image => !removed.has(image.storagePath)), ...newBodies],
+        updatedAt: FieldValue.serverTimestamp(),
+    });
+    await deleteIdentityImages([...identity.faceImages, ...identity.bodyImages].filter(image => removed.has(image.storagePath)));
+    return docToIdentity(await ref.get());
+};
+
+export const deleteIdentity = async (identity: ModelIdentity) => {
+    await db.collection(IDENTITIES_COLLECTION).doc(identity.id).delete();
+    await deleteIdentityImages([...identity.faceImages, ...identity.bodyImages]);
+};
+
+const downloadIdentityImages = (images: IdentityImage[]) =>
+    Promise.all(images.map(async image => {
+        const [buffer] = await storage.bucket().file(image.storagePath).download();
+        return bufferToInlineImage(buffer, image.mimeType);
+    }));
+
+// Baixa as fotos da identidade para enviá-las ao modelo (processamento de lotes no servidor)
+export const loadIdentityImages = async (identity: ModelIdentity): Promise<{ faces: InlineImage[]; bodies: InlineImage[] }> => {
+    const [faces, bodies] = await Promise.all([downloadIdentityImages(identity.faceImages), downloadIdentityImages(identity.bodyImages)]);
+    return { faces, bodies };
+};
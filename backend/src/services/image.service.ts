@@ -0,0 +1,54 @@
+// src/services/image.service.ts
+import sharp from 'sharp';
+import { InlineImage } from './ai';
+
+// Converte um data URL (retorno dos provedores de IA) em buffer
+export const dataUrlToBuffer = (dataUrl: string): Buffer => {
+    const base64 = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+    return Buffer.from(base64, 'base64');
+};
+
+export const bufferToInlineImage = (buffer: Buffer, mimeType: string): InlineImage => ({
+    data: buffer.toString('base64'),
+    mimeType,
+});
+
+// Padroniza qualquer imagem em PNG
+export const toPng = (image: Buffer): Promise<Buffer> => sharp(image).png().toBuffer();
+
+// Recorta a imagem a partir do centro para preencher exatamente as dimensões pedidas
+export const resizeAndCrop = (image: Buffer, width: number, height: number): Promise<Buffer> =>
+    sharp(image).resize(width, height, { fit: 'cover', position: 'centre' }).png().toBuffer();
+
+// Encaixa a imagem inteira nas dimensões pedidas, completando as sobras com fundo branco
+export const resizeAndPad = (image: Buffer, width: number, height: number): Promise<Buffer> =>
+    sharp(image).resize(width, height, { fit: 'contain', background: '#FFFFFF' }).flatten({ background: '#FFFFFF' }).png().toBuffer();
+
+/**
+ * Monta a tela final de uma expansão (outpainting), igual ao editor:
+ * - base: a imagem centralizada, sem distorção, sobre fundo branco
+ * - máscara: vermelha onde há preenchimento, transparente onde está a imagem
+ */
+export const createExpandCanvas = async (image: Buffer, width: number, height: number) => {
+    const resized = await sharp(image).resize(width, height, { fit: 'inside' }).png().toBuffer();
+    const { width: innerWidth = width, height: innerHeight = height } = await sharp(resized).metadata();
+    const left = Math.round((width - innerWidth) / 2);
+    const top = Math.round((height - innerHeight) / 2);
+
+    const baseImage = await sharp({ create: { width, height, channels: 3, background: '#FFFFFF' } })
+        .composite([{ input: resized, left, top }])
+        .removeAlpha()
+        .png()
+        .toBuffer();
+
+    const hole = await sharp({ create: { width: innerWidth, height: innerHeight, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 1 } } }).png().toBuffer();
+    const maskImage = await sharp({ create: { width, height, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .composite([{ input: hole, left, top, blend: 'dest-out' }])
+        .png()
+        .toBuffer();
+
+    return {
+        baseImage: bufferToInlineImage(baseImage, 'image/png'),
+        maskImage: bufferToInlineImage(maskImage, 'image/png'),
+    };
+};
@@ -0,0 +1,482 @@
+// src/services/jobs.service.ts
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './firebase';
+import { AiError, AiErrorCategory, InlineImage, getBackoffDelayMs } from './ai';
+import { BatchItemPlan, ReferenceRole, StoredFile, downloadStoredFile, processBatchItem } from './batch.service';
+import { bufferToInlineImage } from './image.service';
+import { BudgetExceededError } from './budget.service';
+
+export const JOBS_COLLECTION = 'batch_jobs';
+const ITEMS_SUBCOLLECTION = 'items';
+
+// draft: criado, aguardando o envio dos arquivos; queued/processing: na fila do servidor
+export type JobStatus = 'draft' | 'queued' | 'processing' | 'done' | 'cancelled';
+export type JobItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchJob {
+    id: string;
+    uid: string;
+    status: JobStatus;
+    itemCount: number;
+    completed: number;
+    failed: number;
+    references: Partial<Record<ReferenceRole, StoredFile>>;
+    createdAt?: string;
+    finishedAt?: string;
+}
+
+export interface BatchJobItem extends BatchItemPlan {
+    id: string;
+    status: JobItemStatus;
+    progressStatus?: string;
+    progressPercentage: number;
+    attempts: number;
+    error?: string;
+    errorCategory?: AiErrorCategory;
+    files: StoredFile[];
+    parentId?: string;
+    resultIds: string[];
+    resultUrls: string[];
+    resultViews: string[];
+    resultNames: string[];
+    startedAt?: number; // Início da última tentativa (ms), para cruzar com o registro de custos
+    durationMs?: number;
+    workerId?: string; // Servidor que está processando o item
+    leaseExpiresAt?: number; // Fim do lease (ms); renovado enquanto o item roda
+}
+
+// Eventos enviados aos clientes que acompanham o lote (SSE)
+export type JobEvent =
+    | { type: 'item'; item: BatchJobItem }
+    | { type: 'job'; job: BatchJob };
+
+// Configuração do executor, lida das variáveis de ambiente (depois do dotenv)
+const getRunnerConfig = () => {
+    const concurrency = Number(process.env.BATCH_JOB_CONCURRENCY);
+    const maxAttempts = Number(process.env.BATCH_JOB_MAX_ATTEMPTS);
+    const leaseMs = Number(process.env.BATCH_JOB_LEASE_MS);
+    return {
+        concurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 3,
+        maxAttempts: Number.isInteger(maxAttempts) && maxAttempts > 0 ? maxAttempts : 2,
+        leaseMs: Number.isInteger(leaseMs) && leaseMs > 0 ? leaseMs : 2 * 60 * 1000,
+    };
+};
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0); // Um ouvinte por aba aberta acompanhando o lote
+
+// Inscreve um ouvinte nos eventos de um lote; devolve a função para cancelar a inscrição
+export const subscribeToJob = (jobId: string, listener: (event: JobEvent) => void) => {
+    jobEvents.on(jobId, listener);
+    return () => { jobEvents.off(jobId, listener); };
+};
+
+const emitJobEvent = (jobId: string, event: JobEvent) => jobEvents.emit(jobId, event);
+
+class JobCancelledError extends Error {
+    constructor() {
+        super('Lote cancelado.');
+    }
+}
+
+class LeaseLostError extends Error {
+    constructor() {
+        super('O item foi assumido por outro trabalhador.');
+    }
+}
+
+const jobRef = (jobId: string) => db.collection(JOBS_COLLECTION).doc(jobId);
+const itemsRef = (jobId: string) => jobRef(jobId).collection(ITEMS_SUBCOLLECTION);
+
+const toIso = (value: unknown) => (value instanceof Timestamp ? value.toDate().toISOString() : undefined);
+
+const docToJob = (doc: FirebaseFirestore.DocumentSnapshot): BatchJob => {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        uid: data.uid,
+        status: data.status,
+        itemCount: data.itemCount,
+        completed: data.completed || 0,
+        failed: data.failed || 0,
+        references: data.references || {},
+        createdAt: toIso(data.createdAt),
+        finishedAt: toIso(data.finishedAt),
+    };
+};
+
+const docToItem = (doc: FirebaseFirestore.DocumentSnapshot): BatchJobItem => {
+    const { createdAt, updatedAt, ...data } = doc.data()!;
+    return { id: doc.id, ...data } as BatchJobItem;
+};
+
+export const getJob = async (jobId: string): Promise<BatchJob | null> => {
+    const doc = await jobRef(jobId).get();
+    return doc.exists ? docToJob(doc) : null;
+};
+
+export const getJobItems = async (jobId: string): Promise<BatchJobItem[]> => {
+    const snapshot = await itemsRef(jobId).orderBy('position', 'asc').get();
+    return snapshot.docs.map(docToItem);
+};
+
+// Lotes do usuário, do mais recente para o mais antigo
+export const listJobs = async (uid: string, limit = 20): Promise<BatchJob[]> => {
+    const snapshot = await db.collection(JOBS_COLLECTION)
+        .where('uid', '==', uid)
+        .orderBy('createdAt', 'desc')
+        .limit(limit)
+        .get();
+    return snapshot.docs.map(docToJob);
+};
+
+// Cria o lote (ainda em rascunho) com um documento por item
+export const createJob = async (uid: string, plans: BatchItemPlan[]) => {
+    const ref = db.collection(JOBS_COLLECTION).doc();
+    const batch = db.batch();
+    batch.set(ref, {
+        uid,
+        status: 'draft',
+        itemCount: plans.length,
+        completed: 0,
+        failed: 0,
+        references: {},
+        createdAt: FieldValue.serverTimestamp(),
+    });
+
+    const items = plans.map((plan, position) => {
+        const itemRef = ref.collection(ITEMS_SUBCOLLECTION).doc();
+        batch.set(itemRef, {
+            ...plan,
+            position,
+            status: 'queued',
+            progressPercentage: 0,
+            attempts: 0,
+            files: [],
+            resultIds: [],
+            resultUrls: [],
+            resultViews: [],
+            resultNames: [],
+            createdAt: FieldValue.serverTimestamp(),
+        });
+        return { id: itemRef.id, clientItemId: plan.clientItemId };
+    });
+
+    await batch.commit();
+    return { id: ref.id, items };
+};
+
+export const addJobReferences = async (jobId: string, references: Partial<Record<ReferenceRole, StoredFile>>) => {
+    const updates = Object.fromEntries(Object.entries(references).map(([role, file]) => [`references.${role}`, file]));
+    await jobRef(jobId).update(updates);
+};
+
+export const addJobItemFiles = async (jobId: string, itemId: string, files: StoredFile[]) => {
+    await itemsRef(jobId).doc(itemId).update({ files: FieldValue.arrayUnion(...files) });
+};
+
+export const getJobItem = async (jobId: string, itemId: string): Promise<BatchJobItem | null> => {
+    const doc = await itemsRef(jobId).doc(itemId).get();
+    return doc.exists ? docToItem(doc) : null;
+};
+
+// --- Executor ---
+
+// Identifica este servidor nos itens que ele está processando (lease)
+const WORKER_ID = randomUUID();
+
+// Itens aguardando um trabalhador livre, em ordem de chegada
+const pending: { jobId: string; itemId: string }[] = [];
+let running = 0;
+
+const pump = () => {
+    const { concurrency } = getRunnerConfig();
+    while (running < concurrency && pending.length > 0) {
+        const next = pending.shift()!;
+        running++;
+        runItem(next.jobId, next.itemId)
+            .catch(error => failItem(next.jobId, next.itemId, error))
+            .finally(() => {
+                running--;
+                pump();
+            });
+    }
+};
+
+const enqueueItems = (jobId: string, itemIds: string[]) => {
+    itemIds.forEach(itemId => pending.push({ jobId, itemId }));
+    pump();
+};
+
+// Campos que liberam o item quando ele sai de 'processing'
+const releaseLease = () => ({ workerId: FieldValue.delete(), leaseExpiresAt: FieldValue.delete() });
+
+// Lê o item e avisa quem acompanha o lote
+const emitItem = async (jobId: string, itemId: string) => {
+    const item = docToItem(await itemsRef(jobId).doc(itemId).get());
+    emitJobEvent(jobId, { type: 'item', item });
+    return item;
+};
+
+// Atualiza o item no Firestore e avisa quem acompanha o lote
+const updateItem = async (jobId: string, itemId: string, fields: Record<string, unknown>) => {
+    await itemsRef(jobId).doc(itemId).update({ ...fields, updatedAt: FieldValue.serverTimestamp() });
+    return emitItem(jobId, itemId);
+};
+
+/**
+ * Reserva o item para este servidor (queued → processing) numa transação, com o lease inicial.
+ * O primeiro item reservado também passa o lote de 'queued' para 'processing'.
+ * Devolve null quando o item já foi reservado por outro trabalhador ou o lote não está mais na fila.
+ */
+const claimItem = async (jobId: string, itemId: string) => {
+    const { leaseMs } = getRunnerConfig();
+    const itemRef = itemsRef(jobId).doc(itemId);
+    const claimed = await db.runTransaction(async transaction => {
+        const [jobSnapshot, itemSnapshot] = await Promise.all([transaction.get(jobRef(jobId)), transaction.get(itemRef)]);
+        if (!jobSnapshot.exists || !itemSnapshot.exists) return null;
+
+        const job = docToJob(jobSnapshot);
+        const item = docToItem(itemSnapshot);
+        if ((job.status !== 'queued' && job.status !== 'processing') || item.status !== 'queued') return null;
+
+        const startedAt = Date.now();
+        const attempts = item.attempts + 1;
+        if (job.status === 'queued') {
+            transaction.update(jobRef(jobId), { status: 'processing' });
+        }
+        transaction.update(itemRef, {
+            status: 'processing',
+            progressStatus: 'Na fila...',
+            progressPercentage: 0,
+            attempts,
+            startedAt,
+            workerId: WORKER_ID,
+            leaseExpiresAt: startedAt + leaseMs,
+            error: FieldValue.delete(),
+            errorCategory: FieldValue.delete(),
+            updatedAt: FieldValue.serverTimestamp(),
+        });
+        return { job: { ...job, status: 'processing' as JobStatus }, item: { ...item, attempts, startedAt }, jobStarted: job.status === 'queued' };
+    });
+
+    if (claimed) {
+        if (claimed.jobStarted) emitJobEvent(jobId, { type: 'job', job: claimed.job });
+        await emitItem(jobId, itemId);
+    }
+    return claimed;
+};
+
+// Renova o lease do item enquanto ele é processado; devolve false quando outro trabalhador o assumiu
+const renewLease = async (jobId: string, itemId: string) => {
+    const { leaseMs } = getRunnerConfig();
+    const itemRef = itemsRef(jobId).doc(itemId);
+    return db.runTransaction(async transaction => {
+        const data = (await transaction.get(itemRef)).data();
+        if (!data || data.status !== 'processing' || data.workerId !== WORKER_ID) return false;
+        transaction.update(itemRef, { leaseExpiresAt: Date.now() + leaseMs });
+        return true;
+    });
+};
+
+/**
+ * Encerra o item (done/error) e soma ao contador do lote na mesma transação,
+ * para o lote nunca ficar com um item terminado e não contado.
+ * Só encerra itens que este servidor ainda tem reservados.
+ */
+const settleItem = async (jobId: string, itemId: string, fields: Record<string, unknown>, counter: 'completed' | 'failed') => {
+    const itemRef = itemsRef(jobId).doc(itemId);
+    const settled = await db.runTransaction(async transaction => {
+        const data = (await transaction.get(itemRef)).data();
+        if (!data || data.status !== 'processing' || data.workerId !== WORKER_ID) return false;
+        transaction.update(itemRef, { ...fields, ...releaseLease(), updatedAt: FieldValue.serverTimestamp() });
+        transaction.update(jobRef(jobId), { [counter]: FieldValue.increment(1) });
+        return true;
+    });
+    if (settled) await emitItem(jobId, itemId);
+    return settled;
+};
+
+// Fecha o lote quando todos os itens terminaram (com sucesso ou erro)
+const finishJobIfComplete = async (jobId: string) => {
+    const job = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(jobRef(jobId));
+        const current = docToJob(snapshot);
+        if (current.status !== 'processing' || current.completed + current.failed < current.itemCount) {
+            return current;
+        }
+        transaction.update(jobRef(jobId), { status: 'done', finishedAt: FieldValue.serverTimestamp() });
+        return { ...current, status: 'done' as JobStatus };
+    });
+    emitJobEvent(jobId, { type: 'job', job });
+};
+
+// Último recurso quando o próprio tratamento de erro do item falhou: marca o item como erro para o lote poder terminar
+const failItem = async (jobId: string, itemId: string, error: unknown) => {
+    console.error(`Erro inesperado no item ${itemId} do lote ${jobId}:`, error);
+    try {
+        const message = error instanceof Error ? error.message : 'Erro desconhecido.';
+        if (await settleItem(jobId, itemId, { status: 'error', progressStatus: FieldValue.delete(), error: message }, 'failed')) {
+            await finishJobIfComplete(jobId);
+        }
+    } catch (settleError) {
+        console.error(`Erro ao marcar o item ${itemId} do lote ${jobId} como falho:`, settleError);
+    }
+};
+
+const loadReferences = async (references: Partial<Record<ReferenceRole, StoredFile>>) => {
+    const entries = await Promise.all(Object.entries(references).map(async ([role, file]) =>
+        [role, bufferToInlineImage(await downloadStoredFile(file!), file!.mimeType)] as const));
+    return Object.fromEntries(entries) as Partial<Record<ReferenceRole, InlineImage>>;
+};
+
+const runItem = async (jobId: string, itemId: string) => {
+    const claimed = await claimItem(jobId, itemId);
+    if (!claimed) return;
+
+    const { job, item } = claimed;
+    const { maxAttempts, leaseMs } = getRunnerConfig();
+    const startTime = item.startedAt!;
+    const attempts = item.attempts;
+
+    // Mantém o lease vivo durante as chamadas longas à IA; se outro trabalhador assumir o item, este para no próximo passo
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+        renewLease(jobId, itemId)
+            .then(renewed => { if (!renewed) leaseLost = true; })
+            .catch(error => console.error(`Erro ao renovar o lease do item ${itemId} do lote ${jobId}:`, error));
+    }, leaseMs / 3);
+
+    // Cada passo confirma que o lote não foi cancelado (e que o item ainda é deste servidor) antes de seguir
+    const report = async (progressStatus: string, progressPercentage: number) => {
+        if (leaseLost) throw new LeaseLostError();
+        if ((await getJob(jobId))?.status === 'cancelled') throw new JobCancelledError();
+        await updateItem(jobId, itemId, { progressStatus, progressPercentage });
+    };
+
+    try {
+        const references = await loadReferences(job.references);
+        const result = await processBatchItem(job.uid, item, item.files, references, report);
+
+        await settleItem(jobId, itemId, {
+            ...result,
+            status: 'done',
+            progressStatus: 'Concluído',
+            progressPercentage: 100,
+            durationMs: Date.now() - startTime,
+        }, 'completed');
+    } catch (error) {
+        if (error instanceof LeaseLostError) {
+            console.warn(`Item ${itemId} do lote ${jobId} foi assumido por outro trabalhador.`);
+            return;
+        }
+        if (error instanceof JobCancelledError) {
+            await updateItem(jobId, itemId, { status: 'cancelled', progressStatus: FieldValue.delete(), ...releaseLease() });
+            return;
+        }
+
+        const message = error instanceof Error ? error.message : 'Erro desconhecido.';
+        const errorCategory = error instanceof AiError ? { errorCategory: error.category } : { errorCategory: FieldValue.delete() };
+        console.error(`Falha ao processar o item ${item.baseName} do lote ${jobId} (tentativa ${attempts}/${maxAttempts}):`, error);
+
+        // Bloqueios de segurança, respostas sem imagem e orçamento esgotado se repetiriam: só tenta de novo nos demais erros
+        const canRetry = !(error instanceof BudgetExceededError) && (!(error instanceof AiError) || error.retryable);
+        if (canRetry && attempts < maxAttempts) {
+            await updateItem(jobId, itemId, { status: 'queued', progressStatus: `Nova tentativa (${attempts + 1}/${maxAttempts})...`, progressPercentage: 0, error: message, ...errorCategory, ...releaseLease() });
+            setTimeout(() => enqueueItems(jobId, [itemId]), getBackoffDelayMs(attempts));
+            return;
+        }
+
+        await settleItem(jobId, itemId, { status: 'error', progressStatus: FieldValue.delete(), error: message, ...errorCategory }, 'failed');
+    } finally {
+        clearInterval(heartbeat);
+    }
+
+    await finishJobIfComplete(jobId);
+};
+
+/**
+ * Coloca o lote na fila de processamento (depois que todos os arquivos foram enviados).
+ * A passagem draft → queued é feita numa transação: devolve null quando o lote já tinha sido iniciado.
+ */
+export const startJob = async (jobId: string) => {
+    const started = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(jobRef(jobId));
+        if (!snapshot.exists || snapshot.data()!.status !== 'draft') return false;
+        transaction.update(jobRef(jobId), { status: 'queued', startedAt: FieldValue.serverTimestamp() });
+        return true;
+    });
+    if (!started) return null;
+
+    const items = await getJobItems(jobId);
+    enqueueItems(jobId, items.filter(item => item.status === 'queued').map(item => item.id));
+
+    const job = (await getJob(jobId))!;
+    emitJobEvent(jobId, { type: 'job', job });
+    return job;
+};
+
+// Cancela o lote: itens na fila não rodam mais e os que estão rodando param no próximo passo
+export const cancelJob = async (jobId: string) => {
+    await jobRef(jobId).update({ status: 'cancelled', finishedAt: FieldValue.serverTimestamp() });
+    const queued = await itemsRef(jobId).where('status', '==', 'queued').get();
+    await Promise.all(queued.docs.map(doc => updateItem(jobId, doc.id, { status: 'cancelled', progressStatus: FieldValue.delete() })));
+
+    const job = (await getJob(jobId))!;
+    emitJobEvent(jobId, { type: 'job', job });
+    return job;
+};
+
+// Devolve à fila um item cujo lease venceu (o servidor que o processava parou); confirma o vencimento na transação
+const reclaimItem = async (jobId: string, itemId: string) => {
+    const itemRef = itemsRef(jobId).doc(itemId);
+    return db.runTransaction(async transaction => {
+        const data = (await transaction.get(itemRef)).data();
+        if (!data || data.status !== 'processing' || (data.leaseExpiresAt || 0) > Date.now()) return false;
+        transaction.update(itemRef, { status: 'queued', progressStatus: FieldValue.delete(), progressPercentage: 0, ...releaseLease(), updatedAt: FieldValue.serverTimestamp() });
+        return true;
+    });
+};
+
+// Retoma os itens dos lotes em andamento: os da fila (se includeQueued) e os de lease vencido
+const resumeJobs = async (includeQueued: boolean) => {
+    const snapshot = await db.collection(JOBS_COLLECTION).where('status', 'in', ['queued', 'processing']).get();
+    let resumed = 0;
+    for (const jobDoc of snapshot.docs) {
+        const items = await itemsRef(jobDoc.id).where('status', 'in', ['queued', 'processing']).get();
+        const queued = includeQueued ? items.docs.filter(doc => doc.data().status === 'queued').map(doc => doc.id) : [];
+        const expired = items.docs.filter(doc => doc.data().status === 'processing' && (doc.data().leaseExpiresAt || 0) <= Date.now());
+        const reclaimed = (await Promise.all(expired.map(async doc => (await reclaimItem(jobDoc.id, doc.id)) ? doc.id : null)))
+            .filter((itemId): itemId is string => itemId !== null);
+
+        if (queued.length + reclaimed.length > 0) {
+            enqueueItems(jobDoc.id, [...queued, ...reclaimed]);
+            resumed++;
+        }
+    }
+    return resumed;
+};
+
+/**
+ * Inicia o executor de lotes. Lotes que estavam em andamento quando o servidor parou
+ * são retomados: itens na fila voltam a rodar e itens interrompidos só voltam para a fila
+ * quando o lease venceu (um item com lease vivo ainda está com outro servidor).
+ * Depois, a cada período de lease, devolve à fila os itens cujo servidor parou de renová-lo.
+ */
+export const startBatchJobRunner = async () => {
+    const { leaseMs } = getRunnerConfig();
+    try {
+        const resumed = await resumeJobs(true);
+        if (resumed > 0) {
+            console.log(`Executor de lotes: ${resumed} lote(s) retomado(s).`);
+        }
+    } catch (error) {
+        console.error("Erro ao retomar lotes em andamento:", error);
+    }
+
+    return setInterval(() => {
+        resumeJobs(false).catch(error => console.error("Erro ao recuperar itens de lotes com lease vencido:", error));
+    }, leaseMs);
+};
@@ -0,0 +1,225 @@
+// src/services/preset.service.ts
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db, storage } from './firebase';
+import { ReferenceRole } from './batch.service';
+import { saveToStorage } from './gallery.service';
+
+export const PRESETS_COLLECTION = 'batch_presets';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+// private: só o dono vê; team: toda a equipe vê e pode salvar novas versões
+export type PresetVisibility = 'private' | 'team';
+
+export const isPresetVisibility = (value: unknown): value is PresetVisibility => value === 'private' || value === 'team';
+
+// Imagem de referência guardada com o preset (pública, para o navegador baixar ao carregar o preset)
+export interface PresetReference {
+    name: string;
+    mimeType: string;
+    storagePath: string;
+    url: string;
+}
+
+export type PresetReferences = Partial<Record<ReferenceRole, PresetReference>>;
+
+// Conteúdo versionado do preset: os ajustes do lote (definidos pelo cliente) e as referências
+export interface PresetSnapshot {
+    settings: Record<string, unknown>;
+    references: PresetReferences;
+}
+
+export interface BatchPreset extends PresetSnapshot {
+    id: string;
+    name: string;
+    ownerId: string;
+    brand: string; // Marca a que o preset se aplica ('' = qualquer)
+    visibility: PresetVisibility;
+    version: number;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface PresetVersion extends PresetSnapshot {
+    version: number;
+    name: string;
+    savedBy: string;
+    savedAt?: string;
+    restoredFrom?: number;
+}
+
+export interface PresetFields {
+    name: string;
+    brand: string;
+    visibility: PresetVisibility;
+}
+
+export interface ReferenceUpload {
+    buffer: Buffer;
+    mimeType: string;
+    originalName: string;
+}
+
+const presetRef = (presetId: string) => db.collection(PRESETS_COLLECTION).doc(presetId);
+const versionsRef = (presetId: string) => presetRef(presetId).collection(VERSIONS_SUBCOLLECTION);
+
+const toIso = (value: unknown) => (value instanceof Timestamp ? value.toDate().toISOString() : undefined);
+
+const docToPreset = (doc: FirebaseFirestore.DocumentSnapshot): BatchPreset => {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        name: data.name,
+        ownerId: data.ownerId,
+        brand: data.brand || '',
+        visibility: data.visibility,
+        version: data.version,
+        settings: data.settings || {},
+        references: data.references || {},
+        createdAt: toIso(data.createdAt),
+        updatedAt: toIso(data.updatedAt),
+    };
+};
+
+const docToVersion = (doc: FirebaseFirestore.DocumentSnapshot): PresetVersion => {
+    const data = doc.data()!;
+    return {
+        version: data.version,
+        name: data.name,
+        settings: data.settings || {},
+        references: data.references || {},
+        savedBy: data.savedBy,
+        savedAt: toIso(data.savedAt),
+        ...(data.restoredFrom ? { restoredFrom: data.restoredFrom } : {}),
+    };
+};
+
+// Cada versão guarda as próprias referências, assim restaurar uma versão antiga traz as imagens daquela época
+const saveReferences = async (presetId: string, version: number, uploads: Partial<Record<ReferenceRole, ReferenceUpload>>): Promise<PresetReferences> => {
+    const entries = await Promise.all(Object.entries(uploads).map(async ([role, upload]) => {
+        const storagePath = `presets/${presetId}/v${version}/${role}-${uuidv4()}-${upload!.originalName.replace(/\s/g, '_')}`;
+        const url = await saveToStorage(storagePath, upload!.buffer, upload!.mimeType);
+        return [role, { name: upload!.originalName, mimeType: upload!.mimeType, storagePath, url }] as const;
+    }));
+    return Object.fromEntries(entries) as PresetReferences;
+};
+
+export const canReadPreset = (preset: BatchPreset, uid: string) => preset.ownerId === uid || preset.visibility === 'team';
+
+// Presets do usuário e os compartilhados com a equipe, em ordem alfabética
+export const listPresets = async (uid: string): Promise<BatchPreset[]> => {
+    const [own, team] = await Promise.all([
+        db.collection(PRESETS_COLLECTION).where('ownerId', '==', uid).get(),
+        db.collection(PRESETS_COLLECTION).where('visibility', '==', 'team').get(),
+    ]);
+    const presets = new Map<string, BatchPreset>();
+    [...own.docs, ...team.docs].forEach(doc => presets.set(doc.id, docToPreset(doc)));
+    return Array.from(presets.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getPreset = async (presetId: string): Promise<BatchPreset | null> => {
+    const doc = await presetRef(presetId).get();
+    return doc.exists ? docToPreset(doc) : null;
+};
+
+export const createPreset = async (
+    uid: string,
+    fields: PresetFields,
+    settings: Record<string, unknown>,
+    uploads: Partial<Record<ReferenceRole, ReferenceUpload>>,
+): Promise<BatchPreset> => {
+    const ref = db.collection(PRESETS_COLLECTION).doc();
+    const references = await saveReferences(ref.id, 1, uploads);
+
+    const batch = db.batch();
+    batch.set(ref, {
+        ...fields,
+        ownerId: uid,
+        version: 1,
+        settings,
+        references,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+    });
+    batch.set(versionsRef(ref.id).doc('1'), {
+        version: 1,
+        name: fields.name,
+        settings,
+        references,
+        savedBy: uid,
+        savedAt: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+    return docToPreset(await ref.get());
+};
+
+// Grava um novo conteúdo como a próxima versão (a transação evita que dois saves gerem o mesmo número)
+const commitVersion = async (presetId: string, uid: string, fields: Partial<PresetFields>, build: (version: number) => Promise<PresetSnapshot & { restoredFrom?: number }>) => {
+    const current = await getPreset(presetId);
+    if (!current) throw new Error('Preset não encontrado.');
+    const snapshot = await build(current.version + 1);
+
+    await db.runTransaction(async transaction => {
+        const latest = docToPreset(await transaction.get(presetRef(presetId)));
+        const version = latest.version + 1;
+        transaction.update(presetRef(presetId), {
+            ...fields,
+            version,
+            settings: snapshot.settings,
+            references: snapshot.references,
+            updatedAt: FieldValue.serverTimestamp(),
+        });
+        transaction.set(versionsRef(presetId).doc(String(version)), {
+            version,
+            name: fields.name ?? latest.name,
+            settings: snapshot.settings,
+            references: snapshot.references,
+            savedBy: uid,
+            savedAt: FieldValue.serverTimestamp(),
+            ...(snapshot.restoredFrom ? { restoredFrom: snapshot.restoredFrom } : {}),
+        });
+    });
+    return (await getPreset(presetId))!;
+};
+
+/**
+ * Salva os ajustes atuais como uma nova versão do preset.
+ * As referências enviadas substituem as anteriores; as que não vierem deixam de fazer parte do preset.
+ */
+export const savePresetVersion = (
+    presetId: string,
+    uid: string,
+    fields: Partial<PresetFields>,
+    settings: Record<string, unknown>,
+    uploads: Partial<Record<ReferenceRole, ReferenceUpload>>,
+) => commitVersion(presetId, uid, fields, async version => ({ settings, references: await saveReferences(presetId, version, uploads) }));
+
+// Histórico do preset, da versão mais recente para a mais antiga
+export const listPresetVersions = async (presetId: string): Promise<PresetVersion[]> => {
+    const snapshot = await versionsRef(presetId).orderBy('version', 'desc').get();
+    return snapshot.docs.map(docToVersion);
+};
+
+// Restaurar não apaga o histórico: a versão antiga vira a versão mais recente
+export const restorePresetVersion = async (presetId: string, uid: string, version: number) => {
+    const doc = await versionsRef(presetId).doc(String(version)).get();
+    if (!doc.exists) return null;
+    const old = docToVersion(doc);
+    return commitVersion(presetId, uid, { name: old.name }, async () => ({ settings: old.settings, references: old.references, restoredFrom: version }));
+};
+
+// Altera dados que não fazem parte do conteúdo versionado (visibilidade e marca)
+export const updatePresetFields = async (presetId: string, fields: Partial<Pick<PresetFields, 'brand' | 'visibility'>>) => {
+    await presetRef(presetId).update({ ...fields, updatedAt: FieldValue.serverTimestamp() });
+    return (await getPreset(presetId))!;
+};
+
+export const deletePreset = async (presetId: string) => {
+    const versions = await versionsRef(presetId).get();
+    const batch = db.batch();
+    versions.docs.forEach(doc => batch.delete(doc.ref));
+    batch.delete(presetRef(presetId));
+    await batch.commit();
+    await storage.bucket().deleteFiles({ prefix: `presets/${presetId}/` })
+        .catch(err => console.error(`Falha ao deletar as referências do preset ${presetId}:`, err));
+};
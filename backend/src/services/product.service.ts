@@ -0,0 +1,182 @@
+// src/services/product.service.ts
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from './firebase';
+import { saveToStorage } from './gallery.service';
+
+export const PRODUCTS_COLLECTION = 'products';
+
+// Tamanho padrão e máximo de uma página da listagem
+export const DEFAULT_PRODUCTS_PAGE_SIZE = 50;
+export const MAX_PRODUCTS_PAGE_SIZE = 200;
+
+// Foto de entrada do produto (a peça fotografada), guardada ao processar o item
+export interface ProductImage {
+    name: string;
+    url: string;
+    color?: string;
+}
+
+// Imagem gerada para o produto, com a vista e o item da galeria onde foi salva
+export interface ProductOutput {
+    view: string;
+    name: string;
+    url: string;
+    galleryId: string;
+    color?: string;
+    createdAt: string;
+}
+
+/**
+ * Produto do catálogo: liga o SKU às fotos de entrada, à descrição da IA,
+ * aos dados da planilha e a todas as imagens geradas, por vista.
+ * Como a galeria, o catálogo é de cada usuário: um produto é identificado pelo dono + marca + SKU;
+ * as cores são variações do mesmo produto.
+ */
+export interface Product {
+    id: string;
+    sku: string;
+    brand: string;
+    collection: string;
+    colors: string[];
+    inputs: ProductImage[];
+    description: Record<string, string> | null; // JSON do describeClothing
+    metadata: Record<string, string>; // Linha da planilha
+    outputs: ProductOutput[];
+    createdBy: string;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+// Dados enviados ao registrar um item processado (lote no navegador ou no servidor)
+export interface ProductRecord {
+    sku: string;
+    brand: string;
+    color?: string;
+    collection?: string;
+    description?: Record<string, string> | null;
+    metadata?: Record<string, string>;
+    outputs?: Omit<ProductOutput, 'createdAt' | 'color'>[];
+}
+
+export interface ProductUpload {
+    buffer: Buffer;
+    mimeType: string;
+    originalName: string;
+}
+
+export type ProductFields = Partial<Pick<Product, 'collection' | 'colors' | 'description' | 'metadata'>>;
+
+// Mesma normalização de SKU do cliente: sem espaços nas pontas, traços e espaços viram "_", maiúsculas
+const normalizeKey = (value: string) => value.trim().replace(/[\u2010-\u2015\s\-/]+/g, '_').toUpperCase();
+
+export const getProductId = (uid: string, brand: string, sku: string) => `${uid}__${normalizeKey(brand) || '_'}__${normalizeKey(sku)}`;
+
+const toIso = (value: unknown) => (value instanceof Timestamp ? value.toDate().toISOString() : undefined);
+
+const docToProduct = (doc: FirebaseFirestore.DocumentSnapshot): Product => {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        sku: data.sku,
+        brand: data.brand || '',
+        collection: data.collection || '',
+        colors: data.colors || [],
+        inputs: data.inputs || [],
+        description: data.description || null,
+        metadata: data.metadata || {},
+        outputs: data.outputs || [],
+        createdBy: data.createdBy,
+        createdAt: toIso(data.createdAt),
+        updatedAt: toIso(data.updatedAt),
+    };
+};
+
+export interface ProductFilters {
+    ownerUid?: string; // Sem dono: todos os produtos (apenas administradores)
+    search?: string; // Início do SKU
+    brand?: string;
+    collection?: string;
+    pageSize?: number;
+    startAfter?: string; // Id do último produto da página anterior
+}
+
+/**
+ * Lista uma página de produtos; todos os filtros rodam no Firestore.
+ * Sem busca, do mais recente para o mais antigo; com busca, pelos SKUs que começam com o texto (em ordem de SKU).
+ */
+export const listProducts = async (filters: ProductFilters): Promise<Product[]> => {
+    let query: FirebaseFirestore.Query = db.collection(PRODUCTS_COLLECTION);
+    if (filters.ownerUid) query = query.where('createdBy', '==', filters.ownerUid);
+    if (filters.brand) query = query.where('brand', '==', filters.brand);
+    if (filters.collection) query = query.where('collection', '==', filters.collection);
+
+    const search = normalizeKey(filters.search || '');
+    query = search
+        ? query.where('skuKey', '>=', search).where('skuKey', '<', `${search}\uf8ff`).orderBy('skuKey')
+        : query.orderBy('updatedAt', 'desc');
+
+    if (filters.startAfter) {
+        const cursor = await db.collection(PRODUCTS_COLLECTION).doc(filters.startAfter).get();
+        if (cursor.exists) query = query.startAfter(cursor);
+    }
+
+    const pageSize = Math.min(Math.max(filters.pageSize || DEFAULT_PRODUCTS_PAGE_SIZE, 1), MAX_PRODUCTS_PAGE_SIZE);
+    const snapshot = await query.limit(pageSize).get();
+    return snapshot.docs.map(docToProduct);
+};
+
+export const getProduct = async (productId: string): Promise<Product | null> => {
+    const doc = await db.collection(PRODUCTS_COLLECTION).doc(productId).get();
+    return doc.exists ? docToProduct(doc) : null;
+};
+
+/**
+ * Registra um item processado no produto do SKU, criando o produto se ainda não existir.
+ * As fotos de entrada com nome já conhecido não são enviadas de novo; as imagens geradas são acrescentadas.
+ */
+export const recordProduct = async (uid: string, record: ProductRecord, uploads: ProductUpload[]): Promise<Product> => {
+    const productId = getProductId(uid, record.brand, record.sku);
+    const ref = db.collection(PRODUCTS_COLLECTION).doc(productId);
+    const existing = await getProduct(productId);
+
+    const knownInputs = new Set(existing?.inputs.map(input => input.name));
+    const inputs: ProductImage[] = await Promise.all(uploads
+        .filter(upload => !knownInputs.has(upload.originalName))
+        .map(async upload => {
+            const storagePath = `products/${productId}/inputs/${uuidv4()}-${upload.originalName.replace(/\s/g, '_')}`;
+            const url = await saveToStorage(storagePath, upload.buffer, upload.mimeType);
+            return { name: upload.originalName, url, ...(record.color ? { color: record.color } : {}) };
+        }));
+
+    const createdAt = new Date().toISOString();
+    const outputs: ProductOutput[] = (record.outputs || []).map(output => ({
+        ...output,
+        ...(record.color ? { color: record.color } : {}),
+        createdAt,
+    }));
+
+    await ref.set({
+        sku: existing?.sku || record.sku.trim(),
+        skuKey: normalizeKey(existing?.sku || record.sku),
+        brand: existing?.brand ?? record.brand.trim(),
+        ...(record.collection ? { collection: record.collection } : {}),
+        ...(record.description ? { description: record.description } : {}),
+        ...(record.metadata && Object.keys(record.metadata).length > 0 ? { metadata: record.metadata } : {}),
+        ...(record.color ? { colors: FieldValue.arrayUnion(record.color) } : {}),
+        ...(inputs.length > 0 ? { inputs: FieldValue.arrayUnion(...inputs) } : {}),
+        ...(outputs.length > 0 ? { outputs: FieldValue.arrayUnion(...outputs) } : {}),
+        ...(existing ? {} : { createdBy: uid, createdAt: FieldValue.serverTimestamp() }),
+        updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    return (await getProduct(productId))!;
+};
+
+// Altera os dados editáveis do produto (coleção, cores, descrição e dados da planilha)
+export const updateProduct = async (productId: string, fields: ProductFields): Promise<Product | null> => {
+    const ref = db.collection(PRODUCTS_COLLECTION).doc(productId);
+    if (!(await ref.get()).exists) return null;
+    await ref.update({ ...fields, updatedAt: FieldValue.serverTimestamp() });
+    return getProduct(productId);
+};
@@ -0,0 +1,330 @@
+// src/services/promptTemplate.service.ts
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from './firebase';
+
+export const PROMPT_TEMPLATES_COLLECTION = 'prompt_templates';
+
+// Prompts enviados à IA que os administradores podem ajustar sem deploy
+export type PromptTemplateKey =
+    | 'enhance' | 'editMask' | 'editHotspot' | 'poseVariation' | 'outpainting' | 'ageTraining'
+    | 'fitAnalysis' | 'describe' | 'copy' | 'modelGeneration' | 'qualityCheck' | 'correction';
+
+interface PromptTemplateDefinition {
+    label: string;
+    description: string;
+    variables: string[]; // Variáveis aceitas no texto, como {{age}}
+    text: string; // Texto padrão (versão 0)
+}
+
+/**
+ * Textos padrão de cada prompt (versão 0). Além de {{variavel}}, um trecho entre {{#variavel}} e {{/variavel}}
+ * só entra no prompt quando a variável tem valor; com as marcações em linhas próprias, as linhas somem junto.
+ */
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+    enhance: {
+        label: 'Aprimoramento',
+        description: 'Aumenta a nitidez e a resolução das fotos antes da geração.',
+        variables: [],
+        text: 'Tarefa: Aprimorar imagem. Diretivas: Qualidade de estúdio profissional, alta resolução, pronto para e-commerce. Aumentar nitidez. Realçar cores. Detalhar texturas. Manter composição original. Não adicione ou remova elementos. Responda apenas com a imagem aprimorada, sem texto adicional.',
+    },
+    editMask: {
+        label: 'Edição por máscara',
+        description: 'Retoque na área pintada pelo usuário (também usado na expansão).',
+        variables: ['instruction'],
+        text: 'Na área mascarada, aplique a seguinte edição: {{instruction}}',
+    },
+    editHotspot: {
+        label: 'Edição por ponto',
+        description: 'Retoque no ponto clicado da imagem.',
+        variables: ['width', 'height', 'x', 'y', 'instruction'],
+        text: 'A imagem fornecida tem {{width}} pixels de largura por {{height}} pixels de altura. Na coordenada x={{x}}, y={{y}} (contando a partir do canto superior esquerdo), aplique a seguinte edição: {{instruction}}',
+    },
+    poseVariation: {
+        label: 'Variação de pose',
+        description: 'Gera o mesmo modelo e roupa em outra pose.',
+        variables: [],
+        text: 'Analise a imagem de entrada, que mostra um modelo vestindo uma peça de roupa. Sua tarefa é gerar uma nova imagem do mesmo modelo, vestindo a mesma roupa, com o mesmo fundo e iluminação, mas em uma pose ligeiramente diferente e realista. A roupa deve permanecer totalmente visível e ser o foco principal. Não altere o rosto do modelo ou as características da roupa.',
+    },
+    outpainting: {
+        label: 'Expansão (outpainting)',
+        description: 'Completa o fundo até as dimensões finais; enviado como instrução da edição por máscara.',
+        variables: [],
+        text: 'Tarefa: Outpainting. A imagem fornecida contém o assunto principal e áreas brancas para preenchimento. A máscara vermelha indica exatamente essas áreas a serem preenchidas. Preencha as áreas da máscara estendendo o fundo existente de forma contínua e fotorrealista. NÃO altere a área da imagem que não está mascarada. O resultado final deve ser uma imagem totalmente preenchida, sem as áreas brancas ou a máscara vermelha.',
+    },
+    ageTraining: {
+        label: 'Treinamento de idade',
+        description: 'Descreve as características físicas de uma faixa etária.',
+        variables: ['age'],
+        text: 'Descreva em detalhes as características físicas e de proporção corporal para um modelo de e-commerce da idade "{{age}}". Foque em aspectos como formato do rosto, tipo de corpo, proporções dos membros, e características típicas da pele e cabelo. A descrição deve ser técnica e focada em gerar imagens realistas.',
+    },
+    fitAnalysis: {
+        label: 'Análise de caimento',
+        description: 'Resume o caimento da foto de referência de caimento.',
+        variables: [],
+        text: "Descreva brevemente o caimento e o estilo da roupa nesta imagem. Foque em termos como 'justo', 'solto', 'oversized', 'fluido', 'estruturado', etc.",
+    },
+    describe: {
+        label: 'Descrição da peça',
+        description: 'Extrai os atributos da peça a partir das fotos, limitados aos vocabulários.',
+        variables: ['attributes', 'allowedValues', 'unidentified'],
+        text: `Analise detalhadamente as fotos da peça de roupa fornecida, focando em todos os aspectos relevantes para uma descrição completa de e-commerce. Cada foto vem precedida do seu papel (frente, costas, detalhe ou total look) e todas mostram a MESMA peça: combine as evidências de todas elas.
+Para cada atributo, informe:
+- "value": o valor do atributo.
+- "confidence": sua confiança no valor, de 0 (palpite) a 1 (claramente visível).
+- "source": o papel da foto em que o atributo foi observado com mais clareza. Estampas, textos e fechamentos traseiros, por exemplo, costumam aparecer só nas costas.
+Atributos: {{attributes}}.
+Os valores abaixo são os ÚNICOS aceitos em cada atributo; escolha o termo mais próximo, exatamente como escrito. Use '{{unidentified}}' apenas se o atributo não puder ser determinado pelas fotos.
+{{allowedValues}}
+- "Detalhes Adicionais": único campo de texto livre. Liste os detalhes relevantes que os termos acima não capturam, como 'Babados na barra', 'Gola com nervuras', 'Bordado de logo no peito', 'Lavagem clara', 'Listras finas verticais', 'Estampa de texto nas costas'.`,
+    },
+    copy: {
+        label: 'Textos de e-commerce',
+        description: 'Título, descrições, tópicos e SEO da página de produto.',
+        variables: ['attributes', 'sheetData', 'toneGuidelines', 'languages'],
+        text: `Você é redator de e-commerce de moda. Escreva os textos da página de produto da peça abaixo, prontos para publicar na loja.
+
+Atributos da peça (extraídos das fotos):
+{{attributes}}
+{{#sheetData}}
+
+Dados da planilha do produto:
+{{sheetData}}
+{{/sheetData}}
+
+Diretrizes da marca:
+{{toneGuidelines}}
+
+Para cada idioma pedido ({{languages}}), escreva no próprio idioma (não traduza literalmente; adapte ao mercado):
+- "title": título do produto, até 70 caracteres, com o tipo de peça e o principal diferencial.
+- "shortDescription": uma ou duas frases para a vitrine.
+- "longDescription": dois ou três parágrafos com tecido, caimento, detalhes e ocasiões de uso.
+- "bullets": de 4 a 6 tópicos curtos com as características principais.
+- "metaDescription": descrição para SEO, até 160 caracteres.
+- "keywords": de 5 a 10 palavras-chave de busca.
+Não invente informações que não estejam nos atributos ou na planilha (composição, medidas, preço).`,
+    },
+    modelGeneration: {
+        label: 'Geração do modelo',
+        description: 'Foto do modelo vestindo a roupa. As variáveis terminadas em "Image(s)" marcam onde entram as imagens, com os rótulos delas; as que faltarem no texto vão antes dele.',
+        variables: [
+            'framing', 'backFocus', 'aspectRatio', 'clothingImages', 'clothingDescription', 'referenceBottomImage',
+            'referenceBottomDescription', 'fitDescription', 'age', 'gender', 'trainedCharacteristics', 'modelNotes',
+            'negativePrompt', 'identityImages', 'referenceModelImage', 'referenceSceneImage', 'sceneDescription',
+        ],
+        text: `Gere uma imagem de um modelo de e-commerce vestindo a roupa fornecida. Requisitos:
+{{#framing}}
+- Enquadramento da Foto: {{framing}}. Siga este enquadramento estritamente.
+{{/framing}}
+{{#backFocus}}
+- ATENÇÃO: A parte de trás da roupa é o foco. Se houver estampas, textos ou detalhes importantes nas costas da peça, a pose do modelo e o cabelo NÃO DEVEM cobri-los. A estampa traseira deve ser completamente visível e legível.
+{{/backFocus}}
+- Proporção da Imagem: {{aspectRatio}}.
+{{clothingImages}}
+{{#clothingDescription}}
+- Descrição da Roupa (para referência): {{clothingDescription}}. Use as imagens como fonte principal, mas esta descrição ajuda a entender os detalhes.
+{{/clothingDescription}}
+{{referenceBottomImage}}
+{{#referenceBottomDescription}}
+- Descrição da Peça Complementar (para referência): {{referenceBottomDescription}}. Use a imagem da peça complementar como fonte principal, mas esta descrição ajuda a entender os detalhes.
+{{/referenceBottomDescription}}
+{{#fitDescription}}
+- Descrição do Caimento e Estilo (baseado na imagem de referência): {{fitDescription}}
+{{/fitDescription}}
+- Idade do Modelo: {{age}}
+{{#gender}}
+- Gênero do Modelo: {{gender}}
+{{/gender}}
+- Características do Modelo (Baseado no Treinamento de IA): {{trainedCharacteristics}}
+{{#modelNotes}}
+- Observações Adicionais do Modelo: {{modelNotes}}
+{{/modelNotes}}
+{{#negativePrompt}}
+- Exclusões (NÃO inclua o seguinte): {{negativePrompt}}
+{{/negativePrompt}}
+{{#identityImages}}
+- Identidade do Modelo: o modelo DEVE ser exatamente a mesma pessoa destas fotos (mesmo rosto, cabelo, tom de pele e tipo físico). Não crie uma pessoa nova.
+{{/identityImages}}
+{{identityImages}}
+{{referenceModelImage}}
+{{referenceSceneImage}}
+{{#sceneDescription}}
+- Descrição do Cenário: {{sceneDescription}}
+{{/sceneDescription}}
+Instruções Finais: A imagem deve ser de alta qualidade, hiper-realista, com iluminação de estúdio profissional e adequada para um catálogo de moda. O foco principal deve ser a roupa. Responda apenas com a imagem gerada, sem nenhum texto adicional.`,
+    },
+    qualityCheck: {
+        label: 'Controle de qualidade',
+        description: 'Compara a peça original com a imagem gerada e monta o plano de correção.',
+        variables: [],
+        text: `Você é um especialista em controle de qualidade de moda. Compare a "Peça Original" com a roupa na "Imagem Gerada". Use a "Descrição Original" como referência.
+    1. Identifique todas as discrepâncias (cores, padrões, forma, detalhes ausentes/adicionados).
+    2. Crie um "Plano de Correção" em texto, descrevendo passo a passo como editar a "Imagem Gerada" para que a roupa corresponda perfeitamente à "Peça Original". O plano deve ser claro e acionável por outra IA.
+    3. Crie uma lista de "Pontos de Anotação" para as 3 discrepâncias mais importantes. Forneça coordenadas (x, y) em pixels na "Imagem Gerada" e uma breve descrição do problema nesse ponto.
+    Se a roupa da "Imagem Gerada" já corresponder à "Peça Original", retorne o plano vazio ("") e a lista de pontos vazia.
+
+    Retorne a resposta em formato JSON.`,
+    },
+    correction: {
+        label: 'Correção da peça',
+        description: 'Aplica o plano de correção do controle de qualidade.',
+        variables: ['correctionPlan'],
+        text: `Você é um editor de fotos de IA. Sua tarefa é corrigir a "Imagem Gerada" para que a roupa nela corresponda perfeitamente à "Peça Original".
+    Siga estritamente o "Plano de Correção" fornecido para fazer as edições. O plano é:
+    ---
+    {{correctionPlan}}
+    ---
+    O resultado final deve ser uma imagem fotorrealista com a roupa corrigida. Não altere o modelo, a pose ou o fundo, a menos que seja absolutamente necessário para a correção da roupa.`,
+    },
+};
+
+export const PROMPT_TEMPLATE_KEYS = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateKey[];
+
+export const isPromptTemplateKey = (value: unknown): value is PromptTemplateKey => PROMPT_TEMPLATE_KEYS.includes(value as PromptTemplateKey);
+
+export interface PromptTemplateVersion {
+    version: number;
+    text: string;
+    note: string;
+    createdBy: string | null;
+    createdAt: string | null;
+}
+
+/**
+ * Histórico de um prompt no escopo global ou de uma marca.
+ * No global, a versão 0 é o texto padrão; na marca, a versão 0 desliga a personalização e volta ao global.
+ */
+export interface PromptTemplateScope {
+    brand: string | null;
+    activeVersion: number;
+    versions: PromptTemplateVersion[];
+}
+
+export interface PromptTemplate extends Omit<PromptTemplateDefinition, 'text'> {
+    key: PromptTemplateKey;
+    defaultText: string;
+    global: PromptTemplateScope;
+    overrides: PromptTemplateScope[]; // Personalizações por marca
+}
+
+// Prompt pronto para envio, com o identificador da versão usada (gravado no custo e na imagem gerada)
+export interface ResolvedPrompt {
+    text: string;
+    versionId: string; // Ex.: 'modelGeneration@v3' ou 'modelGeneration@marca-x@v1'
+}
+
+const toBrandId = (brand: string) => brand.trim().toLowerCase().replace(/[\s/]+/g, '-');
+
+const getDocId = (key: PromptTemplateKey, brand: string | null) => brand ? `${key}~${toBrandId(brand)}` : key;
+
+const toVersion = (data: any): PromptTemplateVersion => ({
+    version: data.version,
+    text: data.text,
+    note: data.note || '',
+    createdBy: data.createdBy || null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : null,
+});
+
+const docToScope = (data: FirebaseFirestore.DocumentData | undefined, brand: string | null): PromptTemplateScope => ({
+    brand,
+    activeVersion: data?.activeVersion || 0,
+    versions: (data?.versions || []).map(toVersion),
+});
+
+const getVersionId = (key: PromptTemplateKey, brand: string | null, version: number) =>
+    brand ? `${key}@${toBrandId(brand)}@v${version}` : `${key}@v${version}`;
+
+// Lista os prompts com o histórico global e as personalizações por marca (admin)
+export const listPromptTemplates = async (): Promise<PromptTemplate[]> => {
+    const snapshot = await db.collection(PROMPT_TEMPLATES_COLLECTION).get();
+    return PROMPT_TEMPLATE_KEYS.map(key => {
+        const { text, ...definition } = PROMPT_TEMPLATE_DEFINITIONS[key];
+        const docs = snapshot.docs.filter(doc => doc.get('key') === key);
+        const globalDoc = docs.find(doc => !doc.get('brand'));
+        return {
+            key,
+            ...definition,
+            defaultText: text,
+            global: docToScope(globalDoc?.data(), null),
+            overrides: docs.filter(doc => doc.get('brand'))
+                .map(doc => docToScope(doc.data(), doc.get('brand')))
+                .sort((a, b) => a.brand!.localeCompare(b.brand!)),
+        };
+    });
+};
+
+// Variáveis usadas no texto ({{x}}, {{#x}}, {{/x}}) que o prompt não aceita
+export const findUnknownVariables = (key: PromptTemplateKey, text: string): string[] => {
+    const allowed = PROMPT_TEMPLATE_DEFINITIONS[key].variables;
+    const used = Array.from(text.matchAll(/\{\{[#/]?(\w+)\}\}/g), match => match[1]);
+    return Array.from(new Set(used.filter(name => !allowed.includes(name))));
+};
+
+/**
+ * Grava uma nova versão do prompt (global, ou da marca quando informada) e a torna ativa.
+ * @returns O escopo atualizado, com o histórico completo.
+ */
+export const savePromptTemplateVersion = async (key: PromptTemplateKey, brand: string | null, text: string, note: string, uid: string): Promise<PromptTemplateScope> => {
+    const ref = db.collection(PROMPT_TEMPLATES_COLLECTION).doc(getDocId(key, brand));
+    return db.runTransaction(async transaction => {
+        const versions: FirebaseFirestore.DocumentData[] = (await transaction.get(ref)).get('versions') || [];
+        const version = versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+        const data = {
+            key,
+            brand: brand ? brand.trim() : null,
+            activeVersion: version,
+            versions: [...versions, { version, text, note, createdBy: uid, createdAt: Timestamp.now() }],
+        };
+        transaction.set(ref, data);
+        return docToScope(data, data.brand);
+    });
+};
+
+/**
+ * Ativa uma versão existente do prompt (rollback). A versão 0 volta ao texto padrão (global)
+ * ou desliga a personalização da marca.
+ * @returns O escopo atualizado, ou null quando a versão não existe.
+ */
+export const activatePromptTemplateVersion = async (key: PromptTemplateKey, brand: string | null, version: number): Promise<PromptTemplateScope | null> => {
+    const ref = db.collection(PROMPT_TEMPLATES_COLLECTION).doc(getDocId(key, brand));
+    const doc = await ref.get();
+    const current = docToScope(doc.data(), brand);
+    if (version !== 0 && !current.versions.some(v => v.version === version)) return null;
+    if (!doc.exists) return current;
+
+    await ref.update({ activeVersion: version });
+    return { ...current, activeVersion: version };
+};
+
+/**
+ * Preenche as variáveis do prompt. {{#x}}...{{/x}} só entra quando x tem valor (sem aninhamento);
+ * quando as marcações estão em linhas próprias, as quebras de linha delas também são removidas.
+ */
+export const renderPromptTemplate = (text: string, variables: Record<string, string | undefined>) => {
+    const valueOf = (name: string) => (variables[name] || '').trim();
+    return text
+        .replace(/\{\{#(\w+)\}\}\n([\s\S]*?)\{\{\/\1\}\}\n?/g, (_, name, content) => valueOf(name) ? content : '')
+        .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, content) => valueOf(name) ? content : '')
+        .replace(/\{\{(\w+)\}\}/g, (_, name) => valueOf(name));
+};
+
+/**
+ * Monta o prompt a enviar: a versão ativa da marca, se houver personalização; senão a versão ativa global;
+ * senão o texto padrão.
+ */
+export const resolvePrompt = async (key: PromptTemplateKey, brand: string | undefined, variables: Record<string, string | undefined> = {}): Promise<ResolvedPrompt> => {
+    const refs = [db.collection(PROMPT_TEMPLATES_COLLECTION).doc(getDocId(key, null))];
+    if (brand?.trim()) refs.push(db.collection(PROMPT_TEMPLATES_COLLECTION).doc(getDocId(key, brand)));
+    const [globalDoc, brandDoc] = await db.getAll(...refs);
+
+    const pick = (scope: PromptTemplateScope) => scope.versions.find(v => v.version === scope.activeVersion);
+    const brandVersion = brandDoc ? pick(docToScope(brandDoc.data(), brand!)) : undefined;
+    const globalVersion = pick(docToScope(globalDoc.data(), null));
+
+    if (brandVersion) {
+        return { text: renderPromptTemplate(brandVersion.text, variables), versionId: getVersionId(key, brand!, brandVersion.version) };
+    }
+    return {
+        text: renderPromptTemplate(globalVersion?.text ?? PROMPT_TEMPLATE_DEFINITIONS[key].text, variables),
+        versionId: getVersionId(key, null, globalVersion?.version ?? 0),
+    };
+};
@@ -0,0 +1,270 @@
+// src/services/trash.service.ts
+import { db, storage } from './firebase';
+import { FieldValue, Timestamp, DocumentData } from 'firebase-admin/firestore';
+
+export const TRASH_FOLDER_NAME = 'Lixeira';
+
+// Quantos dias um item fica na lixeira antes de ser apagado definitivamente
+export const getTrashRetentionDays = (): number => {
+    const days = Number(process.env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : 30;
+};
+
+// Encontra ou cria a pasta da lixeira para o usuário
+export const findOrCreateTrashFolder = async (uid: string) => {
+    const snapshot = await db.collection('gallery')
+        .where('uid', '==', uid)
+        .where('name', '==', TRASH_FOLDER_NAME)
+        .where('type', '==', 'folder')
+        .limit(1)
+        .get();
+
+    if (!snapshot.empty) {
+        const existingFolder = snapshot.docs[0];
+        return { created: false, folder: { id: existingFolder.id, ...existingFolder.data() } };
+    }
+
+    const newFolder = {
+        uid,
+        name: TRASH_FOLDER_NAME,
+        parentId: 'root', // Lixeira fica sempre na raiz
+        type: 'folder',
+        createdAt: FieldValue.serverTimestamp(),
+    };
+    const docRef = await db.collection('gallery').add(newFolder);
+    return { created: true, folder: { id: docRef.id, ...newFolder } };
+};
+
+// Lista os filhos diretos de uma pasta
+const getChildren = async (folderId: string, uid: string) => {
+    const snapshot = await db.collection('gallery')
+        .where('uid', '==', uid)
+        .where('parentId', '==', folderId)
+        .get();
+    return snapshot.docs;
+};
+
+// Monta a lista de nomes das pastas ancestrais (da raiz até o pai do item)
+const getAncestorNames = async (parentId: string | null, uid: string): Promise<string[]> => {
+    const names: string[] = [];
+    let currentId = parentId;
+    while (currentId && currentId !== 'root') {
+        const doc = await db.collection('gallery').doc(currentId).get();
+        const data = doc.data();
+        if (!doc.exists || data?.uid !== uid || data?.type !== 'folder') break;
+        names.unshift(data.name);
+        currentId = data.parentId;
+    }
+    return names;
+};
+
+// Marca (ou desmarca) todos os descendentes de uma pasta como apagados junto com ela
+const markDescendants = async (folderId: string, uid: string, rootItemId: string, deleted: boolean) => {
+    const children = await getChildren(folderId, uid);
+    // Limite de escritas por lote do Firestore
+    for (let start = 0; start < children.length; start += 500) {
+        const batch = db.batch();
+        for (const child of children.slice(start, start + 500)) {
+            batch.update(child.ref, deleted
+                ? { deletedAt: FieldValue.serverTimestamp(), deletedWithId: rootItemId }
+                : { deletedAt: FieldValue.delete(), deletedWithId: FieldValue.delete() });
+        }
+        await batch.commit();
+    }
+
+    for (const child of children) {
+        if (child.data().type === 'folder') {
+            await markDescendants(child.id, uid, rootItemId, deleted);
+        }
+    }
+};
+
+// Move um item para a lixeira guardando de onde ele veio
+export const softDeleteItem = async (itemId: string, uid: string, trashFolderId: string) => {
+    const itemRef = db.collection('gallery').doc(itemId);
+    const itemDoc = await itemRef.get();
+    const itemData = itemDoc.data();
+
+    if (!itemDoc.exists || itemData?.uid !== uid || itemId === trashFolderId || itemData?.deletedAt) {
+        return false;
+    }
+
+    await itemRef.update({
+        parentId: trashFolderId,
+        originalParentId: itemData.parentId || 'root',
+        originalPath: await getAncestorNames(itemData.parentId, uid),
+        deletedAt: FieldValue.serverTimestamp(),
+    });
+
+    if (itemData.type === 'folder') {
+        await markDescendants(itemId, uid, itemId, true);
+    }
+    return true;
+};
+
+// Encontra uma pasta ativa (fora da lixeira) pelo nome, ou cria uma nova
+const findOrCreateActiveFolder = async (name: string, parentId: string, uid: string): Promise<string> => {
+    const snapshot = await db.collection('gallery')
+        .where('uid', '==', uid)
+        .where('parentId', '==', parentId)
+        .where('name', '==', name)
+        .where('type', '==', 'folder')
+        .get();
+
+    const active = snapshot.docs.find(doc => !doc.data().deletedAt);
+    if (active) return active.id;
+
+    const docRef = await db.collection('gallery').add({
+        uid,
+        name,
+        parentId,
+        type: 'folder',
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    return docRef.id;
+};
+
+// Descobre para onde o item deve voltar, recriando as pastas se a original não existir mais
+const resolveRestoreTarget = async (itemData: DocumentData, uid: string): Promise<string> => {
+    const originalParentId: string = itemData.originalParentId || 'root';
+    if (originalParentId === 'root') return 'root';
+
+    const parentDoc = await db.collection('gallery').doc(originalParentId).get();
+    const parentData = parentDoc.data();
+    if (parentDoc.exists && parentData?.uid === uid && parentData?.type === 'folder' && !parentData?.deletedAt) {
+        return originalParentId;
+    }
+
+    // A pasta original foi apagada: recria o caminho a partir da raiz
+    let targetId = 'root';
+    for (const name of (itemData.originalPath || []) as string[]) {
+        targetId = await findOrCreateActiveFolder(name, targetId, uid);
+    }
+    return targetId;
+};
+
+// Restaura um item da lixeira para a pasta de origem
+export const restoreItem = async (itemId: string, uid: string) => {
+    const itemRef = db.collection('gallery').doc(itemId);
+    const itemDoc = await itemRef.get();
+    const itemData = itemDoc.data();
+
+    // Só itens enviados diretamente para a lixeira podem ser restaurados
+    if (!itemDoc.exists || itemData?.uid !== uid || !itemData?.deletedAt || itemData?.deletedWithId) {
+        return false;
+    }
+
+    const targetId = await resolveRestoreTarget(itemData, uid);
+    await itemRef.update({
+        parentId: targetId,
+        deletedAt: FieldValue.delete(),
+        originalParentId: FieldValue.delete(),
+        originalPath: FieldValue.delete(),
+    });
+
+    if (itemData.type === 'folder') {
+        await markDescendants(itemId, uid, itemId, false);
+    }
+    return true;
+};
+
+/**
+ * Tira da lixeira um item que foi apagado junto com a pasta dele (deletedWithId), ao movê-lo para fora dela.
+ * A pasta de destino é definida por quem chama; aqui só as marcas de apagado são removidas.
+ */
+export const detachFromDeletedFolder = async (itemId: string, uid: string) => {
+    const itemRef = db.collection('gallery').doc(itemId);
+    const itemDoc = await itemRef.get();
+    const itemData = itemDoc.data();
+
+    if (!itemDoc.exists || itemData?.uid !== uid || !itemData?.deletedWithId) {
+        return false;
+    }
+
+    await itemRef.update({ deletedAt: FieldValue.delete(), deletedWithId: FieldValue.delete() });
+
+    if (itemData.type === 'folder') {
+        await markDescendants(itemId, uid, itemId, false);
+    }
+    return true;
+};
+
+// Apaga o arquivo do Storage sem interromper o fluxo em caso de erro
+const deleteStorageFile = async (storagePath?: string) => {
+    if (!storagePath) return;
+    await storage.bucket().file(storagePath).delete().catch(err => console.error(`Falha ao deletar arquivo do storage: ${storagePath}`, err));
+};
+
+// Deleta uma pasta e todo o seu conteúdo recursivamente
+const deleteFolderRecursive = async (folderId: string, uid: string) => {
+    const batch = db.batch();
+    const children = await getChildren(folderId, uid);
+
+    for (const child of children) {
+        const childData = child.data();
+        if (childData.type === 'folder') {
+            await deleteFolderRecursive(child.id, uid);
+        } else {
+            await deleteStorageFile(childData.storagePath);
+            await deleteStorageFile(childData.originalStoragePath);
+            batch.delete(child.ref);
+        }
+    }
+
+    batch.delete(db.collection('gallery').doc(folderId));
+    await batch.commit();
+};
+
+// Apaga definitivamente um item (Firestore e Storage)
+export const hardDeleteItem = async (itemId: string, uid: string) => {
+    const itemRef = db.collection('gallery').doc(itemId);
+    const itemDoc = await itemRef.get();
+    const itemData = itemDoc.data();
+
+    if (!itemDoc.exists || itemData?.uid !== uid) return false;
+
+    if (itemData.type === 'folder') {
+        await deleteFolderRecursive(itemId, uid);
+    } else {
+        await deleteStorageFile(itemData.storagePath);
+        await deleteStorageFile(itemData.originalStoragePath);
+        await itemRef.delete();
+    }
+    return true;
+};
+
+// Esvazia da lixeira tudo o que passou do prazo de retenção
+export const purgeExpiredTrash = async (retentionDays = getTrashRetentionDays()) => {
+    const cutoff = Timestamp.fromMillis(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const snapshot = await db.collection('gallery')
+        .where('deletedAt', '<=', cutoff)
+        .get();
+
+    let purged = 0;
+    for (const doc of snapshot.docs) {
+        const data = doc.data();
+        // Descendentes são removidos junto com a pasta que foi para a lixeira
+        if (data.deletedWithId) continue;
+        if (await hardDeleteItem(doc.id, data.uid)) purged++;
+    }
+    return purged;
+};
+
+// Agenda a limpeza periódica da lixeira
+export const startTrashPurgeJob = () => {
+    const intervalHours = Number(process.env.TRASH_PURGE_INTERVAL_HOURS) || 24;
+
+    const run = async () => {
+        try {
+            const purged = await purgeExpiredTrash();
+            if (purged > 0) {
+                console.log(`Lixeira: ${purged} item(ns) apagado(s) definitivamente.`);
+            }
+        } catch (error) {
+            console.error("Erro ao esvaziar a lixeira:", error);
+        }
+    };
+
+    run();
+    return setInterval(run, intervalHours * 60 * 60 * 1000);
+};
@@ -0,0 +1,141 @@
+// src/services/view.service.ts
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './firebase';
+
+export const VIEWS_COLLECTION = 'view_definitions';
+
+// O que é feito com a imagem gerada para chegar às dimensões finais do lote
+export type ViewPostProcess = 'expand' | 'crop' | 'pad';
+
+export const VIEW_POST_PROCESSES: ViewPostProcess[] = ['expand', 'crop', 'pad'];
+
+export const isViewPostProcess = (value: unknown): value is ViewPostProcess => VIEW_POST_PROCESSES.includes(value as ViewPostProcess);
+
+export const isAspectRatio = (value: unknown): value is string => typeof value === 'string' && /^\d+:\d+$/.test(value);
+
+/**
+ * Vista de saída do lote ("Total Look", "Crop Frente", "Flat lay"...), cadastrada pelos administradores.
+ * O nome é o que o usuário marca no lote; o resto define como a vista é gerada e finalizada.
+ */
+export interface ViewDefinition {
+    id: string;
+    name: string;
+    framingPrompt: string; // Trecho de enquadramento enviado ao modelo
+    aspectRatio: string; // Proporção pedida ao modelo (ex.: '1:1', '3:4')
+    postProcess: ViewPostProcess;
+    outputSuffix: string; // Sufixo do arquivo gerado (SKU-<sufixo>-0.png)
+    needsBackPhoto: boolean; // Usa a foto de costas e pede a parte de trás da roupa em destaque
+    order: number;
+}
+
+export type ViewDefinitionFields = Omit<ViewDefinition, 'id'>;
+
+// Vistas que existiam fixas no código; são gravadas na primeira leitura do catálogo
+const DEFAULT_VIEW_DEFINITIONS: (ViewDefinitionFields & { id: string })[] = [
+    {
+        id: 'total-look',
+        name: 'Total Look',
+        framingPrompt: 'Total Look: corpo inteiro do modelo, da cabeça aos pés, com a roupa completamente visível',
+        aspectRatio: '1:1',
+        postProcess: 'expand',
+        outputSuffix: 'Total_Look',
+        needsBackPhoto: false,
+        order: 0,
+    },
+    {
+        id: 'crop-frente',
+        name: 'Crop Frente',
+        framingPrompt: 'Crop Frente: recorte frontal do tronco, do pescoço até o quadril, com a frente da roupa em destaque',
+        aspectRatio: '1:1',
+        postProcess: 'crop',
+        outputSuffix: 'Crop_Frente',
+        needsBackPhoto: false,
+        order: 1,
+    },
+    {
+        id: 'crop-costas',
+        name: 'Crop Costas',
+        framingPrompt: 'Crop Costas: modelo de costas, recorte do pescoço até o quadril, com a parte de trás da roupa em destaque',
+        aspectRatio: '1:1',
+        postProcess: 'crop',
+        outputSuffix: 'Crop_Costas',
+        needsBackPhoto: true,
+        order: 2,
+    },
+    {
+        id: 'detalhe',
+        name: 'Detalhe',
+        framingPrompt: 'Detalhe: close-up de um detalhe da roupa (tecido, estampa ou acabamento)',
+        aspectRatio: '1:1',
+        postProcess: 'crop',
+        outputSuffix: 'Detalhe',
+        needsBackPhoto: false,
+        order: 3,
+    },
+];
+
+const docToView = (doc: FirebaseFirestore.DocumentSnapshot): ViewDefinition => {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        name: data.name,
+        framingPrompt: data.framingPrompt || data.name,
+        aspectRatio: data.aspectRatio || '1:1',
+        postProcess: isViewPostProcess(data.postProcess) ? data.postProcess : 'crop',
+        outputSuffix: data.outputSuffix || data.name.replace(/\s+/g, '_'),
+        needsBackPhoto: !!data.needsBackPhoto,
+        order: data.order ?? 0,
+    };
+};
+
+// Lista o catálogo de vistas na ordem de exibição (grava as vistas padrão se o catálogo estiver vazio)
+export const listViewDefinitions = async (): Promise<ViewDefinition[]> => {
+    const snapshot = await db.collection(VIEWS_COLLECTION).orderBy('order').get();
+    if (!snapshot.empty) return snapshot.docs.map(docToView);
+
+    const batch = db.batch();
+    DEFAULT_VIEW_DEFINITIONS.forEach(({ id, ...fields }) => {
+        batch.set(db.collection(VIEWS_COLLECTION).doc(id), { ...fields, createdAt: FieldValue.serverTimestamp() });
+    });
+    await batch.commit();
+    return DEFAULT_VIEW_DEFINITIONS.map(view => ({ ...view }));
+};
+
+/**
+ * Encontra a definição de uma vista pelo nome (sem diferenciar maiúsculas).
+ * Vistas que não estão no catálogo (ex.: removidas depois de salvas em um preset) são geradas
+ * com o nome como enquadramento e recortadas no tamanho final.
+ */
+export const resolveViewDefinition = async (name: string): Promise<ViewDefinition> => {
+    const views = await listViewDefinitions();
+    const normalized = name.trim().toLowerCase();
+    return views.find(view => view.name.trim().toLowerCase() === normalized) || {
+        id: '',
+        name,
+        framingPrompt: name,
+        aspectRatio: '1:1',
+        postProcess: 'crop',
+        outputSuffix: name.replace(/\s+/g, '_'),
+        needsBackPhoto: false,
+        order: views.length,
+    };
+};
+
+export const createViewDefinition = async (fields: ViewDefinitionFields, uid: string): Promise<ViewDefinition> => {
+    const ref = await db.collection(VIEWS_COLLECTION).add({ ...fields, createdBy: uid, createdAt: FieldValue.serverTimestamp() });
+    return docToView(await ref.get());
+};
+
+export const updateViewDefinition = async (viewId: string, fields: Partial<ViewDefinitionFields>, uid: string): Promise<ViewDefinition | null> => {
+    const ref = db.collection(VIEWS_COLLECTION).doc(viewId);
+    if (!(await ref.get()).exists) return null;
+    await ref.update({ ...fields, updatedBy: uid, updatedAt: FieldValue.serverTimestamp() });
+    return docToView(await ref.get());
+};
+
+export const deleteViewDefinition = async (viewId: string): Promise<boolean> => {
+    const ref = db.collection(VIEWS_COLLECTION).doc(viewId);
+    if (!(await ref.get()).exists) return false;
+    await ref.delete();
+    return true;
+};
@@ -0,0 +1,240 @@
+// src/services/vocabulary.service.ts
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './firebase';
+
+export const VOCABULARIES_COLLECTION = 'attribute_vocabularies';
+
+// Vocabulários controlados, um por atributo da descrição (só "Detalhes Adicionais" fica em texto livre)
+export type VocabularyId =
+    | 'garmentType' | 'color' | 'pattern' | 'fabric' | 'fit' | 'pockets'
+    | 'closure' | 'neckline' | 'sleeveLength' | 'transparency' | 'occasion';
+
+export interface VocabularyTerm {
+    value: string; // Valor canônico, usado nos filtros da loja
+    synonyms: string[]; // Variações aceitas e convertidas para o valor canônico
+    hex?: string; // Amostra de cor (só no vocabulário de cores)
+}
+
+export interface Vocabulary {
+    id: VocabularyId;
+    attribute: string; // Chave do atributo na descrição ("Tipo de Peça", "Caimento"...)
+    multiple: boolean; // Aceita mais de um valor (ex.: várias cores)
+    terms: VocabularyTerm[];
+    updatedAt?: string;
+}
+
+// Atributo, multiplicidade e termos iniciais de cada vocabulário; gravados na primeira leitura
+const DEFAULT_VOCABULARIES: Omit<Vocabulary, 'updatedAt'>[] = [
+    {
+        id: 'garmentType', attribute: 'Tipo de Peça', multiple: false, terms: [
+            { value: 'Camiseta', synonyms: ['t-shirt', 'tshirt', 'camisa de malha', 'blusa de malha'] },
+            { value: 'Camisa', synonyms: ['camisa social', 'camisa de botão', 'shirt'] },
+            { value: 'Blusa', synonyms: ['top', 'bata'] },
+            { value: 'Regata', synonyms: ['tank top', 'camiseta regata'] },
+            { value: 'Cropped', synonyms: ['top cropped', 'crop top'] },
+            { value: 'Moletom', synonyms: ['blusão de moletom', 'sweatshirt', 'hoodie', 'moletom com capuz'] },
+            { value: 'Suéter', synonyms: ['sueter', 'tricô', 'tricot', 'pulôver', 'pullover'] },
+            { value: 'Jaqueta', synonyms: ['jacket', 'jaqueta jeans', 'jaqueta corta-vento'] },
+            { value: 'Casaco', synonyms: ['sobretudo', 'trench coat', 'coat'] },
+            { value: 'Blazer', synonyms: ['paletó', 'terno'] },
+            { value: 'Vestido', synonyms: ['dress'] },
+            { value: 'Saia', synonyms: ['skirt'] },
+            { value: 'Calça', synonyms: ['calça jeans', 'pantalona', 'jeans', 'pants'] },
+            { value: 'Bermuda', synonyms: ['short', 'shorts'] },
+            { value: 'Macacão', synonyms: ['macaquinho', 'jumpsuit'] },
+            { value: 'Conjunto', synonyms: ['set', 'conjunto de duas peças'] },
+            { value: 'Body', synonyms: ['bodysuit', 'body de bebê'] },
+            { value: 'Pijama', synonyms: ['camisola'] },
+            { value: 'Moda Praia', synonyms: ['biquíni', 'maiô', 'sunga'] },
+        ],
+    },
+    {
+        id: 'color', attribute: 'Cores Principais', multiple: true, terms: [
+            { value: 'Preto', synonyms: ['black', 'preta'], hex: '#000000' },
+            { value: 'Branco', synonyms: ['white', 'branca', 'off-white', 'off white'], hex: '#FFFFFF' },
+            { value: 'Cinza', synonyms: ['grafite', 'mescla', 'cinza mescla', 'chumbo', 'gray', 'grey'], hex: '#9CA3AF' },
+            { value: 'Bege', synonyms: ['nude', 'areia', 'creme', 'cru', 'caqui', 'cáqui'], hex: '#D6C3A5' },
+            { value: 'Marrom', synonyms: ['caramelo', 'chocolate', 'café', 'brown'], hex: '#7B4B2A' },
+            { value: 'Vermelho', synonyms: ['vermelha', 'red', 'vinho', 'bordô', 'bordo'], hex: '#DC2626' },
+            { value: 'Rosa', synonyms: ['pink', 'rosê', 'rose', 'salmão'], hex: '#F472B6' },
+            { value: 'Laranja', synonyms: ['orange', 'terracota', 'coral'], hex: '#F97316' },
+            { value: 'Amarelo', synonyms: ['amarela', 'yellow', 'mostarda'], hex: '#FACC15' },
+            { value: 'Verde', synonyms: ['green', 'verde militar', 'oliva', 'verde-oliva'], hex: '#16A34A' },
+            { value: 'Azul', synonyms: ['blue', 'azul claro', 'azul celeste'], hex: '#2563EB' },
+            { value: 'Azul Marinho', synonyms: ['marinho', 'navy', 'azul-marinho'], hex: '#1E3A8A' },
+            { value: 'Jeans', synonyms: ['índigo', 'indigo', 'denim'], hex: '#3B5B8C' },
+            { value: 'Roxo', synonyms: ['lilás', 'lilas', 'violeta', 'purple', 'lavanda'], hex: '#7C3AED' },
+            { value: 'Dourado', synonyms: ['gold', 'ouro'], hex: '#D4A017' },
+            { value: 'Prateado', synonyms: ['prata', 'silver'], hex: '#C0C0C0' },
+        ],
+    },
+    {
+        id: 'pattern', attribute: 'Estampa/Padrão', multiple: false, terms: [
+            { value: 'Liso', synonyms: ['sem estampa', 'básico', 'lisa'] },
+            { value: 'Listrado', synonyms: ['listras', 'listrada', 'riscado'] },
+            { value: 'Xadrez', synonyms: ['vichy', 'tartan', 'quadriculado'] },
+            { value: 'Floral', synonyms: ['flores', 'estampa floral'] },
+            { value: 'Poá', synonyms: ['bolinhas', 'poa', 'polka dots'] },
+            { value: 'Animal Print', synonyms: ['oncinha', 'zebra', 'cobra', 'leopardo'] },
+            { value: 'Geométrico', synonyms: ['geometrico', 'estampa geométrica'] },
+            { value: 'Tie-dye', synonyms: ['tie dye', 'tingimento'] },
+            { value: 'Camuflado', synonyms: ['camuflagem', 'militar'] },
+            { value: 'Estampa Localizada', synonyms: ['estampa frontal', 'estampa nas costas', 'logo', 'silk', 'print', 'estampa com texto'] },
+            { value: 'Estampa Corrida', synonyms: ['estampa total', 'all over', 'estampado'] },
+        ],
+    },
+    {
+        id: 'fabric', attribute: 'Tipo de Tecido', multiple: false, terms: [
+            { value: 'Algodão', synonyms: ['algodao', 'cotton', 'malha de algodão'] },
+            { value: 'Malha', synonyms: ['meia malha', 'malha canelada', 'canelado', 'ribana', 'suedine'] },
+            { value: 'Moletom', synonyms: ['moletinho', 'fleece', 'felpado'] },
+            { value: 'Jeans', synonyms: ['denim', 'sarja jeans'] },
+            { value: 'Sarja', synonyms: ['gabardine', 'twill'] },
+            { value: 'Linho', synonyms: ['linen'] },
+            { value: 'Viscose', synonyms: ['rayon', 'viscolinho'] },
+            { value: 'Seda', synonyms: ['cetim', 'acetinado', 'seda sintética', 'silk'] },
+            { value: 'Crepe', synonyms: ['crepe de seda'] },
+            { value: 'Tricô', synonyms: ['tricot', 'lã', 'tricotado', 'knit'] },
+            { value: 'Couro', synonyms: ['couro sintético', 'courino', 'leather'] },
+            { value: 'Poliéster', synonyms: ['poliester', 'tecido sintético', 'nylon'] },
+            { value: 'Tule', synonyms: ['renda', 'voil', 'chiffon'] },
+            { value: 'Veludo', synonyms: ['plush', 'camurça', 'suede'] },
+        ],
+    },
+    {
+        id: 'fit', attribute: 'Caimento', multiple: false, terms: [
+            { value: 'Justo', synonyms: ['slim', 'slim fit', 'skinny', 'ajustado', 'justo ao corpo'] },
+            { value: 'Regular', synonyms: ['reto', 'modelagem reta', 'tradicional', 'regular fit'] },
+            { value: 'Amplo', synonyms: ['solto', 'modelagem ampla', 'largo', 'relaxed', 'loose'] },
+            { value: 'Oversized', synonyms: ['oversize', 'over size', 'over sized', 'boxy'] },
+            { value: 'Evasê', synonyms: ['evase', 'godê', 'gode', 'rodado', 'a-line'] },
+            { value: 'Fluido', synonyms: ['fluida', 'leve', 'com movimento'] },
+            { value: 'Estruturado', synonyms: ['estruturada', 'alfaiataria'] },
+        ],
+    },
+    {
+        id: 'pockets', attribute: 'Detalhes de Bolsos', multiple: false, terms: [
+            { value: 'Sem Bolsos', synonyms: ['nenhum bolso', 'nenhum bolso visível', 'sem bolso'] },
+            { value: 'Bolsos Frontais', synonyms: ['bolsos faca', 'bolso faca', 'bolsos laterais', 'dois bolsos frontais'] },
+            { value: 'Bolso no Peito', synonyms: ['bolso frontal no peito', 'bolso com lapela'] },
+            { value: 'Bolsos Traseiros', synonyms: ['bolsos nas costas', 'bolsos de trás'] },
+            { value: 'Bolsos Cargo', synonyms: ['bolso cargo', 'bolsos laterais com lapela'] },
+            { value: 'Bolso Canguru', synonyms: ['bolso canguru frontal'] },
+            { value: 'Cinco Bolsos', synonyms: ['5 bolsos', 'modelo cinco bolsos'] },
+        ],
+    },
+    {
+        id: 'closure', attribute: 'Tipo de Fechamento', multiple: false, terms: [
+            { value: 'Sem Fechamento', synonyms: ['peça de vestir', 'sem fechamento, peça de vestir', 'vestir pela cabeça'] },
+            { value: 'Botões', synonyms: ['fechamento por botões', 'botão', 'abotoamento frontal'] },
+            { value: 'Zíper', synonyms: ['ziper', 'zíper frontal', 'zíper invisível', 'zíper lateral', 'zíper nas costas'] },
+            { value: 'Cordão', synonyms: ['cordão de ajuste', 'amarração', 'laço'] },
+            { value: 'Elástico', synonyms: ['cós elástico', 'elástico na cintura'] },
+            { value: 'Botão de Pressão', synonyms: ['pressão', 'botões de pressão', 'colchete'] },
+            { value: 'Velcro', synonyms: ['fecho de contato'] },
+        ],
+    },
+    {
+        id: 'neckline', attribute: 'Decote', multiple: false, terms: [
+            { value: 'Careca', synonyms: ['gola careca', 'gola redonda', 'decote redondo', 'crew neck'] },
+            { value: 'V', synonyms: ['gola v', 'decote v', 'decote em v', 'v-neck'] },
+            { value: 'Gola Alta', synonyms: ['rolê', 'role', 'gola rulê', 'turtleneck'] },
+            { value: 'Gola Polo', synonyms: ['polo'] },
+            { value: 'Gola Camisa', synonyms: ['colarinho', 'gola social', 'gola de camisa'] },
+            { value: 'Canoa', synonyms: ['decote canoa', 'boat neck'] },
+            { value: 'Ombro a Ombro', synonyms: ['ciganinha', 'off shoulder', 'ombro a ombro'] },
+            { value: 'Tomara que Caia', synonyms: ['tomara-que-caia', 'strapless'] },
+            { value: 'Quadrado', synonyms: ['decote quadrado'] },
+            { value: 'Capuz', synonyms: ['com capuz', 'hood'] },
+            { value: 'Não se Aplica', synonyms: ['sem decote', 'n/a', 'não aplicável'] },
+        ],
+    },
+    {
+        id: 'sleeveLength', attribute: 'Comprimento da Manga', multiple: false, terms: [
+            { value: 'Sem Manga', synonyms: ['regata', 'alça', 'alcinha', 'sem mangas'] },
+            { value: 'Manga Curta', synonyms: ['curta', 'manga curtinha'] },
+            { value: 'Manga 3/4', synonyms: ['três quartos', 'tres quartos', '3/4'] },
+            { value: 'Manga Longa', synonyms: ['longa', 'manga comprida', 'comprida'] },
+            { value: 'Não se Aplica', synonyms: ['n/a', 'não aplicável', 'peça sem mangas por natureza'] },
+        ],
+    },
+    {
+        id: 'transparency', attribute: 'Transparência', multiple: false, terms: [
+            { value: 'Nenhuma', synonyms: ['nenhuma transparência', 'opaco', 'sem transparência'] },
+            { value: 'Leve', synonyms: ['levemente transparente', 'pouca transparência'] },
+            { value: 'Alta', synonyms: ['transparente', 'totalmente transparente'] },
+        ],
+    },
+    {
+        id: 'occasion', attribute: 'Ocasião Recomendada', multiple: true, terms: [
+            { value: 'Casual', synonyms: ['dia a dia', 'casual, dia a dia', 'cotidiano'] },
+            { value: 'Trabalho', synonyms: ['formal, ambiente de trabalho', 'escritório', 'corporativo'] },
+            { value: 'Festa', synonyms: ['festa, eventos noturnos', 'noite', 'balada', 'evento'] },
+            { value: 'Esporte', synonyms: ['academia', 'fitness', 'treino', 'esportivo'] },
+            { value: 'Praia', synonyms: ['verão', 'piscina', 'resort'] },
+            { value: 'Casa', synonyms: ['dormir', 'loungewear', 'ficar em casa'] },
+        ],
+    },
+];
+
+// Só "Detalhes Adicionais" aceita texto livre
+export const FREE_TEXT_ATTRIBUTES = ['Detalhes Adicionais'];
+
+export const VOCABULARY_IDS = DEFAULT_VOCABULARIES.map(vocabulary => vocabulary.id);
+
+export const isVocabularyId = (value: unknown): value is VocabularyId => VOCABULARY_IDS.includes(value as VocabularyId);
+
+// Comparação sem maiúsculas, acentos, pontuação e espaços extras
+export const normalizeTermText = (value: string) => value
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9/]+/g, ' ')
+    .trim();
+
+const docToVocabulary = (doc: FirebaseFirestore.DocumentSnapshot): Vocabulary => {
+    const data = doc.data()!;
+    const defaults = DEFAULT_VOCABULARIES.find(vocabulary => vocabulary.id === doc.id)!;
+    return {
+        id: doc.id as VocabularyId,
+        attribute: defaults.attribute,
+        multiple: defaults.multiple,
+        terms: data.terms || [],
+        updatedAt: data.updatedAt?.toDate().toISOString(),
+    };
+};
+
+// Lista os vocabulários na ordem dos atributos (grava os termos padrão dos que ainda não existem)
+export const listVocabularies = async (): Promise<Vocabulary[]> => {
+    const snapshot = await db.collection(VOCABULARIES_COLLECTION).get();
+    const saved = new Map(snapshot.docs.filter(doc => isVocabularyId(doc.id)).map(doc => [doc.id, docToVocabulary(doc)]));
+    const missing = DEFAULT_VOCABULARIES.filter(vocabulary => !saved.has(vocabulary.id));
+
+    if (missing.length > 0) {
+        const batch = db.batch();
+        missing.forEach(({ id, terms }) => {
+            batch.set(db.collection(VOCABULARIES_COLLECTION).doc(id), { terms, createdAt: FieldValue.serverTimestamp() });
+        });
+        await batch.commit();
+    }
+
+    return DEFAULT_VOCABULARIES.map(vocabulary => saved.get(vocabulary.id) || { ...vocabulary });
+};
+
+// Substitui os termos de um vocabulário (admin)
+export const saveVocabularyTerms = async (vocabularyId: VocabularyId, terms: VocabularyTerm[], uid: string): Promise<Vocabulary> => {
+    const ref = db.collection(VOCABULARIES_COLLECTION).doc(vocabularyId);
+    await ref.set({ terms, updatedBy: uid, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    return docToVocabulary(await ref.get());
+};
+
+/**
+ * Converte um valor devolvido pela IA no termo canônico do vocabulário, pelo valor ou por um sinônimo.
+ * @returns O valor canônico, ou null quando o valor não está no vocabulário.
+ */
+export const normalizeToVocabulary = (vocabulary: Vocabulary, raw: string): string | null => {
+    const normalized = normalizeTermText(raw);
+    if (!normalized) return null;
+    const term = vocabulary.terms.find(t => normalizeTermText(t.value) === normalized)
+        || vocabulary.terms.find(t => t.synonyms.some(synonym => normalizeTermText(synonym) === normalized));
+    return term?.value ?? null;
+};
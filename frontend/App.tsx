@@ -7,21 +7,33 @@ import React, { useState, useCallback, useRef, useEffect } from 'react';
 import type { Crop, PixelCrop } from 'react-image-crop';
 import { getAuth, signOut, type User } from 'firebase/auth';
 import { 
-    generateEditedImage, generateModelImage, expandImage, 
-    describeClothing, trainAgeCharacteristics, enhanceAndUpscaleImage 
+    generateEditedImage, generateModelImage, generateModelCandidates, expandImage, 
+    describeClothing, trainAgeCharacteristics, enhanceAndUpscaleImage,
+    findClothingDifferences, applyClothingCorrection
 } from './services/geminiService';
 import { addImageToStorage, type StoredImage, createFolder, getGalleryItems } from './services/galleryService';
 import { recordCompletion, getEstimateString } from './services/timingService';
+import { importLocalCostLogs, markCostsRejected } from './services/costService';
+import { saveBatchQueue, loadBatchQueue, clearBatchQueue } from './services/batchQueueService';
+import { getBudgetStatus, getTightestBudget, formatUsd, type BudgetStatus } from './services/budgetService';
+import { describeError, type AiErrorCategory } from './services/aiErrors';
+import { type ColumnMapping, type ParsedSheet } from './services/columnMappingService';
+import { type Product } from './services/productService';
+import { type ProductCopySet } from './services/copyService';
+import { type AttributeEvidence } from './services/geminiService';
 import Header from './components/Header';
 import GalleryView from './components/GalleryModal';
 import PreviewModal from './components/PreviewModal';
+import CandidatePickerModal from './components/CandidatePickerModal';
 import Editor from './components/Editor';
 import { BatchProcessor } from './components/BatchProcessor';
 import { PhotoIcon } from './components/icons';
 import ReferenceBottomUploader from './components/ReferenceBottomUploader';
 import CostCenter from './components/CostCenter';
+import ProductSelector from './components/ProductSelector';
 import Login from './components/Login';
 import UserManagementView from './components/UserManagementView';
+import PromptTemplatesView from './components/PromptTemplatesView';
 import Spinner from './components/Spinner';
 
 import { dataURLtoFile, fileToDataURL } from './src/utils/fileUtils.ts';
@@ -29,16 +41,25 @@ import { resizeAndPadDataUrl, standardizeToPNG } from './src/utils/imageUtils.ts
 import { useAuth } from "./src/contexts/AuthContext.tsx";
 import { auth } from './src/services/firebase';
 
-export type AppView = 'upload' | 'editor' | 'gallery' | 'costs' | 'users';
+export type AppView = 'upload' | 'editor' | 'gallery' | 'products' | 'costs' | 'users' | 'prompts';
 
 export type Gender = 'male' | 'female' | 'baby' | 'newborn';
 export type Status = 'queued' | 'processing' | 'done' | 'error';
-export type EditorTab = 'retouch' | 'crop' | 'model';
+export type EditorTab = 'retouch' | 'crop' | 'model' | 'correction';
 export type ModelAge = 'adult' | 'teenager' | 'child' | 'baby' | 'newborn';
 
+// A generated image of a queue item, as saved in the gallery
+export interface QueueItemResult {
+    view: string;
+    fileName: string;
+    url: string;
+}
+
 export interface QueueItem {
     id: string;
     baseName: string;
+    sku?: string; // SKU without the color, when the grouping rule splits colors into separate items
+    color?: string;
     status: Status;
     fileFront?: File;
     fileBack?: File;
@@ -50,19 +71,28 @@ export interface QueueItem {
     availableUrls: string[];
     resultFiles?: File[];
     error?: string;
+    errorCategory?: AiErrorCategory;
     resultObjectUrls?: string[];
+    results?: QueueItemResult[];
+    startedAt?: number;
+    durationMs?: number;
     metadata?: Record<string, string>;
     parentId?: string;
     progressStatus?: string;
     progressPercentage?: number;
     isDescribing?: boolean;
     aiStructuredDescription?: Record<string, string>;
+    aiDescriptionEvidence?: Record<string, AttributeEvidence>; // Confidence and source photo of each described attribute
+    productCopy?: ProductCopySet; // Store copy generated from the description, editable before export
+    isGeneratingCopy?: boolean;
     clothingNotes?: string;
     currentViewIndex: number;
     isComparing: boolean;
     excelMatch?: boolean;
     modelGender?: 'male' | 'female';
     modelAge?: string;
+    qualityChecks?: QualityCheck[];
+    needsReview?: boolean; // Some view still differs from the garment after the QC rounds
 }
 
 export interface CorrectionComparison {
@@ -71,6 +101,14 @@ export interface CorrectionComparison {
     points: { x: number; y: number; description: string }[];
 }
 
+// Automatic quality control of one generated view: the corrections applied and whether it ended up matching the garment
+export interface QualityCheck {
+    view: string;
+    passed: boolean;
+    comparisons: CorrectionComparison[];
+    remainingPoints?: { x: number; y: number; description: string }[]; // Differences left after the last round
+}
+
 interface SharedSettingsContextType {
     maleReferenceModelFile: File | null;
     setMaleReferenceModelFile: React.Dispatch<React.SetStateAction<File | null>>;
@@ -112,6 +150,8 @@ const App: React.FC = () => {
   // Editor State (Single Image Focus)
   const [history, setHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  // Gallery ids for each history entry, used to record the lineage of generated images
+  const [historyImageIds, setHistoryImageIds] = useState<(string | null)[]>([]);
 
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -130,6 +170,15 @@ const App: React.FC = () => {
   const [editorNegativePrompt, setEditorNegativePrompt] = useState('');
   const [editorModelAge, setEditorModelAge] = useState<{ male: string, female: string }>({ male: 'adult', female: 'adult' });
   const [editorModelGender, setEditorModelGender] = useState<'male' | 'female'>('female');
+  const [candidatesPerView, setCandidatesPerView] = useState(1);
+  // Candidates waiting for the user's choice; the resolver resumes the generation with the chosen index
+  const [modelCandidates, setModelCandidates] = useState<string[] | null>(null);
+  const candidatePickResolver = useRef<((index: number | null) => void) | null>(null);
+  // Manual quality control (Correção tab)
+  const [correctionGarmentFile, setCorrectionGarmentFile] = useState<File | null>(null);
+  const [correctionPlan, setCorrectionPlan] = useState('');
+  const [correctionPoints, setCorrectionPoints] = useState<CorrectionComparison['points']>([]);
+  const [lastCorrection, setLastCorrection] = useState<CorrectionComparison | null>(null);
   const [currentImageProjectId, setCurrentImageProjectId] = useState<string>('root');
   const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
   const [brushSize, setBrushSize] = useState(30);
@@ -139,6 +188,7 @@ const App: React.FC = () => {
   const [view, setView] = useState<AppView>('upload');
   const [isPreviewOpen, setIsPreviewOpen] = useState<boolean>(false);
   const [isGeneratorSession, setIsGeneratorSession] = useState(false);
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
 
   // Batch Processor State
   const [queue, setQueue] = useState<QueueItem[]>([]);
@@ -157,11 +207,82 @@ const App: React.FC = () => {
   const [batchTargetDimensions, setBatchTargetDimensions] = useState({ width: '2000', height: '2000' });
   const [excelData, setExcelData] = useState<Map<string, Record<string, string>> | null>(null);
   const [excelFileName, setExcelFileName] = useState<string | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  // Raw rows of the loaded spreadsheet, so the column mapping can be edited and re-applied
+  const [excelSheet, setExcelSheet] = useState<ParsedSheet | null>(null);
+  // Queue saved in IndexedDB by a previous session, waiting for the user to resume or discard it
+  const [savedQueue, setSavedQueue] = useState<QueueItem[] | null>(null);
+  const [isQueueRestoreResolved, setIsQueueRestoreResolved] = useState(false);
 
   // AI Agent State
   const [trainedAgeData, setTrainedAgeData] = useState(new Map<string, string>());
   const [isTrainingAgent, setIsTrainingAgent] = useState<Set<string>>(new Set());
 
+  // One-time migration of the cost logs that used to live only in this browser's IndexedDB
+  useEffect(() => {
+    if (!currentUser) return;
+    getToken()
+      .then(token => token ? importLocalCostLogs(currentUser.uid, token) : undefined)
+      .catch(err => console.error('Falha ao importar registros de custo locais:', err));
+    // getToken is recreated on every render; the import only needs to run when the user changes
+  }, [currentUser]);
+
+  // Look for a batch queue left by a previous session (closed tab, reload) when the user logs in
+  useEffect(() => {
+    setIsQueueRestoreResolved(false);
+    setSavedQueue(null);
+    if (!currentUser) return;
+    loadBatchQueue(currentUser.uid)
+      .then(items => {
+        // Only offer to resume when something is left to do
+        if (items.some(item => item.status !== 'done')) setSavedQueue(items);
+        else setIsQueueRestoreResolved(true);
+      })
+      .catch(err => {
+        console.error('Falha ao carregar a fila salva:', err);
+        setIsQueueRestoreResolved(true);
+      });
+  }, [currentUser]);
+
+  // Persist the batch queue (debounced) once the saved one has been resumed or discarded
+  useEffect(() => {
+    if (!currentUser || !isQueueRestoreResolved) return;
+    const timeoutId = setTimeout(() => {
+      saveBatchQueue(currentUser.uid, queue).catch(err => console.error('Falha ao salvar a fila:', err));
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [queue, currentUser, isQueueRestoreResolved]);
+
+  const handleResumeSavedQueue = () => {
+    if (!savedQueue) return;
+    setQueue(savedQueue);
+    setSavedQueue(null);
+    setIsQueueRestoreResolved(true);
+    setView('upload');
+  };
+
+  const handleDiscardSavedQueue = () => {
+    if (!currentUser || !savedQueue) return;
+    savedQueue.forEach(item => {
+      item.availableUrls.forEach(url => URL.revokeObjectURL(url));
+      item.resultObjectUrls?.forEach(url => URL.revokeObjectURL(url));
+      [item.objectUrlFront, item.objectUrlBack, item.objectUrlTotalLook].forEach(url => url && URL.revokeObjectURL(url));
+    });
+    setSavedQueue(null);
+    clearBatchQueue(currentUser.uid)
+      .catch(err => console.error('Falha ao descartar a fila salva:', err))
+      .finally(() => setIsQueueRestoreResolved(true));
+  };
+
+  // Monthly budget of the user (and of the current project), refreshed after each operation
+  useEffect(() => {
+    if (!currentUser || isLoading || isBatchProcessing) return;
+    getToken()
+      .then(token => token ? getBudgetStatus(token, currentImageProjectId) : [])
+      .then(setBudgetStatuses)
+      .catch(err => console.error('Falha ao carregar orçamento:', err));
+  }, [currentUser, isLoading, isBatchProcessing, view, currentImageProjectId]);
+
   const currentImage = history[historyIndex] ?? null;
   const originalImage = history[0] ?? null;
   
@@ -276,20 +397,22 @@ const App: React.FC = () => {
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
   
-  const addImageToHistory = useCallback((newImageFile: File) => {
+  const addImageToHistory = useCallback((newImageFile: File, galleryImageId: string | null = null) => {
     if (!newImageFile) return;
     const newHistory = history.slice(0, historyIndex + 1);
     newHistory.push(newImageFile);
     setHistory(newHistory);
+    setHistoryImageIds([...historyImageIds.slice(0, historyIndex + 1), galleryImageId]);
     setHistoryIndex(newHistory.length - 1);
     setCrop(undefined);
     setCompletedCrop(undefined);
     setIsComparing(false);
-  }, [history, historyIndex]);
+  }, [history, historyIndex, historyImageIds]);
 
   const resetEditorState = useCallback(() => {
     setHistory([]);
     setHistoryIndex(-1);
+    setHistoryImageIds([]);
     setError(null);
     setPrompt('');
     setEditHotspot(null);
@@ -314,12 +437,17 @@ const App: React.FC = () => {
     setMaskDataUrl(null);
     setBrushSize(30);
     setMaskMode('brush');
+    setCorrectionGarmentFile(null);
+    setCorrectionPlan('');
+    setCorrectionPoints([]);
+    setLastCorrection(null);
   }, []);
 
-  const startEditorSession = useCallback((file: File, isGenerator: boolean) => {
+  const startEditorSession = useCallback((file: File, isGenerator: boolean, galleryImageId: string | null = null) => {
     resetEditorState();
     setHistory([file]);
     setHistoryIndex(0);
+    setHistoryImageIds([galleryImageId]);
     setIsGeneratorSession(isGenerator);
     if (isGenerator) {
         setActiveTab('model');
@@ -398,31 +526,42 @@ const App: React.FC = () => {
         const originalImageFile = originalImage ? dataURLtoFile(originalImageUrl, originalImage.name) : undefined;
         console.log("Objeto File (editedImageFile) antes do upload:", editedImageFile);
         console.log("Mimetype do arquivo (editedImageFile):", editedImageFile.type);
-        await addImageToStorage(editedImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root');
+        const storedImage = await addImageToStorage(editedImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root', {
+            parentImageId: historyImageIds[historyIndex],
+            operation: 'retouch',
+            prompt,
+        });
         const newImageFile = dataURLtoFile(editedImageUrl, newFileName);
 
         const duration = Date.now() - startTime;
         recordCompletion({}, duration);
         
-        addImageToHistory(newImageFile);
+        addImageToHistory(newImageFile, storedImage.id);
 
         setEditHotspot(null);
         setDisplayHotspot(null);
         setMaskDataUrl(null);
     } catch (err) {
-        let errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
-        if (typeof errorMessage === 'string' && errorMessage.includes('RESOURCE_EXHAUSTED')) {
-            errorMessage = 'Você excedeu sua cota de uso atual. Por favor, verifique seu plano e detalhes de faturamento. Pode ser necessário aguardar a redefinição do seu limite.';
-        }
-        setError(`Falha ao gerar o modelo. ${errorMessage}`);
+        setError(`Falha ao gerar o modelo. ${describeError(err)}`);
     } finally {
         setTimeout(() => {
             setIsLoading(false);
             setLoadingStatus(null);
         }, 500);
     }
-  }, [currentImage, originalImage, prompt, editHotspot, maskDataUrl, addImageToHistory, currentImageProjectId, currentUser, getToken]);
+  }, [currentImage, originalImage, prompt, editHotspot, maskDataUrl, addImageToHistory, historyImageIds, historyIndex, currentImageProjectId, currentUser, getToken]);
   
+  const pickCandidate = useCallback((images: string[]) => new Promise<number | null>(resolve => {
+    candidatePickResolver.current = resolve;
+    setModelCandidates(images);
+  }), []);
+
+  const handleCandidatePicked = (index: number | null) => {
+    candidatePickResolver.current?.(index);
+    candidatePickResolver.current = null;
+    setModelCandidates(null);
+  };
+
   const handleGenerateModel = useCallback(async (customPrompt: string, modelNotes: string, negativePrompt: string) => {
     if (!currentImage || !originalImage || !currentUser) return;
     
@@ -449,7 +588,7 @@ const App: React.FC = () => {
             ? Object.entries(referenceBottomDescriptionObj).map(([key, value]) => `${key}: ${value}`).join(', ')
             : undefined;
         
-        const generatedImageUrl = await generateModelImage({
+        const modelParams = {
             clothingImage: enhancedFile,
             age: ageToGenerate,
             gender: editorModelGender,
@@ -467,7 +606,27 @@ const App: React.FC = () => {
             startProgress: 20,
             projectId: currentImageProjectId,
             userId: currentUser.uid
-        });
+        };
+
+        let generatedImageUrl: string;
+        let promptVersions: string[];
+        if (candidatesPerView > 1) {
+            const candidates = await generateModelCandidates(modelParams, candidatesPerView);
+            const chosenIndex = candidates.length > 1 ? await pickCandidate(candidates.map(c => c.image)) : 0;
+            const rejectedCostIds = candidates
+                .filter((_, index) => index !== chosenIndex)
+                .map(c => c.costId)
+                .filter((id): id is string => !!id);
+            const rejectionToken = await getToken();
+            if (rejectionToken) {
+                await markCostsRejected(rejectedCostIds, rejectionToken).catch(err => console.error("Falha ao marcar candidatos descartados:", err));
+            }
+            // Picker closed without a choice: every candidate was discarded
+            if (chosenIndex === null) return;
+            ({ image: generatedImageUrl, promptVersions } = candidates[chosenIndex]);
+        } else {
+            ({ image: generatedImageUrl, promptVersions } = await generateModelImage(modelParams));
+        }
         
         let finalImageUrl = generatedImageUrl;
         const finalWidth = parseInt(targetDimensions.width, 10);
@@ -497,26 +656,27 @@ const App: React.FC = () => {
         const originalImageFile = originalImage ? dataURLtoFile(originalImageUrl, originalImage.name) : undefined;
         console.log("Objeto File (standardizedImageFile) antes do upload:", standardizedImageFile);
         console.log("Mimetype do arquivo (standardizedImageFile):", standardizedImageFile.type);
-        await addImageToStorage(standardizedImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root');
+        const storedImage = await addImageToStorage(standardizedImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root', {
+            parentImageId: historyImageIds[historyIndex],
+            operation: 'model',
+            prompt: customPrompt,
+            promptVersions,
+        });
         const newImageFile = dataURLtoFile(standardizedUrl, newFileName);
 
         const duration = Date.now() - startTime;
         recordCompletion(estimateParams, duration);
         
-        addImageToHistory(newImageFile);
+        addImageToHistory(newImageFile, storedImage.id);
     } catch (err) {
-        let errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
-        if (typeof errorMessage === 'string' && errorMessage.includes('RESOURCE_EXHAUSTED')) {
-            errorMessage = 'Você excedeu sua cota de uso atual. Por favor, verifique seu plano e detalhes de faturamento. Pode ser necessário aguardar a redefinição do seu limite.';
-        }
-        setError(`Falha ao gerar o modelo. ${errorMessage}`);
+        setError(`Falha ao gerar o modelo. ${describeError(err)}`);
     } finally {
         setTimeout(() => {
             setIsLoading(false);
             setLoadingStatus(null);
         }, 500);
     }
-}, [currentImage, originalImage, addImageToHistory, maleReferenceModelFile, femaleReferenceModelFile, referenceSceneFile, referenceFitFile, maleReferenceBottomFile, femaleReferenceBottomFile, targetDimensions, editorModelAge, editorModelGender, modelNotes, currentImageProjectId, currentUser, handleTrainAgeAgent, maleReferenceBottomDescription, femaleReferenceBottomDescription, editorNegativePrompt, getToken]);
+}, [currentImage, originalImage, addImageToHistory, historyImageIds, historyIndex, maleReferenceModelFile, femaleReferenceModelFile, referenceSceneFile, referenceFitFile, maleReferenceBottomFile, femaleReferenceBottomFile, targetDimensions, editorModelAge, editorModelGender, modelNotes, currentImageProjectId, currentUser, handleTrainAgeAgent, maleReferenceBottomDescription, femaleReferenceBottomDescription, editorNegativePrompt, getToken, candidatesPerView, pickCandidate]);
 
   const handleApplyCrop = useCallback(async () => {
     if (!completedCrop || !imgRef.current || !originalImage || !currentUser || !currentImage) return;
@@ -552,12 +712,15 @@ const App: React.FC = () => {
     if (!token) throw new Error('Authentication token not available.');
     const croppedImageFile = dataURLtoFile(croppedImageUrl, newFileName);
     const originalImageFile = originalImage ? dataURLtoFile(originalImageUrl, originalImage.name) : undefined;
-    await addImageToStorage(croppedImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root');
+    const storedImage = await addImageToStorage(croppedImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root', {
+        parentImageId: historyImageIds[historyIndex],
+        operation: 'crop',
+    });
     const newImageFile = dataURLtoFile(croppedImageUrl, newFileName);
     
-    addImageToHistory(newImageFile);
+    addImageToHistory(newImageFile, storedImage.id);
 
-  }, [completedCrop, originalImage, currentImage, addImageToHistory, currentUser, getToken]);
+  }, [completedCrop, originalImage, currentImage, addImageToHistory, historyImageIds, historyIndex, currentUser, getToken]);
 
   const handleApplyResize = useCallback(async (width: number, height: number) => {
     if (!currentImage || !originalImage || !currentUser) return;
@@ -582,23 +745,97 @@ const App: React.FC = () => {
         if (!token) throw new Error('Authentication token not available.');
         const finalImageFile = dataURLtoFile(finalImageUrl, newFileName);
         const originalImageFile = originalImage ? dataURLtoFile(originalImageUrl, originalImage.name) : undefined;
-        await addImageToStorage(finalImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root');
+        const storedImage = await addImageToStorage(finalImageFile, newFileName, currentUser.uid, token, originalImageFile, undefined, 'root', {
+            parentImageId: historyImageIds[historyIndex],
+            operation: 'resize',
+            prompt: `${width}x${height}`,
+        });
         const newImageFile = dataURLtoFile(finalImageUrl, newFileName);
         
         const duration = Date.now() - startTime;
         recordCompletion(estimateParams, duration);
         
-        addImageToHistory(newImageFile);
+        addImageToHistory(newImageFile, storedImage.id);
+    } catch (err) {
+        setError(`Falha ao redimensionar a imagem. ${describeError(err)}`);
+    } finally {
+        setTimeout(() => {
+            setIsLoading(false);
+            setLoadingStatus(null);
+        }, 500);
+    }
+}, [currentImage, originalImage, addImageToHistory, historyImageIds, historyIndex, currentImageProjectId, currentUser, getToken]);
+
+  const handleFindDifferences = useCallback(async () => {
+    if (!currentImage || !originalImage || !currentUser || !correctionGarmentFile) return;
+
+    setIsLoading(true);
+    setError(null);
+    setLoadingStatus({ message: 'Comparando com a peça original...', percentage: 50 });
+
+    try {
+        const { plan, points } = await findClothingDifferences(correctionGarmentFile, currentImage, '', currentUser.uid, currentImageProjectId);
+        setCorrectionPlan(plan);
+        setCorrectionPoints(points);
+        if (!plan.trim() && points.length === 0) {
+            setLoadingStatus({ message: 'Nenhuma diferença encontrada!', percentage: 100 });
+        }
     } catch (err) {
-        let errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
-        setError(`Falha ao redimensionar a imagem. ${errorMessage}`);
+        setError(`Falha ao comparar com a peça original. ${describeError(err)}`);
     } finally {
         setTimeout(() => {
             setIsLoading(false);
             setLoadingStatus(null);
         }, 500);
     }
-}, [currentImage, originalImage, addImageToHistory, currentImageProjectId, currentUser, getToken]);
+  }, [currentImage, originalImage, correctionGarmentFile, currentImageProjectId, currentUser]);
+
+  const handleApplyCorrection = useCallback(async () => {
+    if (!currentImage || !originalImage || !currentUser || !correctionGarmentFile) return;
+
+    const startTime = Date.now();
+    setIsLoading(true);
+    setError(null);
+    setLoadingStatus({ message: 'Preparando correção...', percentage: 0, estimate: getEstimateString({}) });
+
+    try {
+        const imageName = originalImage.name.replace(/\.[^/.]+$/, "");
+        // The pins the user kept (or added) complement the plan text
+        const pointsText = correctionPoints
+            .filter(point => point.description.trim())
+            .map((point, index) => `${index + 1}. Em (${point.x}, ${point.y}): ${point.description.trim()}`)
+            .join('\n');
+        const fullPlan = [correctionPlan.trim(), pointsText && `Pontos a corrigir:\n${pointsText}`].filter(Boolean).join('\n\n');
+
+        const correctedUrl = await applyClothingCorrection(correctionGarmentFile, currentImage, fullPlan, currentUser.uid, handleProgress, currentImageProjectId);
+        const finalImageUrl = await standardizeToPNG(correctedUrl);
+
+        const newFileName = `${imageName}.png`;
+        const token = await getToken();
+        if (!token) throw new Error('Authentication token not available.');
+        const originalImageFile = dataURLtoFile(await fileToDataURL(originalImage), originalImage.name);
+        const storedImage = await addImageToStorage(dataURLtoFile(finalImageUrl, newFileName), newFileName, currentUser.uid, token, originalImageFile, undefined, 'root', {
+            parentImageId: historyImageIds[historyIndex],
+            operation: 'correction',
+            prompt: fullPlan,
+        });
+        const newImageFile = dataURLtoFile(finalImageUrl, newFileName);
+
+        recordCompletion({}, Date.now() - startTime);
+
+        setLastCorrection({ before: currentImage, after: newImageFile, points: correctionPoints });
+        addImageToHistory(newImageFile, storedImage.id);
+        setCorrectionPlan('');
+        setCorrectionPoints([]);
+    } catch (err) {
+        setError(`Falha ao aplicar a correção. ${describeError(err)}`);
+    } finally {
+        setTimeout(() => {
+            setIsLoading(false);
+            setLoadingStatus(null);
+        }, 500);
+    }
+  }, [currentImage, originalImage, correctionGarmentFile, correctionPlan, correctionPoints, addImageToHistory, historyImageIds, historyIndex, currentImageProjectId, currentUser, getToken]);
 
   const handleUndo = useCallback(() => {
     if (canUndo) {
@@ -622,13 +859,14 @@ const App: React.FC = () => {
     if (canUndo) {
         setHistory([history[0]]);
         setHistoryIndex(0);
+        setHistoryImageIds([historyImageIds[0] ?? null]);
         setEditHotspot(null);
         setDisplayHotspot(null);
         setIsComparing(false);
         setCrop(undefined);
         setCompletedCrop(undefined);
     }
-  }, [canUndo, history]);
+  }, [canUndo, history, historyImageIds]);
 
   const handleSelectAnotherFromEditor = useCallback(() => {
       resetEditorState();
@@ -670,7 +908,7 @@ const App: React.FC = () => {
         const blob = await response.blob();
         const currentFile = new File([blob], image.name, { type: blob.type });
         
-        startEditorSession(currentFile, false);
+        startEditorSession(currentFile, false, image.id);
         setCurrentImageProjectId(image.parentId || 'root');
     } catch(err) {
         console.error("Failed to load image from gallery", err);
@@ -678,6 +916,54 @@ const App: React.FC = () => {
     }
   };
 
+  const handleOpenProductImage = async (image: { url: string; name: string; galleryId?: string }) => {
+    try {
+        const response = await fetch(image.url);
+        const blob = await response.blob();
+        startEditorSession(new File([blob], image.name, { type: blob.type }), false, image.galleryId || null);
+    } catch(err) {
+        console.error("Failed to load product image", err);
+        setError("Não foi possível carregar a imagem do produto.");
+    }
+  };
+
+  // Puts the product back in the batch queue, one item per color, with its saved description and spreadsheet row
+  const handleOpenProductInBatch = async (product: Product) => {
+    try {
+        const files = await Promise.all(product.inputs.map(async input => {
+            const response = await fetch(input.url);
+            const blob = await response.blob();
+            return { file: new File([blob], input.name, { type: blob.type }), color: input.color };
+        }));
+
+        const colors = Array.from(new Set(files.map(input => input.color)));
+        const newItems: QueueItem[] = colors.map(color => {
+            const availableFiles = files.filter(input => input.color === color).map(input => input.file);
+            return {
+                id: `${product.id}-${color || ''}-${Date.now()}-${Math.random()}`,
+                baseName: color ? `${product.sku}_${color}` : product.sku,
+                sku: color ? product.sku : undefined,
+                color,
+                status: 'queued',
+                availableFiles,
+                availableUrls: availableFiles.map(file => URL.createObjectURL(file)),
+                metadata: Object.keys(product.metadata).length > 0 ? product.metadata : undefined,
+                excelMatch: Object.keys(product.metadata).length > 0,
+                aiStructuredDescription: product.description || undefined,
+                isDescribing: false,
+                currentViewIndex: 0,
+                isComparing: false,
+            };
+        });
+
+        setQueue(prev => [...prev, ...newItems]);
+        setView('upload');
+    } catch(err) {
+        console.error("Failed to load product inputs", err);
+        setError("Não foi possível carregar as fotos do produto.");
+    }
+  };
+
   const handleNavigate = (newView: AppView) => {
     setView(newView);
   }
@@ -685,6 +971,8 @@ const App: React.FC = () => {
   const handleLogout = () => {
     signOut(auth);
     resetEditorState();
+    // Keep the saved queue so it can be resumed on the next login
+    setIsQueueRestoreResolved(false);
     setQueue([]);
     setView('upload');
   };
@@ -705,6 +993,8 @@ const App: React.FC = () => {
     isAnalyzingFemaleBottom, femaleReferenceBottomDescription
   };
 
+  const budgetAlert = budgetStatuses.find(status => status.state === 'exceeded') || budgetStatuses.find(status => status.state === 'warning');
+
   const renderContent = () => {
     if (loading) {
         return <div className="flex-grow flex items-center justify-center"><Spinner /></div>;
@@ -734,18 +1024,21 @@ const App: React.FC = () => {
         // State
         currentImage, originalImage, isLoading, prompt, editHotspot, 
         displayHotspot, activeTab, crop, completedCrop, aspect, isComparing, canUndo, canRedo, 
-        loadingStatus, targetDimensions, modelNotes,
+        loadingStatus, targetDimensions, modelNotes, candidatesPerView,
         editorModelAge, editorModelGender, isTrainingAgent, trainedAgeData, currentImageProjectId,
         currentUser, currentImageUrl, editorNegativePrompt, getToken,
         maskDataUrl, brushSize, maskMode,
+        correctionGarmentFile, correctionPlan, correctionPoints, lastCorrection,
         // Handlers
         setPrompt, setEditHotspot, setDisplayHotspot, setActiveTab, setCrop, setCompletedCrop,
         setAspect, setIsComparing,
-        setTargetDimensions, setModelNotes, 
+        setTargetDimensions, setModelNotes, setCandidatesPerView,
         setEditorModelAge, setEditorModelGender,
         setEditorNegativePrompt,
         setMaskDataUrl, setBrushSize, setMaskMode,
+        setCorrectionGarmentFile, setCorrectionPlan, setCorrectionPoints,
         handleGenerate,
+        handleFindDifferences, handleApplyCorrection,
         handleGenerateModel, handleApplyCrop, handleApplyResize, handleUndo, handleRedo, handleReset,
         handleSelectAnother: handleSelectAnotherFromEditor,
         handleDownload: () => handleDownload(currentImage), onNavigateToGallery: () => setView('gallery'),
@@ -783,6 +1076,10 @@ const App: React.FC = () => {
                     setExcelData={setExcelData}
                     excelFileName={excelFileName}
                     setExcelFileName={setExcelFileName}
+                    excelSheet={excelSheet}
+                    setExcelSheet={setExcelSheet}
+                    columnMapping={columnMapping}
+                    setColumnMapping={setColumnMapping}
                     isTrainingAgent={isTrainingAgent}
                     trainedAgeData={trainedAgeData}
                     handleTrainAgeAgent={handleTrainAgeAgent}
@@ -793,17 +1090,40 @@ const App: React.FC = () => {
             return <GalleryView onLoadImage={handleLoadImageFromGallery} currentUser={currentUser} currentView={view} getToken={getToken} />;
         case 'editor':
             return <Editor {...editorProps} isGeneratorMode={isGeneratorSession} onStartOver={onStartOver} />;
+        case 'products':
+            return <ProductSelector getToken={getToken} onOpenInEditor={handleOpenProductImage} onOpenInBatch={handleOpenProductInBatch} />;
         case 'costs':
             return <CostCenter currentUser={currentUser} getToken={getToken} />;
         case 'users':
             return <UserManagementView getToken={getToken} />;
+        case 'prompts':
+            return <PromptTemplatesView getToken={getToken} />;
     }
   };
   
   return (
     <SharedSettingsContext.Provider value={sharedSettings}>
         <div className="min-h-screen text-gray-900 flex flex-col">
-          {currentUser && <Header currentView={view} onNavigate={handleNavigate} currentUser={currentUser} onLogout={handleLogout} />}
+          {currentUser && <Header currentView={view} onNavigate={handleNavigate} currentUser={currentUser} onLogout={handleLogout} budget={getTightestBudget(budgetStatuses)} />}
+          {currentUser && savedQueue && (
+            <div className="w-full px-8 py-3 bg-blue-50 border-b border-blue-200 flex flex-col sm:flex-row items-center justify-center gap-3 text-sm text-blue-900">
+              <span>
+                Há um lote salvo de uma sessão anterior com <strong>{savedQueue.length}</strong> itens
+                ({savedQueue.filter(item => item.status === 'done').length} concluídos). Os itens concluídos serão pulados e os interrompidos, reprocessados.
+              </span>
+              <div className="flex gap-2">
+                <button onClick={handleResumeSavedQueue} className="bg-blue-600 text-white font-semibold py-1.5 px-4 rounded-md hover:bg-blue-700">Retomar</button>
+                <button onClick={handleDiscardSavedQueue} className="bg-white border border-blue-300 text-blue-800 font-semibold py-1.5 px-4 rounded-md hover:bg-blue-100">Descartar</button>
+              </div>
+            </div>
+          )}
+          {currentUser && budgetAlert && (
+            <div className={`w-full px-8 py-2 text-center text-sm font-semibold ${budgetAlert.state === 'exceeded' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+              {budgetAlert.state === 'exceeded'
+                ? `Orçamento mensal ${budgetAlert.scope === 'user' ? 'do usuário' : 'do projeto'} esgotado. Novas gerações estão bloqueadas até o próximo mês.`
+                : `Atenção: ${Math.round((budgetAlert.spent / budgetAlert.monthlyLimit) * 100)}% do orçamento mensal ${budgetAlert.scope === 'user' ? 'do usuário' : 'do projeto'} já foi usado. Restam ${formatUsd(budgetAlert.remaining)}.`}
+            </div>
+          )}
           <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center items-start`}>
             {renderContent()}
           </main>
@@ -815,6 +1135,13 @@ const App: React.FC = () => {
                   startIndex={0}
               />
           )}
+          <CandidatePickerModal
+              isOpen={!!modelCandidates}
+              title="Escolha o Modelo"
+              candidates={modelCandidates || []}
+              onSelect={handleCandidatePicked}
+              onCancel={() => handleCandidatePicked(null)}
+          />
         </div>
     </SharedSettingsContext.Provider>
   );
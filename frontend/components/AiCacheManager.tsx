@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { getAiCacheStats, clearAiCache, aiCacheKindLabels, type AiCacheKind, type AiCacheStats } from '../services/aiCacheService';
+import Spinner from './Spinner';
+
+interface AiCacheManagerProps {
+    getToken: () => Promise<string | null>;
+}
+
+// Admin panel of the shared AI cache (garment descriptions and age training): usage and manual invalidation
+const AiCacheManager: React.FC<AiCacheManagerProps> = ({ getToken }) => {
+    const [stats, setStats] = useState<AiCacheStats[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isClearing, setIsClearing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchStats = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Authentication token not available.');
+            setStats(await getAiCacheStats(token));
+            setError(null);
+        } catch (err) {
+            setError('Falha ao carregar o cache de IA.');
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [getToken]);
+
+    useEffect(() => {
+        fetchStats();
+    }, []);
+
+    const handleClear = async (kind: AiCacheKind | null) => {
+        const label = kind ? `de "${aiCacheKindLabels[kind]}"` : 'inteiro';
+        if (!window.confirm(`Limpar o cache ${label}? As próximas chamadas voltam a ser cobradas.`)) return;
+        setIsClearing(true);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Authentication token not available.');
+            await clearAiCache(kind, token);
+            await fetchStats();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao limpar o cache de IA.');
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    return (
+        <div className="bg-white/80 border border-gray-200 rounded-lg p-6 backdrop-blur-sm">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-700">Cache de IA</h2>
+                <button onClick={() => handleClear(null)} disabled={isClearing || isLoading} className="text-sm font-semibold text-red-600 hover:underline disabled:text-gray-400">
+                    Limpar tudo
+                </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-3">Descrições de peças e treinamentos de idade são reaproveitados entre usuários; os acertos aparecem no histórico com custo zero.</p>
+            {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+            {isLoading ? (
+                <div className="flex justify-center p-4"><Spinner /></div>
+            ) : (
+                <table className="w-full text-sm text-left text-gray-500">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                        <tr>
+                            <th scope="col" className="px-4 py-2">Operação</th>
+                            <th scope="col" className="px-4 py-2">Resultados Guardados</th>
+                            <th scope="col" className="px-4 py-2">Acertos</th>
+                            <th scope="col" className="px-4 py-2 w-24"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stats.map(stat => (
+                            <tr key={stat.kind} className="bg-white border-b">
+                                <td className="px-4 py-2 font-medium text-gray-900">{aiCacheKindLabels[stat.kind]}</td>
+                                <td className="px-4 py-2">{stat.entries}</td>
+                                <td className="px-4 py-2">{stat.hits}</td>
+                                <td className="px-4 py-2 text-right">
+                                    <button onClick={() => handleClear(stat.kind)} disabled={isClearing || stat.entries === 0} className="text-xs text-blue-600 hover:underline disabled:text-gray-400">
+                                        Invalidar
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default AiCacheManager;
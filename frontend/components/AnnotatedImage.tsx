@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+
+export interface AnnotationPoint {
+    x: number;
+    y: number;
+    description: string;
+}
+
+interface AnnotatedImageProps {
+    file: File;
+    points?: AnnotationPoint[];
+    alt: string;
+    className?: string;
+}
+
+// Image with numbered markers; point coordinates are in pixels of the original image
+const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ file, points = [], alt, className = '' }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [file]);
+
+    if (!url) return null;
+
+    return (
+        <div className={`relative inline-block ${className}`}>
+            <img
+                src={url}
+                alt={alt}
+                onLoad={e => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="max-h-[50vh] w-full object-contain rounded-lg"
+            />
+            {naturalSize && points.map((point, index) => (
+                <span
+                    key={index}
+                    title={point.description}
+                    className="absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-bold ring-2 ring-white shadow"
+                    style={{ left: `${(point.x / naturalSize.width) * 100}%`, top: `${(point.y / naturalSize.height) * 100}%` }}
+                >
+                    {index + 1}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+export default AnnotatedImage;
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { type BatchEstimate } from '../services/estimateService';
+import { formatUsd, type BudgetStatus } from '../services/budgetService';
+import { formatDuration } from '../services/timingService';
+import { XMarkIcon } from './icons';
+
+interface BatchEstimateModalProps {
+    isOpen: boolean;
+    estimate: BatchEstimate;
+    budgetStatuses: BudgetStatus[];
+    concurrency: number;
+    onClose: () => void;
+    onConfirm: (droppedItemIds: Set<string>) => void;
+}
+
+const operationNames: Record<string, string> = {
+    'enhance': 'Aprimoramento',
+    'model': 'Geração de Modelo',
+    'expand': 'Expansão',
+    'describe': 'Análise de Peça',
+    'training': 'Treinamento de IA',
+    'findDifferences': 'Controle de Qualidade',
+};
+
+// Pre-flight breakdown of the expected spend and duration of a batch, where items can be dropped before starting
+const BatchEstimateModal: React.FC<BatchEstimateModalProps> = ({ isOpen, estimate, budgetStatuses, concurrency, onClose, onConfirm }) => {
+    const [droppedIds, setDroppedIds] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        if (isOpen) setDroppedIds(new Set());
+    }, [isOpen]);
+
+    const selected = useMemo(() => estimate.items.filter(item => !droppedIds.has(item.itemId)), [estimate, droppedIds]);
+    const totalCost = selected.reduce((sum, item) => sum + item.totalCost, 0);
+    const itemsWithWork = selected.filter(item => item.durationMs > 0);
+    const totalDurationMs = itemsWithWork.length > 0
+        ? itemsWithWork.reduce((sum, item) => sum + item.durationMs, 0) / Math.min(itemsWithWork.length, concurrency)
+        : 0;
+
+    const tightestRemaining = budgetStatuses.length > 0 ? Math.min(...budgetStatuses.map(status => status.remaining)) : null;
+    const exceedsBudget = tightestRemaining !== null && totalCost > tightestRemaining;
+
+    const toggleItem = (itemId: string) => {
+        setDroppedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(itemId)) next.delete(itemId);
+            else next.add(itemId);
+            return next;
+        });
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-2xl font-bold text-gray-800">Estimativa do Lote</h2>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+                <p className="text-sm text-gray-500">Valores estimados pela tabela de preços e pelo histórico de tempo de processamento. O custo real é registrado na Central de Custos.</p>
+
+                <div className="overflow-y-auto border border-gray-200 rounded-lg">
+                    <table className="w-full text-sm text-left text-gray-600">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
+                            <tr>
+                                <th scope="col" className="px-4 py-2 w-10"></th>
+                                <th scope="col" className="px-4 py-2">Item</th>
+                                <th scope="col" className="px-4 py-2">Chamadas de IA</th>
+                                <th scope="col" className="px-4 py-2 text-right">Tempo</th>
+                                <th scope="col" className="px-4 py-2 text-right">Custo</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {estimate.items.map(item => {
+                                const isDropped = droppedIds.has(item.itemId);
+                                return (
+                                    <tr key={item.itemId} className={`border-b ${isDropped ? 'bg-gray-50 text-gray-400 line-through' : 'bg-white'}`}>
+                                        <td className="px-4 py-2">
+                                            <input type="checkbox" checked={!isDropped} onChange={() => toggleItem(item.itemId)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                        </td>
+                                        <td className="px-4 py-2 font-medium text-gray-900">
+                                            {item.baseName}
+                                            {item.views.length > 0 && <span className="block text-xs text-gray-400 font-normal">{item.views.join(', ')}</span>}
+                                        </td>
+                                        <td className="px-4 py-2 text-xs">
+                                            {item.operations.length > 0
+                                                ? item.operations.map(op => `${op.count}× ${operationNames[op.operation] || op.operation}`).join(' · ')
+                                                : 'Nenhuma'}
+                                        </td>
+                                        <td className="px-4 py-2 text-right">{formatDuration(item.durationMs) || '-'}</td>
+                                        <td className="px-4 py-2 text-right font-semibold">{formatUsd(item.totalCost)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t pt-4">
+                    <div className="text-sm text-gray-700">
+                        <p><span className="font-semibold">{selected.length}</span> de {estimate.items.length} itens · Tempo total: <span className="font-semibold">{formatDuration(totalDurationMs) || '-'}</span></p>
+                        <p className="text-lg">Custo total estimado: <span className="font-bold text-gray-900">{formatUsd(totalCost)}</span></p>
+                        {tightestRemaining !== null && (
+                            <p className={exceedsBudget ? 'text-red-600 font-semibold' : 'text-gray-500'}>
+                                Orçamento restante: {formatUsd(tightestRemaining)}{exceedsBudget && ' — o lote deve ultrapassar o orçamento e ser interrompido.'}
+                            </p>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <button onClick={() => onConfirm(droppedIds)} disabled={selected.length === 0} className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
+                            Confirmar e Processar ({selected.length})
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BatchEstimateModal;
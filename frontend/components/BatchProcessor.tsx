@@ -6,11 +6,28 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo, useContext } from 'react';
 import { useAuth } from '../src/contexts/AuthContext';
 import * as XLSX from 'xlsx';
-import { generateModelImage, enhanceAndUpscaleImage, describeClothing, expandImage } from '../services/geminiService';
-import { addImageToStorage, findOrCreateFolder, type StoredImage } from '../services/galleryService';
+import { generateModelImage, generateModelCandidates, type ModelCandidate, enhanceAndUpscaleImage, describeClothingWithEvidence, guessDescribeRole, describeRoleLabels, LOW_CONFIDENCE_THRESHOLD, generateProductCopy, expandImage, findClothingDifferences, applyClothingCorrection } from '../services/geminiService';
+import { addImageToStorage, findOrCreateFolder, getGalleryItems, type StoredImage } from '../services/galleryService';
+import { getBudgetStatus, formatUsd, type BudgetStatus } from '../services/budgetService';
+import { estimateBatch } from '../services/estimateService';
+import { createJob, uploadJobReferences, uploadJobItemFiles, startJob, cancelJob, streamJobEvents, getActiveJobId, setActiveJobId, type BatchJobItem, type JobItemPlan } from '../services/jobService';
 import { type User } from '../services/userService';
 import { getEstimateMs, recordCompletion, formatDuration } from '../services/timingService';
-import { type QueueItem, type ModelAge, SharedSettingsContext } from '../App';
+import { aiErrorCategoryLabels, aiErrorCategoryHints, getErrorCategory, type AiErrorCategory } from '../services/aiErrors';
+import { getAllCosts, markCostsRejected } from '../services/costService';
+import { getItemCosts, buildManifestRows, downloadManifest, type ManifestFormat } from '../services/manifestService';
+import { getIdentities, resolveIdentityId, type ModelIdentity } from '../services/identityService';
+import {
+    getPresets, createPreset, savePresetVersion, updatePreset, deletePreset, loadPresetReferenceFiles, exportPreset, parsePresetFile, importLocalPresets,
+    type BatchPreset, type BatchModelNotes, type PresetSettings, type PresetVisibility, type ReferenceFiles,
+} from '../services/presetService';
+import { getViewDefinitions, findViewDefinition, isBackPhoto, type ViewDefinition } from '../services/viewService';
+import { normalizeSku, saveGroupingRule, type FileGroup, type FileGroupingRule } from '../services/fileGroupingService';
+import { recordProduct } from '../services/productService';
+import { getVocabularies, findColorSwatches, type Vocabulary } from '../services/vocabularyService';
+import { COPY_LANGUAGES, copyLanguageLabels, getBrandTones, findBrandTone, type BrandTone, type CopyLanguage, type ProductCopySet } from '../services/copyService';
+import { suggestColumnMapping, findProfileForBrand, saveMappingProfile, getSheetValue, getUnmappedEntries, type ColumnMapping, type ParsedSheet, type SheetField } from '../services/columnMappingService';
+import { type QueueItem, type QueueItemResult, type QualityCheck, type CorrectionComparison, type ModelAge, SharedSettingsContext } from '../App';
 import { dataURLtoFile } from "../src/utils/fileUtils.ts";
 import { standardizeToPNG, resizeAndPadDataUrl } from "../src/utils/imageUtils.ts";
 import { UploadIcon, TrashIcon, PhotoIcon, DocumentArrowUpIcon, LockClosedIcon, LockOpenIcon, ArrowPathIcon, CheckIcon, ChevronLeftIcon, ChevronRightIcon, EyeIcon, UserIcon, ArrowDownTrayIcon, PlusIcon, SparklesIcon, XMarkIcon } from './icons';
@@ -21,58 +38,21 @@ import ReferenceBottomUploader from './ReferenceBottomUploader';
 import PreviewModal from './PreviewModal';
 import AddProductModal, { type AddProductData } from './AddProductModal';
 import ImageComparator from './ImageComparator';
+import BatchEstimateModal from './BatchEstimateModal';
+import ColumnMappingModal from './ColumnMappingModal';
+import QualityReviewModal from './QualityReviewModal';
+import CandidatePickerModal from './CandidatePickerModal';
+import ModelIdentityModal from './ModelIdentityModal';
+import PresetHistoryModal from './PresetHistoryModal';
+import ViewCatalogModal from './ViewCatalogModal';
+import FileGroupingModal from './FileGroupingModal';
+import ProductCopyModal from './ProductCopyModal';
+import BrandToneModal from './BrandToneModal';
+import VocabularyModal from './VocabularyModal';
 
 
 const CONCURRENCY_LIMIT = 3;
 
-// HELPER: Normalizes a SKU string for reliable matching.
-const normalizeSku = (sku: any): string => {
-    if (sku === null || sku === undefined) return '';
-    return String(sku)
-        // 1. Trim leading/trailing whitespace (including non-breaking spaces like BOM)
-        .replace(/^[\s\uFEFF\xA0]+|[\s\uFEFF\xA0]+$/g, '')
-        // 2. Standardize various dash/hyphen characters and spaces to a single underscore
-        .replace(/[\u2010-\u2015\s-]+/g, '_')
-        // 3. Convert to uppercase for case-insensitive matching
-        .toUpperCase();
-};
-
-
-// HELPER: Extracts the base name (potential SKU) from a file name by stripping view suffixes.
-const getBaseName = (fileName: string): string => {
-    let baseName = fileName.replace(/\.[^/.]+$/, '').trim();
-
-    let hasChanged = true;
-    while (hasChanged) {
-        hasChanged = false;
-        
-        const originalBaseName = baseName;
-
-        // Try removing text suffixes first
-        const textSuffixes = ['_frente', '_costas', '_back', '_front', '_total_look', '_detalhe', '_side', '_lado'];
-        for (const suffix of textSuffixes) {
-            if (baseName.toLowerCase().endsWith(suffix)) {
-                baseName = baseName.slice(0, -suffix.length);
-                break;
-            }
-        }
-        if (baseName !== originalBaseName) {
-            hasChanged = true;
-            continue;
-        }
-
-        // If no text suffix was removed, try removing a numeric suffix
-        const numericMatch = baseName.match(/_(\d{1,2})$/);
-        if (numericMatch) {
-             baseName = baseName.slice(0, -numericMatch[0].length);
-             hasChanged = true;
-             continue;
-        }
-    }
-
-    return baseName;
-};
-
 const fileToDataURL = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -82,31 +62,6 @@ const fileToDataURL = (file: File): Promise<string> => {
     });
 };
 
-interface BatchModelNotes {
-    adult: { male: string; female: string; };
-    teenager: { male: string; female: string; };
-    child: { male: string; female: string; };
-    baby: string;
-    newborn: string;
-}
-
-
-interface BatchPreset {
-    name: string;
-    settings: {
-        clothingNotes: string;
-        sceneNotes: string;
-        negativePrompt: string;
-        sceneTheme: string;
-        modelNotes: BatchModelNotes;
-        modelAge: { male: string, female: string };
-        modelGender: 'male' | 'female';
-        targetDimensions: { width: string; height: string };
-        generationStyle: 'ecommerce' | 'editorial';
-        brand: string;
-    }
-}
-
 interface BatchProcessorProps {
     currentUser: User;
     loading: boolean;
@@ -131,6 +86,10 @@ interface BatchProcessorProps {
     setExcelData: (data: Map<string, Record<string, string>> | null) => void;
     excelFileName: string | null;
     setExcelFileName: (name: string | null) => void;
+    excelSheet: ParsedSheet | null;
+    setExcelSheet: (sheet: ParsedSheet | null) => void;
+    columnMapping: ColumnMapping | null;
+    setColumnMapping: (mapping: ColumnMapping | null) => void;
     isTrainingAgent: Set<string>;
     trainedAgeData: Map<string, string>;
     handleTrainAgeAgent: (age: string) => Promise<string>;
@@ -159,8 +118,8 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         queue, setQueue, isProcessing, setIsProcessing, clothingNotes, setClothingNotes,
         sceneNotes, setSceneNotes, batchModelNotes, setBatchModelNotes, modelAge, setModelAge, 
         modelGender, setModelGender,
-        targetDimensions, setTargetDimensions, excelData, setExcelData, excelFileName, setExcelFileName,
-        isTrainingAgent, trainedAgeData, handleTrainAgeAgent
+        targetDimensions, setTargetDimensions, excelData, setExcelData, excelFileName, setExcelFileName, excelSheet, setExcelSheet,
+        columnMapping, setColumnMapping, isTrainingAgent, trainedAgeData, handleTrainAgeAgent
     } = props;
 
     const { getToken } = useAuth();
@@ -175,17 +134,225 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
     const [sceneTheme, setSceneTheme] = useState('');
     const [presets, setPresets] = useState<BatchPreset[]>([]);
     const [newPresetName, setNewPresetName] = useState('');
+    const [newPresetVisibility, setNewPresetVisibility] = useState<PresetVisibility>('private');
+    const [activePresetId, setActivePresetId] = useState('');
+    const [isPresetBusy, setIsPresetBusy] = useState(false);
+    const [presetError, setPresetError] = useState<string | null>(null);
+    const [isPresetHistoryOpen, setIsPresetHistoryOpen] = useState(false);
+    const presetImportInputRef = useRef<HTMLInputElement>(null);
     const [generationStyle, setGenerationStyle] = useState<'ecommerce' | 'editorial'>('ecommerce');
     const [brand, setBrand] = useState('');
     const [batchNegativePrompt, setBatchNegativePrompt] = useState('');
     const [selectedViews, setSelectedViews] = useState<string[]>([]);
     const [isDraggingOver, setIsDraggingOver] = useState(false);
+    const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+    const [isEstimateOpen, setIsEstimateOpen] = useState(false);
+    const [runOnServer, setRunOnServer] = useState(false);
+    const [serverJobId, setServerJobId] = useState<string | null>(null);
+    const [isExportingManifest, setIsExportingManifest] = useState(false);
+    const [qualityControlRounds, setQualityControlRounds] = useState(0); // Max automatic correction rounds per view (0 = QC off)
+    const [reviewItemId, setReviewItemId] = useState<string | null>(null);
+    const [candidatesPerView, setCandidatesPerView] = useState(1);
+    // Locked model identity per gender for the whole batch ('' = brand default or none)
+    const [identities, setIdentities] = useState<ModelIdentity[]>([]);
+    const [batchIdentityIds, setBatchIdentityIds] = useState<{ male: string; female: string }>({ male: '', female: '' });
+    const [isIdentityModalOpen, setIsIdentityModalOpen] = useState(false);
+    const [viewDefinitions, setViewDefinitions] = useState<ViewDefinition[]>([]);
+    const [isViewCatalogOpen, setIsViewCatalogOpen] = useState(false);
+    // Store copy: brands' tone of voice, languages to generate and the item whose copy is being edited
+    const [brandTones, setBrandTones] = useState<BrandTone[]>([]);
+    const [copyLanguages, setCopyLanguages] = useState<CopyLanguage[]>(['pt-BR']);
+    const [isBrandToneOpen, setIsBrandToneOpen] = useState(false);
+    const [copyItemId, setCopyItemId] = useState<string | null>(null);
+    const [copyError, setCopyError] = useState<string | null>(null);
+    // Attribute vocabularies the AI description is normalized to (color swatches, admin editor)
+    const [vocabularies, setVocabularies] = useState<Vocabulary[]>([]);
+    const [isVocabularyOpen, setIsVocabularyOpen] = useState(false);
+    // Views generated with several candidates, waiting for the user's choice (shown one at a time)
+    const [pendingPicks, setPendingPicks] = useState<{ id: string; itemId: string; itemName: string; view: string; candidates: string[] }[]>([]);
+    // Dropped images waiting for the grouping preview
+    const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
+    // Spreadsheet read but not yet mapped (or being remapped)
+    const [pendingSheet, setPendingSheet] = useState<{ fileName: string; headers: string[]; rows: Record<string, string>[]; mapping: ColumnMapping; profileName?: string } | null>(null);
     
     const isBatchCancelled = useRef(false);
+    const jobStreamAbort = useRef<AbortController | null>(null);
     const cancelledSingleItems = useRef(new Set<string>());
     const dragItem = useRef<string | null>(null);
     const dragOverItem = useRef<string | null>(null);
+    const candidatePickResolvers = useRef(new Map<string, (index: number) => void>());
     
+    // The team's model identities ("casting")
+    useEffect(() => {
+        const loadIdentities = async () => {
+            try {
+                const token = await getToken();
+                if (!token) return;
+                setIdentities(await getIdentities(token));
+            } catch (err) {
+                console.error('Failed to load model identities', err);
+            }
+        };
+        loadIdentities();
+    }, [currentUser.id]);
+
+    // Output views the batch can generate (managed by the admins)
+    useEffect(() => {
+        const loadViews = async () => {
+            try {
+                const token = await getToken();
+                if (!token) return;
+                setViewDefinitions(await getViewDefinitions(token));
+            } catch (err) {
+                console.error('Failed to load view definitions', err);
+            }
+        };
+        loadViews();
+    }, [currentUser.id]);
+
+    useEffect(() => {
+        const loadBrandTones = async () => {
+            try {
+                const token = await getToken();
+                if (!token) return;
+                setBrandTones(await getBrandTones(token));
+            } catch (err) {
+                console.error('Failed to load brand tones', err);
+            }
+        };
+        loadBrandTones();
+    }, [currentUser.id]);
+
+    useEffect(() => {
+        const loadVocabularies = async () => {
+            try {
+                const token = await getToken();
+                if (!token) return;
+                setVocabularies(await getVocabularies(token));
+            } catch (err) {
+                console.error('Failed to load attribute vocabularies', err);
+            }
+        };
+        loadVocabularies();
+    }, [currentUser.id]);
+
+    // The brand's default languages are preselected; the user can still change them for this batch
+    useEffect(() => {
+        const tone = findBrandTone(brandTones, brand);
+        if (tone?.languages.length) setCopyLanguages(tone.languages);
+    }, [brand, brandTones]);
+
+    // Remaining monthly budget of the user and of the brand folder the batch will be billed to
+    useEffect(() => {
+        if (isProcessing) return;
+        let active = true;
+        const timeoutId = setTimeout(async () => {
+            try {
+                const token = await getToken();
+                if (!token) return;
+                const trimmedBrand = brand.trim();
+                const brandFolder = trimmedBrand
+                    ? (await getGalleryItems('root', currentUser.id, token)).find(item => item.type === 'folder' && item.name === trimmedBrand)
+                    : undefined;
+                const statuses = await getBudgetStatus(token, brandFolder?.id);
+                if (active) setBudgetStatuses(statuses);
+            } catch (err) {
+                console.error('Failed to load budget status', err);
+            }
+        }, 500); // Debounce while the brand is being typed
+        return () => {
+            active = false;
+            clearTimeout(timeoutId);
+        };
+    }, [brand, isProcessing, currentUser.id]);
+
+    // Mirrors the state of a server-side job item in the local queue
+    const applyServerItem = useCallback((jobItem: BatchJobItem) => {
+        setQueue(prev => prev.map(q => {
+            if (q.id !== jobItem.clientItemId) return q;
+            switch (jobItem.status) {
+                case 'done':
+                    return {
+                        ...q, status: 'done', progressStatus: undefined, progressPercentage: 100, parentId: jobItem.parentId, resultObjectUrls: jobItem.resultUrls,
+                        results: jobItem.resultUrls.map((url, index) => ({
+                            view: jobItem.resultViews?.[index] || 'result',
+                            fileName: jobItem.resultNames?.[index] || decodeURIComponent(url.split('/').pop() || ''),
+                            url,
+                        })),
+                        startedAt: jobItem.startedAt, durationMs: jobItem.durationMs,
+                    };
+                case 'error':
+                    return { ...q, status: 'error', progressStatus: undefined, error: jobItem.error, errorCategory: jobItem.errorCategory, startedAt: jobItem.startedAt };
+                case 'cancelled':
+                    return { ...q, status: 'queued', progressStatus: undefined, progressPercentage: 0 };
+                default:
+                    return { ...q, status: 'processing', progressStatus: jobItem.progressStatus || 'Na fila do servidor...', progressPercentage: jobItem.progressPercentage };
+            }
+        }));
+
+        // Results are already in the gallery; download them so the preview and download buttons work as usual
+        if (jobItem.status === 'done' && jobItem.resultUrls.length > 0) {
+            Promise.all(jobItem.resultUrls.map(async url => {
+                const blob = await (await fetch(url)).blob();
+                return new File([blob], decodeURIComponent(url.split('/').pop() || 'result.png'), { type: 'image/png' });
+            }))
+                .then(resultFiles => setQueue(prev => prev.map(q => q.id === jobItem.clientItemId ? { ...q, resultFiles } : q)))
+                .catch(err => console.error(`Failed to download the results of ${jobItem.baseName}`, err));
+        }
+    }, [setQueue]);
+
+    // Follows a server-side job over SSE until it finishes, reconnecting if the stream drops
+    const followServerJob = useCallback(async (jobId: string) => {
+        jobStreamAbort.current?.abort();
+        const controller = new AbortController();
+        jobStreamAbort.current = controller;
+        setServerJobId(jobId);
+        setIsProcessing(true);
+
+        const finish = () => {
+            controller.abort();
+            setActiveJobId(currentUser.id, null);
+            setServerJobId(null);
+            setIsProcessing(false);
+        };
+
+        try {
+            const token = await getToken();
+            if (!token) throw new Error("Token de autenticação não disponível.");
+            await streamJobEvents(jobId, token, event => {
+                if (event.type === 'item') {
+                    applyServerItem(event.data);
+                    return;
+                }
+                if (event.type === 'snapshot') event.data.items.forEach(applyServerItem);
+                setCompletedCount(event.data.completed);
+                if (event.data.status === 'done' || event.data.status === 'cancelled') finish();
+            }, controller.signal);
+        } catch (err) {
+            console.error(`Failed to follow batch job ${jobId}`, err);
+            if (err instanceof Error && err.message === 'Lote não encontrado.') {
+                finish();
+                return;
+            }
+        }
+
+        if (!controller.signal.aborted) {
+            setTimeout(() => {
+                if (jobStreamAbort.current === controller) followServerJob(jobId);
+            }, 5000);
+        }
+    }, [currentUser.id, applyServerItem]);
+
+    // Picks up the server-side job that was running when the page was closed; the job itself keeps running on the server
+    useEffect(() => {
+        const activeJobId = getActiveJobId(currentUser.id);
+        if (activeJobId) followServerJob(activeJobId);
+        return () => {
+            jobStreamAbort.current?.abort();
+            jobStreamAbort.current = null;
+        };
+    }, [currentUser.id]);
+
     if (!sharedSettings) return null; // Should not happen
     
     const { 
@@ -239,8 +406,12 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
 
         setQueue(prev => prev.map(item => itemsWithPrimaryImage.find(i => i.id === item.id) ? { ...item, isDescribing: true } : item ));
 
+        // Photos placed in the Front/Back/Total Look slots keep that role; the others are guessed from the file name
         const results = await Promise.allSettled(
-            itemsWithPrimaryImage.map(item => describeClothing(item.availableFiles, currentUser.id, getToken))
+            itemsWithPrimaryImage.map(item => describeClothingWithEvidence(item.availableFiles.map(file => ({
+                file,
+                role: file === item.fileFront ? 'front' : file === item.fileBack ? 'back' : file === item.fileTotalLook ? 'totalLook' : guessDescribeRole(file.name),
+            })), item.baseName))
         );
 
         setQueue(prev => {
@@ -250,7 +421,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 const queueIndex = newQueue.findIndex(q => q.id === item.id);
                 if (queueIndex !== -1) {
                     if (result.status === 'fulfilled') {
-                        newQueue[queueIndex] = { ...newQueue[queueIndex], aiStructuredDescription: result.value, isDescribing: false };
+                        newQueue[queueIndex] = { ...newQueue[queueIndex], aiStructuredDescription: result.value.description, aiDescriptionEvidence: result.value.fields, isDescribing: false };
                     } else {
                         console.error(`Failed to describe item ${item.baseName}`, result.reason);
                         newQueue[queueIndex] = { ...newQueue[queueIndex], aiStructuredDescription: { "Erro": "Falha na análise." }, isDescribing: false };
@@ -305,38 +476,43 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         }
     }, [excelData, setQueue, analyzeItems]);
     
-    const handleFiles = useCallback(async (files: FileList | null) => {
+    const handleFiles = useCallback((files: FileList | null) => {
         if (!files || files.length === 0) return;
+        setPendingFiles(Array.from(files));
+    }, []);
 
-        const fileGroups = new Map<string, { rawBaseName: string, files: File[] }>();
-        for (const file of Array.from(files)) {
-            const rawBaseName = getBaseName(file.name);
-            const groupKey = normalizeSku(rawBaseName);
-
-            if (!fileGroups.has(groupKey)) {
-                fileGroups.set(groupKey, { rawBaseName, files: [] });
-            }
-            fileGroups.get(groupKey)!.files.push(file);
-        }
-
-        const newItems: QueueItem[] = [];
-        for (const [groupKey, { rawBaseName, files: filesInGroup }] of fileGroups.entries()) {
-            const availableUrls = await Promise.all(filesInGroup.map(file => URL.createObjectURL(file)));
-            
-            const newItem: QueueItem = {
-                id: `${groupKey}-${Date.now()}-${Math.random()}`,
-                baseName: rawBaseName,
+    // Queues the products confirmed in the grouping preview; images with a recognized view fill the manual slots
+    const handleApplyGrouping = useCallback((groups: FileGroup[], rule: Omit<FileGroupingRule, 'updatedAt'> | null) => {
+        if (rule) saveGroupingRule(rule);
+        setPendingFiles(null);
+
+        const newItems: QueueItem[] = groups.map(group => {
+            const availableUrls = group.files.map(file => URL.createObjectURL(file));
+            const urlOf = (file?: File) => file ? availableUrls[group.files.indexOf(file)] : undefined;
+            // Colored variants fall back to the spreadsheet row of the SKU
+            const metadata = excelData?.get(group.key) ?? excelData?.get(normalizeSku(group.sku));
+
+            return {
+                id: `${group.key}-${Date.now()}-${Math.random()}`,
+                baseName: group.baseName,
+                sku: group.color ? group.sku : undefined,
+                color: group.color,
                 status: 'queued',
-                availableFiles: filesInGroup,
-                availableUrls: availableUrls,
-                metadata: excelData?.get(groupKey),
-                excelMatch: excelData?.has(groupKey),
+                fileFront: group.slots.front,
+                fileBack: group.slots.back,
+                fileTotalLook: group.slots.totalLook,
+                objectUrlFront: urlOf(group.slots.front),
+                objectUrlBack: urlOf(group.slots.back),
+                objectUrlTotalLook: urlOf(group.slots.totalLook),
+                availableFiles: group.files,
+                availableUrls,
+                metadata,
+                excelMatch: !!metadata,
                 isDescribing: true,
                 currentViewIndex: 0,
                 isComparing: false,
             };
-            newItems.push(newItem);
-        }
+        });
 
         setQueue(prev => [...prev, ...newItems]);
         if (newItems.length > 0) {
@@ -364,45 +540,151 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
     };
 
 
+    // Presets live on the server; the ones saved in this browser before that are moved there once
     useEffect(() => {
-        try {
-            const savedPresets = localStorage.getItem('pixshop-batch-presets');
-            if (savedPresets) setPresets(JSON.parse(savedPresets));
-        } catch (error) { console.error("Failed to load presets", error); }
+        const loadPresets = async () => {
+            try {
+                const token = await getToken();
+                if (!token) return;
+                await importLocalPresets(token).catch(err => console.error("Failed to import local presets", err));
+                setPresets(await getPresets(token));
+            } catch (error) { console.error("Failed to load presets", error); }
+        };
+        loadPresets();
     }, []);
 
-    const savePresets = (newPresets: BatchPreset[]) => {
+    const activePreset = presets.find(p => p.id === activePresetId) || null;
+    const ownPresets = presets.filter(p => p.ownerId === currentUser.id);
+    const teamPresets = presets.filter(p => p.ownerId !== currentUser.id);
+    // Anyone who sees a team preset can save versions; sharing and removing stay with the owner (or an admin)
+    const canManageActivePreset = !!activePreset && (activePreset.ownerId === currentUser.id || currentUser.role === 'admin');
+
+    const getCurrentPresetSettings = (): PresetSettings => ({
+        clothingNotes, sceneNotes, negativePrompt: batchNegativePrompt, sceneTheme, modelNotes: batchModelNotes, modelAge, modelGender,
+        targetDimensions, generationStyle, brand, qualityControlRounds, candidatesPerView, identityIds: batchIdentityIds,
+    });
+
+    const getCurrentReferenceFiles = (): ReferenceFiles => ({
+        maleReferenceModel: maleReferenceModelFile,
+        femaleReferenceModel: femaleReferenceModelFile,
+        referenceScene: referenceSceneFile,
+        referenceFit: referenceFitFile,
+        maleReferenceBottom: maleReferenceBottomFile,
+        femaleReferenceBottom: femaleReferenceBottomFile,
+    });
+
+    const upsertPreset = (preset: BatchPreset) => {
+        setPresets(prev => [...prev.filter(p => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name)));
+    };
+
+    // Runs a preset request with a fresh token, surfacing its error next to the presets
+    const runPresetAction = async (action: (token: string) => Promise<void>) => {
+        setIsPresetBusy(true);
+        setPresetError(null);
         try {
-            localStorage.setItem('pixshop-batch-presets', JSON.stringify(newPresets));
-            setPresets(newPresets);
-        } catch (error) { console.error("Failed to save presets", error); }
+            const token = await getToken();
+            if (!token) throw new Error("Token de autenticação não disponível.");
+            await action(token);
+        } catch (err) {
+            console.error("Preset action failed", err);
+            setPresetError(err instanceof Error ? err.message : 'Falha na operação com o preset.');
+        } finally {
+            setIsPresetBusy(false);
+        }
+    };
+
+    const applyPreset = async (preset: BatchPreset) => {
+        const { settings } = preset;
+        setClothingNotes(settings.clothingNotes);
+        setSceneNotes(settings.sceneNotes);
+        setBatchNegativePrompt(settings.negativePrompt || '');
+        setSceneTheme(settings.sceneTheme);
+        setBatchModelNotes(settings.modelNotes);
+        setModelAge(settings.modelAge);
+        setModelGender(settings.modelGender);
+        setTargetDimensions(settings.targetDimensions);
+        setGenerationStyle(settings.generationStyle || 'ecommerce');
+        setBrand(settings.brand || '');
+        setQualityControlRounds(settings.qualityControlRounds || 0);
+        setCandidatesPerView(settings.candidatesPerView || 1);
+        setBatchIdentityIds(settings.identityIds || { male: '', female: '' });
+
+        const files = await loadPresetReferenceFiles(preset.references);
+        setMaleReferenceModelFile(files.maleReferenceModel ?? null);
+        setFemaleReferenceModelFile(files.femaleReferenceModel ?? null);
+        setReferenceSceneFile(files.referenceScene ?? null);
+        setReferenceFitFile(files.referenceFit ?? null);
+        setMaleReferenceBottomFile(files.maleReferenceBottom ?? null);
+        setFemaleReferenceBottomFile(files.femaleReferenceBottom ?? null);
     };
 
     const handleSavePreset = () => {
         if (!newPresetName.trim()) return;
-        const newPreset: BatchPreset = {
-            name: newPresetName.trim(),
-            settings: { clothingNotes, sceneNotes, negativePrompt: batchNegativePrompt, sceneTheme, modelNotes: batchModelNotes, modelAge, modelGender, targetDimensions, generationStyle, brand }
-        };
-        savePresets([...presets, newPreset]);
-        setNewPresetName('');
+        runPresetAction(async token => {
+            const created = await createPreset({
+                name: newPresetName.trim(),
+                brand: brand.trim(),
+                visibility: newPresetVisibility,
+                settings: getCurrentPresetSettings(),
+                references: getCurrentReferenceFiles(),
+            }, token);
+            upsertPreset(created);
+            setActivePresetId(created.id);
+            setNewPresetName('');
+        });
     };
 
-    const handleLoadPreset = (presetName: string) => {
-        const preset = presets.find(p => p.name === presetName);
-        if (preset) {
-            const { settings } = preset;
-            setClothingNotes(settings.clothingNotes);
-            setSceneNotes(settings.sceneNotes);
-            setBatchNegativePrompt(settings.negativePrompt || '');
-            setSceneTheme(settings.sceneTheme);
-            setBatchModelNotes(settings.modelNotes);
-            setModelAge(settings.modelAge);
-            setModelGender(settings.modelGender);
-            setTargetDimensions(settings.targetDimensions);
-            setGenerationStyle(settings.generationStyle || 'ecommerce');
-            setBrand(settings.brand || '');
-        }
+    const handleLoadPreset = (presetId: string) => {
+        setActivePresetId(presetId);
+        const preset = presets.find(p => p.id === presetId);
+        if (preset) runPresetAction(() => applyPreset(preset));
+    };
+
+    const handleSavePresetVersion = () => {
+        if (!activePreset) return;
+        runPresetAction(async token => {
+            upsertPreset(await savePresetVersion(activePreset.id, getCurrentPresetSettings(), getCurrentReferenceFiles(), token));
+        });
+    };
+
+    const handleTogglePresetVisibility = () => {
+        if (!activePreset) return;
+        runPresetAction(async token => {
+            upsertPreset(await updatePreset(activePreset.id, { visibility: activePreset.visibility === 'team' ? 'private' : 'team' }, token));
+        });
+    };
+
+    const handleDeletePreset = () => {
+        if (!activePreset || !window.confirm(`Remover o preset "${activePreset.name}" e todo o seu histórico?`)) return;
+        runPresetAction(async token => {
+            await deletePreset(activePreset.id, token);
+            setPresets(prev => prev.filter(p => p.id !== activePreset.id));
+            setActivePresetId('');
+        });
+    };
+
+    const handleExportPreset = () => {
+        if (!activePreset) return;
+        runPresetAction(async () => {
+            const references = await loadPresetReferenceFiles(activePreset.references);
+            await exportPreset({ name: activePreset.name, brand: activePreset.brand, settings: activePreset.settings }, references);
+        });
+    };
+
+    const handleImportPreset = (file: File) => {
+        runPresetAction(async token => {
+            const imported = await parsePresetFile(file);
+            const created = await createPreset({ ...imported, visibility: 'private' }, token);
+            upsertPreset(created);
+            setActivePresetId(created.id);
+            await applyPreset(created);
+        });
+    };
+
+    const handlePresetRestored = (preset: BatchPreset) => {
+        upsertPreset(preset);
+        setIsPresetHistoryOpen(false);
+        runPresetAction(() => applyPreset(preset));
     };
 
     useEffect(() => {
@@ -424,6 +706,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
 
     const handleExcelUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = ''; // Allows loading the same file again
         if (!file) return;
         const reader = new FileReader();
         reader.onload = (event) => {
@@ -434,74 +717,88 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 const worksheet = workbook.Sheets[sheetName];
                 // Use header: 1 to get array of arrays, which is easier to clean
                 const rows: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-                
-                const dataMap = new Map<string, Record<string, string>>();
-                
-                if (rows.length > 1) {
-                    const headers: string[] = rows[0].map(h => String(h || '').trim());
-                    const dataRows = rows.slice(1);
-
-                    dataRows.forEach(row => {
-                        const sku = normalizeSku(row[0]); // The first column is always the SKU
-                        
-                        if (sku) {
-                            const rowData: Record<string, string> = {};
-                            headers.forEach((header, index) => {
-                                // Only add data for columns that have a header
-                                if (header && row[index] !== null && row[index] !== undefined) {
-                                    rowData[header] = String(row[index]).trim();
-                                }
-                            });
-                            dataMap.set(sku, rowData);
-                        }
-                    });
+                if (rows.length < 2) {
+                    alert('A planilha não possui linhas de dados.');
+                    return;
                 }
-                
-                setExcelData(dataMap);
-                setExcelFileName(file.name);
-                
-                // After loading new Excel data, re-evaluate all items in the queue
-                setQueue(prev => prev.map(item => {
-                    const normalizedBaseName = normalizeSku(item.baseName);
-                    const rowData = dataMap.get(normalizedBaseName);
-                    const excelMatch = !!rowData;
-                    
-                    const findValue = (keys: string[], data: Record<string, string>): string | undefined => {
-                        for (const key of keys) {
-                            // Find the header in the row data, case-insensitively
-                            const metaKey = Object.keys(data).find(k => k.toLowerCase() === key.toLowerCase());
-                            if (metaKey && data[metaKey]) {
-                                return String(data[metaKey]);
-                            }
+
+                const headers: string[] = rows[0].map(h => String(h || '').trim());
+                const dataRows = rows.slice(1).map(row => {
+                    const rowData: Record<string, string> = {};
+                    headers.forEach((header, index) => {
+                        // Only add data for columns that have a header
+                        if (header && row[index] !== null && row[index] !== undefined) {
+                            rowData[header] = String(row[index]).trim();
                         }
-                        return undefined;
-                    };
+                    });
+                    return rowData;
+                });
+                const namedHeaders = headers.filter(Boolean);
+
+                // A saved profile of the brand takes precedence over the suggestion from the headers
+                const profile = findProfileForBrand(brand, namedHeaders);
+                setPendingSheet({
+                    fileName: file.name,
+                    headers: namedHeaders,
+                    rows: dataRows,
+                    mapping: profile?.mapping || suggestColumnMapping(namedHeaders),
+                    profileName: profile?.name,
+                });
+            }
+        };
+        reader.readAsBinaryString(file);
+    };
 
-                    let newClothingNotes = item.clothingNotes || '';
+    const handleApplyColumnMapping = (mapping: ColumnMapping, profile: { name: string; brand: string } | null) => {
+        if (!pendingSheet) return;
+        if (profile) saveMappingProfile({ ...profile, mapping });
 
-                    if (rowData) {
-                        const excelClothingNotes = findValue(['observacoes_roupa', 'clothing_notes', 'obs_roupa', 'observações', 'observacao', 'notas', 'detalhes'], rowData);
-                        
-                        // Keep manual notes, but remove any old spreadsheet notes before adding new ones
-                        const manualNotes = (item.clothingNotes || '').split('\n').filter(line => !line.startsWith('[Planilha]:')).join('\n').trim();
-                        newClothingNotes = manualNotes;
+        const dataMap = new Map<string, Record<string, string>>();
+        pendingSheet.rows.forEach(rowData => {
+            const sku = normalizeSku(mapping.sku ? rowData[mapping.sku] : undefined);
+            if (sku) dataMap.set(sku, rowData);
+        });
 
-                        if (excelClothingNotes) {
-                            const spreadsheetNote = `[Planilha]: ${excelClothingNotes}`;
-                            newClothingNotes += (newClothingNotes ? '\n' : '') + spreadsheetNote;
-                        }
-                    }
+        setExcelData(dataMap);
+        setExcelFileName(pendingSheet.fileName);
+        setExcelSheet({ headers: pendingSheet.headers, rows: pendingSheet.rows });
+        setColumnMapping(mapping);
+        setPendingSheet(null);
 
-                    return { 
-                        ...item, 
-                        metadata: rowData || item.metadata,
-                        clothingNotes: newClothingNotes,
-                        excelMatch: excelMatch,
-                    };
-                }));
+        // After loading new Excel data, re-evaluate all items in the queue
+        setQueue(prev => prev.map(item => {
+            const rowData = dataMap.get(normalizeSku(item.baseName)) ?? (item.sku ? dataMap.get(normalizeSku(item.sku)) : undefined);
+            const excelMatch = !!rowData;
+
+            let newClothingNotes = item.clothingNotes || '';
+
+            if (rowData) {
+                const excelClothingNotes = getSheetValue(rowData, mapping, 'clothingNotes');
+
+                // Keep manual notes, but remove any old spreadsheet notes before adding new ones
+                const manualNotes = (item.clothingNotes || '').split('\n').filter(line => !line.startsWith('[Planilha]:')).join('\n').trim();
+                newClothingNotes = manualNotes;
+
+                if (excelClothingNotes) {
+                    const spreadsheetNote = `[Planilha]: ${excelClothingNotes}`;
+                    newClothingNotes += (newClothingNotes ? '\n' : '') + spreadsheetNote;
+                }
             }
-        };
-        reader.readAsBinaryString(file);
+
+            return {
+                ...item,
+                metadata: rowData || item.metadata,
+                clothingNotes: newClothingNotes,
+                excelMatch: excelMatch,
+            };
+        }));
+    };
+
+    // Reopens the mapping step for the spreadsheet already loaded
+    const handleEditColumnMapping = () => {
+        if (!excelSheet || !excelFileName) return;
+        const { headers, rows } = excelSheet;
+        setPendingSheet({ fileName: excelFileName, headers, rows, mapping: columnMapping || suggestColumnMapping(headers) });
     };
     
     const handleRemoveItem = useCallback((itemId: string) => {
@@ -533,6 +830,130 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         setQueue(prev => prev.map(item => item.id === itemId ? { ...item, modelAge: age } : item));
     };
 
+    // Resolves the generation settings and prompts of an item (shared by local and server processing)
+    const resolveItemSettings = (item: QueueItem) => {
+        // Reads a field from the item's spreadsheet row through the column mapping
+        const findMetaValue = (field: SheetField): string | undefined => getSheetValue(item.metadata, columnMapping || undefined, field);
+
+        // --- Start of Item-Specific Settings ---
+        // Priority: 1. Item-specific UI override, 2. Excel metadata, 3. Global setting
+        
+        // Determine Gender. Priority: UI Override > Excel > Global
+        let itemGender: 'male' | 'female' = modelGender; // Default to global
+        const metaGender = findMetaValue('gender')?.toLowerCase();
+        if (metaGender === 'male' || metaGender === 'masculino') itemGender = 'male';
+        else if (metaGender === 'female' || metaGender === 'feminino') itemGender = 'female';
+        if (item.modelGender) itemGender = item.modelGender; // UI Override has highest priority
+
+        // Determine Age. Priority: UI Override > Excel > Global (using the just-determined gender for the global fallback)
+        let itemAge: string = modelAge[itemGender]; // Default to global for the correct gender
+        const metaAge = findMetaValue('age');
+        if (metaAge) itemAge = metaAge;
+        if (item.modelAge) itemAge = item.modelAge; // UI Override has highest priority
+
+        let itemTargetDimensions = targetDimensions;
+        let itemBrand = brand;
+        let itemGenerationStyle = generationStyle;
+        
+        const metaWidth = findMetaValue('width');
+        const metaHeight = findMetaValue('height');
+        if (metaWidth && metaHeight) {
+            itemTargetDimensions = { width: metaWidth, height: metaHeight };
+        }
+
+        itemBrand = findMetaValue('brand') || itemBrand;
+        const itemCollection = findMetaValue('collection')?.trim() || '';
+        
+        const metaStyle = findMetaValue('style')?.toLowerCase();
+        if (metaStyle === 'editorial') itemGenerationStyle = 'editorial';
+        else if (metaStyle === 'ecommerce') itemGenerationStyle = 'ecommerce';
+
+        // --- Start of Prompt Construction ---
+        const itemNegativePrompt = findMetaValue('negativePrompt') || batchNegativePrompt;
+
+        // Determine the base scene description
+        let baseSceneDescription = findMetaValue('scene');
+        if (!baseSceneDescription) { // If no scene in Excel, use global settings
+            baseSceneDescription = sceneNotes;
+            if (sceneTheme) {
+                baseSceneDescription = `Tema: ${sceneTheme}. ${baseSceneDescription}`;
+            }
+        }
+
+        // Apply the style template
+        let itemScenePrompt = '';
+        if (itemGenerationStyle === 'ecommerce') {
+            itemScenePrompt = `Estilo E-commerce, fundo limpo e neutro. ${baseSceneDescription}`;
+        } else {
+            itemScenePrompt = `Estilo Editorial/Criativo, mais artístico. ${baseSceneDescription}`;
+        }
+        
+        // Determine model notes
+        let itemModelNotes = '';
+        if (item.metadata) {
+            // Combine the columns not mapped to a field into model notes
+            const allExcelNotes = getUnmappedEntries(item.metadata, columnMapping || undefined)
+                .map(([key, value]) => `${key}: ${value}`)
+                .join('. ');
+            itemModelNotes = allExcelNotes;
+        } else {
+            // No metadata, fall back to global model notes
+            const ageKey = agePresets.find(p => p.representativeAge.toLowerCase() === itemAge.toLowerCase())?.id || 'adult';
+            let baseModelNotes = '';
+            switch (ageKey) {
+                case 'newborn': baseModelNotes = batchModelNotes.newborn; break;
+                case 'baby': baseModelNotes = batchModelNotes.baby; break;
+                case 'child': baseModelNotes = batchModelNotes.child[itemGender]; break;
+                case 'teenager': baseModelNotes = batchModelNotes.teenager[itemGender]; break;
+                default: baseModelNotes = batchModelNotes.adult[itemGender]; break;
+            }
+            itemModelNotes = baseModelNotes;
+        }
+        // --- End of Prompt Construction ---
+
+
+        // Combine descriptions
+        const clothingDescriptionString = item.aiStructuredDescription && !item.aiStructuredDescription.Erro
+            ? Object.entries(item.aiStructuredDescription).map(([key, value]) => `${key}: ${value}`).join(', ')
+            : '';
+        let combinedDescription = clothingDescriptionString;
+
+        // item.clothingNotes now contains both manual and spreadsheet notes.
+        if (item.clothingNotes) {
+            combinedDescription += (combinedDescription ? '\n\n' : '') + `Observações Adicionais: ${item.clothingNotes}`;
+        }
+
+        const referenceBottomDescriptionObj = itemGender === 'male' ? maleReferenceBottomDescription : femaleReferenceBottomDescription;
+        const referenceBottomDescriptionString = referenceBottomDescriptionObj
+            ? Object.entries(referenceBottomDescriptionObj).map(([key, value]) => `${key}: ${value}`).join(', ')
+            : undefined;
+
+        // Locked model identity. Priority: batch choice for the gender > brand default
+        const identityId = resolveIdentityId(identities, batchIdentityIds[itemGender], itemGender, itemBrand);
+
+        return {
+            itemGender, itemAge, itemTargetDimensions, trimmedBrand: itemBrand.trim(), itemScenePrompt, itemNegativePrompt,
+            itemModelNotes, combinedDescription, referenceBottomDescriptionString, identityId, itemCollection,
+        };
+    };
+
+    const requestCandidatePick = (item: QueueItem, view: string, candidates: string[]) => new Promise<number>(resolve => {
+        const id = `${item.id}-${view}-${Date.now()}`;
+        candidatePickResolvers.current.set(id, resolve);
+        setPendingPicks(prev => [...prev, { id, itemId: item.id, itemName: item.baseName, view, candidates }]);
+    });
+
+    const handleCandidatePicked = (pickId: string, index: number) => {
+        candidatePickResolvers.current.get(pickId)?.(index);
+        candidatePickResolvers.current.delete(pickId);
+        setPendingPicks(prev => prev.filter(pick => pick.id !== pickId));
+    };
+
+    // Unblocks the items waiting for a choice so they can see they were cancelled
+    const releasePendingPicks = (itemId?: string) => {
+        pendingPicks.filter(pick => !itemId || pick.itemId === itemId).forEach(pick => handleCandidatePicked(pick.id, 0));
+    };
+
     const processItem = async (item: QueueItem) => {
         const startTime = Date.now();
         const handleItemProgress = (status: string, percentage: number) => {
@@ -550,52 +971,12 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 return;
             }
 
-            // Helper to find a value from metadata, case-insensitively
-            const findMetaValue = (keys: string[]): string | undefined => {
-                if (!item.metadata) return undefined;
-                for (const key of keys) {
-                    const metaKey = Object.keys(item.metadata).find(k => k.toLowerCase() === key.toLowerCase());
-                    if (metaKey && item.metadata[metaKey]) {
-                        return String(item.metadata[metaKey]);
-                    }
-                }
-                return undefined;
-            };
-
-            // --- Start of Item-Specific Settings ---
-            // Priority: 1. Item-specific UI override, 2. Excel metadata, 3. Global setting
-            
-            // Determine Gender. Priority: UI Override > Excel > Global
-            let itemGender: 'male' | 'female' = modelGender; // Default to global
-            const metaGender = findMetaValue(['gênero', 'genero', 'gender', 'sexo'])?.toLowerCase();
-            if (metaGender === 'male' || metaGender === 'masculino') itemGender = 'male';
-            else if (metaGender === 'female' || metaGender === 'feminino') itemGender = 'female';
-            if (item.modelGender) itemGender = item.modelGender; // UI Override has highest priority
-
-            // Determine Age. Priority: UI Override > Excel > Global (using the just-determined gender for the global fallback)
-            let itemAge: string = modelAge[itemGender]; // Default to global for the correct gender
-            const metaAge = findMetaValue(['idade', 'age', 'faixa etária', '(anos)']);
-            if (metaAge) itemAge = metaAge;
-            if (item.modelAge) itemAge = item.modelAge; // UI Override has highest priority
-
-            let itemTargetDimensions = targetDimensions;
-            let itemBrand = brand;
-            let itemGenerationStyle = generationStyle;
-            
-            const metaWidth = findMetaValue(['largura', 'width']);
-            const metaHeight = findMetaValue(['altura', 'height']);
-            if (metaWidth && metaHeight) {
-                itemTargetDimensions = { width: metaWidth, height: metaHeight };
-            }
-
-            itemBrand = findMetaValue(['marca', 'brand']) || itemBrand;
-            
-            const metaStyle = findMetaValue(['estilo', 'style', 'tipo'])?.toLowerCase();
-            if (metaStyle === 'editorial') itemGenerationStyle = 'editorial';
-            else if (metaStyle === 'ecommerce') itemGenerationStyle = 'ecommerce';
+            const {
+                itemGender, itemAge, itemTargetDimensions, trimmedBrand, itemScenePrompt, itemNegativePrompt,
+                itemModelNotes, combinedDescription, referenceBottomDescriptionString, identityId, itemCollection,
+            } = resolveItemSettings(item);
 
             let parentId = 'root';
-            const trimmedBrand = itemBrand.trim();
             if (trimmedBrand) {
                 console.log('currentUser.id before findOrCreateFolder:', currentUser.id);
                 const token = await getToken(); // Get fresh token here
@@ -604,80 +985,64 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 parentId = folder.id;
             }
             
+            // Compares a generated view with the garment and applies the correction plan until it matches or the rounds run out
+            const runQualityControl = async (resultDataUrl: string, clothingFile: File, viewName: string, progressPercentage: number): Promise<{ dataUrl: string; check: QualityCheck }> => {
+                let currentDataUrl = resultDataUrl;
+                const comparisons: CorrectionComparison[] = [];
+                for (let round = 0; ; round++) {
+                    handleItemProgress(`Controle de qualidade: ${viewName} (verificação ${round + 1})`, progressPercentage);
+                    // Named after the item so the QC costs are grouped with the rest of the SKU
+                    const currentFile = dataURLtoFile(currentDataUrl, item.baseName);
+                    const { plan, points } = await findClothingDifferences(clothingFile, currentFile, combinedDescription, currentUser.id, parentId);
+                    if (!plan.trim() && points.length === 0) {
+                        return { dataUrl: currentDataUrl, check: { view: viewName, passed: true, comparisons } };
+                    }
+                    if (round >= qualityControlRounds) {
+                        return { dataUrl: currentDataUrl, check: { view: viewName, passed: false, comparisons, remainingPoints: points } };
+                    }
+                    handleItemProgress(`Controle de qualidade: corrigindo ${viewName} (rodada ${round + 1}/${qualityControlRounds})`, progressPercentage);
+                    const correctedDataUrl = await applyClothingCorrection(clothingFile, currentFile, plan, currentUser.id, undefined, parentId);
+                    comparisons.push({ before: currentFile, after: dataURLtoFile(correctedDataUrl, item.baseName), points });
+                    currentDataUrl = correctedDataUrl;
+                }
+            };
+            const qualityChecks: QualityCheck[] = [];
+
+            // With several candidates per view, waits for the user's choice and flags the others in the cost ledger
+            const generateView = async (params: Parameters<typeof generateModelImage>[0], viewName: string, progressPercentage: number): Promise<ModelCandidate> => {
+                if (candidatesPerView <= 1) return generateModelImage(params);
+                const candidates = await generateModelCandidates(params, candidatesPerView);
+                let chosenIndex = 0;
+                if (candidates.length > 1) {
+                    handleItemProgress(`Aguardando a escolha do candidato: ${viewName}`, progressPercentage);
+                    chosenIndex = await requestCandidatePick(item, viewName, candidates.map(c => c.image));
+                }
+                const rejectedCostIds = candidates
+                    .filter((_, index) => index !== chosenIndex)
+                    .map(c => c.costId)
+                    .filter((id): id is string => !!id);
+                const token = await getToken();
+                if (token) {
+                    await markCostsRejected(rejectedCostIds, token).catch(err => console.error("Failed to flag rejected candidates", err));
+                }
+                return candidates[chosenIndex];
+            };
+
             handleItemProgress(`Verificando treinamento de IA...`, 1);
             const ageCharacteristics = await handleTrainAgeAgent(itemAge);
             
             handleItemProgress('Aprimorando imagens...', 2);
             const enhancedFiles: File[] = await Promise.all(
-                item.availableFiles.map(file => enhanceAndUpscaleImage(file, item.baseName, currentUser.id, undefined, parentId))
+                item.availableFiles.map(file => enhanceAndUpscaleImage(file, item.baseName, currentUser.id, undefined, parentId, trimmedBrand || undefined))
             );
 
-            // --- Start of Prompt Construction ---
-            const itemNegativePrompt = findMetaValue(['negativo', 'negative_prompt', 'prompt_negativo', 'prompt negativo', 'evitar']) || batchNegativePrompt;
-
-            // Determine the base scene description
-            let baseSceneDescription = findMetaValue(['cenário', 'cena', 'fundo', 'background', 'scene']);
-            if (!baseSceneDescription) { // If no scene in Excel, use global settings
-                baseSceneDescription = sceneNotes;
-                if (sceneTheme) {
-                    baseSceneDescription = `Tema: ${sceneTheme}. ${baseSceneDescription}`;
-                }
-            }
-
-            // Apply the style template
-            let itemScenePrompt = '';
-            if (itemGenerationStyle === 'ecommerce') {
-                itemScenePrompt = `Estilo E-commerce, fundo limpo e neutro. ${baseSceneDescription}`;
-            } else {
-                itemScenePrompt = `Estilo Editorial/Criativo, mais artístico. ${baseSceneDescription}`;
-            }
-            
-            // Determine model notes
-            let itemModelNotes = '';
-            if (item.metadata) {
-                // Combine all other metadata fields into model notes, excluding ones already used.
-                const handledKeys = new Set(['sku', 'lista de referência', 'gênero', 'genero', 'gender', 'sexo', 'idade', 'age', 'faixa etária', '(anos)', 'largura', 'width', 'altura', 'height', 'estilo', 'style', 'tipo', 'negativo', 'negative_prompt', 'prompt_negativo', 'prompt negativo', 'evitar', 'cenário', 'cena', 'fundo', 'background', 'scene']);
-                const allExcelNotes = Object.entries(item.metadata)
-                    .filter(([key]) => !handledKeys.has(key.toLowerCase()))
-                    .map(([key, value]) => `${key}: ${value}`)
-                    .join('. ');
-                itemModelNotes = allExcelNotes;
-            } else {
-                // No metadata, fall back to global model notes
-                const ageKey = agePresets.find(p => p.representativeAge.toLowerCase() === itemAge.toLowerCase())?.id || 'adult';
-                let baseModelNotes = '';
-                switch (ageKey) {
-                    case 'newborn': baseModelNotes = batchModelNotes.newborn; break;
-                    case 'baby': baseModelNotes = batchModelNotes.baby; break;
-                    case 'child': baseModelNotes = batchModelNotes.child[itemGender]; break;
-                    case 'teenager': baseModelNotes = batchModelNotes.teenager[itemGender]; break;
-                    default: baseModelNotes = batchModelNotes.adult[itemGender]; break;
-                }
-                itemModelNotes = baseModelNotes;
-            }
-            // --- End of Prompt Construction ---
-
-
-            // Combine descriptions
-            const clothingDescriptionString = item.aiStructuredDescription && !item.aiStructuredDescription.Erro
-                ? Object.entries(item.aiStructuredDescription).map(([key, value]) => `${key}: ${value}`).join(', ')
-                : '';
-            let combinedDescription = clothingDescriptionString;
-
-            // item.clothingNotes now contains both manual and spreadsheet notes.
-            if (item.clothingNotes) {
-                combinedDescription += (combinedDescription ? '\n\n' : '') + `Observações Adicionais: ${item.clothingNotes}`;
-            }
-
-            const staticReferenceModelFile = itemGender === 'male' ? maleReferenceModelFile : femaleReferenceModelFile;
+            // With a locked identity, its photos replace the static reference model
+            const staticReferenceModelFile = identityId ? null : (itemGender === 'male' ? maleReferenceModelFile : femaleReferenceModelFile);
             const referenceBottomFile = itemGender === 'male' ? maleReferenceBottomFile : femaleReferenceBottomFile;
-            const referenceBottomDescriptionObj = itemGender === 'male' ? maleReferenceBottomDescription : femaleReferenceBottomDescription;
-            const referenceBottomDescriptionString = referenceBottomDescriptionObj
-                ? Object.entries(referenceBottomDescriptionObj).map(([key, value]) => `${key}: ${value}`).join(', ')
-                : undefined;
             
             const resultDataUrls: string[] = [];
             const viewsProcessed: string[] = [];
+            const resultPromptVersions: string[][] = []; // Prompt template versions behind each result, recorded in the gallery
             let dynamicReferenceModelFile: File | null = null;
     
             const isManualEntry = !!(item.fileFront || item.fileBack || item.fileTotalLook);
@@ -704,13 +1069,14 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                     const progressPercentage = 20 + (i / manualViewsToProcess.length) * 60;
                     handleItemProgress(`Gerando vista manual: ${viewName}`, progressPercentage);
     
-                    const resultDataUrl = await generateModelImage({
+                    const { image: resultDataUrl, promptVersions } = await generateView({
                         clothingImages: [enhancedFile],
                         age: itemAge,
                         gender: itemGender,
                         scenePrompt: itemScenePrompt,
                         clothingDescription: combinedDescription,
                         referenceModelFile: dynamicReferenceModelFile || staticReferenceModelFile,
+                        identityId,
                         referenceSceneFile,
                         modelNotes: itemModelNotes,
                         negativePrompt: itemNegativePrompt,
@@ -722,13 +1088,22 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                         fitReferenceFile: referenceFitFile,
                         projectId: parentId,
                         userId: currentUser.id,
-                    });
+                        brand: trimmedBrand || undefined,
+                    }, viewName, progressPercentage);
     
-                    resultDataUrls.push(resultDataUrl);
+                    let checkedDataUrl = resultDataUrl;
+                    if (qualityControlRounds > 0) {
+                        const { dataUrl, check } = await runQualityControl(resultDataUrl, enhancedFile, viewName, progressPercentage);
+                        checkedDataUrl = dataUrl;
+                        qualityChecks.push(check);
+                    }
+
+                    resultDataUrls.push(checkedDataUrl);
                     viewsProcessed.push(viewName);
+                    resultPromptVersions.push(promptVersions);
     
                     if (!dynamicReferenceModelFile) {
-                        dynamicReferenceModelFile = dataURLtoFile(resultDataUrl, `ref-${item.baseName}.png`);
+                        dynamicReferenceModelFile = dataURLtoFile(checkedDataUrl, `ref-${item.baseName}.png`);
                     }
                 }
             } else {
@@ -747,13 +1122,21 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                          continue;
                     }
     
-                    const resultDataUrl = await generateModelImage({
-                        clothingImages: enhancedFiles,
+                    // Views that need the back photo use only the item's back photos, when there are any;
+                    // quality control compares against a photo of the same side the view was generated from
+                    const backFiles = enhancedFiles.filter((_, index) => isBackPhoto(item.availableFiles[index].name));
+                    const usesBackFiles = findViewDefinition(viewDefinitions, view).needsBackPhoto && backFiles.length > 0;
+                    const qualityReferenceFile = usesBackFiles
+                        ? backFiles[0]
+                        : enhancedFiles.find((_, index) => !isBackPhoto(item.availableFiles[index].name)) || enhancedFiles[0];
+                    const { image: resultDataUrl, promptVersions } = await generateView({
+                        clothingImages: usesBackFiles ? backFiles : enhancedFiles,
                         age: itemAge,
                         gender: itemGender,
                         scenePrompt: itemScenePrompt,
                         clothingDescription: combinedDescription,
                         referenceModelFile: dynamicReferenceModelFile || staticReferenceModelFile,
+                        identityId,
                         referenceSceneFile,
                         modelNotes: itemModelNotes,
                         negativePrompt: itemNegativePrompt,
@@ -765,13 +1148,22 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                         fitReferenceFile: referenceFitFile,
                         projectId: parentId,
                         userId: currentUser.id,
-                    });
+                        brand: trimmedBrand || undefined,
+                    }, view, progressPercentage);
                     
-                    resultDataUrls.push(resultDataUrl);
+                    let checkedDataUrl = resultDataUrl;
+                    if (qualityControlRounds > 0) {
+                        const { dataUrl, check } = await runQualityControl(resultDataUrl, qualityReferenceFile, view, progressPercentage);
+                        checkedDataUrl = dataUrl;
+                        qualityChecks.push(check);
+                    }
+
+                    resultDataUrls.push(checkedDataUrl);
                     viewsProcessed.push(view);
+                    resultPromptVersions.push(promptVersions);
     
                     if (!dynamicReferenceModelFile) {
-                        dynamicReferenceModelFile = dataURLtoFile(resultDataUrl, `ref-${item.baseName}.png`);
+                        dynamicReferenceModelFile = dataURLtoFile(checkedDataUrl, `ref-${item.baseName}.png`);
                     }
                 }
             }
@@ -782,20 +1174,16 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
             handleItemProgress('Finalizando e redimensionando...', 85);
             const finalResultUrls = (finalWidth > 0 && finalHeight > 0)
                 ? await Promise.all(resultDataUrls.map(async (url, index) => {
-                    const viewName = viewsProcessed[index] || 'result';
-                    const isTotalLook = viewName.toLowerCase().includes('total look');
+                    const { postProcess } = findViewDefinition(viewDefinitions, viewsProcessed[index] || 'result');
                     
-                    // For Total Look, use a two-stage generative expand + crop to ensure exact dimensions
-                    if (isTotalLook) {
+                    // Expanded views use a two-stage generative expand + crop to ensure exact dimensions
+                    if (postProcess === 'expand') {
                         const tempFile = dataURLtoFile(url, `temp-${index}.png`);
-                        const expandedUrl = await expandImage(tempFile, finalWidth, finalHeight, item.baseName, currentUser.id, undefined, parentId);
+                        const expandedUrl = await expandImage(tempFile, finalWidth, finalHeight, item.baseName, currentUser.id, undefined, parentId, trimmedBrand || undefined);
                         // This second step ensures pixel-perfect dimensions by cropping any minor imperfections from the AI expansion
                         return resizeAndPadDataUrl(expandedUrl, finalWidth, finalHeight, 'crop');
                     }
-                    // For other views (Crop, Detalhe), the 'crop' resize is correct.
-                    else {
-                        return resizeAndPadDataUrl(url, finalWidth, finalHeight, 'crop');
-                    }
+                    return resizeAndPadDataUrl(url, finalWidth, finalHeight, postProcess === 'pad' ? 'pad' : 'crop');
                 }))
                 : resultDataUrls;
 
@@ -808,11 +1196,13 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
             const metadataWithBrand = { ...(item.metadata || {}), marca: trimmedBrand };
             const resultFiles: File[] = [];
             const resultObjectUrls: string[] = [];
+            const results: QueueItemResult[] = [];
+            const galleryIds: string[] = [];
 
             for (let i = 0; i < finalResultUrls.length; i++) {
                 const url = finalResultUrls[i];
                 const viewName = viewsProcessed[i] || 'result';
-                const resultName = `${item.baseName}-${viewName.replace(/\s+/g, '_')}-${i}.png`;
+                const resultName = `${item.baseName}-${findViewDefinition(viewDefinitions, viewName).outputSuffix}-${i}.png`;
                 const standardizedUrl = await standardizeToPNG(url);
                 
                 const originalDataUrl = (item.availableFiles.length > 0) ? await fileToDataURL(item.availableFiles[0]) : undefined;
@@ -822,17 +1212,41 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 if (!token) {
                     throw new Error("Token de autenticação não disponível.");
                 }
-                await addImageToStorage(resultFileToStore, resultName, currentUser.id, token, originalDataUrl ? dataURLtoFile(originalDataUrl, `original-${resultName}`) : undefined, metadataWithBrand, parentId);
+                const storedImage = await addImageToStorage(resultFileToStore, resultName, currentUser.id, token, originalDataUrl ? dataURLtoFile(originalDataUrl, `original-${resultName}`) : undefined, metadataWithBrand, parentId, {
+                    operation: `batch:${viewName}`,
+                    prompt: itemScenePrompt,
+                    promptVersions: resultPromptVersions[i],
+                });
+                results.push({ view: viewName, fileName: resultName, url: storedImage.url });
+                galleryIds.push(storedImage.id);
                 const resultFile = dataURLtoFile(standardizedUrl, resultName);
                 resultFiles.push(resultFile);
                 resultObjectUrls.push(URL.createObjectURL(resultFile));
             }
 
+            // Links the item to the product catalog; a failure here does not lose the stored results
+            const productToken = await getToken();
+            if (productToken) {
+                recordProduct({
+                    sku: item.sku || item.baseName,
+                    brand: trimmedBrand,
+                    color: item.color,
+                    collection: itemCollection,
+                    description: item.aiStructuredDescription && !item.aiStructuredDescription.Erro ? item.aiStructuredDescription : undefined,
+                    metadata: item.metadata,
+                    outputs: results.map((result, index) => ({ view: result.view, name: result.fileName, url: result.url, galleryId: galleryIds[index] })),
+                }, item.availableFiles, productToken).catch(err => console.error(`Failed to record product ${item.baseName}:`, err));
+            }
+
             const duration = Date.now() - startTime;
             recordCompletion({ width: itemTargetDimensions.width, height: itemTargetDimensions.height }, duration);
             setProcessingTimes(prev => [...prev, duration]);
 
-            setQueue(prev => prev.map(q => q.id === item.id ? { ...q, status: 'done', resultFiles, resultObjectUrls, parentId } : q));
+            setQueue(prev => prev.map(q => q.id === item.id ? {
+                ...q, status: 'done', resultFiles, resultObjectUrls, results, parentId, startedAt: startTime, durationMs: duration,
+                qualityChecks: qualityChecks.length > 0 ? qualityChecks : undefined,
+                needsReview: qualityChecks.some(check => !check.passed),
+            } : q));
             setCompletedCount(prev => prev + 1);
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -841,14 +1255,26 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 cancelledSingleItems.current.delete(item.id);
                 return;
             }
-            setQueue(prev => prev.map(q => q.id === item.id ? { ...q, status: 'error' as 'error', error: errorMessage } : q));
+            setQueue(prev => prev.map(q => q.id === item.id ? { ...q, status: 'error' as 'error', error: errorMessage, errorCategory: getErrorCategory(err), startedAt: startTime, durationMs: Date.now() - startTime } : q));
             console.error(`Failed to process ${item.baseName}:`, err);
         }
     };
 
-    const handleCancelProcessing = () => {
+    const handleCancelProcessing = async () => {
+        if (serverJobId) {
+            try {
+                const token = await getToken();
+                if (!token) throw new Error("Token de autenticação não disponível.");
+                await cancelJob(serverJobId, token);
+            } catch (err) {
+                console.error('Failed to cancel the server batch job', err);
+            }
+            return; // The stream resets the items and ends the processing state
+        }
+
         isBatchCancelled.current = true;
         setIsProcessing(false); // Stop UI processing state
+        releasePendingPicks();
 
         // Reset status for items that were in the middle of processing
         setQueue(prevQueue =>
@@ -867,6 +1293,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
 
     const handleCancelSingleItem = (itemId: string) => {
         cancelledSingleItems.current.add(itemId);
+        releasePendingPicks(itemId);
         setQueue(prev => prev.map(q => 
             q.id === itemId ? { 
                 ...q, 
@@ -887,10 +1314,14 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 ...itemToProcess,
                 status: 'queued',
                 error: undefined,
+                errorCategory: undefined,
                 progressStatus: undefined,
                 progressPercentage: 0,
                 resultFiles: undefined,
                 resultObjectUrls: undefined,
+                results: undefined,
+                qualityChecks: undefined,
+                needsReview: undefined,
             }
             : { ...itemToProcess };
     
@@ -903,7 +1334,29 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         await processItem(itemToRun);
     };
 
-    const processQueue = async () => {
+    // Exports one row per SKU and view for the catalog team to import into the store backoffice
+    const handleExportManifest = async (format: ManifestFormat) => {
+        const finishedItems = queue.filter(item => item.status === 'done' || item.status === 'error');
+        if (finishedItems.length === 0) return;
+        setIsExportingManifest(true);
+        try {
+            let itemCosts = new Map<string, number>();
+            try {
+                const token = await getToken();
+                if (!token) throw new Error("Token de autenticação não disponível.");
+                itemCosts = getItemCosts(finishedItems, await getAllCosts({ userId: currentUser.id }, token));
+            } catch (err) {
+                console.error('Failed to load costs for the manifest; exporting without them', err);
+            }
+            const rows = buildManifestRows(finishedItems, item => resolveItemSettings(item).trimmedBrand || 'Raiz', itemCosts);
+            const date = new Date().toISOString().slice(0, 10);
+            downloadManifest(rows, format, `manifesto-lote-${date}`);
+        } finally {
+            setIsExportingManifest(false);
+        }
+    };
+
+    const processQueue = async (droppedItemIds: Set<string> = new Set()) => {
         isBatchCancelled.current = false;
         setIsProcessing(true);
         setCompletedCount(0);
@@ -917,7 +1370,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
             await currentUser.getIdToken(true);
         }
         
-        const queueWithResetErrors = queue.map(item => item.status === 'error' ? { ...item, status: 'queued' as const, error: undefined } : item);
+        const queueWithResetErrors = queue.filter(item => !droppedItemIds.has(item.id)).map(item => item.status === 'error' ? { ...item, status: 'queued' as const, error: undefined, errorCategory: undefined } : item);
         setQueue(queueWithResetErrors);
         const itemsToProcess = queueWithResetErrors.filter(item => item.status === 'queued');
         
@@ -939,6 +1392,82 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         setIsProcessing(false);
     };
 
+    // Sends the batch to the server, which processes it even if the browser is closed
+    const submitQueueToServer = async (droppedItemIds: Set<string> = new Set()) => {
+        setIsProcessing(true);
+        setCompletedCount(0);
+        setProcessingTimes([]);
+        setEtr('');
+
+        const queueWithResetErrors = queue.filter(item => !droppedItemIds.has(item.id)).map(item => item.status === 'error' ? { ...item, status: 'queued' as const, error: undefined, errorCategory: undefined } : item);
+        const itemsToProcess = queueWithResetErrors.filter(item => item.status === 'queued');
+        const itemIds = new Set(itemsToProcess.map(item => item.id));
+        setQueue(queueWithResetErrors.map(item => itemIds.has(item.id) ? { ...item, status: 'processing', progressStatus: 'Enviando para o servidor...', progressPercentage: 0 } : item));
+
+        try {
+            const token = await getToken();
+            if (!token) throw new Error("Token de autenticação não disponível.");
+
+            const plans: JobItemPlan[] = itemsToProcess.map(item => {
+                const settings = resolveItemSettings(item);
+                const availableNames = new Set(item.availableFiles.map(file => file.name));
+                const manualViews = [
+                    { viewName: 'Crop Frente', file: item.fileFront },
+                    { viewName: 'Crop Costas', file: item.fileBack },
+                    { viewName: 'Total Look', file: item.fileTotalLook },
+                ].flatMap(({ viewName, file }) => file && availableNames.has(file.name) ? [{ viewName, fileName: file.name }] : []);
+
+                return {
+                    clientItemId: item.id,
+                    baseName: item.baseName,
+                    gender: settings.itemGender,
+                    age: settings.itemAge,
+                    brand: settings.trimmedBrand,
+                    scenePrompt: settings.itemScenePrompt,
+                    negativePrompt: settings.itemNegativePrompt,
+                    modelNotes: settings.itemModelNotes,
+                    clothingDescription: settings.combinedDescription,
+                    referenceBottomDescription: settings.referenceBottomDescriptionString,
+                    trainedCharacteristics: trainedAgeData.get(settings.itemAge),
+                    identityId: settings.identityId,
+                    views: selectedViews,
+                    manualViews,
+                    targetDimensions: settings.itemTargetDimensions,
+                    metadata: item.metadata,
+                    sku: item.sku,
+                    color: item.color,
+                    collection: settings.itemCollection,
+                    structuredDescription: item.aiStructuredDescription && !item.aiStructuredDescription.Erro ? item.aiStructuredDescription : undefined,
+                };
+            });
+
+            const job = await createJob(plans, token);
+            await uploadJobReferences(job.id, {
+                maleReferenceModel: maleReferenceModelFile,
+                femaleReferenceModel: femaleReferenceModelFile,
+                referenceScene: referenceSceneFile,
+                referenceFit: referenceFitFile,
+                maleReferenceBottom: maleReferenceBottomFile,
+                femaleReferenceBottom: femaleReferenceBottomFile,
+            }, token);
+            for (const jobItem of job.items) {
+                const item = itemsToProcess.find(q => q.id === jobItem.clientItemId);
+                if (item && item.availableFiles.length > 0) {
+                    await uploadJobItemFiles(job.id, jobItem.id, item.availableFiles, token);
+                }
+            }
+            await startJob(job.id, token);
+
+            setActiveJobId(currentUser.id, job.id);
+            followServerJob(job.id);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Falha ao enviar o lote para o servidor.';
+            console.error('Failed to submit the batch to the server', err);
+            setQueue(prev => prev.map(item => itemIds.has(item.id) ? { ...item, status: 'error', progressStatus: undefined, error: errorMessage } : item));
+            setIsProcessing(false);
+        }
+    };
+
     const handleDownload = useCallback(async (file: File) => {
         try {
             const dataUrl = await fileToDataURL(file);
@@ -1046,6 +1575,47 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         );
     };
 
+    const hasLowConfidence = (item: QueueItem) =>
+        Object.keys(item.aiDescriptionEvidence || {}).some(key => item.aiDescriptionEvidence![key].confidence < LOW_CONFIDENCE_THRESHOLD);
+
+    const hasUsableDescription = (item: QueueItem) => !!item.aiStructuredDescription && !item.aiStructuredDescription.Erro;
+
+    /**
+     * Generates the store copy of the items from their AI description and spreadsheet row, one item at a time.
+     * The new languages are merged into the copy the item already has.
+     */
+    const handleGenerateCopy = async (items: QueueItem[], languages: CopyLanguage[] = copyLanguages) => {
+        const targets = items.filter(hasUsableDescription);
+        if (targets.length === 0 || languages.length === 0) return;
+        setCopyError(null);
+        const targetIds = new Set(targets.map(item => item.id));
+        setQueue(prev => prev.map(q => targetIds.has(q.id) ? { ...q, isGeneratingCopy: true } : q));
+
+        let failures = 0;
+        for (const item of targets) {
+            try {
+                const copy = await generateProductCopy({
+                    description: item.aiStructuredDescription!,
+                    metadata: item.metadata,
+                    brand: resolveItemSettings(item).trimmedBrand,
+                    languages,
+                    imageName: item.baseName,
+                });
+                setQueue(prev => prev.map(q => q.id === item.id ? { ...q, productCopy: { ...q.productCopy, ...copy }, isGeneratingCopy: false } : q));
+            } catch (err) {
+                console.error(`Failed to generate copy for ${item.baseName}`, err);
+                failures++;
+                setQueue(prev => prev.map(q => q.id === item.id ? { ...q, isGeneratingCopy: false } : q));
+            }
+        }
+        if (failures > 0) setCopyError(`Falha ao gerar os textos de ${failures} item(ns). Tente novamente.`);
+    };
+
+    const handleSaveCopy = (itemId: string, copy: ProductCopySet) => {
+        setQueue(prev => prev.map(item => item.id === itemId ? { ...item, productCopy: copy } : item));
+        setCopyItemId(null);
+    };
+
     const renderStatusOverlay = (item: QueueItem) => {
         switch(item.status) {
             case 'processing': return (
@@ -1059,12 +1629,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
         }
     }
     
-    const viewsToGenerate: { id: string, label: string }[] = [
-        { id: 'Total Look', label: 'Look Completo' },
-        { id: 'Crop Frente', label: 'Crop Frente' },
-        { id: 'Crop Costas', label: 'Crop Costas' },
-        { id: 'Detalhe', label: 'Detalhe' },
-    ];
+    const viewsToGenerate: { id: string, label: string }[] = viewDefinitions.map(view => ({ id: view.name, label: view.name }));
 
     const handleViewSelectionChange = (view: string) => {
         setSelectedViews(prev =>
@@ -1077,6 +1642,9 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
     const referenceModelFile = modelGender === 'male' ? maleReferenceModelFile : femaleReferenceModelFile;
     const setReferenceModelFile = modelGender === 'male' ? setMaleReferenceModelFile : setFemaleReferenceModelFile;
     const referenceModelLabel = `Modelo (${modelGender === 'male' ? 'Masculino' : 'Feminino'})`;
+    const genderIdentities = identities.filter(identity => identity.gender === modelGender);
+    const brandIdentity = identities.find(identity => identity.id === resolveIdentityId(identities, '', modelGender, brand));
+    const activeIdentity = identities.find(identity => identity.id === resolveIdentityId(identities, batchIdentityIds[modelGender], modelGender, brand));
 
     const referenceBottomFile = modelGender === 'male' ? maleReferenceBottomFile : femaleReferenceBottomFile;
     const setReferenceBottomFile = modelGender === 'male' ? setMaleReferenceBottomFile : setFemaleReferenceBottomFile;
@@ -1089,6 +1657,46 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
     const itemsToProcessCount = useMemo(() => queue.filter(i => i.status === 'queued' || i.status === 'error').length, [queue]);
     const isAnalyzingAny = useMemo(() => queue.some(item => item.isDescribing), [queue]);
     const buttonText = isProcessing ? 'Processando...' : `Iniciar Processamento (${itemsToProcessCount})`;
+    const isBudgetExceeded = budgetStatuses.some(status => status.state === 'exceeded');
+
+    // Batch report: finished items and failures grouped by category
+    const doneCount = queue.filter(item => item.status === 'done').length;
+    const failedItems = queue.filter(item => item.status === 'error');
+    const reviewCount = queue.filter(item => item.status === 'done' && item.needsReview).length;
+    const failuresByCategory: Partial<Record<AiErrorCategory | 'other', number>> = {};
+    failedItems.forEach(item => {
+        const key = item.errorCategory || 'other';
+        failuresByCategory[key] = (failuresByCategory[key] || 0) + 1;
+    });
+
+    // Pre-flight estimate of the items that would be processed (only computed while the modal is open)
+    const reviewItem = reviewItemId ? queue.find(item => item.id === reviewItemId) : undefined;
+
+    const batchEstimate = isEstimateOpen ? estimateBatch(
+        queue.filter(item => item.status === 'queued' || item.status === 'error'),
+        {
+            selectedViews,
+            viewDefinitions,
+            targetDimensions,
+            modelAge,
+            modelGender,
+            referenceImageCount: activeIdentity
+                ? activeIdentity.faceImages.length + activeIdentity.bodyImages.length + [referenceSceneFile, referenceBottomFile].filter(Boolean).length
+                : [referenceModelFile, referenceSceneFile, referenceBottomFile].filter(Boolean).length,
+            hasFitReference: !!referenceFitFile,
+            qualityControlRounds: runOnServer ? 0 : qualityControlRounds,
+            candidatesPerView: runOnServer ? 1 : candidatesPerView,
+            isAgeTrained: age => trainedAgeData.has(age),
+            concurrency: CONCURRENCY_LIMIT,
+        },
+    ) : null;
+
+    const handleConfirmEstimate = (droppedItemIds: Set<string>) => {
+        setIsEstimateOpen(false);
+        droppedItemIds.forEach(handleRemoveItem);
+        if (runOnServer) submitQueueToServer(droppedItemIds);
+        else processQueue(droppedItemIds);
+    };
 
     return (
         <>
@@ -1100,15 +1708,60 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                  <div className="bg-white p-4 rounded-lg border border-gray-200">
                     <h3 className="text-md font-semibold text-gray-700 mb-3 text-center">Presets</h3>
                     <div className="flex items-center gap-2">
-                        <select onChange={(e) => handleLoadPreset(e.target.value)} className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" disabled={isProcessing}>
+                        <select value={activePresetId} onChange={(e) => handleLoadPreset(e.target.value)} className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" disabled={isProcessing || isPresetBusy}>
                             <option value="">Carregar Preset...</option>
-                            {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                            {ownPresets.length > 0 && (
+                                <optgroup label="Meus presets">
+                                    {ownPresets.map(p => <option key={p.id} value={p.id}>{p.name}{p.brand ? ` (${p.brand})` : ''}{p.visibility === 'team' ? ' · equipe' : ''}</option>)}
+                                </optgroup>
+                            )}
+                            {teamPresets.length > 0 && (
+                                <optgroup label="Equipe">
+                                    {teamPresets.map(p => <option key={p.id} value={p.id}>{p.name}{p.brand ? ` (${p.brand})` : ''}</option>)}
+                                </optgroup>
+                            )}
                         </select>
                     </div>
+                    {activePreset && (
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs">
+                            <span className="text-gray-500">Versão {activePreset.version}</span>
+                            <button onClick={handleSavePresetVersion} className="font-semibold text-blue-600 hover:underline disabled:text-gray-400" disabled={isProcessing || isPresetBusy}>Salvar nova versão</button>
+                            <button onClick={() => setIsPresetHistoryOpen(true)} className="font-semibold text-blue-600 hover:underline disabled:text-gray-400" disabled={isPresetBusy}>Histórico</button>
+                            <button onClick={handleExportPreset} className="font-semibold text-blue-600 hover:underline disabled:text-gray-400" disabled={isPresetBusy}>Exportar</button>
+                            {canManageActivePreset && (
+                                <>
+                                    <button onClick={handleTogglePresetVisibility} className="font-semibold text-blue-600 hover:underline disabled:text-gray-400" disabled={isPresetBusy}>
+                                        {activePreset.visibility === 'team' ? 'Tornar privado' : 'Compartilhar com a equipe'}
+                                    </button>
+                                    <button onClick={handleDeletePreset} className="font-semibold text-red-600 hover:underline disabled:text-gray-400" disabled={isProcessing || isPresetBusy}>Remover</button>
+                                </>
+                            )}
+                        </div>
+                    )}
                     <div className="flex items-center gap-2 mt-2">
                         <input type="text" value={newPresetName} onChange={(e) => setNewPresetName(e.target.value)} placeholder="Nome do novo preset" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" disabled={isProcessing} />
-                        <button onClick={handleSavePreset} className="bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 disabled:bg-gray-400" disabled={!newPresetName.trim() || isProcessing}>Salvar</button>
+                        <select value={newPresetVisibility} onChange={(e) => setNewPresetVisibility(e.target.value as PresetVisibility)} className="bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" disabled={isProcessing}>
+                            <option value="private">Privado</option>
+                            <option value="team">Equipe</option>
+                        </select>
+                        <button onClick={handleSavePreset} className="bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 disabled:bg-gray-400" disabled={!newPresetName.trim() || isProcessing || isPresetBusy}>Salvar</button>
                     </div>
+                    <div className="flex items-center justify-between mt-2">
+                        <p className="text-xs text-gray-500">O preset guarda também as imagens de referência.</p>
+                        <button onClick={() => presetImportInputRef.current?.click()} className="text-xs font-semibold text-blue-600 hover:underline disabled:text-gray-400" disabled={isProcessing || isPresetBusy}>Importar JSON</button>
+                        <input
+                            ref={presetImportInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImportPreset(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                    {presetError && <p className="text-xs text-red-600 mt-2">{presetError}</p>}
                 </div>
 
                 <AccordionSection title="1. Modelo e Roupas" icon={UserIcon} defaultOpen>
@@ -1159,6 +1812,23 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                            <ReferenceSceneUploader label="Referência de Caimento" file={referenceFitFile} onFileChange={setReferenceFitFile} disabled={isProcessing} />
                            <ReferenceBottomUploader label={referenceBottomLabel} file={referenceBottomFile} onFileChange={setReferenceBottomFile} disabled={isProcessing} isLoading={isAnalyzingBottom} description={referenceBottomDescription ? Object.entries(referenceBottomDescription).map(([k,v]) => `${k}: ${v}`).join('\n') : null} />
                        </div>
+                       <div>
+                           <div className="flex items-center justify-between mb-1">
+                               <label htmlFor="batch-identity" className="block text-sm font-medium text-gray-600">Identidade do Modelo ({modelGender === 'male' ? 'Masculino' : 'Feminino'})</label>
+                               <button onClick={() => setIsIdentityModalOpen(true)} className="text-xs text-blue-600 hover:underline">Gerenciar casting</button>
+                           </div>
+                           <select
+                               id="batch-identity"
+                               value={batchIdentityIds[modelGender]}
+                               onChange={e => setBatchIdentityIds(prev => ({ ...prev, [modelGender]: e.target.value }))}
+                               disabled={isProcessing}
+                               className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500"
+                           >
+                               <option value="">{brandIdentity ? `Padrão da marca (${brandIdentity.name})` : 'Nenhuma (um rosto por item)'}</option>
+                               {genderIdentities.map(identity => <option key={identity.id} value={identity.id}>{identity.name}{identity.age ? ` · ${identity.age}` : ''}</option>)}
+                           </select>
+                           <p className="text-xs text-gray-500 mt-1">Usa o mesmo rosto e tipo físico em todos os itens do lote. Substitui a foto de referência do modelo.</p>
+                       </div>
                        <div>
                            <label className="block text-sm font-medium text-gray-600 mb-1">Observações do Modelo</label>
                            <textarea
@@ -1207,6 +1877,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                         </div>
                         <div>
                             <p className="text-sm font-semibold text-gray-700 text-center mb-2">Vistas a Gerar (para Arrastar e Soltar)</p>
+                            {viewsToGenerate.length === 0 && <p className="text-xs text-gray-500 text-center">Carregando vistas...</p>}
                             <div className="grid grid-cols-2 gap-2">
                                 {viewsToGenerate.map(view => (
                                     <label key={view.id} className="flex items-center gap-2 text-sm font-medium text-gray-800 cursor-pointer p-2 rounded-md hover:bg-gray-100 transition">
@@ -1215,6 +1886,9 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                     </label>
                                 ))}
                             </div>
+                            {currentUser.role === 'admin' && (
+                                <button onClick={() => setIsViewCatalogOpen(true)} className="mt-2 w-full text-xs font-semibold text-blue-600 hover:underline" disabled={isProcessing}>Gerenciar vistas</button>
+                            )}
                         </div>
                         <div className="border-t border-gray-200 pt-4">
                              <p className="text-sm font-semibold text-gray-700 text-center mb-2">Dimensões Finais</p>
@@ -1224,9 +1898,64 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                 <div><label htmlFor="batch-resize-height" className="block text-xs font-medium text-gray-500 mb-1 text-center">Altura</label><input id="batch-resize-height" type="number" value={targetDimensions.height} placeholder="px" onChange={handleHeightChange} disabled={isProcessing} className="w-full bg-white border p-2 text-sm text-center focus:ring-2 focus:ring-blue-500 rounded-lg" /></div>
                             </div>
                         </div>
+                        <div className="border-t border-gray-200 pt-4">
+                            <label htmlFor="batch-qc-rounds" className="block text-sm font-medium text-gray-600 mb-1">Controle de Qualidade</label>
+                            <select id="batch-qc-rounds" value={qualityControlRounds} onChange={e => setQualityControlRounds(Number(e.target.value))} disabled={isProcessing} className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500">
+                                <option value={0}>Desligado</option>
+                                <option value={1}>Até 1 rodada de correção</option>
+                                <option value={2}>Até 2 rodadas de correção</option>
+                                <option value={3}>Até 3 rodadas de correção</option>
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">Compara cada vista gerada com a peça e corrige as diferenças. Itens que continuarem diferentes são marcados para revisão.</p>
+                        </div>
+                        <div className="border-t border-gray-200 pt-4">
+                            <label htmlFor="batch-candidates" className="block text-sm font-medium text-gray-600 mb-1">Candidatos por Vista</label>
+                            <select id="batch-candidates" value={candidatesPerView} onChange={e => setCandidatesPerView(Number(e.target.value))} disabled={isProcessing} className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500">
+                                {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count === 1 ? '1 (sem escolha)' : `${count} candidatos`}</option>)}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">Gera vários resultados de cada vista e pausa o item até você escolher o melhor. Todos os candidatos são cobrados.</p>
+                        </div>
                     </div>
                 </AccordionSection>
                 
+                <AccordionSection title="4. Textos de E-commerce" icon={SparklesIcon}>
+                    <div className="flex flex-col gap-3">
+                        <div>
+                            <p className="block text-sm font-medium text-gray-600 mb-1">Idiomas</p>
+                            <div className="flex gap-4">
+                                {COPY_LANGUAGES.map(language => (
+                                    <label key={language} className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={copyLanguages.includes(language)}
+                                            onChange={() => setCopyLanguages(prev => prev.includes(language) ? prev.filter(l => l !== language) : COPY_LANGUAGES.filter(l => l === language || prev.includes(l)))}
+                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        {copyLanguageLabels[language]}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            {findBrandTone(brandTones, brand)
+                                ? `Usando o tom de voz cadastrado para ${findBrandTone(brandTones, brand)!.brand}.`
+                                : 'Sem tom de voz cadastrado para esta marca; os textos usam um tom neutro de loja.'}
+                        </p>
+                        <button
+                            onClick={() => handleGenerateCopy(queue.filter(item => copyLanguages.some(language => !item.productCopy?.[language])))}
+                            disabled={copyLanguages.length === 0 || queue.some(item => item.isGeneratingCopy) || !queue.some(item => hasUsableDescription(item) && copyLanguages.some(language => !item.productCopy?.[language]))}
+                            className="w-full bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                        >
+                            {queue.some(item => item.isGeneratingCopy) ? 'Gerando textos...' : 'Gerar textos que faltam'}
+                        </button>
+                        <p className="text-xs text-gray-500">Gera título, descrições, tópicos e SEO a partir da análise da IA e da planilha. Os textos entram no manifesto exportado.</p>
+                        {copyError && <p className="text-xs text-red-600">{copyError}</p>}
+                        {currentUser.role === 'admin' && (
+                            <button onClick={() => setIsBrandToneOpen(true)} className="w-full text-xs font-semibold text-blue-600 hover:underline">Gerenciar tom de voz</button>
+                        )}
+                    </div>
+                </AccordionSection>
+
                 <AccordionSection title="Dados & Organização" icon={DocumentArrowUpIcon}>
                     <div className="flex flex-col gap-4">
                          <div>
@@ -1240,13 +1969,40 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                 <span className="truncate max-w-[200px]">{excelFileName || 'Carregar Excel (SKU)'}</span>
                             </label>
                             <input id="excel-upload" type="file" onChange={handleExcelUpload} accept=".xlsx, .xls" className="hidden"/>
+                            {excelSheet && (
+                                <button onClick={handleEditColumnMapping} disabled={isProcessing} className="mt-2 w-full text-sm text-blue-600 hover:underline disabled:text-gray-400">
+                                    Editar mapeamento de colunas
+                                </button>
+                            )}
                         </div>
+                        {currentUser.role === 'admin' && (
+                            <button onClick={() => setIsVocabularyOpen(true)} disabled={isProcessing} className="w-full text-xs font-semibold text-blue-600 hover:underline">Gerenciar vocabulário de atributos</button>
+                        )}
                     </div>
                 </AccordionSection>
 
                 <div className="mt-4 border-t pt-4">
+                    {!isProcessing && budgetStatuses.length > 0 && (
+                        <div className={`mb-3 p-3 rounded-lg border text-sm ${isBudgetExceeded ? 'bg-red-50 border-red-200 text-red-800' : budgetStatuses.some(s => s.state === 'warning') ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+                            {budgetStatuses.map(status => (
+                                <p key={`${status.scope}-${status.targetId}`}>
+                                    Orçamento {status.scope === 'user' ? 'do usuário' : `do projeto "${brand.trim()}"`}: <span className="font-semibold">{formatUsd(status.remaining)}</span> restantes de {formatUsd(status.monthlyLimit)}
+                                </p>
+                            ))}
+                            {isBudgetExceeded && <p className="font-semibold mt-1">Orçamento esgotado: o processamento está bloqueado.</p>}
+                        </div>
+                    )}
+                    {!isProcessing && (
+                        <label className="flex items-start gap-2 mb-3 text-sm text-gray-700 cursor-pointer">
+                            <input type="checkbox" checked={runOnServer} onChange={e => setRunOnServer(e.target.checked)} className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                            <span>Processar no servidor <span className="block text-xs text-gray-500">Você pode fechar o navegador; os resultados vão para a galeria.</span>
+                                {runOnServer && qualityControlRounds > 0 && <span className="block text-xs text-amber-700">O controle de qualidade automático só é feito no processamento local.</span>}
+                                {runOnServer && candidatesPerView > 1 && <span className="block text-xs text-amber-700">A escolha entre candidatos só é feita no processamento local; o servidor gera um resultado por vista.</span>}
+                            </span>
+                        </label>
+                    )}
                     {!isProcessing ? (
-                        <button onClick={processQueue} disabled={itemsToProcessCount === 0 || isAnalyzingAny || !currentAgeForGender.trim()} className="w-full flex items-center justify-center gap-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg shadow-lg hover:shadow-xl active:scale-95 text-base disabled:from-gray-500 disabled:shadow-none disabled:cursor-not-allowed">
+                        <button onClick={() => setIsEstimateOpen(true)} disabled={itemsToProcessCount === 0 || isAnalyzingAny || !currentAgeForGender.trim() || isBudgetExceeded} className="w-full flex items-center justify-center gap-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg shadow-lg hover:shadow-xl active:scale-95 text-base disabled:from-gray-500 disabled:shadow-none disabled:cursor-not-allowed">
                             <ArrowPathIcon className="w-5 h-5"/>
                             <span>{buttonText}</span>
                         </button>
@@ -1262,9 +2018,22 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                 </div>
                                 <p className="text-sm text-gray-600 mt-2">{`Processando... ${completedCount} de ${queue.length} concluídos.`}</p>
                                 {etr && <p className="text-sm font-bold text-gray-800 mt-1">{etr}</p>}
+                                {serverJobId && <p className="text-xs text-gray-500 mt-1">Lote em processamento no servidor: você pode fechar o navegador.</p>}
                             </div>
                         </div>
                     )}
+                    {!isProcessing && (failedItems.length > 0 || reviewCount > 0) && (
+                        <div className="mt-3 p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-700">
+                            <p className="font-semibold">Relatório do lote</p>
+                            <p>{doneCount} concluído(s), {failedItems.length} com erro</p>
+                            {reviewCount > 0 && <p className="text-amber-700">{reviewCount} item(ns) marcado(s) para revisão pelo controle de qualidade</p>}
+                            <ul className="mt-1 text-xs text-red-700 list-disc list-inside">
+                                {Object.entries(failuresByCategory).map(([category, count]) => (
+                                    <li key={category}>{category === 'other' ? 'Outros erros' : aiErrorCategoryLabels[category as AiErrorCategory]}: {count}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -1274,6 +2043,18 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                     <div className="flex flex-wrap items-center gap-2">
                         <button onClick={clearQueue} disabled={isProcessing} className="bg-red-500 text-white font-semibold py-2 px-4 rounded-lg hover:bg-red-600 active:scale-95 disabled:bg-gray-400">Limpar Fila</button>
                         <button onClick={onNavigateToGallery} className="bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-700">Ver Galeria</button>
+                        {(['xlsx', 'csv'] as const).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExportManifest(format)}
+                                disabled={isProcessing || isExportingManifest || (doneCount + failedItems.length) === 0}
+                                className="flex items-center gap-2 bg-green-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                                title="Manifesto com uma linha por SKU e vista"
+                            >
+                                <ArrowDownTrayIcon className="w-4 h-4" />
+                                Manifesto {format.toUpperCase()}
+                            </button>
+                        ))}
                     </div>
                 </div>
 
@@ -1380,18 +2161,40 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                                 <div className="flex items-center gap-2 min-w-0">
                                                     <h4 className="font-bold text-gray-800 truncate" title={item.baseName}>{item.baseName}</h4>
                                                     {item.isDescribing && <SmallSpinner />}
+                                                    {item.qualityChecks && (
+                                                        <button
+                                                            onClick={() => setReviewItemId(item.id)}
+                                                            className={`flex-shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full ${item.needsReview ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-green-100 text-green-800 hover:bg-green-200'}`}
+                                                            title="Ver o controle de qualidade"
+                                                        >
+                                                            {item.needsReview ? 'Revisar QC' : 'QC OK'}
+                                                        </button>
+                                                    )}
                                                     {item.aiStructuredDescription && !item.aiStructuredDescription.Erro && (
                                                         <div className="relative group flex-shrink-0">
-                                                            <SparklesIcon className="w-5 h-5 text-blue-500 cursor-help" />
+                                                            <SparklesIcon className={`w-5 h-5 cursor-help ${hasLowConfidence(item) ? 'text-amber-500' : 'text-blue-500'}`} />
                                                             <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-80 p-3 text-sm text-white bg-gray-900 rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20 text-left">
                                                                 <h5 className="font-bold mb-2 border-b border-gray-600 pb-1">Análise da IA</h5>
                                                                 <div className="space-y-1 max-h-64 overflow-y-auto pr-2 text-xs">
-                                                                    {Object.entries(item.aiStructuredDescription).map(([key, value]) => (
-                                                                        <div key={key}>
-                                                                            <span className="font-semibold text-gray-300 capitalize">{key.replace(/_/g, ' ')}:</span>
-                                                                            <p className="text-gray-100 whitespace-normal pl-2">{String(value)}</p>
-                                                                        </div>
-                                                                    ))}
+                                                                    {Object.entries(item.aiStructuredDescription).map(([key, value]) => {
+                                                                        const evidence = item.aiDescriptionEvidence?.[key];
+                                                                        return (
+                                                                            <div key={key}>
+                                                                                <span className="font-semibold text-gray-300 capitalize">{key.replace(/_/g, ' ')}:</span>
+                                                                                {evidence && (
+                                                                                    <span className={`ml-1 text-[10px] ${evidence.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-amber-300' : 'text-gray-400'}`}>
+                                                                                        {Math.round(evidence.confidence * 100)}% · {describeRoleLabels[evidence.source]}
+                                                                                    </span>
+                                                                                )}
+                                                                                <p className="text-gray-100 whitespace-normal pl-2 flex flex-wrap items-center gap-1">
+                                                                                    {findColorSwatches(vocabularies, key, String(value)).map(swatch => (
+                                                                                        <span key={swatch.value} className="inline-block w-3 h-3 rounded-full border border-gray-500" style={{ backgroundColor: swatch.hex }} title={swatch.value} />
+                                                                                    ))}
+                                                                                    {String(value)}
+                                                                                </p>
+                                                                            </div>
+                                                                        );
+                                                                    })}
                                                                 </div>
                                                             </div>
                                                         </div>
@@ -1414,7 +2217,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                                 ) : item.excelMatch === true && item.metadata ? (
                                                     <div className="space-y-1 text-xs text-gray-600 bg-green-50 p-2 rounded-md border border-green-200 max-h-24 overflow-y-auto">
                                                         <h5 className="font-bold text-green-800 text-xs mb-1 pb-1 border-b border-green-200">Dados da Planilha Encontrados</h5>
-                                                        {Object.entries(item.metadata).filter(([key]) => key.toLowerCase() !== 'sku' && key.toLowerCase() !== 'lista de referência').map(([key, value]) => (
+                                                        {Object.entries(item.metadata).filter(([key]) => key !== columnMapping?.sku && key.toLowerCase() !== 'lista de referência').map(([key, value]) => (
                                                             <p key={key} className="truncate" title={`${key}: ${String(value)}`}>
                                                                 <span className="font-semibold capitalize">{key.replace(/_/g, ' ')}:</span> {String(value)}
                                                             </p>
@@ -1427,9 +2230,30 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                                                 )}
                                             </div>
 
+                                            {hasUsableDescription(item) && (
+                                                <div className="flex items-center justify-between gap-2 mb-2 text-xs">
+                                                    <span className="text-gray-500 truncate">
+                                                        {item.isGeneratingCopy
+                                                            ? 'Gerando textos...'
+                                                            : item.productCopy && Object.keys(item.productCopy).length > 0
+                                                                ? `Textos: ${COPY_LANGUAGES.filter(language => item.productCopy?.[language]).map(language => copyLanguageLabels[language]).join(', ')}`
+                                                                : 'Sem textos de e-commerce'}
+                                                    </span>
+                                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                                        {!item.productCopy && (
+                                                            <button onClick={() => handleGenerateCopy([item])} disabled={item.isGeneratingCopy || copyLanguages.length === 0} className="font-semibold text-blue-600 hover:underline disabled:text-gray-400">Gerar textos</button>
+                                                        )}
+                                                        {item.productCopy && (
+                                                            <button onClick={() => setCopyItemId(item.id)} disabled={item.isGeneratingCopy} className="font-semibold text-blue-600 hover:underline disabled:text-gray-400">Editar textos</button>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            )}
+
                                             {item.status === 'error' && (
                                                 <div className="text-red-600 p-2 bg-red-50 rounded-md border border-red-200 mt-2">
-                                                    <p className="font-bold text-sm">Erro!</p>
+                                                    <p className="font-bold text-sm">{item.errorCategory ? `Erro: ${aiErrorCategoryLabels[item.errorCategory]}` : 'Erro!'}</p>
+                                                    {item.errorCategory && <p className="text-xs mt-1">{aiErrorCategoryHints[item.errorCategory]}</p>}
                                                     <p className="text-xs mt-1 break-all" title={item.error}>{item.error}</p>
                                                 </div>
                                             )}
@@ -1517,6 +2341,106 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = (props) => {
                 )}
             </div>
         </div>
+        {batchEstimate && (
+            <BatchEstimateModal
+                isOpen={isEstimateOpen}
+                estimate={batchEstimate}
+                budgetStatuses={budgetStatuses}
+                concurrency={CONCURRENCY_LIMIT}
+                onClose={() => setIsEstimateOpen(false)}
+                onConfirm={handleConfirmEstimate}
+            />
+        )}
+        {reviewItem?.qualityChecks && (
+            <QualityReviewModal
+                isOpen={true}
+                itemName={reviewItem.baseName}
+                checks={reviewItem.qualityChecks}
+                onClose={() => setReviewItemId(null)}
+            />
+        )}
+        {isPresetHistoryOpen && (
+            <PresetHistoryModal
+                preset={activePreset}
+                getToken={getToken}
+                onClose={() => setIsPresetHistoryOpen(false)}
+                onRestored={handlePresetRestored}
+            />
+        )}
+        <ViewCatalogModal
+            isOpen={isViewCatalogOpen}
+            views={viewDefinitions}
+            getToken={getToken}
+            onViewsChange={setViewDefinitions}
+            onClose={() => setIsViewCatalogOpen(false)}
+        />
+        <BrandToneModal
+            isOpen={isBrandToneOpen}
+            tones={brandTones}
+            initialBrand={brand}
+            getToken={getToken}
+            onTonesChange={setBrandTones}
+            onClose={() => setIsBrandToneOpen(false)}
+        />
+        <VocabularyModal
+            isOpen={isVocabularyOpen}
+            vocabularies={vocabularies}
+            getToken={getToken}
+            onVocabulariesChange={setVocabularies}
+            onClose={() => setIsVocabularyOpen(false)}
+        />
+        {copyItemId && queue.some(item => item.id === copyItemId) && (() => {
+            const copyItem = queue.find(item => item.id === copyItemId)!;
+            return (
+                <ProductCopyModal
+                    isOpen={true}
+                    itemName={copyItem.baseName}
+                    copy={copyItem.productCopy || {}}
+                    isGenerating={!!copyItem.isGeneratingCopy}
+                    onRegenerate={language => handleGenerateCopy([copyItem], [language])}
+                    onSave={copy => handleSaveCopy(copyItem.id, copy)}
+                    onClose={() => setCopyItemId(null)}
+                />
+            );
+        })()}
+        <ModelIdentityModal
+            isOpen={isIdentityModalOpen}
+            identities={identities}
+            currentUser={currentUser}
+            getToken={getToken}
+            onIdentitiesChange={setIdentities}
+            onClose={() => setIsIdentityModalOpen(false)}
+        />
+        {pendingPicks.length > 0 && (
+            <CandidatePickerModal
+                isOpen={true}
+                title={`${pendingPicks[0].itemName}: ${pendingPicks[0].view}${pendingPicks.length > 1 ? ` (+${pendingPicks.length - 1} aguardando)` : ''}`}
+                candidates={pendingPicks[0].candidates}
+                onSelect={index => handleCandidatePicked(pendingPicks[0].id, index)}
+            />
+        )}
+        {pendingFiles && (
+            <FileGroupingModal
+                isOpen={true}
+                files={pendingFiles}
+                brand={brand}
+                onClose={() => setPendingFiles(null)}
+                onApply={handleApplyGrouping}
+            />
+        )}
+        {pendingSheet && (
+            <ColumnMappingModal
+                isOpen={true}
+                fileName={pendingSheet.fileName}
+                headers={pendingSheet.headers}
+                sampleRows={pendingSheet.rows.slice(0, 5)}
+                initialMapping={pendingSheet.mapping}
+                initialProfileName={pendingSheet.profileName}
+                brand={brand}
+                onClose={() => setPendingSheet(null)}
+                onApply={handleApplyColumnMapping}
+            />
+        )}
         <AddProductModal
             isOpen={isAddProductModalOpen}
             onClose={() => setIsAddProductModalOpen(false)}
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+    COPY_LANGUAGES, copyLanguageLabels, saveBrandTone, deleteBrandTone,
+    type BrandTone, type BrandToneInput, type CopyLanguage,
+} from '../services/copyService';
+import { TrashIcon, XMarkIcon, PlusIcon } from './icons';
+
+interface BrandToneModalProps {
+    isOpen: boolean;
+    tones: BrandTone[];
+    initialBrand: string;
+    getToken: () => Promise<string | null>;
+    onTonesChange: (tones: BrandTone[]) => void;
+    onClose: () => void;
+}
+
+const emptyForm = (brand: string): BrandToneInput => ({
+    brand, voice: '', audience: '', preferredTerms: '', avoidTerms: '', languages: ['pt-BR'],
+});
+
+const toForm = ({ brand, voice, audience, preferredTerms, avoidTerms, languages }: BrandTone): BrandToneInput => ({
+    brand, voice, audience, preferredTerms, avoidTerms, languages,
+});
+
+// Admin settings of each brand's tone of voice, applied to the generated store copy
+const BrandToneModal: React.FC<BrandToneModalProps> = ({ isOpen, tones, initialBrand, getToken, onTonesChange, onClose }) => {
+    const [form, setForm] = useState<BrandToneInput | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const current = tones.find(tone => tone.brand.trim().toLowerCase() === initialBrand.trim().toLowerCase());
+        setForm(current ? toForm(current) : initialBrand.trim() ? emptyForm(initialBrand.trim()) : null);
+        setError(null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const toggleLanguage = (language: CopyLanguage) => {
+        if (!form) return;
+        const languages = form.languages.includes(language)
+            ? form.languages.filter(l => l !== language)
+            : COPY_LANGUAGES.filter(l => l === language || form.languages.includes(l));
+        setForm({ ...form, languages });
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            const saved = await saveBrandTone({ ...form, brand: form.brand.trim() }, token);
+            onTonesChange([...tones.filter(tone => tone.id !== saved.id), saved].sort((a, b) => a.brand.localeCompare(b.brand)));
+            setForm(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao salvar o tom de voz.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (tone: BrandTone) => {
+        if (!window.confirm(`Remover o tom de voz de "${tone.brand}"?`)) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            await deleteBrandTone(tone.id, token);
+            onTonesChange(tones.filter(t => t.id !== tone.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao remover o tom de voz.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Tom de Voz das Marcas</h2>
+                        <p className="text-sm text-gray-600">Orienta os títulos, descrições e textos de SEO gerados para cada marca.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+
+                <div className="overflow-y-auto flex flex-col gap-4">
+                    {form ? (
+                        <div className="flex flex-col gap-3 border border-gray-200 rounded-lg p-4">
+                            <div>
+                                <label htmlFor="tone-brand" className="block text-sm font-medium text-gray-700 mb-1">Marca</label>
+                                <input id="tone-brand" type="text" value={form.brand} onChange={e => setForm({ ...form, brand: e.target.value })} disabled={isSaving} className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="tone-voice" className="block text-sm font-medium text-gray-700 mb-1">Tom de voz</label>
+                                <textarea id="tone-voice" value={form.voice} onChange={e => setForm({ ...form, voice: e.target.value })} disabled={isSaving} rows={2}
+                                    placeholder="Ex: Descontraído e próximo, frases curtas, sem exageros" className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="tone-audience" className="block text-sm font-medium text-gray-700 mb-1">Público-alvo</label>
+                                <input id="tone-audience" type="text" value={form.audience} onChange={e => setForm({ ...form, audience: e.target.value })} disabled={isSaving}
+                                    placeholder="Ex: Mulheres de 25 a 40 anos, urbanas" className={inputClass} />
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                    <label htmlFor="tone-preferred" className="block text-sm font-medium text-gray-700 mb-1">Termos preferidos</label>
+                                    <input id="tone-preferred" type="text" value={form.preferredTerms} onChange={e => setForm({ ...form, preferredTerms: e.target.value })} disabled={isSaving}
+                                        placeholder="Ex: peça-chave, conforto" className={inputClass} />
+                                </div>
+                                <div>
+                                    <label htmlFor="tone-avoid" className="block text-sm font-medium text-gray-700 mb-1">Termos proibidos</label>
+                                    <input id="tone-avoid" type="text" value={form.avoidTerms} onChange={e => setForm({ ...form, avoidTerms: e.target.value })} disabled={isSaving}
+                                        placeholder="Ex: barato, promoção" className={inputClass} />
+                                </div>
+                            </div>
+                            <div>
+                                <p className="block text-sm font-medium text-gray-700 mb-1">Idiomas padrão</p>
+                                <div className="flex gap-4">
+                                    {COPY_LANGUAGES.map(language => (
+                                        <label key={language} className="flex items-center gap-2 text-sm text-gray-700">
+                                            <input type="checkbox" checked={form.languages.includes(language)} onChange={() => toggleLanguage(language)} disabled={isSaving}
+                                                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                            {copyLanguageLabels[language]}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setForm(null)} disabled={isSaving} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                                <button onClick={handleSave} disabled={isSaving || !form.brand.trim() || form.languages.length === 0}
+                                    className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                    {isSaving ? 'Salvando...' : 'Salvar Tom de Voz'}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={() => setForm(emptyForm(''))} className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 text-gray-600 font-semibold py-3 rounded-lg hover:border-blue-400 hover:text-blue-600">
+                            <PlusIcon className="w-5 h-5" /> Nova Marca
+                        </button>
+                    )}
+
+                    {tones.map(tone => (
+                        <div key={tone.id} className="flex items-center gap-4 border border-gray-200 rounded-lg p-3">
+                            <div className="flex-grow min-w-0">
+                                <p className="font-semibold text-gray-800">{tone.brand}</p>
+                                <p className="text-xs text-gray-500">{tone.languages.map(language => copyLanguageLabels[language]).join(', ')}</p>
+                                {tone.voice && <p className="text-xs text-gray-600 mt-1 truncate" title={tone.voice}>{tone.voice}</p>}
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => setForm(toForm(tone))} disabled={isSaving} className="text-sm text-blue-600 hover:underline">Editar</button>
+                                <button onClick={() => handleDelete(tone)} disabled={isSaving} className="p-1 text-gray-400 hover:text-red-600" aria-label={`Remover ${tone.brand}`}>
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BrandToneModal;
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { getBudgets, setBudget, deleteBudget, formatUsd, type BudgetScope, type BudgetStatus } from '../services/budgetService';
+import { type GalleryFolder } from '../services/galleryService';
+import { type User } from '../services/userService';
+import { TrashIcon } from './icons';
+import Spinner from './Spinner';
+
+interface BudgetManagerProps {
+    users: User[];
+    projects: GalleryFolder[];
+    getToken: () => Promise<string | null>;
+}
+
+// Admin panel to set monthly budgets (hard cap + warning threshold) per user and per project
+const BudgetManager: React.FC<BudgetManagerProps> = ({ users, projects, getToken }) => {
+    const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Form state
+    const [scope, setScope] = useState<BudgetScope>('user');
+    const [targetId, setTargetId] = useState('');
+    const [monthlyLimit, setMonthlyLimit] = useState('');
+    const [softThresholdPercent, setSoftThresholdPercent] = useState('80');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const fetchBudgets = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Authentication token not available.');
+            setBudgets(await getBudgets(token));
+            setError(null);
+        } catch (err) {
+            setError('Falha ao carregar os orçamentos.');
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [getToken]);
+
+    useEffect(() => {
+        fetchBudgets();
+    }, []);
+
+    const getTargetName = (budget: BudgetStatus) => {
+        if (budget.scope === 'user') {
+            return users.find(u => u.id === budget.targetId)?.username || budget.targetId;
+        }
+        return projects.find(p => p.id === budget.targetId)?.name || budget.targetId;
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const limit = parseFloat(monthlyLimit);
+        const threshold = parseFloat(softThresholdPercent) / 100;
+        if (!targetId || isNaN(limit) || limit < 0 || isNaN(threshold) || threshold <= 0 || threshold > 1) {
+            setError('Preencha o alvo, um limite válido e um aviso entre 1% e 100%.');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Authentication token not available.');
+            await setBudget(scope, targetId, limit, threshold, token);
+            setMonthlyLimit('');
+            await fetchBudgets();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao salvar o orçamento.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = async (budget: BudgetStatus) => {
+        if (!window.confirm(`Remover o orçamento de "${getTargetName(budget)}"?`)) return;
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Authentication token not available.');
+            await deleteBudget(budget.scope, budget.targetId, token);
+            await fetchBudgets();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao remover o orçamento.');
+        }
+    };
+
+    const targets = scope === 'user'
+        ? users.map(u => ({ id: u.id, name: u.username }))
+        : projects.map(p => ({ id: p.id, name: p.name }));
+
+    return (
+        <div className="bg-white/80 border border-gray-200 rounded-lg p-6 backdrop-blur-sm">
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Orçamentos Mensais (USD)</h2>
+            {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+            <form onSubmit={handleSave} className="flex flex-col md:flex-row md:items-end gap-3 mb-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Tipo</label>
+                    <select value={scope} onChange={e => { setScope(e.target.value as BudgetScope); setTargetId(''); }} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md">
+                        <option value="user">Usuário</option>
+                        <option value="project">Projeto</option>
+                    </select>
+                </div>
+                <div className="flex-grow">
+                    <label className="block text-sm font-medium text-gray-700">{scope === 'user' ? 'Usuário' : 'Projeto'}</label>
+                    <select value={targetId} onChange={e => setTargetId(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md">
+                        <option value="">Selecione...</option>
+                        {targets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Limite mensal</label>
+                    <input type="number" min="0" step="0.01" value={monthlyLimit} onChange={e => setMonthlyLimit(e.target.value)} className="mt-1 block w-full md:w-32 px-3 py-2 bg-white border border-gray-300 rounded-md" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Aviso em (%)</label>
+                    <input type="number" min="1" max="100" value={softThresholdPercent} onChange={e => setSoftThresholdPercent(e.target.value)} className="mt-1 block w-full md:w-24 px-3 py-2 bg-white border border-gray-300 rounded-md" />
+                </div>
+                <button type="submit" disabled={isSubmitting} className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400">
+                    {isSubmitting ? 'Salvando...' : 'Salvar'}
+                </button>
+            </form>
+
+            {isLoading ? (
+                <div className="flex justify-center p-4"><Spinner /></div>
+            ) : (
+                <table className="w-full text-sm text-left text-gray-500">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                        <tr>
+                            <th scope="col" className="px-4 py-2">Alvo</th>
+                            <th scope="col" className="px-4 py-2">Gasto no Mês</th>
+                            <th scope="col" className="px-4 py-2">Limite</th>
+                            <th scope="col" className="px-4 py-2">Restante</th>
+                            <th scope="col" className="px-4 py-2 w-12"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {budgets.length > 0 ? budgets.map(budget => (
+                            <tr key={`${budget.scope}-${budget.targetId}`} className="bg-white border-b">
+                                <td className="px-4 py-2 font-medium text-gray-900">
+                                    {getTargetName(budget)} <span className="text-xs text-gray-400">({budget.scope === 'user' ? 'usuário' : 'projeto'})</span>
+                                </td>
+                                <td className={`px-4 py-2 ${budget.state === 'exceeded' ? 'text-red-600 font-semibold' : budget.state === 'warning' ? 'text-yellow-600 font-semibold' : ''}`}>
+                                    {formatUsd(budget.spent)}
+                                </td>
+                                <td className="px-4 py-2">{formatUsd(budget.monthlyLimit)} <span className="text-xs text-gray-400">(aviso em {Math.round(budget.softThreshold * 100)}%)</span></td>
+                                <td className="px-4 py-2">{formatUsd(budget.remaining)}</td>
+                                <td className="px-4 py-2">
+                                    <button onClick={() => handleDelete(budget)} className="text-gray-400 hover:text-red-600" aria-label="Remover orçamento">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr>
+                                <td colSpan={5} className="text-center py-4 text-gray-500">Nenhum orçamento definido.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default BudgetManager;
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { CheckIcon, XMarkIcon } from './icons';
+
+interface CandidatePickerModalProps {
+    isOpen: boolean;
+    title: string;
+    candidates: string[];
+    onSelect: (index: number) => void;
+    onCancel?: () => void;
+}
+
+// Grid of generated candidates of the same view; only the chosen one goes on to the gallery
+const CandidatePickerModal: React.FC<CandidatePickerModalProps> = ({ isOpen, title, candidates, onSelect, onCancel }) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+
+    useEffect(() => {
+        setSelectedIndex(0);
+    }, [candidates]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col gap-4">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">{title}</h2>
+                        <p className="text-sm text-gray-600">Escolha o melhor candidato. Os demais são descartados.</p>
+                    </div>
+                    {onCancel && (
+                        <button onClick={onCancel} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                    )}
+                </div>
+
+                <div className={`overflow-y-auto grid gap-4 ${candidates.length > 2 ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-2'}`}>
+                    {candidates.map((candidate, index) => (
+                        <button
+                            key={index}
+                            onClick={() => setSelectedIndex(index)}
+                            onDoubleClick={() => onSelect(index)}
+                            className={`relative rounded-lg overflow-hidden border-4 transition-all ${selectedIndex === index ? 'border-blue-600 shadow-lg' : 'border-transparent hover:border-gray-300'}`}
+                            aria-label={`Candidato ${index + 1}`}
+                        >
+                            <img src={candidate} alt={`Candidato ${index + 1}`} className="w-full max-h-[60vh] object-contain bg-gray-100" />
+                            <span className="absolute top-2 left-2 text-xs font-bold px-2 py-1 rounded-full bg-black/60 text-white">{index + 1}</span>
+                            {selectedIndex === index && (
+                                <span className="absolute top-2 right-2 w-7 h-7 flex items-center justify-center rounded-full bg-blue-600 text-white">
+                                    <CheckIcon className="w-4 h-4" />
+                                </span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    {onCancel && (
+                        <button onClick={onCancel} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    )}
+                    <button onClick={() => onSelect(selectedIndex)} className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700">
+                        Usar Candidato {selectedIndex + 1}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CandidatePickerModal;
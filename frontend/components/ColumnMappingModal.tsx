@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+    SHEET_FIELDS, sheetFieldLabels, getMappingProfiles, deleteMappingProfile, restrictMappingToHeaders,
+    type ColumnMapping, type ColumnMappingProfile, type SheetField,
+} from '../services/columnMappingService';
+import { XMarkIcon, TrashIcon } from './icons';
+
+interface ColumnMappingModalProps {
+    isOpen: boolean;
+    fileName: string;
+    headers: string[];
+    sampleRows: Record<string, string>[];
+    initialMapping: ColumnMapping;
+    initialProfileName?: string;
+    brand: string;
+    onClose: () => void;
+    onApply: (mapping: ColumnMapping, profile: { name: string; brand: string } | null) => void;
+}
+
+// Mapping step after a spreadsheet upload: which column holds each field, optionally saved as a profile per brand
+const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ isOpen, fileName, headers, sampleRows, initialMapping, initialProfileName, brand, onClose, onApply }) => {
+    const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+    const [profiles, setProfiles] = useState<ColumnMappingProfile[]>([]);
+    const [saveProfile, setSaveProfile] = useState(false);
+    const [profileName, setProfileName] = useState('');
+    const [profileBrand, setProfileBrand] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setMapping(initialMapping);
+        setProfiles(getMappingProfiles());
+        setSaveProfile(false);
+        setProfileName(initialProfileName || brand.trim() || fileName.replace(/\.[^/.]+$/, ''));
+        setProfileBrand(brand.trim());
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleFieldChange = (field: SheetField, header: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (header) next[field] = header;
+            else delete next[field];
+            return next;
+        });
+    };
+
+    const handleLoadProfile = (name: string) => {
+        const profile = profiles.find(p => p.name === name);
+        if (!profile) return;
+        setMapping(restrictMappingToHeaders(profile.mapping, headers));
+        setProfileName(profile.name);
+        setProfileBrand(profile.brand);
+    };
+
+    const handleDeleteProfile = (name: string) => {
+        if (!window.confirm(`Excluir o perfil de mapeamento "${name}"?`)) return;
+        setProfiles(deleteMappingProfile(name));
+    };
+
+    const handleApply = () => {
+        onApply(mapping, saveProfile && profileName.trim() ? { name: profileName.trim(), brand: profileBrand.trim() } : null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-2xl font-bold text-gray-800">Mapeamento de Colunas</h2>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+                <p className="text-sm text-gray-500">Indique a coluna de <span className="font-medium">{fileName}</span> que corresponde a cada campo. Colunas não mapeadas são enviadas como observações do modelo.</p>
+
+                {profiles.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <select onChange={e => handleLoadProfile(e.target.value)} value="" className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500">
+                            <option value="">Carregar perfil...</option>
+                            {profiles.map(p => <option key={p.name} value={p.name}>{p.name}{p.brand ? ` (${p.brand})` : ''}</option>)}
+                        </select>
+                    </div>
+                )}
+
+                <div className="overflow-y-auto border border-gray-200 rounded-lg">
+                    <table className="w-full text-sm text-left text-gray-600">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
+                            <tr>
+                                <th scope="col" className="px-4 py-2">Campo</th>
+                                <th scope="col" className="px-4 py-2">Coluna da Planilha</th>
+                                <th scope="col" className="px-4 py-2">Exemplo</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {SHEET_FIELDS.map(field => {
+                                const header = mapping[field];
+                                const example = header ? sampleRows.map(row => row[header]).find(Boolean) : undefined;
+                                return (
+                                    <tr key={field} className="border-b bg-white">
+                                        <td className="px-4 py-2 font-medium text-gray-900">{sheetFieldLabels[field]}{field === 'sku' && <span className="text-red-500"> *</span>}</td>
+                                        <td className="px-4 py-2">
+                                            <select value={header || ''} onChange={e => handleFieldChange(field, e.target.value)} className="w-full bg-white border border-gray-300 rounded-md p-1.5 text-sm">
+                                                <option value="">(não usar)</option>
+                                                {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="px-4 py-2 text-xs text-gray-500 truncate max-w-[180px]" title={example}>{example || '-'}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex flex-col gap-2 border-t pt-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                        Salvar como perfil
+                    </label>
+                    {saveProfile && (
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <input type="text" value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="Nome do perfil" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                            <input type="text" value={profileBrand} onChange={e => setProfileBrand(e.target.value)} placeholder="Marca" className="w-full sm:w-48 bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                        </div>
+                    )}
+                    {profiles.length > 0 && (
+                        <details className="text-xs text-gray-500">
+                            <summary className="cursor-pointer">Gerenciar perfis ({profiles.length})</summary>
+                            <ul className="mt-2 flex flex-col gap-1">
+                                {profiles.map(p => (
+                                    <li key={p.name} className="flex items-center justify-between gap-2">
+                                        <span>{p.name}{p.brand ? ` — ${p.brand}` : ''}</span>
+                                        <button onClick={() => handleDeleteProfile(p.name)} className="text-gray-400 hover:text-red-600" aria-label="Excluir perfil"><TrashIcon className="w-4 h-4" /></button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <button onClick={handleApply} disabled={!mapping.sku} className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
+                        Aplicar Mapeamento
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMappingModal;
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import AnnotatedImage, { type AnnotationPoint } from './AnnotatedImage';
+import { UploadIcon, TrashIcon, MagnifyingGlassIcon, MagicWandIcon } from './icons';
+import type { CorrectionComparison } from '../App';
+
+interface CorrectionPanelProps {
+  garmentFile: File | null;
+  onGarmentFileChange: (file: File | null) => void;
+  originalImage: File | null;
+  plan: string;
+  onPlanChange: (plan: string) => void;
+  points: AnnotationPoint[];
+  onPointsChange: (points: AnnotationPoint[]) => void;
+  lastCorrection: CorrectionComparison | null;
+  isLoading: boolean;
+  onFindDifferences: () => void;
+  onApplyCorrection: () => void;
+}
+
+// Manual quality control: compare the image with the garment photo, review the plan and apply the correction
+const CorrectionPanel: React.FC<CorrectionPanelProps> = ({
+    garmentFile, onGarmentFileChange, originalImage,
+    plan, onPlanChange, points, onPointsChange,
+    lastCorrection, isLoading, onFindDifferences, onApplyCorrection
+}) => {
+  const [garmentUrl, setGarmentUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!garmentFile) {
+      setGarmentUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(garmentFile);
+    setGarmentUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [garmentFile]);
+
+  const handlePointDescriptionChange = (index: number, description: string) => {
+    onPointsChange(points.map((point, i) => i === index ? { ...point, description } : point));
+  };
+
+  const handleRemovePoint = (index: number) => {
+    onPointsChange(points.filter((_, i) => i !== index));
+  };
+
+  const hasAnalysis = plan.trim().length > 0 || points.length > 0;
+
+  return (
+    <div className="w-full bg-white/80 border border-gray-200 rounded-lg p-6 flex flex-col gap-6 animate-fade-in backdrop-blur-sm">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-800">Correção da Peça</h3>
+        <p className="text-sm text-gray-600">
+          Compare a imagem com a foto da peça original. Clique na imagem para marcar outros pontos.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <div className="w-24 h-24 flex-shrink-0 rounded-lg border border-gray-300 bg-gray-50 flex items-center justify-center overflow-hidden">
+          {garmentUrl
+            ? <img src={garmentUrl} alt="Peça original" className="w-full h-full object-contain" />
+            : <UploadIcon className="w-8 h-8 text-gray-400" />}
+        </div>
+        <div className="flex flex-col gap-2 w-full">
+          <label htmlFor="correction-garment" className="text-center bg-white border border-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-md cursor-pointer hover:bg-gray-100 text-sm">
+            {garmentFile ? 'Trocar foto da peça' : 'Escolher foto da peça'}
+          </label>
+          <input id="correction-garment" type="file" accept="image/*" className="hidden" disabled={isLoading}
+            onChange={e => { onGarmentFileChange(e.target.files?.[0] || null); e.target.value = ''; }} />
+          {originalImage && garmentFile !== originalImage && (
+            <button onClick={() => onGarmentFileChange(originalImage)} disabled={isLoading} className="text-sm text-blue-600 hover:underline disabled:text-gray-400">
+              Usar a imagem inicial do histórico
+            </button>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={onFindDifferences}
+        disabled={isLoading || !garmentFile}
+        className="flex items-center justify-center gap-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg shadow-blue-500/20 hover:shadow-xl active:scale-95 disabled:from-gray-500 disabled:to-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+      >
+        <MagnifyingGlassIcon className="w-5 h-5" />
+        {hasAnalysis ? 'Analisar Novamente' : 'Encontrar Diferenças'}
+      </button>
+
+      {hasAnalysis && (
+        <div className="flex flex-col gap-4 border-t border-gray-200 pt-4">
+          <div>
+            <label htmlFor="correction-plan" className="block text-sm font-medium text-gray-700 mb-1">Plano de Correção</label>
+            <textarea
+              id="correction-plan"
+              value={plan}
+              onChange={e => onPlanChange(e.target.value)}
+              rows={5}
+              disabled={isLoading}
+              className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Pontos de Anotação</p>
+            {points.length === 0 && <p className="text-xs text-gray-500">Nenhum ponto marcado.</p>}
+            <ol className="flex flex-col gap-2">
+              {points.map((point, index) => (
+                <li key={index} className="flex items-center gap-2">
+                  <span className="w-6 h-6 flex-shrink-0 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-bold">{index + 1}</span>
+                  <input
+                    type="text"
+                    value={point.description}
+                    placeholder="Descreva o problema neste ponto"
+                    onChange={e => handlePointDescriptionChange(index, e.target.value)}
+                    disabled={isLoading}
+                    className="w-full bg-white border border-gray-300 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button onClick={() => handleRemovePoint(index)} disabled={isLoading} className="p-1 text-gray-400 hover:text-red-600" aria-label={`Remover ponto ${index + 1}`}>
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <button
+            onClick={onApplyCorrection}
+            disabled={isLoading || !garmentFile || (!plan.trim() && points.length === 0)}
+            className="flex items-center justify-center gap-2 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg shadow-green-500/20 hover:shadow-xl active:scale-95 disabled:from-gray-500 disabled:to-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            <MagicWandIcon className="w-5 h-5" />
+            Aplicar Correção
+          </button>
+        </div>
+      )}
+
+      {lastCorrection && (
+        <div className="flex flex-col gap-2 border-t border-gray-200 pt-4">
+          <p className="text-sm font-medium text-gray-700">Última correção</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Antes</p>
+              <AnnotatedImage file={lastCorrection.before} points={lastCorrection.points} alt="Antes da correção" />
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Depois</p>
+              <AnnotatedImage file={lastCorrection.after} alt="Depois da correção" />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionPanel;
@@ -10,6 +10,8 @@ import { getAllUsers, type User } from '../services/userService';
 // FIX: Add PhotoIcon to the import list.
 import { CurrencyDollarIcon, MagnifyingGlassIcon, ChevronRightIcon, XMarkIcon, PhotoIcon } from './icons';
 import Spinner from './Spinner';
+import BudgetManager from './BudgetManager';
+import AiCacheManager from './AiCacheManager';
 
 interface CostData {
     totalCost: number;
@@ -70,7 +72,10 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
                     filters.userId = currentUser.id;
                 }
                 
-                const data = await getAllCosts(filters);
+                const token = await getToken();
+                if (!token) throw new Error('Authentication token not available.');
+
+                const data = await getAllCosts(filters, token);
                 setCostData(data);
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Falha ao carregar dados de custo.');
@@ -101,6 +106,15 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
         return total;
     }, [filteredCostData]);
 
+    // What the shared AI cache saved: cache hits are logged at zero cost with the cost they avoided
+    const displaySavedCost = useMemo(() => {
+        let total = 0;
+        filteredCostData.forEach(([, data]) => {
+            data.logs.forEach(log => { total += log.savedCost || 0; });
+        });
+        return total;
+    }, [filteredCostData]);
+
     const toggleExpand = (imageName: string) => {
         setExpandedItems(prev => {
             const newSet = new Set(prev);
@@ -132,6 +146,8 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
             'enhance': 'Aprimoramento',
             'training': 'Treinamento de IA',
             'findDifferences': 'Análise de Diferenças',
+            'pose': 'Variação de Pose',
+            'copy': 'Textos de E-commerce',
         };
         return names[operation] || operation;
     };
@@ -158,7 +174,7 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
         <div className="w-full max-w-5xl mx-auto flex flex-col gap-6 animate-fade-in">
             <h1 className="text-3xl font-bold text-gray-800 text-center">Central de Custos</h1>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-white/80 border border-gray-200 rounded-lg p-6 flex items-center justify-between backdrop-blur-sm">
                     <div>
                         <p className="text-sm font-medium text-gray-500">Custo Total (Estimado)</p>
@@ -173,8 +189,22 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
                     </div>
                     <PhotoIcon className="w-12 h-12 text-blue-500" />
                 </div>
+                <div className="bg-white/80 border border-gray-200 rounded-lg p-6 flex items-center justify-between backdrop-blur-sm">
+                    <div>
+                        <p className="text-sm font-medium text-gray-500">Economia com Cache</p>
+                        <p className="text-3xl font-bold text-gray-800">{formatCurrency(displaySavedCost)}</p>
+                    </div>
+                    <CurrencyDollarIcon className="w-12 h-12 text-blue-400" />
+                </div>
             </div>
 
+            {currentUser.role === 'admin' && (
+                <>
+                    <BudgetManager users={users} projects={projects} getToken={getToken} />
+                    <AiCacheManager getToken={getToken} />
+                </>
+            )}
+
             <div className="flex flex-col sm:flex-row gap-4">
                 <div className="relative flex-grow">
                     <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
@@ -258,6 +288,7 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
                                                             <tr>
                                                                 <th scope="col" className="px-3 py-2">Operação</th>
                                                                 <th scope="col" className="px-3 py-2">Detalhes</th>
+                                                                <th scope="col" className="px-3 py-2">Modelo</th>
                                                                 <th scope="col" className="px-3 py-2">Data</th>
                                                                 <th scope="col" className="px-3 py-2 text-right">Custo</th>
                                                             </tr>
@@ -265,8 +296,13 @@ const CostCenter: React.FC<CostCenterProps> = ({ currentUser, getToken }) => {
                                                         <tbody>
                                                             {data.logs.map(log => (
                                                                 <tr key={log.id} className="border-b bg-white">
-                                                                    <td className="px-3 py-2 font-medium">{getOperationName(log.operation)}</td>
-                                                                    <td className="px-3 py-2 text-gray-500 truncate max-w-xs" title={log.details}>{log.details || 'N/A'}</td>
+                                                                    <td className="px-3 py-2 font-medium">
+                                                                        {getOperationName(log.operation)}
+                                                                        {log.rejected && <span className="ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded-full bg-gray-200 text-gray-600" title="Candidato não escolhido">Descartado</span>}
+                                                                        {log.source === 'cache' && <span className="ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded-full bg-blue-100 text-blue-700" title={`Resultado reaproveitado do cache; economia de ${formatCurrency(log.savedCost || 0)}`}>Cache</span>}
+                                                                    </td>
+                                                                    <td className="px-3 py-2 text-gray-500 truncate max-w-xs" title={[log.details, log.promptVersions?.length ? `Prompts: ${log.promptVersions.join(', ')}` : ''].filter(Boolean).join('\n') || undefined}>{log.details || 'N/A'}</td>
+                                                                    <td className="px-3 py-2 text-gray-500">{log.model || (log.source === 'import' ? 'Importado' : 'N/A')}</td>
                                                                     <td className="px-3 py-2">{new Date(log.timestamp).toLocaleString()}</td>
                                                                     <td className="px-3 py-2 text-right">{formatCurrency(log.cost)}</td>
                                                                 </tr>
@@ -7,12 +7,13 @@ import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
 import Spinner from './Spinner';
 import CropPanel from './CropPanel';
 import ModelPanel from './ModelPanel';
+import CorrectionPanel from './CorrectionPanel';
 import MaskingCanvas from './MaskingCanvas';
-import { UndoIcon, RedoIcon, EyeIcon, PhotoIcon, ArrowPathIcon, ScaleIcon, SparklesIcon, MagicWandIcon, TrashIcon } from './icons';
+import { UndoIcon, RedoIcon, EyeIcon, PhotoIcon, ArrowPathIcon, ScaleIcon, SparklesIcon, MagicWandIcon, TrashIcon, BullseyeIcon } from './icons';
 import EditorGalleryPlaceholder from './EditorGalleryPlaceholder';
 import type { StoredImage } from '../services/galleryService';
 import type { User } from '../services/userService';
-import type { EditorTab } from '../App';
+import type { EditorTab, CorrectionComparison } from '../App';
 
 
 // A large props interface. This could be broken down, but for now it's explicit.
@@ -35,6 +36,7 @@ interface EditorProps {
     loadingStatus: { message: string; percentage: number, estimate?: string } | null;
     targetDimensions: { width: string, height: string };
     modelNotes: string;
+    candidatesPerView: number;
     editorNegativePrompt: string;
     editorModelAge: { male: string, female: string };
     editorModelGender: 'male' | 'female';
@@ -46,6 +48,10 @@ interface EditorProps {
     brushSize: number;
     maskMode: 'brush' | 'eraser';
     getToken: () => Promise<string | null>;
+    correctionGarmentFile: File | null;
+    correctionPlan: string;
+    correctionPoints: CorrectionComparison['points'];
+    lastCorrection: CorrectionComparison | null;
     
     // Handlers
     setPrompt: (p: string) => void;
@@ -58,13 +64,19 @@ interface EditorProps {
     setIsComparing: (b: boolean) => void;
     setTargetDimensions: (dims: { width: string, height: string }) => void;
     setModelNotes: (notes: string) => void;
+    setCandidatesPerView: (count: number) => void;
     setEditorNegativePrompt: (prompt: string) => void;
     setEditorModelAge: (age: { male: string, female: string }) => void;
     setEditorModelGender: (gender: 'male' | 'female') => void;
     setMaskDataUrl: (dataUrl: string | null) => void;
     setBrushSize: (size: number) => void;
     setMaskMode: (mode: 'brush' | 'eraser') => void;
+    setCorrectionGarmentFile: (file: File | null) => void;
+    setCorrectionPlan: (plan: string) => void;
+    setCorrectionPoints: (points: CorrectionComparison['points']) => void;
     handleGenerate: () => void;
+    handleFindDifferences: () => void;
+    handleApplyCorrection: () => void;
     handleGenerateModel: (p: string, notes: string, negativePrompt: string) => void;
     handleApplyCrop: () => void;
     handleApplyResize: (width: number, height: number) => void;
@@ -93,17 +105,20 @@ const Editor: React.FC<EditorProps> = (props) => {
     const {
         currentImage, originalImage, currentImageUrl, isLoading, prompt, editHotspot, displayHotspot,
         activeTab, crop, completedCrop, aspect, isComparing, canUndo, canRedo, 
-        loadingStatus, targetDimensions, modelNotes, editorNegativePrompt,
+        loadingStatus, targetDimensions, modelNotes, candidatesPerView, editorNegativePrompt,
         editorModelAge, editorModelGender, isTrainingAgent, trainedAgeData, currentImageProjectId, currentUser,
         maskDataUrl, brushSize, maskMode, getToken,
+        correctionGarmentFile, correctionPlan, correctionPoints, lastCorrection,
         setPrompt, setDisplayHotspot, setEditHotspot, setActiveTab, setCrop, setCompletedCrop, setAspect,
         setIsComparing,
         setTargetDimensions,
         setModelNotes,
+        setCandidatesPerView,
         setEditorNegativePrompt,
         setEditorModelAge, setEditorModelGender,
         setMaskDataUrl, setBrushSize, setMaskMode,
-        handleGenerate,
+        setCorrectionGarmentFile, setCorrectionPlan, setCorrectionPoints,
+        handleGenerate, handleFindDifferences, handleApplyCorrection,
         handleGenerateModel, handleApplyCrop, handleApplyResize, handleUndo, handleRedo, handleReset, handleSelectAnother,
         handleDownload, onNavigateToGallery, onOpenPreview, onLoadImage, onLoadImageFromGallery,
         imgRef, isGeneratorMode, onStartOver
@@ -143,13 +158,14 @@ const Editor: React.FC<EditorProps> = (props) => {
         retouch: { name: 'Retocar', icon: MagicWandIcon },
         model: { name: 'Modelo', icon: SparklesIcon },
         crop: { name: 'Tamanho', icon: ScaleIcon },
+        correction: { name: 'Correção', icon: BullseyeIcon },
     };
     
     const availableTabs = isGeneratorMode
         ? canUndo
-            ? (['model', 'retouch', 'crop'] as const)
+            ? (['model', 'retouch', 'crop', 'correction'] as const)
             : (['model'] as const)
-        : (['retouch', 'crop'] as const);
+        : (['retouch', 'crop', 'correction'] as const);
 
     const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
         setImageDimensions({
@@ -182,7 +198,30 @@ const Editor: React.FC<EditorProps> = (props) => {
         setMaskDataUrl(dataUrl);
     };
 
-    const isPreviewMode = activeTab !== 'crop' && activeTab !== 'retouch';
+    // Correction points are in pixels of the image; this maps them to the displayed (object-contain) image
+    const getDisplayedImageBox = () => {
+        const img = imgRef.current;
+        if (!img || !imageDimensions) return null;
+        const scale = Math.min(img.clientWidth / imageDimensions.width, img.clientHeight / imageDimensions.height);
+        return {
+            scale,
+            left: img.offsetLeft + (img.clientWidth - imageDimensions.width * scale) / 2,
+            top: img.offsetTop + (img.clientHeight - imageDimensions.height * scale) / 2,
+        };
+    };
+
+    const handleCorrectionClick = (e: React.MouseEvent<HTMLImageElement>) => {
+        const box = getDisplayedImageBox();
+        if (!box || !imageDimensions) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.round((e.clientX - rect.left - (box.left - e.currentTarget.offsetLeft)) / box.scale);
+        const y = Math.round((e.clientY - rect.top - (box.top - e.currentTarget.offsetTop)) / box.scale);
+        if (x < 0 || y < 0 || x > imageDimensions.width || y > imageDimensions.height) return;
+        setCorrectionPoints([...correctionPoints, { x, y, description: '' }]);
+    };
+
+    const isCorrectionMode = activeTab === 'correction' && !showComparator;
+    const isPreviewMode = activeTab !== 'crop' && activeTab !== 'retouch' && activeTab !== 'correction';
     
     if (!currentImage) {
         return (
@@ -234,11 +273,25 @@ const Editor: React.FC<EditorProps> = (props) => {
                 src={currentImageUrl!}
                 alt="Atual"
                 onLoad={handleImageLoad}
-                onClick={isPreviewMode ? onOpenPreview : undefined}
-                className={`w-full h-auto object-contain max-h-[75vh] rounded-xl ${isPreviewMode ? 'cursor-zoom-in' : ''} ${activeTab === 'retouch' ? 'pointer-events-none' : ''}`}
+                onClick={isCorrectionMode ? handleCorrectionClick : isPreviewMode ? onOpenPreview : undefined}
+                className={`w-full h-auto object-contain max-h-[75vh] rounded-xl ${isPreviewMode ? 'cursor-zoom-in' : ''} ${isCorrectionMode ? 'cursor-crosshair' : ''} ${activeTab === 'retouch' ? 'pointer-events-none' : ''}`}
             />
         )}
 
+        {isCorrectionMode && !isLoading && (() => {
+            const box = getDisplayedImageBox();
+            return box && correctionPoints.map((point, index) => (
+                <span
+                    key={index}
+                    title={point.description}
+                    className="absolute -translate-x-1/2 -translate-y-1/2 w-7 h-7 flex items-center justify-center rounded-full bg-red-600 text-white text-sm font-bold ring-2 ring-white shadow-lg pointer-events-none z-10"
+                    style={{ left: `${box.left + point.x * box.scale}px`, top: `${box.top + point.y * box.scale}px` }}
+                >
+                    {index + 1}
+                </span>
+            ));
+        })()}
+
         {originalImage && (
           <button
               onClick={() => setShowComparator(!showComparator)}
@@ -424,6 +477,21 @@ const Editor: React.FC<EditorProps> = (props) => {
                                             onApplyResize={handleApplyResize}
                                             imageDimensions={imageDimensions}
                                         />}
+                {activeTab === 'correction' && (
+                    <CorrectionPanel
+                        garmentFile={correctionGarmentFile}
+                        onGarmentFileChange={setCorrectionGarmentFile}
+                        originalImage={originalImage}
+                        plan={correctionPlan}
+                        onPlanChange={setCorrectionPlan}
+                        points={correctionPoints}
+                        onPointsChange={setCorrectionPoints}
+                        lastCorrection={lastCorrection}
+                        isLoading={isLoading}
+                        onFindDifferences={handleFindDifferences}
+                        onApplyCorrection={handleApplyCorrection}
+                    />
+                )}
                 {activeTab === 'model' && isGeneratorMode && 
                     <ModelPanel 
                         onGenerateModel={handleGenerateModel} 
@@ -432,6 +500,8 @@ const Editor: React.FC<EditorProps> = (props) => {
                         onTargetDimensionsChange={setTargetDimensions}
                         modelNotes={modelNotes}
                         onModelNotesChange={setModelNotes}
+                        candidatesPerView={candidatesPerView}
+                        onCandidatesPerViewChange={setCandidatesPerView}
                         negativePrompt={editorNegativePrompt}
                         onNegativePromptChange={setEditorNegativePrompt}
                         modelAge={editorModelAge}
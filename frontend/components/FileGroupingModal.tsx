@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    GROUPING_VIEWS, DEFAULT_SUFFIXES, groupingViewLabels, groupFiles, validateGroupingPattern,
+    getGroupingRules, deleteGroupingRule, findRuleForBrand,
+    type FileGroup, type FileGroupingRule, type GroupingView, type SuffixMapping,
+} from '../services/fileGroupingService';
+import { XMarkIcon, TrashIcon, PlusIcon } from './icons';
+
+interface FileGroupingModalProps {
+    isOpen: boolean;
+    files: File[];
+    brand: string;
+    onClose: () => void;
+    onApply: (groups: FileGroup[], rule: Omit<FileGroupingRule, 'updatedAt'> | null) => void;
+}
+
+// Preview of how dropped images group into products, with the brand's grouping rule (SKU pattern and view suffixes)
+const FileGroupingModal: React.FC<FileGroupingModalProps> = ({ isOpen, files, brand, onClose, onApply }) => {
+    const [pattern, setPattern] = useState('');
+    const [suffixes, setSuffixes] = useState<SuffixMapping[]>([]);
+    const [rules, setRules] = useState<FileGroupingRule[]>([]);
+    const [saveRule, setSaveRule] = useState(false);
+    const [ruleName, setRuleName] = useState('');
+    const [ruleBrand, setRuleBrand] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const brandRule = findRuleForBrand(brand);
+        setPattern(brandRule?.pattern || '');
+        setSuffixes(brandRule?.suffixes || []);
+        setRules(getGroupingRules());
+        setSaveRule(false);
+        setRuleName(brandRule?.name || brand.trim());
+        setRuleBrand(brandRule?.brand || brand.trim());
+    }, [isOpen]);
+
+    const patternError = validateGroupingPattern(pattern);
+    const groups = useMemo(
+        () => groupFiles(files, { pattern: patternError ? '' : pattern, suffixes: suffixes.filter(mapping => mapping.suffix.trim()) }),
+        [files, pattern, suffixes, patternError],
+    );
+
+    if (!isOpen) return null;
+
+    const unmatchedCount = groups.filter(group => !group.matched).length;
+
+    const handleLoadRule = (name: string) => {
+        const rule = rules.find(r => r.name === name);
+        if (!rule) return;
+        setPattern(rule.pattern);
+        setSuffixes(rule.suffixes);
+        setRuleName(rule.name);
+        setRuleBrand(rule.brand);
+    };
+
+    const handleDeleteRule = (name: string) => {
+        if (!window.confirm(`Excluir a regra de agrupamento "${name}"?`)) return;
+        setRules(deleteGroupingRule(name));
+    };
+
+    const updateSuffix = (index: number, changes: Partial<SuffixMapping>) => {
+        setSuffixes(prev => prev.map((mapping, i) => i === index ? { ...mapping, ...changes } : mapping));
+    };
+
+    const handleApply = () => {
+        const cleanSuffixes = suffixes.filter(mapping => mapping.suffix.trim());
+        onApply(groups, saveRule && ruleName.trim() ? { name: ruleName.trim(), brand: ruleBrand.trim(), pattern: pattern.trim(), suffixes: cleanSuffixes } : null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-2xl font-bold text-gray-800">Agrupamento de Arquivos</h2>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+                <p className="text-sm text-gray-500">
+                    {files.length} imagem(ns) em {groups.length} produto(s). Confira o agrupamento antes de adicionar à fila; as imagens com vista reconhecida preenchem Frente, Costas e Total Look.
+                </p>
+
+                {rules.length > 0 && (
+                    <select onChange={e => handleLoadRule(e.target.value)} value="" className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500">
+                        <option value="">Carregar regra...</option>
+                        {rules.map(r => <option key={r.name} value={r.name}>{r.name}{r.brand ? ` (${r.brand})` : ''}</option>)}
+                    </select>
+                )}
+
+                <div className="overflow-y-auto flex flex-col gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="grouping-pattern" className="block text-sm font-medium text-gray-700 mb-1">Expressão do nome do arquivo (opcional)</label>
+                            <input id="grouping-pattern" type="text" value={pattern} onChange={e => setPattern(e.target.value)}
+                                placeholder="^(?<sku>[A-Z]+-\d+)_(?<color>\w+)_(?<view>F|B)$"
+                                className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm font-mono focus:ring-2 focus:ring-blue-500" />
+                            <p className={`text-xs mt-1 ${patternError ? 'text-red-600' : 'text-gray-500'}`}>
+                                {patternError || 'Grupos nomeados: sku (obrigatório), view e color. Vazio: o SKU é o nome do arquivo sem os sufixos conhecidos.'}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="block text-sm font-medium text-gray-700 mb-1">Sufixos de vista</p>
+                            <div className="flex flex-col gap-1">
+                                {suffixes.map((mapping, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <input type="text" value={mapping.suffix} onChange={e => updateSuffix(index, { suffix: e.target.value })} placeholder="_F"
+                                            className="w-24 bg-white border border-gray-300 rounded-md p-1.5 text-sm font-mono" />
+                                        <span className="text-gray-400">→</span>
+                                        <select value={mapping.view} onChange={e => updateSuffix(index, { view: e.target.value as GroupingView })} className="flex-grow bg-white border border-gray-300 rounded-md p-1.5 text-sm">
+                                            {GROUPING_VIEWS.map(view => <option key={view} value={view}>{groupingViewLabels[view]}</option>)}
+                                        </select>
+                                        <button onClick={() => setSuffixes(prev => prev.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600" aria-label="Remover sufixo"><TrashIcon className="w-4 h-4" /></button>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex gap-3 mt-1">
+                                <button onClick={() => setSuffixes(prev => [...prev, { suffix: '', view: 'front' }])} className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:underline">
+                                    <PlusIcon className="w-3 h-3" /> Adicionar sufixo
+                                </button>
+                                {suffixes.length === 0 && <button onClick={() => setSuffixes(DEFAULT_SUFFIXES)} className="text-xs font-semibold text-blue-600 hover:underline">Usar sufixos padrão</button>}
+                            </div>
+                        </div>
+                    </div>
+
+                    {unmatchedCount > 0 && (
+                        <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+                            {unmatchedCount} produto(s) têm arquivos que não seguem a expressão; foram agrupados pelo nome do arquivo.
+                        </p>
+                    )}
+
+                    <div className="border border-gray-200 rounded-lg">
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-2">Produto</th>
+                                    <th scope="col" className="px-4 py-2">Arquivos</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {groups.map(group => (
+                                    <tr key={group.key} className={`border-b ${group.matched ? 'bg-white' : 'bg-yellow-50'}`}>
+                                        <td className="px-4 py-2 align-top">
+                                            <p className="font-medium text-gray-900">{group.sku}</p>
+                                            {group.color && <p className="text-xs text-gray-500">Cor: {group.color}</p>}
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <ul className="flex flex-col gap-0.5">
+                                                {group.files.map((file, index) => {
+                                                    const view = group.views[index];
+                                                    const fillsSlot = view && group.slots[view] === file;
+                                                    return (
+                                                        <li key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-xs">
+                                                            <span className="truncate" title={file.name}>{file.name}</span>
+                                                            <span className={fillsSlot ? 'font-semibold text-blue-700' : 'text-gray-400'}>
+                                                                {view ? `${groupingViewLabels[view]}${fillsSlot ? '' : ' (repetida)'}` : '—'}
+                                                            </span>
+                                                        </li>
+                                                    );
+                                                })}
+                                            </ul>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-2 border-t pt-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input type="checkbox" checked={saveRule} onChange={e => setSaveRule(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                        Salvar como regra da marca
+                    </label>
+                    {saveRule && (
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <input type="text" value={ruleName} onChange={e => setRuleName(e.target.value)} placeholder="Nome da regra" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                            <input type="text" value={ruleBrand} onChange={e => setRuleBrand(e.target.value)} placeholder="Marca" className="w-full sm:w-48 bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                        </div>
+                    )}
+                    {rules.length > 0 && (
+                        <details className="text-xs text-gray-500">
+                            <summary className="cursor-pointer">Gerenciar regras ({rules.length})</summary>
+                            <ul className="mt-2 flex flex-col gap-1">
+                                {rules.map(r => (
+                                    <li key={r.name} className="flex items-center justify-between gap-2">
+                                        <span>{r.name}{r.brand ? ` — ${r.brand}` : ''}</span>
+                                        <button onClick={() => handleDeleteRule(r.name)} className="text-gray-400 hover:text-red-600" aria-label="Excluir regra"><TrashIcon className="w-4 h-4" /></button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <button onClick={handleApply} disabled={!!patternError || groups.length === 0} className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
+                        Adicionar {groups.length} à Fila
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FileGroupingModal;
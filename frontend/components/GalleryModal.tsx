@@ -45,6 +45,7 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onLoadImage, currentUser, cur
     const [currentFolderId, setCurrentFolderId] = useState('root');
     const [path, setPath] = useState<{id: string, name: string}[]>([]);
     const [trashFolderId, setTrashFolderId] = useState<string | null>(null);
+    const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
     
     // UI State
     const [isLoading, setIsLoading] = useState(false); // Loading state
@@ -88,6 +89,7 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onLoadImage, currentUser, cur
             setItems(currentItems);
             setPath(currentPath);
             setTrashFolderId(trashFolder.id);
+            setTrashRetentionDays(trashFolder.retentionDays ?? null);
         } catch (error) {
             console.error("Failed to refresh gallery items:", error);
         }
@@ -689,7 +691,13 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onLoadImage, currentUser, cur
                 <button onClick={() => setViewMode('list')} className={`p-2 rounded-md ${viewMode === 'list' ? 'bg-white shadow' : 'text-gray-500'}`}><ListBulletIcon className="w-5 h-5" /></button>
              </div>
           </div>
-          
+
+          {isTrashView && trashRetentionDays && (
+              <p className="text-sm text-gray-500 px-1">
+                  Itens na lixeira são apagados definitivamente após {trashRetentionDays} dias. Ao restaurar, eles voltam para a pasta de origem (recriada, se necessário).
+              </p>
+          )}
+
            <div data-gallery-filters className="flex flex-col sm:flex-row items-center gap-4 p-2 bg-white/80 border border-gray-200 rounded-lg backdrop-blur-sm">
                 <div className="relative w-full sm:w-auto flex-grow">
                     <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
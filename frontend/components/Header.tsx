@@ -5,6 +5,7 @@
 import React from 'react';
 import type { AppView } from '../App';
 import { type User } from '../services/userService';
+import { formatUsd, type BudgetStatus } from '../services/budgetService';
 // FIX: Import SparklesIcon from centralized icons file and remove local definition.
 import { SparklesIcon, UserIcon } from './icons';
 
@@ -13,19 +14,22 @@ interface HeaderProps {
     onNavigate: (view: AppView) => void;
     currentUser: User;
     onLogout: () => void;
+    budget?: BudgetStatus | null; // Most restrictive monthly budget, if any
 }
 
 
-const Header: React.FC<HeaderProps> = ({ currentView, onNavigate, currentUser, onLogout }) => {
+const Header: React.FC<HeaderProps> = ({ currentView, onNavigate, currentUser, onLogout, budget }) => {
     let navItems: { view: AppView, label: string }[] = [
       { view: 'upload', label: 'Upload' },
       { view: 'editor', label: 'Editor' },
       { view: 'gallery', label: 'Galeria' },
+      { view: 'products', label: 'Produtos' },
       { view: 'costs', label: 'Custos' },
     ];
 
     if (currentUser.role === 'admin') {
       navItems.push({ view: 'users', label: 'Usuários' });
+      navItems.push({ view: 'prompts', label: 'Prompts' });
     }
 
   return (
@@ -55,6 +59,12 @@ const Header: React.FC<HeaderProps> = ({ currentView, onNavigate, currentUser, o
           </nav>
 
           <div className="flex items-center gap-4">
+            {budget && (
+                <div className="text-right text-sm" title={`Gasto no mês: ${formatUsd(budget.spent)} de ${formatUsd(budget.monthlyLimit)}`}>
+                    <p className={`font-semibold ${budget.state === 'ok' ? 'text-gray-800' : budget.state === 'warning' ? 'text-yellow-600' : 'text-red-600'}`}>{formatUsd(budget.remaining)}</p>
+                    <p className="text-xs text-gray-500">Orçamento restante</p>
+                </div>
+            )}
             <div className="flex items-center gap-2 text-right">
                 <div className="text-sm">
                     <p className="font-semibold text-gray-800">{currentUser.username}</p>
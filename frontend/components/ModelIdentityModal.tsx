@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { type User } from '../services/userService';
+import {
+    createIdentity, updateIdentity, deleteIdentity, MAX_IDENTITY_IMAGES,
+    type ModelIdentity, type IdentityImage,
+} from '../services/identityService';
+import { TrashIcon, XMarkIcon, PlusIcon } from './icons';
+
+interface ModelIdentityModalProps {
+    isOpen: boolean;
+    identities: ModelIdentity[];
+    currentUser: User;
+    getToken: () => Promise<string | null>;
+    onIdentitiesChange: (identities: ModelIdentity[]) => void;
+    onClose: () => void;
+}
+
+interface IdentityForm {
+    id: string | null; // null while creating
+    name: string;
+    gender: 'male' | 'female';
+    age: string;
+    brand: string;
+    existingFaces: IdentityImage[];
+    existingBodies: IdentityImage[];
+    newFaces: File[];
+    newBodies: File[];
+    removedPaths: string[];
+}
+
+const emptyForm = (): IdentityForm => ({
+    id: null, name: '', gender: 'female', age: '', brand: '',
+    existingFaces: [], existingBodies: [], newFaces: [], newBodies: [], removedPaths: [],
+});
+
+const toForm = (identity: ModelIdentity): IdentityForm => ({
+    id: identity.id, name: identity.name, gender: identity.gender, age: identity.age, brand: identity.brand,
+    existingFaces: identity.faceImages, existingBodies: identity.bodyImages, newFaces: [], newBodies: [], removedPaths: [],
+});
+
+// Thumbnails of a photo set (saved and newly picked) with a remove button on each
+const PhotoSet: React.FC<{
+    label: string;
+    inputId: string;
+    existing: IdentityImage[];
+    added: File[];
+    disabled: boolean;
+    onAdd: (files: File[]) => void;
+    onRemoveExisting: (image: IdentityImage) => void;
+    onRemoveAdded: (index: number) => void;
+}> = ({ label, inputId, existing, added, disabled, onAdd, onRemoveExisting, onRemoveAdded }) => {
+    const [addedUrls, setAddedUrls] = useState<string[]>([]);
+
+    useEffect(() => {
+        const urls = added.map(file => URL.createObjectURL(file));
+        setAddedUrls(urls);
+        return () => urls.forEach(url => URL.revokeObjectURL(url));
+    }, [added]);
+
+    const total = existing.length + added.length;
+    const thumbnails = [
+        ...existing.map(image => ({ key: image.storagePath, url: image.url, onRemove: () => onRemoveExisting(image) })),
+        ...addedUrls.map((url, index) => ({ key: url, url, onRemove: () => onRemoveAdded(index) })),
+    ];
+
+    return (
+        <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">{label} <span className="text-xs text-gray-500">({total}/{MAX_IDENTITY_IMAGES})</span></p>
+            <div className="flex flex-wrap gap-2">
+                {thumbnails.map(thumbnail => (
+                    <div key={thumbnail.key} className="relative w-20 h-20 rounded-lg overflow-hidden border border-gray-300 bg-gray-50">
+                        <img src={thumbnail.url} alt={label} className="w-full h-full object-cover" />
+                        <button onClick={thumbnail.onRemove} disabled={disabled} className="absolute top-1 right-1 p-0.5 rounded-full bg-white/90 text-gray-600 hover:text-red-600" aria-label="Remover foto">
+                            <XMarkIcon className="w-3 h-3" />
+                        </button>
+                    </div>
+                ))}
+                {total < MAX_IDENTITY_IMAGES && (
+                    <label htmlFor={inputId} className="w-20 h-20 rounded-lg border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 hover:border-blue-400 hover:text-blue-500 cursor-pointer">
+                        <PlusIcon className="w-6 h-6" />
+                    </label>
+                )}
+                <input id={inputId} type="file" accept="image/*" multiple className="hidden" disabled={disabled}
+                    onChange={e => { onAdd(Array.from(e.target.files || []).slice(0, MAX_IDENTITY_IMAGES - total)); e.target.value = ''; }} />
+            </div>
+        </div>
+    );
+};
+
+// Team "casting": model identities with face and body photos, reused across batches and brands
+const ModelIdentityModal: React.FC<ModelIdentityModalProps> = ({ isOpen, identities, currentUser, getToken, onIdentitiesChange, onClose }) => {
+    const [form, setForm] = useState<IdentityForm | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setForm(null);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const canManage = (identity: ModelIdentity) => identity.createdBy === currentUser.id || currentUser.role === 'admin';
+
+    const handleSave = async () => {
+        if (!form) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            const fields = { name: form.name.trim(), gender: form.gender, age: form.age.trim(), brand: form.brand.trim() };
+            if (form.id) {
+                const updated = await updateIdentity(form.id, { ...fields, faces: form.newFaces, bodies: form.newBodies, removedPaths: form.removedPaths }, token);
+                onIdentitiesChange(identities.map(identity => identity.id === updated.id ? updated : identity));
+            } else {
+                const created = await createIdentity({ ...fields, faces: form.newFaces, bodies: form.newBodies }, token);
+                onIdentitiesChange([...identities, created].sort((a, b) => a.name.localeCompare(b.name)));
+            }
+            setForm(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao salvar a identidade.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (identity: ModelIdentity) => {
+        if (!window.confirm(`Remover a identidade "${identity.name}"? Os lotes que a usam passarão a gerar modelos sem identidade travada.`)) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            await deleteIdentity(identity.id, token);
+            onIdentitiesChange(identities.filter(i => i.id !== identity.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao remover a identidade.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const faceCount = form ? form.existingFaces.length + form.newFaces.length : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Identidades de Modelo</h2>
+                        <p className="text-sm text-gray-600">O mesmo rosto e tipo físico em todos os itens do lote. O casting é compartilhado pela equipe.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+
+                <div className="overflow-y-auto flex flex-col gap-4">
+                    {form ? (
+                        <div className="flex flex-col gap-4 border border-gray-200 rounded-lg p-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                    <label htmlFor="identity-name" className="block text-sm font-medium text-gray-700 mb-1">Nome</label>
+                                    <input id="identity-name" type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} disabled={isSaving}
+                                        placeholder="Ex: Ana — Verão 25" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                </div>
+                                <div>
+                                    <label htmlFor="identity-gender" className="block text-sm font-medium text-gray-700 mb-1">Gênero</label>
+                                    <select id="identity-gender" value={form.gender} onChange={e => setForm({ ...form, gender: e.target.value as 'male' | 'female' })} disabled={isSaving}
+                                        className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500">
+                                        <option value="female">Feminino</option>
+                                        <option value="male">Masculino</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="identity-age" className="block text-sm font-medium text-gray-700 mb-1">Idade</label>
+                                    <input id="identity-age" type="text" value={form.age} onChange={e => setForm({ ...form, age: e.target.value })} disabled={isSaving}
+                                        placeholder="Ex: 30 anos" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                </div>
+                                <div>
+                                    <label htmlFor="identity-brand" className="block text-sm font-medium text-gray-700 mb-1">Marca padrão (opcional)</label>
+                                    <input id="identity-brand" type="text" value={form.brand} onChange={e => setForm({ ...form, brand: e.target.value })} disabled={isSaving}
+                                        placeholder="Usada nos itens desta marca" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                </div>
+                            </div>
+                            <PhotoSet
+                                label="Fotos de rosto" inputId="identity-faces" disabled={isSaving}
+                                existing={form.existingFaces} added={form.newFaces}
+                                onAdd={files => setForm({ ...form, newFaces: [...form.newFaces, ...files] })}
+                                onRemoveExisting={image => setForm({ ...form, existingFaces: form.existingFaces.filter(i => i !== image), removedPaths: [...form.removedPaths, image.storagePath] })}
+                                onRemoveAdded={index => setForm({ ...form, newFaces: form.newFaces.filter((_, i) => i !== index) })}
+                            />
+                            <PhotoSet
+                                label="Fotos de corpo" inputId="identity-bodies" disabled={isSaving}
+                                existing={form.existingBodies} added={form.newBodies}
+                                onAdd={files => setForm({ ...form, newBodies: [...form.newBodies, ...files] })}
+                                onRemoveExisting={image => setForm({ ...form, existingBodies: form.existingBodies.filter(i => i !== image), removedPaths: [...form.removedPaths, image.storagePath] })}
+                                onRemoveAdded={index => setForm({ ...form, newBodies: form.newBodies.filter((_, i) => i !== index) })}
+                            />
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setForm(null)} disabled={isSaving} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                                <button onClick={handleSave} disabled={isSaving || !form.name.trim() || faceCount === 0}
+                                    className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                    {isSaving ? 'Salvando...' : form.id ? 'Salvar Alterações' : 'Criar Identidade'}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={() => setForm(emptyForm())} className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 text-gray-600 font-semibold py-3 rounded-lg hover:border-blue-400 hover:text-blue-600">
+                            <PlusIcon className="w-5 h-5" /> Nova Identidade
+                        </button>
+                    )}
+
+                    {identities.length === 0 && !form && <p className="text-sm text-gray-500 text-center">Nenhuma identidade cadastrada.</p>}
+                    {identities.map(identity => (
+                        <div key={identity.id} className="flex items-center gap-4 border border-gray-200 rounded-lg p-3">
+                            <div className="flex -space-x-3">
+                                {[...identity.faceImages, ...identity.bodyImages].slice(0, 4).map(image => (
+                                    <img key={image.storagePath} src={image.url} alt={identity.name} className="w-12 h-12 rounded-full object-cover border-2 border-white" />
+                                ))}
+                            </div>
+                            <div className="flex-grow">
+                                <p className="font-semibold text-gray-800">{identity.name}</p>
+                                <p className="text-xs text-gray-500">
+                                    {identity.gender === 'male' ? 'Masculino' : 'Feminino'}
+                                    {identity.age && ` · ${identity.age}`}
+                                    {identity.brand && ` · Marca: ${identity.brand}`}
+                                    {` · ${identity.faceImages.length} rosto(s), ${identity.bodyImages.length} corpo(s)`}
+                                </p>
+                            </div>
+                            {canManage(identity) && (
+                                <div className="flex gap-2">
+                                    <button onClick={() => setForm(toForm(identity))} disabled={isSaving} className="text-sm text-blue-600 hover:underline">Editar</button>
+                                    <button onClick={() => handleDelete(identity)} disabled={isSaving} className="p-1 text-gray-400 hover:text-red-600" aria-label={`Remover ${identity.name}`}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModelIdentityModal;
@@ -18,6 +18,8 @@ interface ModelPanelProps {
   onTargetDimensionsChange: (dims: { width: string, height: string }) => void;
   modelNotes: string;
   onModelNotesChange: (notes: string) => void;
+  candidatesPerView: number;
+  onCandidatesPerViewChange: (count: number) => void;
   negativePrompt: string;
   onNegativePromptChange: (prompt: string) => void;
   modelAge: { male: string, female: string };
@@ -32,6 +34,7 @@ const ModelPanel: React.FC<ModelPanelProps> = ({
     onGenerateModel, isLoading, 
     targetDimensions, onTargetDimensionsChange,
     modelNotes, onModelNotesChange,
+    candidatesPerView, onCandidatesPerViewChange,
     negativePrompt, onNegativePromptChange,
     modelAge, onModelAgeChange,
     modelGender, onModelGenderChange,
@@ -266,6 +269,19 @@ const ModelPanel: React.FC<ModelPanelProps> = ({
                     </div>
                 </div>
             </div>
+            <div className="mt-4 flex items-center justify-center gap-2">
+                <label htmlFor="candidates-per-view" className="text-xs font-medium text-gray-500">Candidatos por geração</label>
+                <select
+                    id="candidates-per-view"
+                    value={candidatesPerView}
+                    onChange={(e) => onCandidatesPerViewChange(parseInt(e.target.value, 10))}
+                    disabled={isLoading}
+                    className="bg-white border border-gray-300 text-gray-800 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+                    title="Gera vários resultados para você escolher o melhor. Cada candidato é cobrado."
+                >
+                    {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+                </select>
+            </div>
         </div>
       </div>
       
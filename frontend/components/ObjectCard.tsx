@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type Product } from '../services/productService';
+import { PhotoIcon } from './icons';
+
+interface ObjectCardProps {
+    product: Product;
+    isSelected: boolean;
+    onSelect: (product: Product) => void;
+}
+
+// Card of a catalog product: thumbnail (first output, or first input photo), SKU, brand, collection and colors
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onSelect }) => {
+    const thumbnailUrl = product.outputs[0]?.url || product.inputs[0]?.url;
+
+    return (
+        <button
+            onClick={() => onSelect(product)}
+            className={`flex flex-col text-left bg-white border rounded-lg overflow-hidden transition-shadow hover:shadow-md ${isSelected ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'}`}
+        >
+            <div className="aspect-square bg-gray-100 flex items-center justify-center">
+                {thumbnailUrl
+                    ? <img src={thumbnailUrl} alt={product.sku} className="w-full h-full object-cover" />
+                    : <PhotoIcon className="w-10 h-10 text-gray-300" />}
+            </div>
+            <div className="p-3 flex flex-col gap-0.5">
+                <p className="font-semibold text-gray-800 truncate" title={product.sku}>{product.sku}</p>
+                <p className="text-xs text-gray-500 truncate">
+                    {[product.brand, product.collection].filter(Boolean).join(' · ') || 'Sem marca'}
+                </p>
+                {product.colors.length > 0 && (
+                    <p className="text-xs text-gray-500 truncate" title={product.colors.join(', ')}>Cores: {product.colors.join(', ')}</p>
+                )}
+                <p className="text-xs text-gray-400">{product.inputs.length} foto(s) · {product.outputs.length} gerada(s)</p>
+            </div>
+        </button>
+    );
+};
+
+export default ObjectCard;
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { getPresetVersions, restorePresetVersion, type BatchPreset, type PresetVersion } from '../services/presetService';
+import { type ReferenceRole } from '../services/jobService';
+import { XMarkIcon } from './icons';
+
+interface PresetHistoryModalProps {
+    preset: BatchPreset | null;
+    getToken: () => Promise<string | null>;
+    onClose: () => void;
+    onRestored: (preset: BatchPreset) => void;
+}
+
+const referenceLabels: Record<ReferenceRole, string> = {
+    maleReferenceModel: 'Modelo masculino',
+    femaleReferenceModel: 'Modelo feminino',
+    referenceScene: 'Cenário',
+    referenceFit: 'Caimento',
+    maleReferenceBottom: 'Peça complementar (masc.)',
+    femaleReferenceBottom: 'Peça complementar (fem.)',
+};
+
+// Version history of a batch preset; restoring copies an old version on top of the history
+const PresetHistoryModal: React.FC<PresetHistoryModalProps> = ({ preset, getToken, onClose, onRestored }) => {
+    const [versions, setVersions] = useState<PresetVersion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!preset) return;
+        let active = true;
+        const loadVersions = async () => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const token = await getToken();
+                if (!token) throw new Error('Token de autenticação não disponível.');
+                const result = await getPresetVersions(preset.id, token);
+                if (active) setVersions(result);
+            } catch (err) {
+                if (active) setError(err instanceof Error ? err.message : 'Falha ao carregar o histórico.');
+            } finally {
+                if (active) setIsLoading(false);
+            }
+        };
+        loadVersions();
+        return () => { active = false; };
+    }, [preset?.id, preset?.version]);
+
+    if (!preset) return null;
+
+    const handleRestore = async (version: number) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            onRestored(await restorePresetVersion(preset.id, version, token));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao restaurar a versão.');
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-2xl font-bold text-gray-800">Histórico: {preset.name}</h2>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+                {isLoading && versions.length === 0 && <p className="text-sm text-gray-500 text-center">Carregando...</p>}
+
+                <ol className="overflow-y-auto flex flex-col gap-2">
+                    {versions.map(version => {
+                        const roles = Object.keys(version.references) as ReferenceRole[];
+                        const isCurrent = version.version === preset.version;
+                        return (
+                            <li key={version.version} className={`border rounded-lg p-3 flex items-start justify-between gap-4 ${isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}>
+                                <div>
+                                    <p className="font-semibold text-gray-800">
+                                        Versão {version.version}
+                                        {isCurrent && <span className="ml-2 text-xs font-semibold text-blue-700">atual</span>}
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {version.savedAt ? new Date(version.savedAt).toLocaleString() : ''}
+                                        {version.name !== preset.name && ` · "${version.name}"`}
+                                        {version.restoredFrom && ` · restaurada da versão ${version.restoredFrom}`}
+                                    </p>
+                                    <p className="text-xs text-gray-600 mt-1">
+                                        {version.settings.brand && `Marca: ${version.settings.brand} · `}
+                                        {roles.length > 0 ? `Referências: ${roles.map(role => referenceLabels[role]).join(', ')}` : 'Sem imagens de referência'}
+                                    </p>
+                                </div>
+                                {!isCurrent && (
+                                    <button onClick={() => handleRestore(version.version)} disabled={isLoading} className="text-sm font-semibold text-blue-600 hover:underline disabled:text-gray-400 whitespace-nowrap">
+                                        Restaurar
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        </div>
+    );
+};
+
+export default PresetHistoryModal;
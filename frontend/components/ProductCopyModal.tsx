@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { COPY_LANGUAGES, copyLanguageLabels, emptyProductCopy, type CopyLanguage, type ProductCopy, type ProductCopySet } from '../services/copyService';
+import { XMarkIcon } from './icons';
+
+interface ProductCopyModalProps {
+    isOpen: boolean;
+    itemName: string;
+    copy: ProductCopySet;
+    isGenerating: boolean;
+    onRegenerate: (language: CopyLanguage) => void;
+    onSave: (copy: ProductCopySet) => void;
+    onClose: () => void;
+}
+
+const META_DESCRIPTION_LIMIT = 160;
+
+// Bullets and keywords are edited as plain text: one bullet per line, keywords separated by commas
+interface CopyForm extends Omit<ProductCopy, 'bullets' | 'keywords'> {
+    bullets: string;
+    keywords: string;
+}
+
+const toForm = (copy: ProductCopy): CopyForm => ({ ...copy, bullets: copy.bullets.join('\n'), keywords: copy.keywords.join(', ') });
+
+const fromForm = (form: CopyForm): ProductCopy => ({
+    ...form,
+    title: form.title.trim(),
+    bullets: form.bullets.split('\n').map(bullet => bullet.trim()).filter(Boolean),
+    keywords: form.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean),
+});
+
+// Editor of the store copy of a queue item (title, descriptions, bullets and SEO), one tab per language
+const ProductCopyModal: React.FC<ProductCopyModalProps> = ({ isOpen, itemName, copy, isGenerating, onRegenerate, onSave, onClose }) => {
+    const [forms, setForms] = useState<Partial<Record<CopyLanguage, CopyForm>>>({});
+    const [language, setLanguage] = useState<CopyLanguage>('pt-BR');
+    const shownCopy = useRef<ProductCopySet>({});
+
+    // Only the languages that changed (e.g. regenerated) are reloaded, so edits in the other tabs are kept
+    useEffect(() => {
+        if (!isOpen) return;
+        const changed = COPY_LANGUAGES.filter(lang => copy[lang] && copy[lang] !== shownCopy.current[lang]);
+        shownCopy.current = copy;
+        if (changed.length === 0) return;
+        setForms(prev => {
+            const next = { ...prev };
+            changed.forEach(lang => { next[lang] = toForm(copy[lang]!); });
+            return next;
+        });
+        setLanguage(prev => copy[prev] ? prev : changed[0]);
+    }, [isOpen, copy]);
+
+    if (!isOpen) return null;
+
+    const form = forms[language];
+    const updateForm = (changes: Partial<CopyForm>) => {
+        setForms(prev => ({ ...prev, [language]: { ...(prev[language] || toForm(emptyProductCopy())), ...changes } }));
+    };
+
+    const handleSave = () => {
+        const saved: ProductCopySet = {};
+        COPY_LANGUAGES.forEach(lang => {
+            const languageForm = forms[lang];
+            if (languageForm) saved[lang] = fromForm(languageForm);
+        });
+        onSave(saved);
+    };
+
+    const inputClass = 'w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Textos de E-commerce</h2>
+                        <p className="text-sm text-gray-600">{itemName}</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                <div className="flex gap-1 border-b border-gray-200">
+                    {COPY_LANGUAGES.map(lang => (
+                        <button
+                            key={lang}
+                            onClick={() => setLanguage(lang)}
+                            className={`px-4 py-2 text-sm font-semibold border-b-2 -mb-px ${language === lang ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-800'}`}
+                        >
+                            {copyLanguageLabels[lang]}{!forms[lang] && ' (vazio)'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="overflow-y-auto flex flex-col gap-3">
+                    {form ? (
+                        <>
+                            <div>
+                                <label htmlFor="copy-title" className="block text-sm font-medium text-gray-700 mb-1">Título</label>
+                                <input id="copy-title" type="text" value={form.title} onChange={e => updateForm({ title: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="copy-short" className="block text-sm font-medium text-gray-700 mb-1">Descrição curta</label>
+                                <textarea id="copy-short" value={form.shortDescription} onChange={e => updateForm({ shortDescription: e.target.value })} rows={2} className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="copy-long" className="block text-sm font-medium text-gray-700 mb-1">Descrição longa</label>
+                                <textarea id="copy-long" value={form.longDescription} onChange={e => updateForm({ longDescription: e.target.value })} rows={6} className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="copy-bullets" className="block text-sm font-medium text-gray-700 mb-1">Tópicos (um por linha)</label>
+                                <textarea id="copy-bullets" value={form.bullets} onChange={e => updateForm({ bullets: e.target.value })} rows={5} className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="copy-meta" className="block text-sm font-medium text-gray-700 mb-1">Meta descrição (SEO)</label>
+                                <textarea id="copy-meta" value={form.metaDescription} onChange={e => updateForm({ metaDescription: e.target.value })} rows={2} className={inputClass} />
+                                <p className={`text-xs mt-1 text-right ${form.metaDescription.length > META_DESCRIPTION_LIMIT ? 'text-red-600' : 'text-gray-500'}`}>
+                                    {form.metaDescription.length}/{META_DESCRIPTION_LIMIT}
+                                </p>
+                            </div>
+                            <div>
+                                <label htmlFor="copy-keywords" className="block text-sm font-medium text-gray-700 mb-1">Palavras-chave (separadas por vírgula)</label>
+                                <input id="copy-keywords" type="text" value={form.keywords} onChange={e => updateForm({ keywords: e.target.value })} className={inputClass} />
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-sm text-gray-500 text-center p-8">Ainda não há textos em {copyLanguageLabels[language].toLowerCase()}.</p>
+                    )}
+                </div>
+
+                <div className="flex justify-between gap-2">
+                    <button
+                        onClick={() => onRegenerate(language)}
+                        disabled={isGenerating}
+                        className="bg-white border border-blue-300 text-blue-700 font-semibold py-2 px-4 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                        title="Substitui os textos deste idioma por uma nova geração"
+                    >
+                        {isGenerating ? 'Gerando...' : form ? `Gerar novamente (${copyLanguageLabels[language]})` : `Gerar em ${copyLanguageLabels[language]}`}
+                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <button onClick={handleSave} disabled={isGenerating} className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-400">Salvar Textos</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProductCopyModal;
@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { getProducts, updateProduct, PRODUCTS_PAGE_SIZE, type Product } from '../services/productService';
+import { MagnifyingGlassIcon, XMarkIcon, PencilIcon } from './icons';
+import Spinner from './Spinner';
+import ObjectCard from './ObjectCard';
+
+interface ProductSelectorProps {
+    getToken: () => Promise<string | null>;
+    onOpenInEditor: (image: { url: string; name: string; galleryId?: string }) => void;
+    onOpenInBatch: (product: Product) => void;
+}
+
+// Browses the product catalog and reopens a product's images in the Editor or the whole product in the Batch
+const ProductSelector: React.FC<ProductSelectorProps> = ({ getToken, onOpenInEditor, onOpenInBatch }) => {
+    const [products, setProducts] = useState<Product[]>([]);
+    const [brands, setBrands] = useState<string[]>([]);
+    const [search, setSearch] = useState('');
+    const [brandFilter, setBrandFilter] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [hasMore, setHasMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [editCollection, setEditCollection] = useState('');
+    const [editColors, setEditColors] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const timeout = setTimeout(async () => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const token = await getToken();
+                if (!token) throw new Error('Token de autenticação não disponível.');
+                const list = await getProducts({ search, brand: brandFilter }, token);
+                setProducts(list);
+                setHasMore(list.length === PRODUCTS_PAGE_SIZE);
+                if (!search.trim() && !brandFilter) {
+                    setBrands(Array.from(new Set(list.map(product => product.brand).filter(Boolean))).sort());
+                }
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Falha ao carregar os produtos.');
+                console.error(err);
+            } finally {
+                setIsLoading(false);
+            }
+        }, 300);
+        return () => clearTimeout(timeout);
+    }, [search, brandFilter]);
+
+    // Appends the next page of the same search
+    const handleLoadMore = async () => {
+        if (products.length === 0) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            const list = await getProducts({ search, brand: brandFilter, startAfter: products[products.length - 1].id }, token);
+            setProducts(prev => [...prev, ...list]);
+            setHasMore(list.length === PRODUCTS_PAGE_SIZE);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao carregar os produtos.');
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const selected = products.find(product => product.id === selectedId) || null;
+
+    const outputsByView = useMemo(() => {
+        const groups = new Map<string, Product['outputs']>();
+        selected?.outputs.forEach(output => {
+            groups.set(output.view, [...(groups.get(output.view) || []), output]);
+        });
+        return Array.from(groups.entries());
+    }, [selected]);
+
+    const handleSelect = (product: Product) => {
+        setSelectedId(product.id);
+        setIsEditing(false);
+    };
+
+    const handleStartEditing = () => {
+        if (!selected) return;
+        setEditCollection(selected.collection);
+        setEditColors(selected.colors.join(', '));
+        setIsEditing(true);
+    };
+
+    const handleSave = async () => {
+        if (!selected) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            const updated = await updateProduct(selected.id, {
+                collection: editCollection.trim(),
+                colors: editColors.split(',').map(color => color.trim()).filter(Boolean),
+            }, token);
+            setProducts(prev => prev.map(product => product.id === updated.id ? updated : product));
+            setIsEditing(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao salvar o produto.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-7xl mx-auto flex flex-col gap-6 animate-fade-in">
+            <h1 className="text-3xl font-bold text-gray-800 text-center">Produtos</h1>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-grow">
+                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                        <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
+                    </div>
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="Buscar pelo início do SKU..."
+                        className="w-full bg-white border border-gray-300 text-gray-800 rounded-lg py-3 pl-10 pr-10 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                    {search && (
+                        <button onClick={() => setSearch('')} className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-gray-600" aria-label="Limpar busca">
+                            <XMarkIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                </div>
+                <select value={brandFilter} onChange={e => setBrandFilter(e.target.value)} className="sm:w-56 bg-white border border-gray-300 text-gray-800 rounded-lg p-3 text-base focus:ring-2 focus:ring-blue-500">
+                    <option value="">Todas as marcas</option>
+                    {brands.map(brand => <option key={brand} value={brand}>{brand}</option>)}
+                </select>
+            </div>
+
+            {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+
+            <div className="flex flex-col lg:flex-row gap-6 items-start">
+                <div className="flex-grow w-full">
+                    {isLoading && products.length === 0 ? (
+                        <div className="flex justify-center p-16"><Spinner /></div>
+                    ) : products.length === 0 ? (
+                        <p className="text-center text-gray-500 p-16">
+                            Nenhum produto encontrado. Os produtos são criados ao processar itens no lote.
+                        </p>
+                    ) : (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-4 gap-4">
+                            {products.map(product => (
+                                <ObjectCard key={product.id} product={product} isSelected={product.id === selectedId} onSelect={handleSelect} />
+                            ))}
+                        </div>
+                    )}
+                    {hasMore && (
+                        <div className="flex justify-center mt-4">
+                            <button onClick={handleLoadMore} disabled={isLoading} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300 disabled:opacity-50">
+                                {isLoading ? 'Carregando...' : 'Carregar mais'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {selected && (
+                    <div className="w-full lg:w-[28rem] flex-shrink-0 bg-white border border-gray-200 rounded-xl p-5 flex flex-col gap-4 lg:sticky lg:top-4 lg:max-h-[85vh] lg:overflow-y-auto">
+                        <div className="flex items-start justify-between gap-2">
+                            <div>
+                                <h2 className="text-xl font-bold text-gray-800">{selected.sku}</h2>
+                                <p className="text-sm text-gray-500">{selected.brand || 'Sem marca'}</p>
+                            </div>
+                            <button onClick={() => setSelectedId(null)} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-5 h-5" /></button>
+                        </div>
+
+                        {isEditing ? (
+                            <div className="flex flex-col gap-2">
+                                <input type="text" value={editCollection} onChange={e => setEditCollection(e.target.value)} disabled={isSaving} placeholder="Coleção"
+                                    className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                <input type="text" value={editColors} onChange={e => setEditColors(e.target.value)} disabled={isSaving} placeholder="Cores, separadas por vírgula"
+                                    className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={() => setIsEditing(false)} disabled={isSaving} className="bg-gray-200 text-gray-800 font-semibold py-1.5 px-3 rounded-lg text-sm hover:bg-gray-300">Cancelar</button>
+                                    <button onClick={handleSave} disabled={isSaving} className="bg-blue-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm hover:bg-blue-700 disabled:bg-gray-400">
+                                        {isSaving ? 'Salvando...' : 'Salvar'}
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex items-start justify-between gap-2 text-sm text-gray-700">
+                                <div>
+                                    <p><span className="font-medium">Coleção:</span> {selected.collection || '—'}</p>
+                                    <p><span className="font-medium">Cores:</span> {selected.colors.join(', ') || '—'}</p>
+                                </div>
+                                <button onClick={handleStartEditing} className="p-1 text-gray-400 hover:text-blue-600" aria-label="Editar produto"><PencilIcon className="w-4 h-4" /></button>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={() => onOpenInBatch(selected)}
+                            disabled={selected.inputs.length === 0}
+                            className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                            Abrir no Lote
+                        </button>
+
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-700 mb-2">Fotos de entrada</h3>
+                            {selected.inputs.length === 0 ? <p className="text-xs text-gray-500">Nenhuma foto guardada.</p> : (
+                                <div className="grid grid-cols-3 gap-2">
+                                    {selected.inputs.map(input => (
+                                        <button key={input.url} onClick={() => onOpenInEditor({ url: input.url, name: input.name })} title={`Abrir ${input.name} no Editor`} className="relative aspect-square rounded-md overflow-hidden bg-gray-100">
+                                            <img src={input.url} alt={input.name} className="w-full h-full object-cover" />
+                                            {input.color && <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] px-1 truncate">{input.color}</span>}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="flex flex-col gap-3">
+                            <h3 className="text-sm font-semibold text-gray-700">Imagens geradas</h3>
+                            {outputsByView.length === 0 && <p className="text-xs text-gray-500">Nenhuma imagem gerada ainda.</p>}
+                            {outputsByView.map(([view, outputs]) => (
+                                <div key={view}>
+                                    <p className="text-xs font-medium text-gray-500 mb-1">{view} ({outputs.length})</p>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {outputs.map(output => (
+                                            <button key={`${output.galleryId}-${output.url}`} onClick={() => onOpenInEditor({ url: output.url, name: output.name, galleryId: output.galleryId })}
+                                                title={`Abrir ${output.name} no Editor`} className="relative aspect-square rounded-md overflow-hidden bg-gray-100">
+                                                <img src={output.url} alt={output.name} className="w-full h-full object-cover" />
+                                                {output.color && <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] px-1 truncate">{output.color}</span>}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {selected.description && (
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-700 mb-1">Descrição da peça</h3>
+                                <dl className="text-xs text-gray-600 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+                                    {Object.entries(selected.description).map(([key, value]) => (
+                                        <React.Fragment key={key}><dt className="font-medium">{key}</dt><dd>{value}</dd></React.Fragment>
+                                    ))}
+                                </dl>
+                            </div>
+                        )}
+
+                        {Object.keys(selected.metadata).length > 0 && (
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-700 mb-1">Dados da planilha</h3>
+                                <dl className="text-xs text-gray-600 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+                                    {Object.entries(selected.metadata).map(([key, value]) => (
+                                        <React.Fragment key={key}><dt className="font-medium">{key}</dt><dd>{value}</dd></React.Fragment>
+                                    ))}
+                                </dl>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ProductSelector;
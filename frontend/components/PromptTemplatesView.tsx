@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    activatePromptTemplateVersion,
+    getPromptTemplates,
+    savePromptTemplateVersion,
+    type PromptTemplate,
+    type PromptTemplateKey,
+    type PromptTemplateScope,
+} from '../services/promptTemplateService';
+import Spinner from './Spinner';
+
+interface PromptTemplatesViewProps {
+    getToken: () => Promise<string | null>;
+}
+
+const sameBrand = (a: string | null, b: string | null) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const findScope = (template: PromptTemplate, brand: string | null): PromptTemplateScope =>
+    !brand ? template.global : template.overrides.find(scope => sameBrand(scope.brand, brand)) || { brand, activeVersion: 0, versions: [] };
+
+// Text the server sends today for this scope: the brand's active version, else the global one, else the default
+const getEffectiveText = (template: PromptTemplate, brand: string | null) => {
+    const pick = (scope: PromptTemplateScope) => scope.versions.find(version => version.version === scope.activeVersion)?.text;
+    return (brand ? pick(findScope(template, brand)) : undefined) ?? pick(template.global) ?? template.defaultText;
+};
+
+const formatDate = (iso: string | null) => iso ? new Date(iso).toLocaleString('pt-BR') : '';
+
+// Admin view to tune the AI prompts without a deploy: versioned edits, per-brand overrides and rollback
+const PromptTemplatesView: React.FC<PromptTemplatesViewProps> = ({ getToken }) => {
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [selectedKey, setSelectedKey] = useState<PromptTemplateKey>('modelGeneration');
+    const [brandInput, setBrandInput] = useState('');
+    const [text, setText] = useState('');
+    const [note, setNote] = useState('');
+    const [isDirty, setIsDirty] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const brand = brandInput.trim() || null;
+    const selected = templates.find(template => template.key === selectedKey);
+    const scope = selected ? findScope(selected, brand) : null;
+    const knownBrands = Array.from(new Set(templates.flatMap(template => template.overrides.map(override => override.brand!)))).sort();
+
+    useEffect(() => {
+        const fetchTemplates = async () => {
+            setIsLoading(true);
+            try {
+                const token = await getToken();
+                if (!token) throw new Error('Authentication token not available.');
+                setTemplates(await getPromptTemplates(token));
+            } catch (err) {
+                setError('Falha ao carregar os templates de prompt.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchTemplates();
+    }, []);
+
+    // The editor starts from the text currently in use for the selected prompt and scope
+    useEffect(() => {
+        if (!selected) return;
+        setText(getEffectiveText(selected, brand));
+        setNote('');
+        setIsDirty(false);
+        setActionError(null);
+    }, [selectedKey, brand, templates]);
+
+    const confirmDiscard = () => !isDirty || window.confirm('Descartar as alterações não salvas deste prompt?');
+
+    const handleSelect = (key: PromptTemplateKey) => {
+        if (key === selectedKey || !confirmDiscard()) return;
+        setSelectedKey(key);
+    };
+
+    const handleBrandChange = (value: string) => {
+        if (!confirmDiscard()) return;
+        setBrandInput(value);
+    };
+
+    const updateScope = (key: PromptTemplateKey, updated: PromptTemplateScope) => {
+        setTemplates(prev => prev.map(template => {
+            if (template.key !== key) return template;
+            if (!updated.brand) return { ...template, global: updated };
+            const overrides = [...template.overrides.filter(override => !sameBrand(override.brand, updated.brand)), updated]
+                .sort((a, b) => a.brand!.localeCompare(b.brand!));
+            return { ...template, overrides };
+        }));
+    };
+
+    const insertVariable = (variable: string) => {
+        const textarea = textareaRef.current;
+        const start = textarea?.selectionStart ?? text.length;
+        const end = textarea?.selectionEnd ?? text.length;
+        setText(text.slice(0, start) + `{{${variable}}}` + text.slice(end));
+        setIsDirty(true);
+        textarea?.focus();
+    };
+
+    const handleSave = async () => {
+        if (!selected) return;
+        setIsSaving(true);
+        setActionError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            updateScope(selected.key, await savePromptTemplateVersion(selected.key, brand, text, note, token));
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : 'Falha ao salvar o prompt.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleActivate = async (version: number) => {
+        if (!selected || !confirmDiscard()) return;
+        setIsSaving(true);
+        setActionError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            updateScope(selected.key, await activatePromptTemplateVersion(selected.key, brand, version, token));
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : 'Falha ao ativar a versão.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="w-full flex justify-center p-16"><Spinner /></div>;
+    }
+
+    if (error) {
+        return <div className="text-center text-red-600">{error}</div>;
+    }
+
+    const versionRows = scope ? [...scope.versions].sort((a, b) => b.version - a.version) : [];
+
+    return (
+        <div className="w-full max-w-7xl mx-auto flex flex-col gap-8 animate-fade-in">
+            <div className="text-center">
+                <h1 className="text-3xl font-bold text-gray-800">Templates de Prompt</h1>
+                <p className="text-sm text-gray-600 mt-1">Cada alteração gera uma nova versão. A versão usada fica registrada no custo e em cada imagem gerada.</p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+                {/* Template list */}
+                <nav className="bg-white/80 border border-gray-200 rounded-lg p-4 backdrop-blur-sm self-start flex flex-col gap-1">
+                    {templates.map(template => (
+                        <button
+                            key={template.key}
+                            onClick={() => handleSelect(template.key)}
+                            className={`text-left text-sm px-3 py-2 rounded-lg ${template.key === selectedKey ? 'bg-blue-100 text-blue-800 font-semibold' : 'text-gray-700 hover:bg-gray-100'}`}
+                        >
+                            {template.label}
+                            <span className="block text-xs font-normal text-gray-500">
+                                {template.global.activeVersion ? `v${template.global.activeVersion}` : 'Padrão'}
+                                {template.overrides.length > 0 ? ` · ${template.overrides.length} marca(s)` : ''}
+                            </span>
+                        </button>
+                    ))}
+                </nav>
+
+                {selected && scope && (
+                    <>
+                        {/* Editor */}
+                        <div className="lg:col-span-2 bg-white/80 border border-gray-200 rounded-lg p-6 backdrop-blur-sm flex flex-col gap-4">
+                            <div>
+                                <h2 className="text-xl font-semibold text-gray-700">{selected.label}</h2>
+                                <p className="text-sm text-gray-500">{selected.description}</p>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Marca</label>
+                                <input
+                                    type="text"
+                                    list="prompt-template-brands"
+                                    value={brandInput}
+                                    onChange={e => handleBrandChange(e.target.value)}
+                                    placeholder="Vazio = prompt global"
+                                    disabled={isSaving}
+                                    className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                />
+                                <datalist id="prompt-template-brands">
+                                    {knownBrands.map(name => <option key={name} value={name} />)}
+                                </datalist>
+                                {brand && scope.activeVersion === 0 && (
+                                    <p className="text-xs text-gray-500 mt-1">Esta marca usa o prompt global. Salvar cria uma personalização só para ela.</p>
+                                )}
+                            </div>
+
+                            {selected.variables.length > 0 && (
+                                <div>
+                                    <p className="text-sm font-medium text-gray-700 mb-1">Variáveis (clique para inserir)</p>
+                                    <div className="flex flex-wrap gap-1">
+                                        {selected.variables.map(variable => (
+                                            <button key={variable} onClick={() => insertVariable(variable)} disabled={isSaving}
+                                                className="text-xs font-mono px-2 py-1 rounded-full bg-gray-100 text-gray-700 hover:bg-blue-100 hover:text-blue-800">
+                                                {`{{${variable}}}`}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-1">{'Use {{#variavel}}...{{/variavel}} para um trecho que só entra quando a variável tem valor.'}</p>
+                                </div>
+                            )}
+
+                            <textarea
+                                ref={textareaRef}
+                                value={text}
+                                onChange={e => { setText(e.target.value); setIsDirty(true); }}
+                                disabled={isSaving}
+                                rows={18}
+                                className="w-full bg-white border border-gray-300 rounded-lg p-3 text-sm font-mono focus:ring-2 focus:ring-blue-500"
+                            />
+                            <input
+                                type="text"
+                                value={note}
+                                onChange={e => setNote(e.target.value)}
+                                disabled={isSaving}
+                                placeholder="O que mudou nesta versão? (opcional)"
+                                className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            />
+
+                            {actionError && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{actionError}</p>}
+
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => { setText(getEffectiveText(selected, brand)); setIsDirty(false); }} disabled={isSaving || !isDirty}
+                                    className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300 disabled:opacity-50">
+                                    Descartar
+                                </button>
+                                <button onClick={handleSave} disabled={isSaving || !isDirty || !text.trim()}
+                                    className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                    {isSaving ? 'Salvando...' : brand ? `Salvar versão para ${brand}` : 'Salvar nova versão'}
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Version history */}
+                        <div className="bg-white/80 border border-gray-200 rounded-lg p-4 backdrop-blur-sm self-start flex flex-col gap-2">
+                            <h2 className="text-lg font-semibold text-gray-700">Histórico {brand ? `· ${brand}` : '· Global'}</h2>
+                            {versionRows.map(version => (
+                                <div key={version.version} className={`border rounded-lg p-3 text-sm ${version.version === scope.activeVersion ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-semibold text-gray-800">v{version.version}</span>
+                                        {version.version === scope.activeVersion ? (
+                                            <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded-full bg-blue-100 text-blue-700">Ativa</span>
+                                        ) : (
+                                            <button onClick={() => handleActivate(version.version)} disabled={isSaving} className="text-xs font-semibold text-blue-600 hover:underline">Ativar</button>
+                                        )}
+                                    </div>
+                                    {version.note && <p className="text-gray-700 mt-1">{version.note}</p>}
+                                    <p className="text-xs text-gray-500 mt-1">{formatDate(version.createdAt)}</p>
+                                    <button onClick={() => { if (confirmDiscard()) { setText(version.text); setIsDirty(true); } }} disabled={isSaving}
+                                        className="text-xs text-gray-600 hover:text-blue-600 hover:underline mt-1">
+                                        Carregar no editor
+                                    </button>
+                                </div>
+                            ))}
+                            <div className={`border rounded-lg p-3 text-sm ${scope.activeVersion === 0 ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}>
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-semibold text-gray-800">{brand ? 'Sem personalização' : 'Padrão do sistema'}</span>
+                                    {scope.activeVersion === 0 ? (
+                                        <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded-full bg-blue-100 text-blue-700">Ativa</span>
+                                    ) : (
+                                        <button onClick={() => handleActivate(0)} disabled={isSaving} className="text-xs font-semibold text-blue-600 hover:underline">Ativar</button>
+                                    )}
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1">{brand ? 'A marca usa o prompt global.' : 'Texto original do sistema.'}</p>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplatesView;
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type QualityCheck } from '../App';
+import AnnotatedImage, { type AnnotationPoint } from './AnnotatedImage';
+import { XMarkIcon } from './icons';
+
+interface QualityReviewModalProps {
+    isOpen: boolean;
+    itemName: string;
+    checks: QualityCheck[];
+    onClose: () => void;
+}
+
+const PointList: React.FC<{ points: AnnotationPoint[] }> = ({ points }) => (
+    <ol className="mt-2 text-xs text-gray-600 list-decimal list-inside space-y-0.5">
+        {points.map((point, index) => <li key={index}>{point.description}</li>)}
+    </ol>
+);
+
+// Review of the automatic quality control of a batch item: each correction round with its before/after
+const QualityReviewModal: React.FC<QualityReviewModalProps> = ({ isOpen, itemName, checks, onClose }) => {
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-2xl font-bold text-gray-800">Controle de Qualidade: {itemName}</h2>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                <div className="overflow-y-auto flex flex-col gap-6">
+                    {checks.map(check => (
+                        <section key={check.view} className="border border-gray-200 rounded-lg p-4">
+                            <div className="flex items-center justify-between mb-3">
+                                <h3 className="text-lg font-semibold text-gray-800">{check.view}</h3>
+                                <span className={`text-xs font-semibold px-2 py-1 rounded-full ${check.passed ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
+                                    {check.passed
+                                        ? (check.comparisons.length > 0 ? `Corrigido em ${check.comparisons.length} rodada(s)` : 'Aprovado')
+                                        : 'Requer revisão manual'}
+                                </span>
+                            </div>
+
+                            {check.comparisons.map((comparison, index) => (
+                                <div key={index} className="mb-4">
+                                    <p className="text-sm font-medium text-gray-600 mb-2">Rodada {index + 1}</p>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <p className="text-xs text-gray-500 mb-1">Antes</p>
+                                            <AnnotatedImage file={comparison.before} points={comparison.points} alt={`Antes da rodada ${index + 1}`} />
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-gray-500 mb-1">Depois</p>
+                                            <AnnotatedImage file={comparison.after} alt={`Depois da rodada ${index + 1}`} />
+                                        </div>
+                                    </div>
+                                    <PointList points={comparison.points} />
+                                </div>
+                            ))}
+
+                            {!check.passed && check.remainingPoints && check.remainingPoints.length > 0 && (
+                                <div className="p-3 rounded-lg bg-amber-50 border border-amber-200">
+                                    <p className="text-sm font-semibold text-amber-800">Discrepâncias restantes</p>
+                                    <PointList points={check.remainingPoints} />
+                                </div>
+                            )}
+                        </section>
+                    ))}
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Fechar</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default QualityReviewModal;
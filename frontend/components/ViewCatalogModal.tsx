@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+    createViewDefinition, updateViewDefinition, deleteViewDefinition,
+    type ViewDefinition, type ViewDefinitionInput, type ViewPostProcess,
+} from '../services/viewService';
+import { TrashIcon, XMarkIcon, PlusIcon } from './icons';
+
+interface ViewCatalogModalProps {
+    isOpen: boolean;
+    views: ViewDefinition[];
+    getToken: () => Promise<string | null>;
+    onViewsChange: (views: ViewDefinition[]) => void;
+    onClose: () => void;
+}
+
+interface ViewForm extends ViewDefinitionInput {
+    id: string | null; // null while creating
+}
+
+const postProcessLabels: Record<ViewPostProcess, string> = {
+    expand: 'Expandir com IA',
+    crop: 'Recortar',
+    pad: 'Encaixar com bordas',
+};
+
+const emptyForm = (): ViewForm => ({
+    id: null, name: '', framingPrompt: '', aspectRatio: '1:1', postProcess: 'crop', outputSuffix: '', needsBackPhoto: false,
+});
+
+const toForm = (view: ViewDefinition): ViewForm => ({
+    id: view.id, name: view.name, framingPrompt: view.framingPrompt, aspectRatio: view.aspectRatio,
+    postProcess: view.postProcess, outputSuffix: view.outputSuffix, needsBackPhoto: view.needsBackPhoto,
+});
+
+// Admin catalog of the batch output views: framing, aspect ratio, post-processing and file suffix of each one
+const ViewCatalogModal: React.FC<ViewCatalogModalProps> = ({ isOpen, views, getToken, onViewsChange, onClose }) => {
+    const [form, setForm] = useState<ViewForm | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setForm(null);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleSave = async () => {
+        if (!form) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            const { id, ...fields } = form;
+            const input: ViewDefinitionInput = {
+                ...fields,
+                name: fields.name.trim(),
+                framingPrompt: fields.framingPrompt.trim(),
+                outputSuffix: fields.outputSuffix.trim() || fields.name.trim().replace(/\s+/g, '_'),
+            };
+            if (id) {
+                const updated = await updateViewDefinition(id, input, token);
+                onViewsChange(views.map(view => view.id === updated.id ? updated : view));
+            } else {
+                onViewsChange([...views, await createViewDefinition(input, token)]);
+            }
+            setForm(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao salvar a vista.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (view: ViewDefinition) => {
+        if (!window.confirm(`Remover a vista "${view.name}"? Presets que a usam passarão a recortá-la com o enquadramento padrão.`)) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            await deleteViewDefinition(view.id, token);
+            onViewsChange(views.filter(v => v.id !== view.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao remover a vista.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Catálogo de Vistas</h2>
+                        <p className="text-sm text-gray-600">Vistas disponíveis na geração em lote para toda a equipe.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+
+                <div className="overflow-y-auto flex flex-col gap-4">
+                    {form ? (
+                        <div className="flex flex-col gap-3 border border-gray-200 rounded-lg p-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                    <label htmlFor="view-name" className="block text-sm font-medium text-gray-700 mb-1">Nome</label>
+                                    <input id="view-name" type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} disabled={isSaving}
+                                        placeholder="Ex: Flat lay" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                </div>
+                                <div>
+                                    <label htmlFor="view-suffix" className="block text-sm font-medium text-gray-700 mb-1">Sufixo do arquivo</label>
+                                    <input id="view-suffix" type="text" value={form.outputSuffix} onChange={e => setForm({ ...form, outputSuffix: e.target.value })} disabled={isSaving}
+                                        placeholder={form.name.trim().replace(/\s+/g, '_') || 'Ex: Flat_Lay'} className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                </div>
+                                <div>
+                                    <label htmlFor="view-aspect" className="block text-sm font-medium text-gray-700 mb-1">Proporção</label>
+                                    <input id="view-aspect" type="text" value={form.aspectRatio} onChange={e => setForm({ ...form, aspectRatio: e.target.value })} disabled={isSaving}
+                                        placeholder="Ex: 3:4" className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                                </div>
+                                <div>
+                                    <label htmlFor="view-post" className="block text-sm font-medium text-gray-700 mb-1">Ajuste às dimensões finais</label>
+                                    <select id="view-post" value={form.postProcess} onChange={e => setForm({ ...form, postProcess: e.target.value as ViewPostProcess })} disabled={isSaving}
+                                        className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500">
+                                        {(Object.keys(postProcessLabels) as ViewPostProcess[]).map(option => <option key={option} value={option}>{postProcessLabels[option]}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="view-framing" className="block text-sm font-medium text-gray-700 mb-1">Instrução de enquadramento</label>
+                                <textarea id="view-framing" value={form.framingPrompt} onChange={e => setForm({ ...form, framingPrompt: e.target.value })} disabled={isSaving} rows={3}
+                                    placeholder="Ex: Flat lay: a roupa estendida sobre uma superfície, vista de cima, sem modelo"
+                                    className="w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500" />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input type="checkbox" checked={form.needsBackPhoto} onChange={e => setForm({ ...form, needsBackPhoto: e.target.checked })} disabled={isSaving}
+                                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                Usa a foto de costas (e mantém a parte de trás da roupa visível)
+                            </label>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setForm(null)} disabled={isSaving} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Cancelar</button>
+                                <button onClick={handleSave} disabled={isSaving || !form.name.trim() || !form.framingPrompt.trim()}
+                                    className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                    {isSaving ? 'Salvando...' : form.id ? 'Salvar Alterações' : 'Criar Vista'}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={() => setForm(emptyForm())} className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 text-gray-600 font-semibold py-3 rounded-lg hover:border-blue-400 hover:text-blue-600">
+                            <PlusIcon className="w-5 h-5" /> Nova Vista
+                        </button>
+                    )}
+
+                    {views.map(view => (
+                        <div key={view.id} className="flex items-center gap-4 border border-gray-200 rounded-lg p-3">
+                            <div className="flex-grow">
+                                <p className="font-semibold text-gray-800">{view.name}</p>
+                                <p className="text-xs text-gray-500">
+                                    {`${view.aspectRatio} · ${postProcessLabels[view.postProcess]} · arquivo: SKU-${view.outputSuffix}`}
+                                    {view.needsBackPhoto && ' · foto de costas'}
+                                </p>
+                                <p className="text-xs text-gray-600 mt-1">{view.framingPrompt}</p>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => setForm(toForm(view))} disabled={isSaving} className="text-sm text-blue-600 hover:underline">Editar</button>
+                                <button onClick={() => handleDelete(view)} disabled={isSaving} className="p-1 text-gray-400 hover:text-red-600" aria-label={`Remover ${view.name}`}>
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ViewCatalogModal;
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { saveVocabularyTerms, type Vocabulary, type VocabularyId } from '../services/vocabularyService';
+import { TrashIcon, XMarkIcon, PlusIcon } from './icons';
+
+interface VocabularyModalProps {
+    isOpen: boolean;
+    vocabularies: Vocabulary[];
+    getToken: () => Promise<string | null>;
+    onVocabulariesChange: (vocabularies: Vocabulary[]) => void;
+    onClose: () => void;
+}
+
+// Synonyms are edited as plain text, separated by commas
+interface TermForm {
+    value: string;
+    synonyms: string;
+    hex: string;
+}
+
+const toForms = (vocabulary: Vocabulary): TermForm[] =>
+    vocabulary.terms.map(term => ({ value: term.value, synonyms: term.synonyms.join(', '), hex: term.hex || '' }));
+
+// Admin editor of the attribute vocabularies the AI description is normalized to (the store filter facets)
+const VocabularyModal: React.FC<VocabularyModalProps> = ({ isOpen, vocabularies, getToken, onVocabulariesChange, onClose }) => {
+    const [selectedId, setSelectedId] = useState<VocabularyId>('garmentType');
+    const [terms, setTerms] = useState<TermForm[]>([]);
+    const [isDirty, setIsDirty] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const selected = vocabularies.find(vocabulary => vocabulary.id === selectedId);
+
+    useEffect(() => {
+        if (!isOpen || !selected) return;
+        setTerms(toForms(selected));
+        setIsDirty(false);
+        setError(null);
+    }, [isOpen, selectedId, vocabularies]);
+
+    if (!isOpen) return null;
+
+    const handleSelect = (vocabularyId: VocabularyId) => {
+        if (isDirty && !window.confirm('Descartar as alterações não salvas deste vocabulário?')) return;
+        setSelectedId(vocabularyId);
+    };
+
+    const updateTerm = (index: number, changes: Partial<TermForm>) => {
+        setTerms(prev => prev.map((term, i) => i === index ? { ...term, ...changes } : term));
+        setIsDirty(true);
+    };
+
+    const removeTerm = (index: number) => {
+        setTerms(prev => prev.filter((_, i) => i !== index));
+        setIsDirty(true);
+    };
+
+    const addTerm = () => {
+        setTerms(prev => [...prev, { value: '', synonyms: '', hex: selectedId === 'color' ? '#000000' : '' }]);
+        setIsDirty(true);
+    };
+
+    const handleSave = async () => {
+        if (!selected) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            if (!token) throw new Error('Token de autenticação não disponível.');
+            const saved = await saveVocabularyTerms(selected.id, terms.filter(term => term.value.trim()).map(term => ({
+                value: term.value.trim(),
+                synonyms: term.synonyms.split(',').map(synonym => synonym.trim()).filter(Boolean),
+                ...(selected.id === 'color' && term.hex ? { hex: term.hex } : {}),
+            })), token);
+            onVocabulariesChange(vocabularies.map(vocabulary => vocabulary.id === saved.id ? saved : vocabulary));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao salvar o vocabulário.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full bg-white border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Vocabulário de Atributos</h2>
+                        <p className="text-sm text-gray-600">A análise da IA só usa estes termos; os sinônimos são convertidos para o termo principal. Apenas "Detalhes Adicionais" fica em texto livre.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Fechar"><XMarkIcon className="w-6 h-6" /></button>
+                </div>
+
+                {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+
+                <div className="flex gap-4 min-h-0 flex-grow">
+                    <nav className="w-48 flex-shrink-0 flex flex-col gap-1 overflow-y-auto">
+                        {vocabularies.map(vocabulary => (
+                            <button
+                                key={vocabulary.id}
+                                onClick={() => handleSelect(vocabulary.id)}
+                                className={`text-left text-sm px-3 py-2 rounded-lg ${vocabulary.id === selectedId ? 'bg-blue-100 text-blue-800 font-semibold' : 'text-gray-700 hover:bg-gray-100'}`}
+                            >
+                                {vocabulary.attribute}
+                                <span className="block text-xs font-normal text-gray-500">{vocabulary.terms.length} termos{vocabulary.multiple ? ' · vários valores' : ''}</span>
+                            </button>
+                        ))}
+                    </nav>
+
+                    <div className="flex-grow flex flex-col gap-2 overflow-y-auto pr-1">
+                        {!selected ? (
+                            <p className="text-sm text-gray-500 text-center p-8">Nenhum vocabulário carregado.</p>
+                        ) : (
+                            <>
+                                <div className={`grid ${selected.id === 'color' ? 'grid-cols-[3rem_1fr_2fr_auto]' : 'grid-cols-[1fr_2fr_auto]'} gap-2 text-xs font-medium text-gray-500 px-1`}>
+                                    {selected.id === 'color' && <span>Cor</span>}
+                                    <span>Termo</span>
+                                    <span>Sinônimos (separados por vírgula)</span>
+                                    <span className="w-6" />
+                                </div>
+                                {terms.map((term, index) => (
+                                    <div key={index} className={`grid ${selected.id === 'color' ? 'grid-cols-[3rem_1fr_2fr_auto]' : 'grid-cols-[1fr_2fr_auto]'} gap-2 items-center`}>
+                                        {selected.id === 'color' && (
+                                            <input type="color" value={term.hex || '#000000'} onChange={e => updateTerm(index, { hex: e.target.value.toUpperCase() })} disabled={isSaving}
+                                                className="w-12 h-9 rounded border border-gray-300 cursor-pointer" aria-label={`Cor de ${term.value || 'novo termo'}`} />
+                                        )}
+                                        <input type="text" value={term.value} onChange={e => updateTerm(index, { value: e.target.value })} disabled={isSaving} placeholder="Termo" className={inputClass} />
+                                        <input type="text" value={term.synonyms} onChange={e => updateTerm(index, { synonyms: e.target.value })} disabled={isSaving} placeholder="Ex: oversize, boxy" className={inputClass} />
+                                        <button onClick={() => removeTerm(index)} disabled={isSaving} className="p-1 text-gray-400 hover:text-red-600" aria-label={`Remover ${term.value || 'termo'}`}>
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button onClick={addTerm} disabled={isSaving} className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 text-gray-600 font-semibold py-2 rounded-lg hover:border-blue-400 hover:text-blue-600">
+                                    <PlusIcon className="w-5 h-5" /> Novo Termo
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded-lg hover:bg-gray-300">Fechar</button>
+                    <button onClick={handleSave} disabled={isSaving || !isDirty || !terms.some(term => term.value.trim())}
+                        className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                        {isSaving ? 'Salvando...' : 'Salvar Vocabulário'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VocabularyModal;
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// AI calls whose results are shared by every user through the server cache
+export type AiCacheKind = 'describe' | 'training';
+
+export const aiCacheKindLabels: Record<AiCacheKind, string> = {
+  describe: 'Análise de Peça',
+  training: 'Treinamento de IA',
+};
+
+export interface AiCacheStats {
+  kind: AiCacheKind;
+  entries: number;
+  hits: number;
+}
+
+const sendCacheRequest = async <T>(url: string, method: string, token: string): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com o cache de IA.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches the number of cached results and hits per kind. Requires an admin authorization token.
+ */
+export const getAiCacheStats = (token: string): Promise<AiCacheStats[]> =>
+  sendCacheRequest<AiCacheStats[]>('/api/ai-cache', 'GET', token);
+
+/**
+ * Invalidates the cached results of one kind, or of every kind. Requires an admin authorization token.
+ * @returns How many entries were removed.
+ */
+export const clearAiCache = async (kind: AiCacheKind | null, token: string): Promise<number> => {
+  const { removed } = await sendCacheRequest<{ removed: number }>(`/api/ai-cache${kind ? `?kind=${kind}` : ''}`, 'DELETE', token);
+  return removed;
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Failure categories reported by the backend for AI calls (same values as the server)
+export type AiErrorCategory = 'quota' | 'safety' | 'no_image' | 'network';
+
+export const aiErrorCategoryLabels: Record<AiErrorCategory, string> = {
+    quota: 'Cota/limite de uso',
+    safety: 'Bloqueio de segurança',
+    no_image: 'Sem imagem retornada',
+    network: 'Falha de rede/servidor',
+};
+
+// Guidance shown next to the raw message
+export const aiErrorCategoryHints: Record<AiErrorCategory, string> = {
+    quota: 'Você excedeu sua cota de uso atual. Aguarde alguns minutos ou verifique seu plano e detalhes de faturamento.',
+    safety: 'O conteúdo foi barrado pelos filtros de segurança. Ajuste as imagens ou o prompt antes de tentar de novo.',
+    no_image: 'O modelo não devolveu uma imagem. Tente reformular as instruções para ser mais direto.',
+    network: 'O serviço de IA está instável. Tente novamente em instantes.',
+};
+
+export abstract class AiServiceError extends Error {
+    abstract readonly category: AiErrorCategory;
+}
+
+export class QuotaError extends AiServiceError {
+    readonly category = 'quota';
+}
+
+export class SafetyBlockError extends AiServiceError {
+    readonly category = 'safety';
+}
+
+export class NoImageReturnedError extends AiServiceError {
+    readonly category = 'no_image';
+}
+
+export class NetworkError extends AiServiceError {
+    readonly category = 'network';
+}
+
+const errorClasses: Record<AiErrorCategory, new (message: string) => AiServiceError> = {
+    quota: QuotaError,
+    safety: SafetyBlockError,
+    no_image: NoImageReturnedError,
+    network: NetworkError,
+};
+
+export const isAiErrorCategory = (value: unknown): value is AiErrorCategory =>
+    typeof value === 'string' && value in errorClasses;
+
+/**
+ * Builds the typed error for a category sent by the backend, or a plain Error when there is none.
+ */
+export const createAiError = (message: string, category?: unknown): Error =>
+    isAiErrorCategory(category) ? new errorClasses[category](message) : new Error(message);
+
+export const getErrorCategory = (err: unknown): AiErrorCategory | undefined =>
+    err instanceof AiServiceError ? err.category : undefined;
+
+/**
+ * User-facing message for a failure: the category guidance plus the raw message.
+ */
+export const describeError = (err: unknown, fallback = 'Ocorreu um erro desconhecido.'): string => {
+    const message = err instanceof Error ? err.message : fallback;
+    const category = getErrorCategory(err);
+    return category ? `${aiErrorCategoryHints[category]} (${message})` : message;
+};
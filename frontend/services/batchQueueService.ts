@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getDb, BATCH_QUEUE_STORE_NAME } from './db';
+import type { QueueItem } from '../App';
+
+// A queue item as stored in IndexedDB: Files are kept as-is (structured clone), object URLs are not
+interface StoredQueueItem extends Omit<QueueItem, 'objectUrlFront' | 'objectUrlBack' | 'objectUrlTotalLook' | 'availableUrls' | 'resultObjectUrls'> {
+    userId: string;
+    position: number;
+}
+
+const toStoredItem = (item: QueueItem, userId: string, position: number): StoredQueueItem => {
+    const { objectUrlFront, objectUrlBack, objectUrlTotalLook, availableUrls, resultObjectUrls, ...rest } = item;
+    return { ...rest, userId, position };
+};
+
+// Recreates the object URLs and prepares an interrupted item to run again
+const fromStoredItem = (stored: StoredQueueItem): QueueItem => {
+    const { userId, position, ...item } = stored;
+    const wasInterrupted = item.status === 'processing';
+    return {
+        ...item,
+        status: wasInterrupted ? 'queued' : item.status,
+        progressStatus: undefined,
+        progressPercentage: wasInterrupted ? 0 : item.progressPercentage,
+        isDescribing: false,
+        isGeneratingCopy: false,
+        isComparing: false,
+        objectUrlFront: item.fileFront ? URL.createObjectURL(item.fileFront) : undefined,
+        objectUrlBack: item.fileBack ? URL.createObjectURL(item.fileBack) : undefined,
+        objectUrlTotalLook: item.fileTotalLook ? URL.createObjectURL(item.fileTotalLook) : undefined,
+        availableUrls: item.availableFiles.map(file => URL.createObjectURL(file)),
+        resultObjectUrls: item.resultFiles?.map(file => URL.createObjectURL(file)),
+    };
+};
+
+const getUserKeys = (store: IDBObjectStore, userId: string): Promise<IDBValidKey[]> => new Promise((resolve, reject) => {
+    const request = store.index('userId').getAllKeys(userId);
+    request.onerror = () => reject(new Error('Falha ao ler a fila salva.'));
+    request.onsuccess = () => resolve(request.result);
+});
+
+/**
+ * Replaces the saved batch queue of a user with the current one (input files, overrides, status and results).
+ * @param userId The ID of the user who owns the queue.
+ * @param queue The current batch queue.
+ */
+export const saveBatchQueue = async (userId: string, queue: QueueItem[]): Promise<void> => {
+    const db = await getDb();
+    const transaction = db.transaction(BATCH_QUEUE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(BATCH_QUEUE_STORE_NAME);
+
+    const currentIds = new Set(queue.map(item => item.id));
+    const savedKeys = await getUserKeys(store, userId);
+    savedKeys.filter(key => !currentIds.has(String(key))).forEach(key => store.delete(key));
+    queue.forEach((item, position) => store.put(toStoredItem(item, userId, position)));
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`Falha ao salvar a fila: ${transaction.error}`));
+    });
+};
+
+/**
+ * Loads the saved batch queue of a user, in its original order.
+ * Items that were 'processing' when the page closed come back as 'queued' so they are retried;
+ * items marked 'done' keep their results and are skipped by the next run.
+ * @param userId The ID of the user who owns the queue.
+ */
+export const loadBatchQueue = async (userId: string): Promise<QueueItem[]> => {
+    const db = await getDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(BATCH_QUEUE_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(BATCH_QUEUE_STORE_NAME).index('userId').getAll(userId);
+        request.onerror = () => reject(new Error('Falha ao carregar a fila salva.'));
+        request.onsuccess = () => {
+            const stored = (request.result as StoredQueueItem[]).sort((a, b) => a.position - b.position);
+            resolve(stored.map(fromStoredItem));
+        };
+    });
+};
+
+/**
+ * Deletes the saved batch queue of a user.
+ * @param userId The ID of the user who owns the queue.
+ */
+export const clearBatchQueue = async (userId: string): Promise<void> => {
+    const db = await getDb();
+    const transaction = db.transaction(BATCH_QUEUE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(BATCH_QUEUE_STORE_NAME);
+    (await getUserKeys(store, userId)).forEach(key => store.delete(key));
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error(`Falha ao limpar a fila salva: ${transaction.error}`));
+    });
+};
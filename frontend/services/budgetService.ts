@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type BudgetScope = 'user' | 'project';
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+// Monthly budget of a user or a project (gallery folder), with this month's spend. Values in USD.
+export interface BudgetStatus {
+  scope: BudgetScope;
+  targetId: string;
+  monthlyLimit: number;
+  softThreshold: number;
+  spent: number;
+  remaining: number;
+  state: BudgetState;
+}
+
+/**
+ * Fetches the budgets that apply to the logged-in user and, optionally, to a project.
+ * @param token The Firebase auth token.
+ * @param projectId Optional project (folder) ID.
+ * @returns A promise that resolves to the applicable budget statuses (empty when there is no limit).
+ */
+export const getBudgetStatus = async (token: string, projectId?: string): Promise<BudgetStatus[]> => {
+  const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+  const response = await fetch(`/api/budgets/status${query}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: 'Failed to fetch budget status' }));
+    throw new Error(errorData.message || 'Failed to fetch budget status');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches every budget with its current spend.
+ * Requires an admin authorization token.
+ * @param token The Firebase auth token.
+ */
+export const getBudgets = async (token: string): Promise<BudgetStatus[]> => {
+  const response = await fetch('/api/budgets', {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: 'Failed to fetch budgets' }));
+    throw new Error(errorData.message || 'Failed to fetch budgets');
+  }
+
+  return response.json();
+};
+
+/**
+ * Creates or updates the monthly budget of a user or project.
+ * Requires an admin authorization token.
+ * @param scope Whether the budget applies to a user or a project.
+ * @param targetId The user ID or project (folder) ID.
+ * @param monthlyLimit The hard cap in USD.
+ * @param softThreshold Fraction of the limit (0-1) after which a warning is shown.
+ * @param token The Firebase auth token.
+ */
+export const setBudget = async (scope: BudgetScope, targetId: string, monthlyLimit: number, softThreshold: number, token: string): Promise<BudgetStatus> => {
+  const response = await fetch(`/api/budgets/${scope}/${encodeURIComponent(targetId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({ monthlyLimit, softThreshold }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: 'Failed to save budget' }));
+    throw new Error(errorData.message || 'Failed to save budget');
+  }
+
+  return response.json();
+};
+
+/**
+ * Removes the budget of a user or project.
+ * Requires an admin authorization token.
+ */
+export const deleteBudget = async (scope: BudgetScope, targetId: string, token: string): Promise<void> => {
+  const response = await fetch(`/api/budgets/${scope}/${encodeURIComponent(targetId)}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: 'Failed to delete budget' }));
+    throw new Error(errorData.message || 'Failed to delete budget');
+  }
+};
+
+// Most restrictive budget of a list: the one with the least remaining amount
+export const getTightestBudget = (statuses: BudgetStatus[]): BudgetStatus | null =>
+  statuses.reduce<BudgetStatus | null>((tightest, status) => (!tightest || status.remaining < tightest.remaining ? status : tightest), null);
+
+export const formatUsd = (amount: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'USD' }).format(amount);
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Fields of a product spreadsheet that the batch processor understands
+export type SheetField = 'sku' | 'gender' | 'age' | 'width' | 'height' | 'brand' | 'collection' | 'style' | 'scene' | 'negativePrompt' | 'clothingNotes';
+
+// Spreadsheet header mapped to each field
+export type ColumnMapping = Partial<Record<SheetField, string>>;
+
+// Spreadsheet as parsed from the file, before any mapping: named headers and one record per data row
+export interface ParsedSheet {
+    headers: string[];
+    rows: Record<string, string>[];
+}
+
+export interface ColumnMappingProfile {
+    name: string;
+    brand: string;
+    mapping: ColumnMapping;
+    updatedAt: string;
+}
+
+export const SHEET_FIELDS: SheetField[] = ['sku', 'gender', 'age', 'width', 'height', 'brand', 'collection', 'style', 'scene', 'negativePrompt', 'clothingNotes'];
+
+export const sheetFieldLabels: Record<SheetField, string> = {
+    sku: 'SKU',
+    gender: 'Gênero',
+    age: 'Idade',
+    width: 'Largura',
+    height: 'Altura',
+    brand: 'Marca',
+    collection: 'Coleção',
+    style: 'Estilo',
+    scene: 'Cenário',
+    negativePrompt: 'Prompt Negativo',
+    clothingNotes: 'Observações da Roupa',
+};
+
+// Header synonyms used to suggest a mapping for a new spreadsheet
+const FIELD_SYNONYMS: Record<SheetField, string[]> = {
+    sku: ['sku', 'código', 'codigo', 'referência', 'referencia', 'ref'],
+    gender: ['gênero', 'genero', 'gender', 'sexo'],
+    age: ['idade', 'age', 'faixa etária', '(anos)'],
+    width: ['largura', 'width'],
+    height: ['altura', 'height'],
+    brand: ['marca', 'brand'],
+    collection: ['coleção', 'colecao', 'collection'],
+    style: ['estilo', 'style', 'tipo'],
+    scene: ['cenário', 'cena', 'fundo', 'background', 'scene'],
+    negativePrompt: ['negativo', 'negative_prompt', 'prompt_negativo', 'prompt negativo', 'evitar'],
+    clothingNotes: ['observacoes_roupa', 'clothing_notes', 'obs_roupa', 'observações', 'observacao', 'notas', 'detalhes'],
+};
+
+// Columns that are only references and never go into the model notes
+const IGNORED_NOTE_HEADERS = ['lista de referência'];
+
+const PROFILES_STORAGE_KEY = 'pixshop-column-mapping-profiles';
+
+/**
+ * Suggests a mapping for the headers of a spreadsheet from the known synonyms.
+ * The SKU falls back to the first column, as before mappings existed.
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    const used = new Set<string>();
+    SHEET_FIELDS.forEach(field => {
+        const header = FIELD_SYNONYMS[field]
+            .map(synonym => headers.find(h => !used.has(h) && h.toLowerCase() === synonym.toLowerCase()))
+            .find(Boolean);
+        if (header) {
+            mapping[field] = header;
+            used.add(header);
+        }
+    });
+    if (!mapping.sku && headers[0]) mapping.sku = headers[0];
+    return mapping;
+};
+
+// Keeps only the fields whose header exists in the spreadsheet
+export const restrictMappingToHeaders = (mapping: ColumnMapping, headers: string[]): ColumnMapping =>
+    Object.fromEntries(Object.entries(mapping).filter(([, header]) => header && headers.includes(header))) as ColumnMapping;
+
+/**
+ * Reads a mapped field from an item's spreadsheet row.
+ * Items without a mapping (e.g. restored from an older queue) use the synonym suggestion.
+ */
+export const getSheetValue = (row: Record<string, string> | undefined, mapping: ColumnMapping | undefined, field: SheetField): string | undefined => {
+    if (!row) return undefined;
+    const header = (mapping || suggestColumnMapping(Object.keys(row)))[field];
+    const value = header ? row[header] : undefined;
+    return value ? String(value) : undefined;
+};
+
+// Columns of the row that are not mapped to a field: they are sent to the model as notes
+export const getUnmappedEntries = (row: Record<string, string>, mapping: ColumnMapping | undefined): [string, string][] => {
+    const mappedHeaders = new Set(Object.values(mapping || suggestColumnMapping(Object.keys(row))).map(h => h!.toLowerCase()));
+    return Object.entries(row).filter(([key]) => !mappedHeaders.has(key.toLowerCase()) && !IGNORED_NOTE_HEADERS.includes(key.toLowerCase()));
+};
+
+export const getMappingProfiles = (): ColumnMappingProfile[] => {
+    try {
+        const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error('Failed to load column mapping profiles', error);
+        return [];
+    }
+};
+
+/**
+ * Saves (or replaces, by name) a mapping profile.
+ * @returns The updated list of profiles.
+ */
+export const saveMappingProfile = (profile: Omit<ColumnMappingProfile, 'updatedAt'>): ColumnMappingProfile[] => {
+    const profiles = getMappingProfiles().filter(p => p.name !== profile.name);
+    const updated = [...profiles, { ...profile, updatedAt: new Date().toISOString() }];
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(updated));
+    return updated;
+};
+
+export const deleteMappingProfile = (name: string): ColumnMappingProfile[] => {
+    const updated = getMappingProfiles().filter(p => p.name !== name);
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(updated));
+    return updated;
+};
+
+/**
+ * Finds the most recent profile of a brand whose columns all exist in the spreadsheet.
+ */
+export const findProfileForBrand = (brand: string, headers: string[]): ColumnMappingProfile | undefined => {
+    const normalizedBrand = brand.trim().toLowerCase();
+    if (!normalizedBrand) return undefined;
+    return getMappingProfiles()
+        .filter(p => p.brand.trim().toLowerCase() === normalizedBrand)
+        .filter(p => Object.values(p.mapping).every(header => !header || headers.includes(header)))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+};
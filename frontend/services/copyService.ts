@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Languages the store copy can be generated in
+export type CopyLanguage = 'pt-BR' | 'en' | 'es';
+
+export const COPY_LANGUAGES: CopyLanguage[] = ['pt-BR', 'en', 'es'];
+
+export const copyLanguageLabels: Record<CopyLanguage, string> = {
+  'pt-BR': 'Português',
+  en: 'Inglês',
+  es: 'Espanhol',
+};
+
+// Store-ready copy of a product in one language
+export interface ProductCopy {
+  title: string;
+  shortDescription: string;
+  longDescription: string;
+  bullets: string[];
+  metaDescription: string; // SEO, up to 160 characters
+  keywords: string[];
+}
+
+export type ProductCopySet = Partial<Record<CopyLanguage, ProductCopy>>;
+
+// Tone of voice of a brand, applied when generating its copy
+export interface BrandTone {
+  id: string;
+  brand: string;
+  voice: string;
+  audience: string;
+  preferredTerms: string;
+  avoidTerms: string;
+  languages: CopyLanguage[]; // Languages generated by default for the brand
+  updatedAt?: string;
+}
+
+export type BrandToneInput = Omit<BrandTone, 'id' | 'updatedAt'>;
+
+export const emptyProductCopy = (): ProductCopy => ({
+  title: '', shortDescription: '', longDescription: '', bullets: [], metaDescription: '', keywords: [],
+});
+
+const sendToneRequest = async <T>(url: string, method: string, token: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com o tom de voz da marca.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches the tone of voice of every brand.
+ * @param token The Firebase auth token.
+ */
+export const getBrandTones = (token: string): Promise<BrandTone[]> =>
+  sendToneRequest<BrandTone[]>('/api/brand-tones', 'GET', token);
+
+/**
+ * Creates or replaces the tone of voice of a brand. Requires an admin authorization token.
+ */
+export const saveBrandTone = (input: BrandToneInput, token: string): Promise<BrandTone> =>
+  sendToneRequest<BrandTone>('/api/brand-tones', 'PUT', token, input);
+
+/**
+ * Removes the tone of voice of a brand. Requires an admin authorization token.
+ */
+export const deleteBrandTone = async (toneId: string, token: string): Promise<void> => {
+  await sendToneRequest<{ message: string }>(`/api/brand-tones/${encodeURIComponent(toneId)}`, 'DELETE', token);
+};
+
+/**
+ * Finds the tone of voice of a brand (case-insensitive).
+ */
+export const findBrandTone = (tones: BrandTone[], brand: string): BrandTone | undefined => {
+  const normalized = brand.trim().toLowerCase();
+  return normalized ? tones.find(tone => tone.brand.trim().toLowerCase() === normalized) : undefined;
+};
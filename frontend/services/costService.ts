@@ -7,10 +7,11 @@ import { getDb } from './db';
 const COST_STORE_NAME = 'cost_logs';
 
 // FIX: Add 'correction' and 'findDifferences' for quality control operations.
-export type OperationType = 'retouch' | 'model' | 'expand' | 'describe' | 'enhance' | 'training' | 'correction' | 'findDifferences';
+export type OperationType = 'retouch' | 'model' | 'expand' | 'describe' | 'enhance' | 'training' | 'correction' | 'findDifferences' | 'pose' | 'copy';
 
+// A cost entry. Legacy IndexedDB logs have numeric ids; server ledger entries have string ids.
 export interface CostLog {
-    id?: number;
+    id?: number | string;
     imageName: string;
     operation: OperationType;
     cost: number;
@@ -18,6 +19,13 @@ export interface CostLog {
     details?: string;
     projectId: string;
     userId: string;
+    model?: string | null;
+    promptTokenCount?: number | null;
+    candidatesTokenCount?: number | null;
+    source?: 'api' | 'import' | 'cache';
+    rejected?: boolean; // Candidate generated but discarded by the user
+    savedCost?: number; // Cache hits only: what the call would have cost without the shared AI cache
+    promptVersions?: string[]; // Prompt template versions used in the call (e.g. 'enhance@v2')
 }
 
 // Pricing based on Gemini API - https://ai.google.dev/gemini-api/docs/pricing
@@ -38,6 +46,7 @@ interface CostCalculationParams {
 
 /**
  * Calculates a representative cost for an AI operation based on Gemini API pricing.
+ * Only used for estimates: the billed cost is computed by the backend from the API token counts.
  * @param params An object detailing the inputs and outputs of the operation.
  * @returns A calculated cost as a number (USD).
  */
@@ -62,79 +71,110 @@ export const calculateCost = (params: CostCalculationParams): number => {
 };
 
 
+const IMPORT_FLAG_PREFIX = 'pixshop-cost-import-done-';
+
+// Reads every log still stored in the browser's IndexedDB (legacy, before the server ledger)
+const getLocalCostLogs = async (): Promise<CostLog[]> => {
+    const db = await getDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(COST_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(COST_STORE_NAME).getAll();
+        request.onerror = () => reject(new Error('Falha ao obter os registros de custo locais.'));
+        request.onsuccess = () => resolve(request.result as CostLog[]);
+    });
+};
+
 /**
- * Logs a cost record to the database.
- * @param imageName The name of the original image file.
- * @param operation The type of operation performed.
- * @param cost The calculated cost.
- * @param userId The ID of the user who incurred the cost.
- * @param details Optional details about the operation (e.g., prompt).
- * @param projectId The ID of the project/folder this cost is associated with.
+ * Sends the legacy IndexedDB cost logs of a user to the server ledger, once per browser.
+ * The server accepts a single import per user and answers 409 to any later one.
+ * @param userId The ID of the logged-in user.
+ * @param token The Firebase auth token.
  */
-export const logCost = async (imageName: string, operation: OperationType, cost: number, userId: string, details?: string, projectId: string = 'root'): Promise<void> => {
-    const db = await getDb();
-    const transaction = db.transaction(COST_STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(COST_STORE_NAME);
-    
-    const log: CostLog = {
-        imageName,
-        operation,
-        cost,
-        timestamp: Date.now(),
-        details: details?.substring(0, 150), // Truncate long details
-        projectId,
-        userId,
-    };
-    
-    store.add(log);
+export const importLocalCostLogs = async (userId: string, token: string): Promise<void> => {
+    const flagKey = `${IMPORT_FLAG_PREFIX}${userId}`;
+    if (localStorage.getItem(flagKey)) return;
+
+    const logs = (await getLocalCostLogs()).filter(log => log.userId === userId);
+    if (logs.length > 0) {
+        const response = await fetch('/api/costs/import', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`,
+            },
+            body: JSON.stringify({ logs }),
+        });
+
+        // 409: already imported from another browser or session
+        if (!response.ok && response.status !== 409) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.message || 'Falha ao importar os registros de custo.');
+        }
+        if (response.ok) console.log(`${logs.length} registros de custo locais importados para o servidor.`);
+    }
 
-    return new Promise((resolve, reject) => {
-        transaction.oncomplete = () => {
-            console.log(`Custo registrado para ${imageName} (usuário ${userId}) no projeto ${projectId}: ${operation} - ${cost}`);
-            resolve();
-        };
-        transaction.onerror = (event) => reject(new Error(`Falha ao registrar custo: ${(event.target as IDBRequest).error}`));
+    localStorage.setItem(flagKey, new Date().toISOString());
+};
+
+/**
+ * Flags the ledger entries of generation candidates the user discarded.
+ * The cost still counts; the flag shows how much went into rejected candidates.
+ * @param costIds The ledger entry IDs returned with each candidate.
+ * @param token The Firebase auth token.
+ */
+export const markCostsRejected = async (costIds: string[], token: string): Promise<void> => {
+    if (costIds.length === 0) return;
+    const response = await fetch('/api/costs/rejections', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ costIds }),
     });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Falha ao marcar os candidatos descartados.');
+    }
 };
 
 /**
- * Retrieves and aggregates all cost logs, with optional filtering.
+ * Retrieves and aggregates the cost logs from the server ledger, with optional filtering.
+ * Non-admin users always receive only their own logs.
  * @param filters An object containing optional projectId and/or userId to filter by.
+ * @param token The Firebase auth token.
  * @returns A Map where keys are image names and values are objects with total cost and a list of logs.
  */
-export const getAllCosts = async (filters: { projectId?: string, userId?: string } = {}): Promise<Map<string, { totalCost: number, logs: CostLog[] }>> => {
-    const db = await getDb();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(COST_STORE_NAME, 'readonly');
-        const store = transaction.objectStore(COST_STORE_NAME);
-        const request = store.getAll();
-
-        request.onerror = () => reject(new Error('Falha ao obter os registros de custo.'));
-        request.onsuccess = () => {
-            let allLogs = request.result as CostLog[];
-
-            // Apply filters
-            if (filters.projectId) {
-                allLogs = allLogs.filter(log => log.projectId === filters.projectId);
-            }
-            if (filters.userId) {
-                allLogs = allLogs.filter(log => log.userId === filters.userId);
-            }
-            
-            const costMap = new Map<string, { totalCost: number, logs: CostLog[] }>();
-
-            // Newest first
-            allLogs.sort((a, b) => b.timestamp - a.timestamp);
-
-            for (const log of allLogs) {
-                if (!costMap.has(log.imageName)) {
-                    costMap.set(log.imageName, { totalCost: 0, logs: [] });
-                }
-                const entry = costMap.get(log.imageName)!;
-                entry.totalCost += log.cost;
-                entry.logs.push(log);
-            }
-            resolve(costMap);
-        };
+export const getAllCosts = async (filters: { projectId?: string, userId?: string } = {}, token: string): Promise<Map<string, { totalCost: number, logs: CostLog[] }>> => {
+    const params = new URLSearchParams();
+    if (filters.projectId) params.set('projectId', filters.projectId);
+    if (filters.userId) params.set('userId', filters.userId);
+
+    const response = await fetch(`/api/costs?${params.toString()}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
     });
-};
\ No newline at end of file
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Falha ao obter os registros de custo.');
+    }
+
+    const allLogs = await response.json() as CostLog[];
+    const costMap = new Map<string, { totalCost: number, logs: CostLog[] }>();
+
+    // Newest first
+    allLogs.sort((a, b) => b.timestamp - a.timestamp);
+
+    for (const log of allLogs) {
+        if (!costMap.has(log.imageName)) {
+            costMap.set(log.imageName, { totalCost: 0, logs: [] });
+        }
+        const entry = costMap.get(log.imageName)!;
+        entry.totalCost += log.cost;
+        entry.logs.push(log);
+    }
+    return costMap;
+};
@@ -4,10 +4,11 @@
 */
 
 const DB_NAME = 'PixshopDB';
-const DB_VERSION = 5; // Incremented version for new 'users' store and indexes
+const DB_VERSION = 6; // Incremented version for the persistent batch queue store
 const GALLERY_STORE_NAME = 'gallery';
 const COST_STORE_NAME = 'cost_logs';
 const USERS_STORE_NAME = 'users';
+export const BATCH_QUEUE_STORE_NAME = 'batch_queue';
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -63,6 +64,12 @@ export const getDb = (): Promise<IDBDatabase> => {
                 const usersStore = db.createObjectStore(USERS_STORE_NAME, { keyPath: 'id' });
                 usersStore.createIndex('username', 'username', { unique: true });
             }
+
+            // Batch Queue Store (persists the batch queue so it survives page reloads)
+            if (!db.objectStoreNames.contains(BATCH_QUEUE_STORE_NAME)) {
+                const queueStore = db.createObjectStore(BATCH_QUEUE_STORE_NAME, { keyPath: 'id' });
+                queueStore.createIndex('userId', 'userId', { unique: false });
+            }
         };
     });
     return dbPromise;
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { calculateCost, type OperationType } from './costService';
+import { getEstimateMs } from './timingService';
+import { findViewDefinition, type ViewDefinition } from './viewService';
+
+// Approximate prompt/response sizes of each backend operation, used only for the pre-flight estimate
+const ESTIMATED_CHARS = {
+    enhanceIn: 300,
+    describeIn: 1800,
+    describeOut: 600,
+    fitIn: 200,
+    fitOut: 300,
+    qcIn: 1500,
+    qcOut: 500,
+    trainingIn: 350,
+    trainingOut: 1500,
+    modelIn: 2500,
+    expandIn: 450,
+};
+
+// Subset of a batch queue item needed to estimate it
+export interface EstimableItem {
+    id: string;
+    baseName: string;
+    availableFiles: File[];
+    fileFront?: File;
+    fileBack?: File;
+    fileTotalLook?: File;
+    aiStructuredDescription?: Record<string, string>;
+    modelAge?: string;
+    modelGender?: 'male' | 'female';
+}
+
+export interface BatchEstimateOptions {
+    selectedViews: string[];
+    viewDefinitions: ViewDefinition[]; // Catalog used to know which views are expanded
+    targetDimensions: { width: string; height: string };
+    modelAge: { male: string; female: string };
+    modelGender: 'male' | 'female';
+    referenceImageCount: number; // Reference model/scene/bottom images sent with every generation
+    hasFitReference: boolean;
+    qualityControlRounds: number; // 0 when the automatic QC is off
+    candidatesPerView: number; // Each candidate is a full generation call
+    isAgeTrained: (age: string) => boolean;
+    concurrency: number;
+}
+
+export interface OperationEstimate {
+    operation: OperationType;
+    count: number;
+    cost: number;
+}
+
+export interface ItemEstimate {
+    itemId: string;
+    baseName: string;
+    views: string[];
+    operations: OperationEstimate[];
+    totalCost: number;
+    durationMs: number;
+}
+
+export interface BatchEstimate {
+    items: ItemEstimate[];
+    totalCost: number;
+    totalDurationMs: number;
+}
+
+// Views that will be generated for an item: the manual slots, or the views selected for the batch
+const getItemViews = (item: EstimableItem, selectedViews: string[]): string[] => {
+    if (item.fileFront || item.fileBack || item.fileTotalLook) {
+        return [
+            item.fileFront && 'Crop Frente',
+            item.fileBack && 'Crop Costas',
+            item.fileTotalLook && 'Total Look',
+        ].filter((view): view is string => !!view);
+    }
+    return item.availableFiles.length > 0 ? selectedViews : [];
+};
+
+const addOperation = (operations: OperationEstimate[], operation: OperationType, count: number, unitCost: number) => {
+    if (count <= 0) return;
+    const existing = operations.find(op => op.operation === operation);
+    if (existing) {
+        existing.count += count;
+        existing.cost += count * unitCost;
+    } else {
+        operations.push({ operation, count, cost: count * unitCost });
+    }
+};
+
+/**
+ * Estimates the AI calls, cost (USD) and duration of a batch before it runs.
+ * Mirrors what BatchProcessor.processItem does: one enhance per file, one model generation per view
+ * (plus the fit analysis when there is a fit reference), one expand per expanded view with final dimensions,
+ * the clothing description when it is still missing and one training per age not trained yet.
+ * With the automatic QC on, counts one check per view: corrections only happen when a check fails.
+ */
+export const estimateBatch = (items: EstimableItem[], options: BatchEstimateOptions): BatchEstimate => {
+    const width = parseInt(options.targetDimensions.width, 10);
+    const height = parseInt(options.targetDimensions.height, 10);
+    const hasFinalDimensions = width > 0 && height > 0;
+    const durationPerItem = getEstimateMs({ width: options.targetDimensions.width, height: options.targetDimensions.height });
+    const agesToTrain = new Set<string>();
+
+    const estimates = items.map((item): ItemEstimate => {
+        const operations: OperationEstimate[] = [];
+        const views = getItemViews(item, options.selectedViews);
+        const isManualEntry = !!(item.fileFront || item.fileBack || item.fileTotalLook);
+
+        if (!item.aiStructuredDescription && item.availableFiles.length > 0) {
+            addOperation(operations, 'describe', 1, calculateCost({ operation: 'describe', inputImages: Math.min(item.availableFiles.length, 6), inputChars: ESTIMATED_CHARS.describeIn, outputChars: ESTIMATED_CHARS.describeOut }));
+        }
+
+        const gender = item.modelGender || options.modelGender;
+        const age = item.modelAge || options.modelAge[gender];
+        if (age && !options.isAgeTrained(age) && !agesToTrain.has(age)) {
+            agesToTrain.add(age);
+            addOperation(operations, 'training', 1, calculateCost({ operation: 'training', inputChars: ESTIMATED_CHARS.trainingIn, outputChars: ESTIMATED_CHARS.trainingOut }));
+        }
+
+        addOperation(operations, 'enhance', item.availableFiles.length, calculateCost({ operation: 'enhance', inputImages: 1, outputImages: 1, inputChars: ESTIMATED_CHARS.enhanceIn }));
+
+        const clothingImages = isManualEntry ? 1 : item.availableFiles.length;
+        views.forEach((_, index) => {
+            // From the second view on, the first result is sent as the reference model
+            const inputImages = clothingImages + options.referenceImageCount + (index > 0 ? 1 : 0);
+            addOperation(operations, 'model', options.candidatesPerView, calculateCost({ operation: 'model', inputImages, outputImages: 1, inputChars: ESTIMATED_CHARS.modelIn }));
+            if (options.hasFitReference) {
+                addOperation(operations, 'describe', options.candidatesPerView, calculateCost({ operation: 'describe', inputImages: 1, inputChars: ESTIMATED_CHARS.fitIn, outputChars: ESTIMATED_CHARS.fitOut }));
+            }
+            if (options.qualityControlRounds > 0) {
+                addOperation(operations, 'findDifferences', 1, calculateCost({ operation: 'findDifferences', inputImages: 2, inputChars: ESTIMATED_CHARS.qcIn, outputChars: ESTIMATED_CHARS.qcOut }));
+            }
+        });
+
+        if (hasFinalDimensions) {
+            const expandedViews = views.filter(view => findViewDefinition(options.viewDefinitions, view).postProcess === 'expand').length;
+            addOperation(operations, 'expand', expandedViews, calculateCost({ operation: 'expand', inputImages: 2, outputImages: 1, inputChars: ESTIMATED_CHARS.expandIn }));
+        }
+
+        return {
+            itemId: item.id,
+            baseName: item.baseName,
+            views,
+            operations,
+            totalCost: operations.reduce((sum, op) => sum + op.cost, 0),
+            durationMs: views.length > 0 ? durationPerItem : 0,
+        };
+    });
+
+    const itemsWithWork = estimates.filter(estimate => estimate.durationMs > 0).length;
+    return {
+        items: estimates,
+        totalCost: estimates.reduce((sum, estimate) => sum + estimate.totalCost, 0),
+        // Items run in parallel chunks, same as the ETR shown while processing
+        totalDurationMs: itemsWithWork > 0
+            ? estimates.reduce((sum, estimate) => sum + estimate.durationMs, 0) / Math.min(itemsWithWork, options.concurrency)
+            : 0,
+    };
+};
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Manual slots of a queue item that a grouped image can fill
+export type GroupingView = 'front' | 'back' | 'totalLook';
+
+export const GROUPING_VIEWS: GroupingView[] = ['front', 'back', 'totalLook'];
+
+export const groupingViewLabels: Record<GroupingView, string> = {
+    front: 'Frente',
+    back: 'Costas',
+    totalLook: 'Total Look',
+};
+
+export interface SuffixMapping {
+    suffix: string; // e.g. '_F'; compared without case and with or without the leading separator
+    view: GroupingView;
+}
+
+/**
+ * How the dropped images of a brand are grouped into products.
+ * The pattern runs on the file name without the extension and may have the named groups
+ * `sku` (required), `view` and `color`, e.g. `^(?<sku>[A-Z]+-\d+)_(?<color>\w+)_(?<view>F|B)$`.
+ */
+export interface FileGroupingRule {
+    name: string;
+    brand: string;
+    pattern: string;
+    suffixes: SuffixMapping[];
+    updatedAt: string;
+}
+
+// A product found among the dropped images
+export interface FileGroup {
+    key: string; // Normalized SKU (+ color), used to match the spreadsheet and to group
+    baseName: string;
+    sku: string;
+    color?: string;
+    files: File[];
+    views: (GroupingView | null)[]; // View detected for each file, in the same order
+    slots: Partial<Record<GroupingView, File>>; // First file of each detected view
+    matched: boolean; // false when the rule's pattern did not match and the name-based fallback was used
+}
+
+const RULES_STORAGE_KEY = 'pixshop-file-grouping-rules';
+
+export const DEFAULT_SUFFIXES: SuffixMapping[] = [
+    { suffix: '_F', view: 'front' },
+    { suffix: '_B', view: 'back' },
+    { suffix: '_frente', view: 'front' },
+    { suffix: '_costas', view: 'back' },
+    { suffix: '_front', view: 'front' },
+    { suffix: '_back', view: 'back' },
+    { suffix: '_total_look', view: 'totalLook' },
+];
+
+// Normalizes a SKU string for reliable matching.
+export const normalizeSku = (sku: any): string => {
+    if (sku === null || sku === undefined) return '';
+    return String(sku)
+        // 1. Trim leading/trailing whitespace (including non-breaking spaces like BOM)
+        .replace(/^[\s\uFEFF\xA0]+|[\s\uFEFF\xA0]+$/g, '')
+        // 2. Standardize various dash/hyphen characters and spaces to a single underscore
+        .replace(/[\u2010-\u2015\s-]+/g, '_')
+        // 3. Convert to uppercase for case-insensitive matching
+        .toUpperCase();
+};
+
+// Extracts the base name (potential SKU) from a file name by stripping view suffixes.
+export const getBaseName = (fileName: string): string => {
+    let baseName = fileName.replace(/\.[^/.]+$/, '').trim();
+
+    let hasChanged = true;
+    while (hasChanged) {
+        hasChanged = false;
+        
+        const originalBaseName = baseName;
+
+        // Try removing text suffixes first
+        const textSuffixes = ['_frente', '_costas', '_back', '_front', '_total_look', '_detalhe', '_side', '_lado'];
+        for (const suffix of textSuffixes) {
+            if (baseName.toLowerCase().endsWith(suffix)) {
+                baseName = baseName.slice(0, -suffix.length);
+                break;
+            }
+        }
+        if (baseName !== originalBaseName) {
+            hasChanged = true;
+            continue;
+        }
+
+        // If no text suffix was removed, try removing a numeric suffix
+        const numericMatch = baseName.match(/_(\d{1,2})$/);
+        if (numericMatch) {
+             baseName = baseName.slice(0, -numericMatch[0].length);
+             hasChanged = true;
+             continue;
+        }
+    }
+
+    return baseName;
+};
+
+const stripSeparator = (value: string) => value.replace(/^[_\-\s.]+/, '').toLowerCase();
+
+const COUNTER_PATTERN = /_(\d{1,2})$/;
+
+// Longest mapped suffix at the end of a name (an optional numeric counter after it is ignored)
+const findSuffix = (suffixes: SuffixMapping[], name: string): { mapping: SuffixMapping; base: string } | null => {
+    const withoutCounter = name.replace(COUNTER_PATTERN, '');
+    const lowerName = withoutCounter.toLowerCase();
+    const mapping = suffixes
+        .filter(m => m.suffix && lowerName.endsWith(m.suffix.toLowerCase()))
+        .sort((a, b) => b.suffix.length - a.suffix.length)[0];
+    return mapping ? { mapping, base: withoutCounter.slice(0, -mapping.suffix.length) } : null;
+};
+
+// View named by a token (the `view` group) or by the end of the file name
+const findView = (suffixes: SuffixMapping[], name: string, token?: string): GroupingView | null => {
+    if (token !== undefined) {
+        return suffixes.find(mapping => stripSeparator(mapping.suffix) === stripSeparator(token))?.view || null;
+    }
+    return findSuffix(suffixes, name)?.mapping.view || null;
+};
+
+/**
+ * Checks a rule's pattern.
+ * @returns The error message, or null when the pattern is valid.
+ */
+export const validateGroupingPattern = (pattern: string): string | null => {
+    if (!pattern.trim()) return null;
+    try {
+        new RegExp(pattern, 'i');
+    } catch (error) {
+        return `Expressão regular inválida: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return pattern.includes('(?<sku>') ? null : 'A expressão precisa do grupo nomeado (?<sku>...).';
+};
+
+/**
+ * Groups dropped images into products.
+ * Without a rule (or when a name does not match its pattern) the SKU is the file name without the rule's mapped
+ * suffixes and the known suffixes, as before rules existed; the rule's suffix mapping still tells the view of each file.
+ */
+export const groupFiles = (files: File[], rule: Pick<FileGroupingRule, 'pattern' | 'suffixes'> | null): FileGroup[] => {
+    const regex = rule?.pattern.trim() && !validateGroupingPattern(rule.pattern) ? new RegExp(rule.pattern, 'i') : null;
+    const groups = new Map<string, FileGroup>();
+
+    files.forEach(file => {
+        const name = file.name.replace(/\.[^/.]+$/, '').trim();
+        const match = regex?.exec(name);
+        // Without the pattern, the rule's own suffix (e.g. ABC-123_F) is removed before the known ones
+        const suffixed = rule ? findSuffix(rule.suffixes, name) : null;
+        const sku = match?.groups?.sku?.trim() || getBaseName(suffixed ? `${suffixed.base}${file.name.match(/\.[^/.]+$/)?.[0] || ''}` : file.name);
+        const color = match?.groups?.color?.trim() || undefined;
+        const view = rule ? findView(rule.suffixes, name, match?.groups?.view) : null;
+        const baseName = color ? `${sku}_${color}` : sku;
+        const key = normalizeSku(baseName);
+
+        if (!groups.has(key)) {
+            groups.set(key, { key, baseName, sku, color, files: [], views: [], slots: {}, matched: !regex || !!match?.groups?.sku });
+        }
+        const group = groups.get(key)!;
+        group.files.push(file);
+        group.views.push(view);
+        if (view && !group.slots[view]) group.slots[view] = file;
+        if (regex && !match?.groups?.sku) group.matched = false;
+    });
+
+    return Array.from(groups.values());
+};
+
+export const getGroupingRules = (): FileGroupingRule[] => {
+    try {
+        const saved = localStorage.getItem(RULES_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error('Failed to load file grouping rules', error);
+        return [];
+    }
+};
+
+/**
+ * Saves (or replaces, by name) a grouping rule.
+ * @returns The updated list of rules.
+ */
+export const saveGroupingRule = (rule: Omit<FileGroupingRule, 'updatedAt'>): FileGroupingRule[] => {
+    const rules = getGroupingRules().filter(r => r.name !== rule.name);
+    const updated = [...rules, { ...rule, updatedAt: new Date().toISOString() }];
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(updated));
+    return updated;
+};
+
+export const deleteGroupingRule = (name: string): FileGroupingRule[] => {
+    const updated = getGroupingRules().filter(r => r.name !== name);
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(updated));
+    return updated;
+};
+
+/**
+ * Finds the most recent rule of a brand.
+ */
+export const findRuleForBrand = (brand: string): FileGroupingRule | undefined => {
+    const normalizedBrand = brand.trim().toLowerCase();
+    if (!normalizedBrand) return undefined;
+    return getGroupingRules()
+        .filter(r => r.brand.trim().toLowerCase() === normalizedBrand)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+};
@@ -10,11 +10,14 @@ interface GalleryItemBase {
   name: string;
   timestamp: number;
   userId: string;
+  deletedAt?: unknown; // Preenchido quando o item está na lixeira
+  originalParentId?: string; // Pasta de onde o item veio antes de ir para a lixeira
 }
 
 // Represents a folder
 export interface GalleryFolder extends GalleryItemBase {
   type: 'folder';
+  retentionDays?: number; // Apenas na lixeira: dias até a limpeza definitiva
 }
 
 // Represents a file, extending the old StoredImage concept
@@ -24,6 +27,18 @@ export interface GalleryFile extends GalleryItemBase {
   storagePath: string; // Caminho no Firebase Storage
   originalUrl?: string; // URL da imagem original, se for uma edição
   metadata?: Record<string, string>;
+  parentImageId?: string | null; // Imagem da galeria a partir da qual esta foi gerada
+  operation?: string | null; // Operação que gerou a imagem (ex.: 'retouch', 'model')
+  prompt?: string | null; // Prompt usado na operação, quando houver
+  promptVersions?: string[]; // Versões dos templates de prompt usadas na geração (ex.: 'modelGeneration@v3')
+}
+
+// Linhagem de uma imagem gerada: de onde veio e como foi produzida
+export interface ImageLineage {
+  parentImageId?: string | null;
+  operation: string;
+  prompt?: string;
+  promptVersions?: string[];
 }
 
 export type GalleryItem = GalleryFile | GalleryFolder;
@@ -39,7 +54,8 @@ export const addImageToStorage = async (
     token: string,
     originalImageFile?: File, 
     metadata?: Record<string, string>, 
-    parentId: string = 'root'
+    parentId: string = 'root',
+    lineage?: ImageLineage
 ): Promise<StoredImage> => {
     const formData = new FormData();
     formData.append('image', imageFile, name);
@@ -51,6 +67,12 @@ export const addImageToStorage = async (
     if (metadata) {
         formData.append('metadata', JSON.stringify(metadata));
     }
+    if (lineage) {
+        if (lineage.parentImageId) formData.append('parentImageId', lineage.parentImageId);
+        formData.append('operation', lineage.operation);
+        if (lineage.prompt) formData.append('prompt', lineage.prompt);
+        if (lineage.promptVersions?.length) formData.append('promptVersions', JSON.stringify(lineage.promptVersions));
+    }
 
     const response = await fetch('/api/gallery/upload', {
         method: 'POST',
@@ -69,6 +91,25 @@ export const addImageToStorage = async (
     return result as StoredImage;
 };
 
+/**
+ * Obtém a linhagem de uma imagem, da própria imagem até a foto de origem.
+ */
+export const getLineage = async (itemId: string, token: string): Promise<GalleryFile[]> => {
+    const response = await fetch(`/api/gallery/item/${itemId}/lineage`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Falha ao obter a linhagem da imagem.');
+    }
+
+    const result = await response.json();
+    return result as GalleryFile[];
+};
+
 /**
  * Cria uma nova pasta no Firestore.
  */
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Max face and body photos per identity (each one is sent with every generation)
+export const MAX_IDENTITY_IMAGES = 4;
+
+export interface IdentityImage {
+  url: string;
+  storagePath: string;
+  mimeType: string;
+}
+
+// A shared "casting": the same face and body reused for every item of a batch or brand
+export interface ModelIdentity {
+  id: string;
+  name: string;
+  gender: 'male' | 'female';
+  age: string;
+  brand: string; // Brand that uses this identity by default ('' = none)
+  faceImages: IdentityImage[];
+  bodyImages: IdentityImage[];
+  createdBy: string;
+  createdAt?: string;
+}
+
+export interface IdentityInput {
+  name: string;
+  gender: 'male' | 'female';
+  age: string;
+  brand: string;
+  faces: File[];
+  bodies: File[];
+  removedPaths?: string[]; // Only when updating
+}
+
+const buildIdentityForm = (input: Partial<IdentityInput>) => {
+  const formData = new FormData();
+  if (input.name !== undefined) formData.append('name', input.name);
+  if (input.gender !== undefined) formData.append('gender', input.gender);
+  if (input.age !== undefined) formData.append('age', input.age);
+  if (input.brand !== undefined) formData.append('brand', input.brand);
+  input.faces?.forEach(file => formData.append('faces', file, file.name));
+  input.bodies?.forEach(file => formData.append('bodies', file, file.name));
+  if (input.removedPaths?.length) formData.append('removedPaths', JSON.stringify(input.removedPaths));
+  return formData;
+};
+
+const sendIdentityRequest = async <T>(url: string, method: string, token: string, body?: FormData): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com a identidade de modelo.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches every model identity of the team.
+ * @param token The Firebase auth token.
+ */
+export const getIdentities = (token: string): Promise<ModelIdentity[]> =>
+  sendIdentityRequest<ModelIdentity[]>('/api/identities', 'GET', token);
+
+/**
+ * Creates a model identity with its face and body photos.
+ * @param input The identity fields and photos (at least one face).
+ * @param token The Firebase auth token.
+ */
+export const createIdentity = (input: IdentityInput, token: string): Promise<ModelIdentity> =>
+  sendIdentityRequest<ModelIdentity>('/api/identities', 'POST', token, buildIdentityForm(input));
+
+/**
+ * Updates a model identity. New photos are appended; photos listed in removedPaths are deleted.
+ * Only the creator of the identity or an admin can change it.
+ */
+export const updateIdentity = (identityId: string, input: Partial<IdentityInput>, token: string): Promise<ModelIdentity> =>
+  sendIdentityRequest<ModelIdentity>(`/api/identities/${identityId}`, 'PUT', token, buildIdentityForm(input));
+
+/**
+ * Deletes a model identity and its photos.
+ * Only the creator of the identity or an admin can delete it.
+ */
+export const deleteIdentity = async (identityId: string, token: string): Promise<void> => {
+  await sendIdentityRequest<{ message: string }>(`/api/identities/${identityId}`, 'DELETE', token);
+};
+
+/**
+ * Picks the identity for an item: the one chosen for the batch wins over the brand default.
+ * @param identities The team's identities.
+ * @param batchIdentityId The identity chosen for the item's gender in the batch ('' = none).
+ * @param gender The item's gender.
+ * @param brand The item's brand.
+ * @returns The identity ID, or undefined when the item has no locked identity.
+ */
+export const resolveIdentityId = (identities: ModelIdentity[], batchIdentityId: string, gender: 'male' | 'female', brand: string): string | undefined => {
+  if (batchIdentityId && identities.some(identity => identity.id === batchIdentityId)) return batchIdentityId;
+  const normalizedBrand = brand.trim().toLowerCase();
+  if (!normalizedBrand) return undefined;
+  return identities.find(identity => identity.gender === gender && identity.brand.trim().toLowerCase() === normalizedBrand)?.id;
+};
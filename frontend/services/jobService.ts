@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type AiErrorCategory } from './aiErrors';
+
+export type JobStatus = 'draft' | 'queued' | 'processing' | 'done' | 'cancelled';
+export type JobItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export type ReferenceRole = 'maleReferenceModel' | 'femaleReferenceModel' | 'referenceScene' | 'referenceFit' | 'maleReferenceBottom' | 'femaleReferenceBottom';
+
+// Parameters of a batch item, resolved on the client with the same priority as local processing
+export interface JobItemPlan {
+  clientItemId: string;
+  baseName: string;
+  sku?: string;
+  color?: string;
+  collection?: string;
+  structuredDescription?: Record<string, string>; // Saved in the product catalog
+  gender: 'male' | 'female';
+  age: string;
+  brand: string;
+  scenePrompt: string;
+  negativePrompt?: string;
+  modelNotes?: string;
+  clothingDescription?: string;
+  referenceBottomDescription?: string;
+  trainedCharacteristics?: string;
+  identityId?: string;
+  views: string[];
+  manualViews?: { viewName: string; fileName: string }[];
+  targetDimensions: { width: string; height: string };
+  metadata?: Record<string, string>;
+}
+
+export interface BatchJob {
+  id: string;
+  status: JobStatus;
+  itemCount: number;
+  completed: number;
+  failed: number;
+  createdAt?: string;
+  finishedAt?: string;
+}
+
+export interface BatchJobItem {
+  id: string;
+  clientItemId: string;
+  baseName: string;
+  status: JobItemStatus;
+  progressStatus?: string;
+  progressPercentage: number;
+  attempts: number;
+  error?: string;
+  errorCategory?: AiErrorCategory;
+  parentId?: string;
+  resultIds: string[];
+  resultUrls: string[];
+  resultViews?: string[]; // Missing on jobs created before the manifest export
+  resultNames?: string[];
+  startedAt?: number;
+  durationMs?: number;
+}
+
+export type JobEvent =
+  | { type: 'snapshot'; data: BatchJob & { items: BatchJobItem[] } }
+  | { type: 'item'; data: BatchJobItem }
+  | { type: 'job'; data: BatchJob };
+
+const request = async <T>(url: string, token: string, init: RequestInit = {}, fallbackMessage: string): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init.headers || {}),
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: fallbackMessage }));
+    throw new Error(errorData.message || fallbackMessage);
+  }
+
+  return response.json();
+};
+
+/**
+ * Creates a server-side batch job (still a draft: files are uploaded next).
+ * @param items The resolved parameters of each item.
+ * @param token The Firebase auth token.
+ * @returns The job ID and the server ID of each item.
+ */
+export const createJob = (items: JobItemPlan[], token: string) =>
+  request<{ id: string; items: { id: string; clientItemId: string }[] }>('/api/jobs', token, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items }),
+  }, 'Failed to create batch job');
+
+/**
+ * Uploads the reference images shared by every item of the job.
+ */
+export const uploadJobReferences = (jobId: string, references: Partial<Record<ReferenceRole, File | null>>, token: string) => {
+  const formData = new FormData();
+  Object.entries(references).forEach(([role, file]) => {
+    if (file) formData.append(role, file);
+  });
+  return request<{ references: string[] }>(`/api/jobs/${jobId}/references`, token, { method: 'POST', body: formData }, 'Failed to upload job references');
+};
+
+/**
+ * Uploads the clothing photos of one item of the job.
+ */
+export const uploadJobItemFiles = (jobId: string, itemId: string, files: File[], token: string) => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+  return request<{ files: number }>(`/api/jobs/${jobId}/items/${itemId}/files`, token, { method: 'POST', body: formData }, 'Failed to upload item files');
+};
+
+/**
+ * Queues the job on the server. From here on the browser can be closed.
+ */
+export const startJob = (jobId: string, token: string) =>
+  request<BatchJob>(`/api/jobs/${jobId}/start`, token, { method: 'POST' }, 'Failed to start batch job');
+
+export const cancelJob = (jobId: string, token: string) =>
+  request<BatchJob>(`/api/jobs/${jobId}/cancel`, token, { method: 'POST' }, 'Failed to cancel batch job');
+
+/**
+ * Fetches a job with the status of each item.
+ */
+export const getJob = (jobId: string, token: string) =>
+  request<BatchJob & { items: BatchJobItem[] }>(`/api/jobs/${jobId}`, token, {}, 'Failed to fetch batch job');
+
+/**
+ * Follows the progress of a job over Server-Sent Events.
+ * Uses fetch streaming instead of EventSource so the auth token goes in the header.
+ * Resolves when the stream ends or the signal is aborted.
+ * @param jobId The job ID.
+ * @param token The Firebase auth token.
+ * @param onEvent Called for the initial snapshot and for every item/job update.
+ * @param signal Aborts the stream.
+ */
+export const streamJobEvents = async (jobId: string, token: string, onEvent: (event: JobEvent) => void, signal: AbortSignal): Promise<void> => {
+  const response = await fetch(`/api/jobs/${jobId}/events`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ message: 'Failed to follow batch job' }));
+    throw new Error(errorData.message || 'Failed to follow batch job');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      // Events are separated by a blank line; comment lines (": keep-alive") are ignored
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+      blocks.forEach(block => {
+        const type = block.match(/^event: (.+)$/m)?.[1];
+        const data = block.match(/^data: (.+)$/m)?.[1];
+        if (type && data) onEvent({ type, data: JSON.parse(data) } as JobEvent);
+      });
+    }
+  } catch (err) {
+    if (!signal.aborted) throw err;
+  }
+};
+
+// The job the user is following, so it can be picked up again after the browser is closed
+const activeJobKey = (userId: string) => `pixshop-active-batch-job-${userId}`;
+
+export const getActiveJobId = (userId: string) => localStorage.getItem(activeJobKey(userId));
+
+export const setActiveJobId = (userId: string, jobId: string | null) => {
+  if (jobId) localStorage.setItem(activeJobKey(userId), jobId);
+  else localStorage.removeItem(activeJobKey(userId));
+};
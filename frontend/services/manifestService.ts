@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as XLSX from 'xlsx';
+import { type QueueItem } from '../App';
+import { type CostLog } from './costService';
+import { COPY_LANGUAGES, type ProductCopy } from './copyService';
+
+export type ManifestFormat = 'xlsx' | 'csv';
+
+export type ManifestRow = Record<string, string | number>;
+
+// Cost entries are written by the backend right after each call; the margin absorbs clock skew between browser and server
+const COST_WINDOW_MARGIN_MS = 60_000;
+
+const statusLabels: Record<QueueItem['status'], string> = {
+    queued: 'Na fila',
+    processing: 'Processando',
+    done: 'Concluído',
+    error: 'Erro',
+};
+
+const copyFieldLabels: Record<keyof ProductCopy, string> = {
+    title: 'Título',
+    shortDescription: 'Descrição Curta',
+    longDescription: 'Descrição Longa',
+    bullets: 'Tópicos',
+    metaDescription: 'Meta Descrição',
+    keywords: 'Palavras-chave',
+};
+
+const FIXED_COLUMNS = ['SKU', 'Vista', 'Arquivo', 'URL na Galeria', 'Pasta', 'Status', 'Controle de Qualidade', 'Erro', 'Duração (s)', 'Custo do SKU (USD)'];
+
+// QC outcome of a view: approved at the first check, approved after corrections, or left for a human
+const describeQualityCheck = (item: QueueItem, view: string): string => {
+    const check = item.qualityChecks?.find(c => c.view === view);
+    if (!check) return '';
+    if (!check.passed) return 'Revisar';
+    return check.comparisons.length > 0 ? 'Corrigido' : 'Aprovado';
+};
+
+/**
+ * Sums the cost ledger entries of each item made while it was processed.
+ * @param items The queue items.
+ * @param costsByImage The ledger grouped by image name (see getAllCosts).
+ * @returns The cost of each item, by item ID.
+ */
+export const getItemCosts = (items: QueueItem[], costsByImage: Map<string, { logs: CostLog[] }>): Map<string, number> => {
+    const costs = new Map<string, number>();
+    items.forEach(item => {
+        const logs = costsByImage.get(item.baseName)?.logs;
+        if (!logs || item.startedAt === undefined) return;
+        const from = item.startedAt - COST_WINDOW_MARGIN_MS;
+        const to = item.startedAt + (item.durationMs ?? 0) + COST_WINDOW_MARGIN_MS;
+        costs.set(item.id, logs.filter(log => log.timestamp >= from && log.timestamp <= to).reduce((sum, log) => sum + log.cost, 0));
+    });
+    return costs;
+};
+
+/**
+ * Builds the manifest of a batch: one row per SKU and generated view.
+ * Items without results (failed or not processed) get a single row with their status and error.
+ * @param items The queue items.
+ * @param getFolderName Resolves the gallery folder of an item.
+ * @param itemCosts The cost of each item, by item ID (see getItemCosts).
+ */
+export const buildManifestRows = (items: QueueItem[], getFolderName: (item: QueueItem) => string, itemCosts: Map<string, number>): ManifestRow[] =>
+    items.flatMap(item => {
+        const description = item.aiStructuredDescription && !item.aiStructuredDescription.Erro ? item.aiStructuredDescription : {};
+        const base: ManifestRow = {
+            'SKU': item.baseName,
+            'Pasta': getFolderName(item),
+            'Status': statusLabels[item.status],
+            'Erro': item.error || '',
+            'Duração (s)': item.durationMs !== undefined ? Math.round(item.durationMs / 1000) : '',
+            'Custo do SKU (USD)': itemCosts.has(item.id) ? Number(itemCosts.get(item.id)!.toFixed(4)) : '',
+        };
+        Object.entries(description).forEach(([key, value]) => { base[`IA: ${key}`] = value; });
+        COPY_LANGUAGES.forEach(language => {
+            const copy = item.productCopy?.[language];
+            if (!copy) return;
+            (Object.keys(copyFieldLabels) as (keyof ProductCopy)[]).forEach(field => {
+                const value = copy[field];
+                base[`Texto ${language}: ${copyFieldLabels[field]}`] = Array.isArray(value) ? value.join(field === 'bullets' ? '\n' : ', ') : value;
+            });
+        });
+        Object.entries(item.metadata || {}).forEach(([key, value]) => { base[`Planilha: ${key}`] = value; });
+
+        if (!item.results?.length) return [{ ...base, 'Vista': '', 'Arquivo': '', 'URL na Galeria': '', 'Controle de Qualidade': '' }];
+        return item.results.map(result => ({
+            ...base,
+            'Vista': result.view,
+            'Arquivo': result.fileName,
+            'URL na Galeria': result.url,
+            'Controle de Qualidade': describeQualityCheck(item, result.view),
+        }));
+    });
+
+/**
+ * Downloads the manifest as an XLSX or CSV file.
+ * Columns keep a stable order: fixed fields, then AI description fields, then store copy, then spreadsheet columns.
+ */
+export const downloadManifest = (rows: ManifestRow[], format: ManifestFormat, baseFileName: string) => {
+    const extraColumns = Array.from(new Set(rows.flatMap(row => Object.keys(row)).filter(key => !FIXED_COLUMNS.includes(key))));
+    const header = [
+        ...FIXED_COLUMNS,
+        ...extraColumns.filter(key => key.startsWith('IA: ')),
+        ...extraColumns.filter(key => key.startsWith('Texto ')),
+        ...extraColumns.filter(key => !key.startsWith('IA: ') && !key.startsWith('Texto ')),
+    ];
+
+    const worksheet = XLSX.utils.json_to_sheet(rows, { header });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Manifesto');
+    XLSX.writeFile(workbook, `${baseFileName}.${format}`, { bookType: format });
+};
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type ReferenceRole } from './jobService';
+import { dataURLtoFile, fileToDataURL } from '../src/utils/fileUtils.ts';
+
+const LEGACY_PRESETS_KEY = 'pixshop-batch-presets';
+const EXPORT_FORMAT = 'pixshop-batch-preset';
+const EXPORT_FORMAT_VERSION = 1;
+
+const REFERENCE_ROLES: ReferenceRole[] = ['maleReferenceModel', 'femaleReferenceModel', 'referenceScene', 'referenceFit', 'maleReferenceBottom', 'femaleReferenceBottom'];
+
+export interface BatchModelNotes {
+    adult: { male: string; female: string; };
+    teenager: { male: string; female: string; };
+    child: { male: string; female: string; };
+    baby: string;
+    newborn: string;
+}
+
+// Text settings of the batch sidebar saved with a preset
+export interface PresetSettings {
+    clothingNotes: string;
+    sceneNotes: string;
+    negativePrompt: string;
+    sceneTheme: string;
+    modelNotes: BatchModelNotes;
+    modelAge: { male: string, female: string };
+    modelGender: 'male' | 'female';
+    targetDimensions: { width: string; height: string };
+    generationStyle: 'ecommerce' | 'editorial';
+    brand: string;
+    qualityControlRounds?: number;
+    candidatesPerView?: number;
+    identityIds?: { male: string; female: string };
+}
+
+// private: only the owner sees it; team: every user sees it and can save new versions
+export type PresetVisibility = 'private' | 'team';
+
+export interface PresetReference {
+    name: string;
+    mimeType: string;
+    storagePath: string;
+    url: string;
+}
+
+export type PresetReferences = Partial<Record<ReferenceRole, PresetReference>>;
+
+// Reference images of the shared settings (model, scene, fit, bottom), by role
+export type ReferenceFiles = Partial<Record<ReferenceRole, File | null>>;
+
+export interface BatchPreset {
+    id: string;
+    name: string;
+    ownerId: string;
+    brand: string; // Brand the preset applies to ('' = any)
+    visibility: PresetVisibility;
+    version: number;
+    settings: PresetSettings;
+    references: PresetReferences;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface PresetVersion {
+    version: number;
+    name: string;
+    settings: PresetSettings;
+    references: PresetReferences;
+    savedBy: string;
+    savedAt?: string;
+    restoredFrom?: number;
+}
+
+// Self-contained preset (references inlined as data URLs) handed between agencies as a JSON file
+interface PresetExport {
+    format: typeof EXPORT_FORMAT;
+    formatVersion: number;
+    name: string;
+    brand: string;
+    settings: PresetSettings;
+    references: Partial<Record<ReferenceRole, { name: string; dataUrl: string }>>;
+}
+
+const request = async <T>(url: string, token: string, init: RequestInit = {}, fallbackMessage: string): Promise<T> => {
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            ...(init.headers || {}),
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: fallbackMessage }));
+        throw new Error(errorData.message || fallbackMessage);
+    }
+
+    return response.json();
+};
+
+const buildPresetForm = (fields: Record<string, string | undefined>, settings: PresetSettings, references: ReferenceFiles) => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined) formData.append(key, value);
+    });
+    formData.append('settings', JSON.stringify(settings));
+    Object.entries(references).forEach(([role, file]) => {
+        if (file) formData.append(role, file, file.name);
+    });
+    return formData;
+};
+
+/**
+ * Fetches the user's presets and the ones shared with the team.
+ * @param token The Firebase auth token.
+ */
+export const getPresets = (token: string) =>
+    request<BatchPreset[]>('/api/presets', token, {}, 'Falha ao carregar os presets.');
+
+/**
+ * Creates a preset (version 1) with the settings and the reference images.
+ */
+export const createPreset = (
+    preset: { name: string; brand: string; visibility: PresetVisibility; settings: PresetSettings; references: ReferenceFiles },
+    token: string,
+) => request<BatchPreset>('/api/presets', token, {
+    method: 'POST',
+    body: buildPresetForm({ name: preset.name, brand: preset.brand, visibility: preset.visibility }, preset.settings, preset.references),
+}, 'Falha ao salvar o preset.');
+
+/**
+ * Saves the current settings and references as the next version of a preset.
+ * References left out are no longer part of the preset (older versions keep theirs).
+ */
+export const savePresetVersion = (presetId: string, settings: PresetSettings, references: ReferenceFiles, token: string, name?: string) =>
+    request<BatchPreset>(`/api/presets/${presetId}`, token, {
+        method: 'PUT',
+        body: buildPresetForm({ name }, settings, references),
+    }, 'Falha ao salvar a nova versão do preset.');
+
+/**
+ * Changes the visibility or the brand of a preset (owner or admin only).
+ */
+export const updatePreset = (presetId: string, fields: { visibility?: PresetVisibility; brand?: string }, token: string) =>
+    request<BatchPreset>(`/api/presets/${presetId}`, token, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+    }, 'Falha ao atualizar o preset.');
+
+export const deletePreset = (presetId: string, token: string) =>
+    request<{ message: string }>(`/api/presets/${presetId}`, token, { method: 'DELETE' }, 'Falha ao remover o preset.');
+
+/**
+ * Fetches the version history of a preset, newest first.
+ */
+export const getPresetVersions = (presetId: string, token: string) =>
+    request<PresetVersion[]>(`/api/presets/${presetId}/versions`, token, {}, 'Falha ao carregar o histórico do preset.');
+
+/**
+ * Restores an old version; it becomes the newest version, so no history is lost.
+ */
+export const restorePresetVersion = (presetId: string, version: number, token: string) =>
+    request<BatchPreset>(`/api/presets/${presetId}/versions/${version}/restore`, token, { method: 'POST' }, 'Falha ao restaurar a versão do preset.');
+
+/**
+ * Downloads the reference images of a preset as Files, ready for the shared settings.
+ * Roles without a reference, or whose image can no longer be downloaded, come back as null so loading a preset clears them.
+ */
+export const loadPresetReferenceFiles = async (references: PresetReferences): Promise<ReferenceFiles> => {
+    const entries = await Promise.all(REFERENCE_ROLES.map(async role => {
+        const reference = references[role];
+        if (!reference) return [role, null] as const;
+        const response = await fetch(reference.url);
+        // A missing or expired Storage object answers with an error page, not the image
+        if (!response.ok) {
+            console.warn(`Reference image "${reference.name}" (${role}) could not be loaded: HTTP ${response.status}. Skipping it.`);
+            return [role, null] as const;
+        }
+        const blob = await response.blob();
+        return [role, new File([blob], reference.name, { type: reference.mimeType })] as const;
+    }));
+    return Object.fromEntries(entries) as ReferenceFiles;
+};
+
+/**
+ * Downloads a preset as a self-contained JSON file (reference images included).
+ */
+export const exportPreset = async (preset: { name: string; brand: string; settings: PresetSettings }, references: ReferenceFiles) => {
+    const inlined: PresetExport['references'] = {};
+    for (const role of REFERENCE_ROLES) {
+        const file = references[role];
+        if (file) inlined[role] = { name: file.name, dataUrl: await fileToDataURL(file) };
+    }
+    const payload: PresetExport = { format: EXPORT_FORMAT, formatVersion: EXPORT_FORMAT_VERSION, ...preset, references: inlined };
+
+    const url = URL.createObjectURL(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `preset-${preset.name.replace(/[^\w-]+/g, '_')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads a preset exported with exportPreset.
+ * @throws If the file is not a preset export.
+ */
+export const parsePresetFile = async (file: File): Promise<{ name: string; brand: string; settings: PresetSettings; references: ReferenceFiles }> => {
+    let payload: PresetExport;
+    try {
+        payload = JSON.parse(await file.text());
+    } catch {
+        throw new Error('O arquivo não é um JSON válido.');
+    }
+    if (payload?.format !== EXPORT_FORMAT || typeof payload.name !== 'string' || !payload.settings) {
+        throw new Error('O arquivo não é um preset exportado pelo Pixshop.');
+    }
+    if (payload.formatVersion > EXPORT_FORMAT_VERSION) {
+        throw new Error('O preset foi exportado por uma versão mais nova do Pixshop.');
+    }
+
+    const references: ReferenceFiles = {};
+    REFERENCE_ROLES.forEach(role => {
+        const reference = payload.references?.[role];
+        if (reference) references[role] = dataURLtoFile(reference.dataUrl, reference.name);
+    });
+    return { name: payload.name, brand: payload.brand || '', settings: payload.settings, references };
+};
+
+/**
+ * Moves the presets saved in this browser (before presets lived on the server) to the user's private presets.
+ * Runs once: the local copy is removed after the upload.
+ * @param token The Firebase auth token.
+ * @returns How many presets were moved.
+ */
+export const importLocalPresets = async (token: string): Promise<number> => {
+    const saved = localStorage.getItem(LEGACY_PRESETS_KEY);
+    if (!saved) return 0;
+
+    const legacy: { name: string; settings: PresetSettings }[] = JSON.parse(saved);
+    for (const preset of legacy) {
+        await createPreset({ name: preset.name, brand: preset.settings.brand || '', visibility: 'private', settings: preset.settings, references: {} }, token);
+    }
+    localStorage.removeItem(LEGACY_PRESETS_KEY);
+    return legacy.length;
+};
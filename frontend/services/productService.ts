@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// An input photo of the product (the photographed garment)
+export interface ProductImage {
+  name: string;
+  url: string;
+  color?: string;
+}
+
+// A generated image of the product, with its view and the gallery item it was saved as
+export interface ProductOutput {
+  view: string;
+  name: string;
+  url: string;
+  galleryId: string;
+  color?: string;
+  createdAt: string;
+}
+
+// A catalog product: one SKU of a brand, with its color variants, inputs, description, spreadsheet row and outputs
+export interface Product {
+  id: string;
+  sku: string;
+  brand: string;
+  collection: string;
+  colors: string[];
+  inputs: ProductImage[];
+  description: Record<string, string> | null; // describeClothing JSON
+  metadata: Record<string, string>; // Spreadsheet row
+  outputs: ProductOutput[];
+  createdBy: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// A processed batch item, linked to the product of its SKU
+export interface ProductRecord {
+  sku: string;
+  brand: string;
+  color?: string;
+  collection?: string;
+  description?: Record<string, string> | null;
+  metadata?: Record<string, string>;
+  outputs?: Omit<ProductOutput, 'createdAt' | 'color'>[];
+}
+
+export type ProductFields = Partial<Pick<Product, 'collection' | 'colors' | 'description' | 'metadata'>>;
+
+export interface ProductFilters {
+  search?: string;
+  brand?: string;
+  collection?: string;
+  startAfter?: string; // Id of the last product of the previous page
+}
+
+// Products per page returned by the server when no page size is given
+export const PRODUCTS_PAGE_SIZE = 50;
+
+const sendProductRequest = async <T>(url: string, method: string, token: string, body?: FormData | object): Promise<T> => {
+  const isForm = body instanceof FormData;
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com o catálogo de produtos.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Lists one page of the user's catalog products (every user's, for admins), most recently updated first.
+ * With a search, lists the products whose SKU starts with it, in SKU order.
+ * @param filters SKU prefix search, exact brand / collection filters and the page cursor.
+ * @param token The Firebase auth token.
+ */
+export const getProducts = (filters: ProductFilters, token: string): Promise<Product[]> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value?.trim()) params.append(key, value.trim());
+  });
+  const query = params.toString();
+  return sendProductRequest<Product[]>(`/api/products${query ? `?${query}` : ''}`, 'GET', token);
+};
+
+export const getProduct = (productId: string, token: string): Promise<Product> =>
+  sendProductRequest<Product>(`/api/products/${encodeURIComponent(productId)}`, 'GET', token);
+
+/**
+ * Records a processed item in the product of its SKU, creating the product on the first time.
+ * Input photos the product already has (same file name) are not stored again.
+ * @param record The SKU, brand, color and the item's description, spreadsheet row and outputs.
+ * @param inputs The item's input photos.
+ * @param token The Firebase auth token.
+ */
+export const recordProduct = (record: ProductRecord, inputs: File[], token: string): Promise<Product> => {
+  const formData = new FormData();
+  formData.append('product', JSON.stringify(record));
+  inputs.forEach(file => formData.append('inputs', file, file.name));
+  return sendProductRequest<Product>('/api/products', 'POST', token, formData);
+};
+
+/**
+ * Updates the editable fields of a product (collection, colors, description, spreadsheet row).
+ */
+export const updateProduct = (productId: string, fields: ProductFields, token: string): Promise<Product> =>
+  sendProductRequest<Product>(`/api/products/${encodeURIComponent(productId)}`, 'PATCH', token, fields);
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Steps of the AI pipeline whose prompts are managed on the server
+export type PromptTemplateKey =
+  | 'enhance' | 'editMask' | 'editHotspot' | 'poseVariation' | 'outpainting' | 'ageTraining'
+  | 'fitAnalysis' | 'describe' | 'copy' | 'modelGeneration' | 'qualityCheck' | 'correction';
+
+export interface PromptTemplateVersion {
+  version: number;
+  text: string;
+  note: string;
+  createdBy: string | null;
+  createdAt: string | null;
+}
+
+/**
+ * A prompt's history in the global scope or for one brand.
+ * Version 0 is the built-in default text (global) or turns the brand override off.
+ */
+export interface PromptTemplateScope {
+  brand: string | null;
+  activeVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+export interface PromptTemplate {
+  key: PromptTemplateKey;
+  label: string;
+  description: string;
+  variables: string[]; // Accepted {{variables}}; {{#x}}...{{/x}} is only kept when x has a value
+  defaultText: string;
+  global: PromptTemplateScope;
+  overrides: PromptTemplateScope[]; // Per-brand overrides
+}
+
+const sendPromptRequest = async <T>(url: string, method: string, token: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com os templates de prompt.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches every prompt template with its history and brand overrides. Requires an admin authorization token.
+ */
+export const getPromptTemplates = (token: string): Promise<PromptTemplate[]> =>
+  sendPromptRequest<PromptTemplate[]>('/api/prompt-templates', 'GET', token);
+
+/**
+ * Saves a new version of a prompt and makes it active.
+ * @param brand The brand to override, or null for the global prompt.
+ * @returns The updated scope, with its full history.
+ */
+export const savePromptTemplateVersion = (key: PromptTemplateKey, brand: string | null, text: string, note: string, token: string): Promise<PromptTemplateScope> =>
+  sendPromptRequest<PromptTemplateScope>(`/api/prompt-templates/${key}`, 'PUT', token, { brand, text, note });
+
+/**
+ * Activates an earlier version of a prompt (rollback). Version 0 restores the default.
+ * @param brand The brand override, or null for the global prompt.
+ */
+export const activatePromptTemplateVersion = (key: PromptTemplateKey, brand: string | null, version: number, token: string): Promise<PromptTemplateScope> =>
+  sendPromptRequest<PromptTemplateScope>(`/api/prompt-templates/${key}/activate`, 'POST', token, { brand, version });
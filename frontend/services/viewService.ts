@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// What is done to a generated view to reach the batch's final dimensions
+export type ViewPostProcess = 'expand' | 'crop' | 'pad';
+
+// An output view of the batch ("Total Look", "Crop Frente", "Flat lay"...), managed by the admins
+export interface ViewDefinition {
+  id: string;
+  name: string;
+  framingPrompt: string; // Framing instruction sent to the model
+  aspectRatio: string; // Aspect ratio asked to the model (e.g. '1:1', '3:4')
+  postProcess: ViewPostProcess;
+  outputSuffix: string; // Suffix of the generated file (SKU-<suffix>-0.png)
+  needsBackPhoto: boolean; // Uses the item's back photo and keeps the back of the garment in focus
+  order: number;
+}
+
+export type ViewDefinitionInput = Omit<ViewDefinition, 'id' | 'order'> & { order?: number };
+
+const sendViewRequest = async <T>(url: string, method: string, token: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com o catálogo de vistas.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches the catalog of output views, in display order.
+ * @param token The Firebase auth token.
+ */
+export const getViewDefinitions = (token: string): Promise<ViewDefinition[]> =>
+  sendViewRequest<ViewDefinition[]>('/api/views', 'GET', token);
+
+/**
+ * Adds a view to the end of the catalog. Requires an admin authorization token.
+ */
+export const createViewDefinition = (input: ViewDefinitionInput, token: string): Promise<ViewDefinition> =>
+  sendViewRequest<ViewDefinition>('/api/views', 'POST', token, input);
+
+/**
+ * Updates a view of the catalog. Requires an admin authorization token.
+ */
+export const updateViewDefinition = (viewId: string, input: Partial<ViewDefinitionInput>, token: string): Promise<ViewDefinition> =>
+  sendViewRequest<ViewDefinition>(`/api/views/${viewId}`, 'PUT', token, input);
+
+/**
+ * Removes a view from the catalog. Requires an admin authorization token.
+ */
+export const deleteViewDefinition = async (viewId: string, token: string): Promise<void> => {
+  await sendViewRequest<{ message: string }>(`/api/views/${viewId}`, 'DELETE', token);
+};
+
+/**
+ * Finds the definition of a view by name (case-insensitive).
+ * Views missing from the catalog (e.g. removed after being saved in a preset) are cropped to the final size,
+ * same as the server does.
+ */
+export const findViewDefinition = (views: ViewDefinition[], name: string): ViewDefinition =>
+  views.find(view => view.name.trim().toLowerCase() === name.trim().toLowerCase()) || {
+    id: '',
+    name,
+    framingPrompt: name,
+    aspectRatio: '1:1',
+    postProcess: 'crop',
+    outputSuffix: name.replace(/\s+/g, '_'),
+    needsBackPhoto: false,
+    order: views.length,
+  };
+
+/**
+ * Tells whether a file is the back photo of an item, by its suffix (SKU_costas.jpg, SKU_back_2.png).
+ */
+export const isBackPhoto = (fileName: string): boolean =>
+  /_(costas|back)(_\d{1,2})?$/i.test(fileName.replace(/\.[^/.]+$/, '').trim());
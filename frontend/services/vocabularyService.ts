@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Admin-managed vocabularies the described garment attributes are normalized to
+export type VocabularyId =
+  | 'garmentType' | 'color' | 'pattern' | 'fabric' | 'fit' | 'pockets'
+  | 'closure' | 'neckline' | 'sleeveLength' | 'transparency' | 'occasion';
+
+export interface VocabularyTerm {
+  value: string; // Canonical value, used as the store filter facet
+  synonyms: string[]; // Variations accepted and mapped to the canonical value
+  hex?: string; // Swatch (colors only)
+}
+
+export interface Vocabulary {
+  id: VocabularyId;
+  attribute: string; // Attribute key in the description ("Tipo de Peça", "Caimento"...)
+  multiple: boolean; // Accepts more than one value (e.g. colors)
+  terms: VocabularyTerm[];
+  updatedAt?: string;
+}
+
+const sendVocabularyRequest = async <T>(url: string, method: string, token: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Falha na operação com o vocabulário de atributos.');
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetches every attribute vocabulary, in description order.
+ * @param token The Firebase auth token.
+ */
+export const getVocabularies = (token: string): Promise<Vocabulary[]> =>
+  sendVocabularyRequest<Vocabulary[]>('/api/vocabularies', 'GET', token);
+
+/**
+ * Replaces the terms of a vocabulary. Requires an admin authorization token.
+ */
+export const saveVocabularyTerms = (vocabularyId: VocabularyId, terms: VocabularyTerm[], token: string): Promise<Vocabulary> =>
+  sendVocabularyRequest<Vocabulary>(`/api/vocabularies/${vocabularyId}`, 'PUT', token, { terms });
+
+/**
+ * Swatches of the colors listed in a description value (e.g. "Preto, Branco"), for the colors that have one.
+ * Attributes other than the color one have no swatches.
+ */
+export const findColorSwatches = (vocabularies: Vocabulary[], attribute: string, value: string): { value: string; hex: string }[] => {
+  const colors = vocabularies.find(vocabulary => vocabulary.id === 'color');
+  if (!colors || colors.attribute !== attribute) return [];
+  return value.split(',').map(part => part.trim()).flatMap(part => {
+    const term = colors.terms.find(t => t.value === part);
+    return term?.hex ? [{ value: term.value, hex: term.hex }] : [];
+  });
+};